@@ -1,6 +1,6 @@
 'use client'
 
-import { useMemo } from 'react'
+import { useEffect, useMemo } from 'react'
 import { useRouter } from 'next/navigation'
 import {
   Sidebar,
@@ -17,12 +17,25 @@ import {
   SidebarTrigger,
 } from '~/components/ui/sidebar'
 import { Button } from '~/components/ui/button'
-import { Pin, PinOff, Pencil, Search, X } from 'lucide-react'
+import { Download, FileJson, FileText, FileCode, Pin, PinOff, Pencil, Search, TextSearch, Upload, X } from 'lucide-react'
+import { toast } from 'sonner'
 import { useChatStore, type ChatListItem } from '~/lib/chat-store'
 import { useMemo as _useMemoRef, useRef, useState } from 'react'
 import { Dialog, DialogContent, DialogTitle, DialogDescription, DialogFooter } from '../../components/ui/dialog'
-import { ContextMenu, ContextMenuContent, ContextMenuItem, ContextMenuTrigger } from '~/components/ui/context-menu'
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuSub,
+  ContextMenuSubContent,
+  ContextMenuSubTrigger,
+  ContextMenuTrigger,
+} from '~/components/ui/context-menu'
 import { api } from '~/trpc/react'
+import { MessageSearchDialog } from './message-search-dialog'
+import type { ChatExportFormat } from '~/lib/chat-export/types'
+import type { GenerationOptions } from '~/lib/generation-options'
 
 type Buckets = {
   Today: ChatListItem[]
@@ -49,9 +62,54 @@ function groupByDate(chats: ChatListItem[]): Buckets {
   return buckets
 }
 
+function downloadFile(fileName: string, mimeType: string, content: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
+type ChatTransferMenuItemsProps = {
+  chatId: string
+  onExport: (chatId: string | undefined, format: ChatExportFormat) => void
+  onImport: () => void
+}
+
+function ChatTransferMenuItems({ chatId, onExport, onImport }: ChatTransferMenuItemsProps) {
+  return (
+    <>
+      <ContextMenuSeparator />
+      <ContextMenuSub>
+        <ContextMenuSubTrigger>
+          <Download className="mr-2 h-4 w-4" /> Export chat
+        </ContextMenuSubTrigger>
+        <ContextMenuSubContent>
+          <ContextMenuItem onClick={() => onExport(chatId, 'markdown')}>
+            <FileText className="mr-2 h-4 w-4" /> Markdown
+          </ContextMenuItem>
+          <ContextMenuItem onClick={() => onExport(chatId, 'html')}>
+            <FileCode className="mr-2 h-4 w-4" /> HTML
+          </ContextMenuItem>
+          <ContextMenuItem onClick={() => onExport(chatId, 'json')}>
+            <FileJson className="mr-2 h-4 w-4" /> JSON (re-importable)
+          </ContextMenuItem>
+        </ContextMenuSubContent>
+      </ContextMenuSub>
+      <ContextMenuItem onClick={() => onExport(undefined, 'json')}>
+        <Download className="mr-2 h-4 w-4" /> Export all chats
+      </ContextMenuItem>
+      <ContextMenuItem onClick={onImport}>
+        <Upload className="mr-2 h-4 w-4" /> Import chats…
+      </ContextMenuItem>
+    </>
+  )
+}
+
 export function ChatSelectSidebar() {
   const router = useRouter()
-  const { chats, selectedChatId, deleteChat, renameChat, pinChat } = useChatStore()
+  const { chats, selectedChatId, deleteChat, renameChat, pinChat, addChats } = useChatStore()
   const { isLoading: isLoadingChats } = api.chats.list.useQuery(undefined, {
     refetchOnWindowFocus: false,
     staleTime: 5_000
@@ -60,6 +118,52 @@ export function ChatSelectSidebar() {
   const [query, setQuery] = useState('')
   const [renamingId, setRenamingId] = useState<string | null>(null)
   const renameInputRef = useRef<HTMLInputElement | null>(null)
+  const [messageSearchOpen, setMessageSearchOpen] = useState(false)
+  const importInputRef = useRef<HTMLInputElement | null>(null)
+  const utils = api.useUtils()
+  const importMutation = api.chats.import.useMutation()
+
+  const exportChats = async (chatId: string | undefined, format: ChatExportFormat) => {
+    try {
+      const file = await utils.chats.export.fetch({ chatId, format })
+      downloadFile(file.fileName, file.mimeType, file.content)
+    } catch (e) {
+      toast.error('Export failed', { description: (e as Error).message })
+    }
+  }
+
+  const importChats = async (file: File) => {
+    try {
+      const { chats: imported } = await importMutation.mutateAsync({ content: await file.text() })
+      addChats(imported.map(c => ({
+        id: c.id,
+        title: c.title,
+        createdAt: new Date(c.createdAt).getTime(),
+        pinned: c.pinned,
+        lastSetModel: c.lastSetModel,
+        lastSetPrompt: c.lastSetPrompt,
+        lastSetOptions: (c.lastSetOptions as GenerationOptions | null) ?? null,
+        endpointId: c.endpointId,
+        activeLeafId: c.activeLeafId,
+      })))
+      toast.success(`Imported ${imported.length} chat${imported.length === 1 ? '' : 's'}`)
+      if (imported.length === 1) router.push(`/chat/${imported[0]!.id}`)
+    } catch (e) {
+      toast.error('Import failed', { description: (e as Error).message })
+    }
+  }
+
+  // Cmd/Ctrl+K opens message search from anywhere
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault()
+        setMessageSearchOpen(open => !open)
+      }
+    }
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  }, [])
 
   const pinned = useMemo(() => chats.filter(c => c.pinned), [chats])
   const unpinnedSorted = useMemo(
@@ -110,6 +214,15 @@ export function ChatSelectSidebar() {
               onChange={(e) => setQuery(e.target.value)}
             />
           </div>
+          <button
+            type="button"
+            onClick={() => setMessageSearchOpen(true)}
+            className="flex w-full items-center gap-3 py-1.5 text-xs text-muted-foreground hover:text-foreground"
+          >
+            <TextSearch className="-ml-[3px] mr-1 h-4 w-4" />
+            <span>Search messages</span>
+            <kbd className="ml-auto rounded border border-white/10 px-1.5 text-[10px]">⌘K</kbd>
+          </button>
         </div>
         <SidebarSeparator className="mx-3" />
       </SidebarHeader>
@@ -190,6 +303,7 @@ export function ChatSelectSidebar() {
                           <ContextMenuItem onClick={() => pinChat(chat.id, false)}>
                             <PinOff className="mr-2 h-4 w-4" /> Unpin chat
                           </ContextMenuItem>
+                          <ChatTransferMenuItems chatId={chat.id} onExport={exportChats} onImport={() => importInputRef.current?.click()} />
                         </ContextMenuContent>
                       </ContextMenu>
                     </SidebarMenuItem>
@@ -265,6 +379,7 @@ export function ChatSelectSidebar() {
                             <ContextMenuItem onClick={() => pinChat(chat.id, true)}>
                               <Pin className="mr-2 h-4 w-4" /> Pin chat
                             </ContextMenuItem>
+                            <ChatTransferMenuItems chatId={chat.id} onExport={exportChats} onImport={() => importInputRef.current?.click()} />
                           </ContextMenuContent>
                         </ContextMenu>
                       </SidebarMenuItem>
@@ -279,6 +394,18 @@ export function ChatSelectSidebar() {
       </SidebarContent>
       {/* <SidebarFooter>
       </SidebarFooter> */}
+      <MessageSearchDialog open={messageSearchOpen} onOpenChange={setMessageSearchOpen} />
+      <input
+        ref={importInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0]
+          e.target.value = ''
+          if (file) void importChats(file)
+        }}
+      />
       <Dialog open={!!confirmId} onOpenChange={(open: boolean) => { if (!open) setConfirmId(null) }}>
         <DialogContent>
           <DialogTitle>Delete chat?</DialogTitle>
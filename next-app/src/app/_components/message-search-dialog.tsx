@@ -0,0 +1,116 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Loader2, MessageSquare, Search } from 'lucide-react'
+import { api } from '~/trpc/react'
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from '~/components/ui/dialog'
+
+type MessageSearchDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+/** Command-palette style search over every chat's messages (Cmd/Ctrl+K) */
+export function MessageSearchDialog({ open, onOpenChange }: MessageSearchDialogProps) {
+  const router = useRouter()
+  const [input, setInput] = useState('')
+  const [query, setQuery] = useState('')
+  const [activeIndex, setActiveIndex] = useState(0)
+  const listRef = useRef<HTMLDivElement | null>(null)
+
+  // Debounce so every keystroke doesn't hit the index
+  useEffect(() => {
+    const t = setTimeout(() => setQuery(input.trim()), 150)
+    return () => clearTimeout(t)
+  }, [input])
+
+  useEffect(() => {
+    if (!open) {
+      setInput('')
+      setQuery('')
+    }
+  }, [open])
+
+  const { data, isFetching } = api.messages.search.useQuery(
+    { query },
+    { enabled: open && query.length > 0, refetchOnWindowFocus: false, placeholderData: (prev) => prev }
+  )
+  const results = query ? data?.results ?? [] : []
+
+  useEffect(() => setActiveIndex(0), [query])
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' })
+  }, [activeIndex])
+
+  const openResult = (index: number) => {
+    const r = results[index]
+    if (!r) return
+    onOpenChange(false)
+    router.push(`/chat/${r.chatId}?message=${r.messageId}`)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="top-[20%] translate-y-0 max-w-xl p-0 gap-0 overflow-hidden">
+        <DialogTitle className="sr-only">Search messages</DialogTitle>
+        <DialogDescription className="sr-only">Search across all chats and jump to a message</DialogDescription>
+        <div className="flex items-center gap-2 border-b border-white/10 px-3">
+          {isFetching ? <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" /> : <Search className="h-4 w-4 text-muted-foreground" />}
+          <input
+            autoFocus
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'ArrowDown') {
+                e.preventDefault()
+                setActiveIndex(i => Math.min(i + 1, results.length - 1))
+              } else if (e.key === 'ArrowUp') {
+                e.preventDefault()
+                setActiveIndex(i => Math.max(i - 1, 0))
+              } else if (e.key === 'Enter') {
+                e.preventDefault()
+                openResult(activeIndex)
+              }
+            }}
+            placeholder="Search all messages…"
+            className="h-11 w-full bg-transparent text-sm text-foreground placeholder-muted-foreground/50 focus:outline-none"
+          />
+        </div>
+        <div ref={listRef} className="max-h-[50vh] overflow-y-auto p-1">
+          {query && !isFetching && results.length === 0 && (
+            <div className="px-3 py-6 text-center text-sm text-muted-foreground">No messages found</div>
+          )}
+          {!query && (
+            <div className="px-3 py-6 text-center text-sm text-muted-foreground">Type to search messages in every chat</div>
+          )}
+          {results.map((r, i) => (
+            <button
+              key={r.messageId}
+              type="button"
+              data-index={i}
+              onMouseEnter={() => setActiveIndex(i)}
+              onClick={() => openResult(i)}
+              className={`flex w-full flex-col gap-1 rounded-md px-3 py-2 text-left ${i === activeIndex ? 'bg-[#113936]/50' : ''}`}
+            >
+              <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                <MessageSquare className="h-3 w-3" />
+                <span className="truncate font-medium text-[#cde3df]">{r.chatTitle}</span>
+                <span>· {r.role === 'USER' ? 'You' : 'Assistant'}</span>
+                <span className="ml-auto shrink-0">{new Date(r.createdAt).toLocaleDateString()}</span>
+              </div>
+              <div className="line-clamp-2 text-sm text-neutral-300">
+                {r.highlights.map((h, j) => (
+                  h.match
+                    ? <mark key={j} className="rounded-sm bg-[#22c55e]/25 px-0.5 text-white">{h.text}</mark>
+                    : <span key={j}>{h.text}</span>
+                ))}
+              </div>
+            </button>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,59 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { toast } from "sonner"
+import { api } from "~/trpc/react"
+import { describePullProgress } from "~/lib/models/pull-progress"
+
+/**
+ * One toast per model download, on every page. Progress updates the same toast in place
+ * and the final state replaces it once the pull shows up in the history.
+ */
+export function PullToasts() {
+  const { data } = api.pulls.list.useQuery(undefined, {
+    refetchInterval: (query) => (query.state.data?.active.length ? 1_000 : 5_000),
+    retry: false,
+  })
+  const cancelMutation = api.pulls.cancel.useMutation()
+  const shown = useRef(new Set<string>())
+
+  useEffect(() => {
+    if (!data) return
+    for (const pull of data.active) {
+      shown.current.add(pull.id)
+      const percent = typeof pull.percent === "number" ? ` (${pull.percent}%)` : ""
+      toast.loading(`Pulling ${pull.model}${percent}`, {
+        id: pull.id,
+        description: describePullProgress(pull),
+        action: {
+          label: "Cancel",
+          onClick: () => {
+            cancelMutation.mutate({ id: pull.id })
+          },
+        },
+      })
+    }
+    for (const pull of data.history) {
+      if (!shown.current.has(pull.id)) continue
+      shown.current.delete(pull.id)
+      if (pull.status === "completed") {
+        toast.success(`Pulled ${pull.model}`, { id: pull.id, description: undefined, action: undefined })
+      } else if (pull.status === "cancelled") {
+        toast.info(`Cancelled pulling ${pull.model}`, { id: pull.id, description: undefined, action: undefined })
+      } else {
+        toast.error(`Pull failed for ${pull.model}`, { id: pull.id, description: pull.error ?? undefined, action: undefined })
+      }
+    }
+    // Pulls that vanished without reaching the history (e.g. history cleared) just lose their toast
+    const known = new Set([...data.active, ...data.history].map((p) => p.id))
+    for (const id of shown.current) {
+      if (!known.has(id)) {
+        shown.current.delete(id)
+        toast.dismiss(id)
+      }
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [data])
+
+  return null
+}
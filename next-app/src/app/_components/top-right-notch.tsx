@@ -1,9 +1,19 @@
 "use client"
 
-import { Settings } from "lucide-react"
+import { Cpu, Settings } from "lucide-react"
 import Link from "next/link"
+import { toast } from "sonner"
+import { api } from "~/trpc/react"
 import { cn } from "~/lib/utils"
+import { formatExpiry, formatMemory, formatProcessor } from "~/lib/models/running"
 import { Button } from "~/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "~/components/ui/dropdown-menu"
 import { Tooltip, TooltipContent, TooltipTrigger } from "~/components/ui/tooltip"
 
 export default function TopRightNotch({ className }: { className?: string }) {
@@ -19,6 +29,7 @@ export default function TopRightNotch({ className }: { className?: string }) {
           "rounded-tl-xl rounded-br-xl rounded-tr-md rounded-bl-md px-1.5 py-1"
         )}
       >
+        <LoadedModelsIndicator />
         <Tooltip>
           <TooltipTrigger asChild>
             <Button
@@ -41,3 +52,70 @@ export default function TopRightNotch({ className }: { className?: string }) {
 }
 
 
+
+/** Models loaded on the default endpoint; hidden when nothing is loaded or Ollama is down */
+function LoadedModelsIndicator() {
+  const utils = api.useUtils()
+  const { data } = api.models.running.useQuery(undefined, { refetchInterval: 10_000, retry: false })
+  const unloadMutation = api.models.unload.useMutation()
+  const models = data?.models ?? []
+  if (models.length === 0) return null
+
+  const totalBytes = models.reduce((acc, m) => acc + m.size, 0)
+  const unload = async (model: string) => {
+    try {
+      await unloadMutation.mutateAsync({ model })
+      toast.success(`Unloaded ${model}`)
+    } catch (e) {
+      toast.error(`Failed to unload ${model}`, { description: String((e as Error).message || e) })
+    } finally {
+      await utils.models.running.invalidate()
+    }
+  }
+
+  return (
+    <DropdownMenu>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 gap-1 px-1.5 text-neutral-200 hover:text-white hover:bg-white/10"
+              aria-label="Loaded models"
+            >
+              <Cpu className="h-4 w-4" />
+              <span className="text-xs">{models.length}</span>
+            </Button>
+          </DropdownMenuTrigger>
+        </TooltipTrigger>
+        <TooltipContent side="bottom">
+          {models.length === 1 ? "1 model loaded" : `${models.length} models loaded`} · {formatMemory(totalBytes)}
+        </TooltipContent>
+      </Tooltip>
+      <DropdownMenuContent align="end" className="w-72">
+        <DropdownMenuLabel>Loaded models</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {models.map((m) => (
+          <div key={m.name} className="flex items-center justify-between gap-2 px-2 py-1.5">
+            <div className="min-w-0">
+              <div className="truncate text-sm">{m.name}</div>
+              <div className="truncate text-xs text-neutral-400">
+                {formatMemory(m.size)} · {formatProcessor(m.size, m.sizeVram)} · {formatExpiry(m.expiresAt, Date.now())}
+              </div>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 shrink-0 px-2 text-xs"
+              onClick={() => unload(m.name)}
+              disabled={unloadMutation.isPending}
+            >
+              Unload
+            </Button>
+          </div>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+
+const NULL_BODY_STATUSES = new Set([204, 205, 304]);
+
+/**
+ * Local stub for trying out HTTP tools from Settings: answers every request with what it received.
+ * `?status=404` makes it fail on purpose.
+ */
+async function echo(req: Request) {
+  const url = new URL(req.url);
+  const text = req.method === "GET" || req.method === "DELETE" ? "" : await req.text();
+  let body: unknown = text || null;
+  if (text && req.headers.get("content-type")?.includes("json")) {
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // Echo malformed JSON back as text
+    }
+  }
+
+  const requested = Number(url.searchParams.get("status"));
+  const status = requested >= 200 && requested <= 599 ? requested : 200;
+  // These statuses can't carry a body
+  if (NULL_BODY_STATUSES.has(status)) {
+    return new Response(null, { status });
+  }
+  return NextResponse.json(
+    {
+      method: req.method,
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams),
+      headers: Object.fromEntries(req.headers),
+      body,
+    },
+    { status }
+  );
+}
+
+export { echo as GET, echo as POST, echo as PUT, echo as PATCH, echo as DELETE };
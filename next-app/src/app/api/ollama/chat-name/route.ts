@@ -1,15 +1,19 @@
 import { NextResponse } from "next/server";
-import { Ollama } from "ollama";
-
-const client = new Ollama({ host: "http://127.0.0.1:11434" });
+import { getOllamaClient, isConnectionRefused, connectionErrorMessage, DEFAULT_OLLAMA_HOST } from "~/lib/ollama/client";
 
 export async function POST(req: Request) {
+  let host = DEFAULT_OLLAMA_HOST;
   try {
-    const { model, firstMessage, maxLen } = (await req.json()) as {
+    const { model, firstMessage, maxLen, chatId, endpointId } = (await req.json()) as {
       model: string;
       firstMessage: string;
       maxLen?: number;
+      chatId?: string;
+      endpointId?: string | null;
     };
+    const resolved = await getOllamaClient({ endpointId, chatId });
+    const client = resolved.client;
+    host = resolved.host;
     const prompt = `Generate a concise, single-line chat title (max 60 chars) for this first user message. Respond only with the concise title and nothing else. No quotes, no punctuation at the end.\n\nMessage:\n"""${firstMessage}"""`;
     let res: any;
     try {
@@ -20,9 +24,9 @@ export async function POST(req: Request) {
       })) as any;
     } catch (e: unknown) {
       const err = e as Error;
-      const isConnRefused = /ECONNREFUSED|fetch failed|ENOTFOUND|EHOSTUNREACH/i.test(String(err.message));
+      const isConnRefused = isConnectionRefused(err);
       const msg = isConnRefused
-        ? "Cannot connect to Ollama at 127.0.0.1:11434. Start Ollama (ollama serve)."
+        ? connectionErrorMessage(host)
         : `Failed to generate chat name: ${err.message}`;
       return NextResponse.json({ error: msg, code: isConnRefused ? "OLLAMA_UNAVAILABLE" : "OLLAMA_CHATNAME_ERROR" }, { status: 503 });
     }
@@ -37,9 +41,9 @@ export async function POST(req: Request) {
     return NextResponse.json({ title });
   } catch (err: unknown) {
     const e = err as Error;
-    const isConnRefused = /ECONNREFUSED|fetch failed|ENOTFOUND|EHOSTUNREACH/i.test(String(e.message));
+    const isConnRefused = isConnectionRefused(e);
     const msg = isConnRefused
-      ? "Cannot connect to Ollama at 127.0.0.1:11434. Start Ollama (ollama serve)."
+      ? connectionErrorMessage(host)
       : `Unexpected server error: ${e.message}`;
     return NextResponse.json({ error: msg, code: isConnRefused ? "OLLAMA_UNAVAILABLE" : "SERVER_ERROR" }, { status: 500 });
   }
@@ -1,38 +1,91 @@
 import { NextResponse } from "next/server";
-import { Ollama } from "ollama";
 import { db } from "~/server/db";
 import { $Enums } from "@prisma/client";
-import { toolRegistry } from "~/lib/tools";
+import { toolRegistry, toolApprovals, parseToolSelection, type ToolSelection } from "~/lib/tools";
 import { modelsService } from "~/lib/models/service";
+import { defaultToolLimits, normalizeGenerationOptions } from "~/lib/generation-options";
+import { applyContextBudget, getContextLength, summarizeMessages } from "~/lib/context-budget";
+import { knowledgeBaseService } from "~/lib/knowledge-base/service";
+import { messageSearchIndex } from "~/lib/search/message-index";
+import { addOllamaDoneStats, emptyGenerationStats } from "~/lib/generation-stats";
+import { getOllamaClient, isConnectionRefused, connectionErrorMessage, DEFAULT_OLLAMA_HOST, getDefaultKeepAlive } from "~/lib/ollama/client";
+import type { ToolLimitNotice, UIMessagePart } from "~/lib/chat-types";
+
+// Arguments to run a tool call with (possibly edited by the user), or why it was refused
+type ToolAuthorization = { arguments: Record<string, any> } | { error: string };
+
+const TIMED_OUT = Symbol("timed out");
+
+// Resolves to TIMED_OUT if the run takes longer than `ms`, aborting its signal so HTTP and MCP
+// calls stop instead of finishing in the background
+async function withTimeout<T>(run: (signal: AbortSignal) => Promise<T>, ms: number): Promise<T | typeof TIMED_OUT> {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<typeof TIMED_OUT>((resolve) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      resolve(TIMED_OUT);
+    }, ms);
+  });
+  try {
+    return await Promise.race([run(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
 
-const client = new Ollama({ host: "http://127.0.0.1:11434" });
-
-// Helper function to execute tools
-async function executeTools(toolCalls: any[]): Promise<any[]> {
-  const results = [];
-  
+// Helper function to execute tools. Approvals are asked one call at a time; the approved calls
+// of one round don't depend on each other's results, so they then run in parallel.
+async function executeTools(toolCalls: any[], authorize: (toolCall: any) => Promise<ToolAuthorization>, timeoutMs: number): Promise<any[]> {
+  const authorizations: ToolAuthorization[] = [];
   for (const toolCall of toolCalls) {
-    const { name, arguments: args } = toolCall;
+    authorizations.push(await authorize(toolCall));
+  }
+
+  return await Promise.all(toolCalls.map(async (toolCall, i) => {
+    const { name } = toolCall;
+    const authorization = authorizations[i]!;
+    if ("error" in authorization) {
+      return {
+        id: toolCall.id || crypto.randomUUID(),
+        name: name,
+        arguments: toolCall.arguments,
+        result: undefined,
+        error: authorization.error,
+        timedOut: false,
+        completedAt: Date.now(),
+        durationMs: 0
+      };
+    }
+    const args = authorization.arguments;
+    const startedAt = Date.now();
     
     try {
-      const result = await toolRegistry.execute(name, args);
-      results.push({
+      const result = await withTimeout((signal) => toolRegistry.execute(name, args, signal), timeoutMs);
+      const timedOut = result === TIMED_OUT;
+      return {
         id: toolCall.id || crypto.randomUUID(),
         name: name,
-        result: result,
-        error: undefined
-      });
+        arguments: args,
+        result: timedOut ? undefined : result,
+        error: timedOut ? `Tool "${name}" timed out after ${Math.round(timeoutMs / 1000)}s` : undefined,
+        timedOut,
+        completedAt: Date.now(),
+        durationMs: Date.now() - startedAt
+      };
     } catch (error) {
-      results.push({
+      return {
         id: toolCall.id || crypto.randomUUID(),
         name: name,
+        arguments: args,
         result: undefined,
-        error: error instanceof Error ? error.message : 'Unknown tool execution error'
-      });
+        error: error instanceof Error ? error.message : 'Unknown tool execution error',
+        timedOut: false,
+        completedAt: Date.now(),
+        durationMs: Date.now() - startedAt
+      };
     }
-  }
-  
-  return results;
+  }));
 }
 
 // Helper function to determine current phase based on stream content
@@ -53,22 +106,58 @@ function determinePhase(part: any): 'reasoning' | 'response' {
 }
 
 export async function POST(req: Request) {
+  let host = DEFAULT_OLLAMA_HOST;
   try {
-    const { model, messages, think, reasoningLevel, chatId, assistantMessageId, userMessageId, enableTools = true } = (await req.json()) as {
+    const { model, messages, think, reasoningLevel, chatId, assistantMessageId, userMessageId, endpointId, options: rawOptions, enableTools = true } = (await req.json()) as {
       model: string;
-      messages: { role: "system" | "user" | "assistant" | "tool"; content: string; images?: string[]; tool_calls?: any[] }[];
+      messages: { role: "system" | "user" | "assistant" | "tool"; content: string; images?: string[]; tool_calls?: any[]; pinned?: boolean }[];
       think?: boolean | "low" | "medium" | "high";
       reasoningLevel?: "low" | "medium" | "high";
       chatId?: string;
       assistantMessageId?: string;
       userMessageId?: string;
+      endpointId?: string | null;
+      options?: unknown;
       enableTools?: boolean;
     };
 
+    // Ollama sampling options (temperature, top_p, num_ctx, seed, stop); invalid fields are ignored one by one
+    const {
+      context_strategy: contextStrategy = "drop_oldest",
+      max_tool_rounds: maxToolRounds = defaultToolLimits.max_tool_rounds,
+      tool_timeout_s: toolTimeoutS = defaultToolLimits.tool_timeout_s,
+      max_tool_result_chars: maxToolResultChars = defaultToolLimits.max_tool_result_chars,
+      ...ollamaOptions
+    } = normalizeGenerationOptions(rawOptions) ?? {};
+    const options = Object.keys(ollamaOptions).length > 0 ? ollamaOptions : undefined;
+
+    // An explicit endpoint wins, otherwise the chat's saved endpoint, otherwise the default
+    const resolved = await getOllamaClient({ endpointId, chatId });
+    const client = resolved.client;
+    const keepAlive = await getDefaultKeepAlive();
+    host = resolved.host;
+
     let stream: AsyncIterable<any> | undefined;
 
     let finalReasoning = "";
     let finalText = "";
+    // Tool invocations in the order they happened, stored alongside reasoning/text
+    const toolParts: UIMessagePart[] = [];
+    // Knowledge base chunks the reply may cite as [n]
+    const sourceParts: UIMessagePart[] = [];
+    // Token counts and timings, summed across tool-call rounds
+    let stats = emptyGenerationStats(model);
+    const requestStartedAt = Date.now();
+    // Model turns that called tools so far; past maxToolRounds the model has to answer without them
+    let toolRounds = 0;
+
+    const buildAssistantParts = (): UIMessagePart[] => {
+      const parts: UIMessagePart[] = [...sourceParts];
+      if (finalReasoning) parts.push({ type: "reasoning", text: finalReasoning });
+      parts.push(...toolParts);
+      if (finalText) parts.push({ type: "text", text: finalText });
+      return parts;
+    };
 
     // Optional DB persistence setup for assistant message during stream
     const shouldPersist = !!(chatId && assistantMessageId);
@@ -88,6 +177,9 @@ export async function POST(req: Request) {
             chatId: chatId as string,
             role: $Enums.MessageRole.ASSISTANT,
             parts: [],
+            model,
+            // Replies hang off the user turn they answer, so retries become sibling branches
+            parentId: userMessageId ?? null,
           },
         });
       } catch (e) {
@@ -98,18 +190,15 @@ export async function POST(req: Request) {
 
     let lastPersistAt = 0;
     const minPersistIntervalMs = 250;
-    const persistAssistant = async () => {
+    const persistAssistant = async (force = false) => {
       if (!shouldPersist) return;
       const now = Date.now();
-      if (now - lastPersistAt < minPersistIntervalMs) return;
+      if (!force && now - lastPersistAt < minPersistIntervalMs) return;
       lastPersistAt = now;
-      const parts: { type: "reasoning" | "text"; text: string }[] = [];
-      if (finalReasoning) parts.push({ type: "reasoning", text: finalReasoning });
-      if (finalText) parts.push({ type: "text", text: finalText });
       try {
         await db.message.update({
           where: { id: assistantMessageId as string },
-          data: { parts: parts as unknown as object },
+          data: { parts: buildAssistantParts() as unknown as object },
         });
       } catch (e) {
         // eslint-disable-next-line no-console
@@ -202,8 +291,56 @@ export async function POST(req: Request) {
       async start(controller) {
         const encoder = new TextEncoder();
 
+        // Retrieve from the chat's knowledge base collections and add the chunks right before the latest message
+        let groundedMessages = messages;
+        const lastMessage = messages[messages.length - 1];
+        if (chatId && lastMessage?.role === "user" && lastMessage.content.trim()) {
+          try {
+            const chat = await db.chat.findUnique({
+              where: { id: chatId },
+              select: { knowledgeCollections: { select: { id: true } } },
+            });
+            const collectionIds = chat?.knowledgeCollections.map((c) => c.id) ?? [];
+            if (collectionIds.length > 0) {
+              const chunks = await knowledgeBaseService.search({ collectionIds, query: lastMessage.content });
+              if (chunks.length > 0) {
+                const sources = knowledgeBaseService.toSources(chunks);
+                sourceParts.push(...sources.map((s) => ({ type: "source" as const, ...s })));
+                groundedMessages = [
+                  ...messages.slice(0, -1),
+                  { role: "system", content: knowledgeBaseService.buildContextPrompt(chunks) },
+                  lastMessage,
+                ];
+                controller.enqueue(encoder.encode(JSON.stringify({ kind: "sources", sources }) + "\n"));
+                await persistAssistant(true);
+              }
+            }
+          } catch (e) {
+            console.warn("[ollama] Knowledge base retrieval failed, answering without it:", e);
+          }
+        }
+
+        // Fit the history into the model's context window before sending it
+        let budgetedMessages = groundedMessages;
+        try {
+          const contextLength = await getContextLength(model, resolved.endpointId, options?.num_ctx);
+          const { messages: fitted, trim } = await applyContextBudget({
+            messages: groundedMessages,
+            contextLength,
+            strategy: contextStrategy,
+            summarize: (older, maxTokens) => summarizeMessages(client, model, older, maxTokens, keepAlive),
+          });
+          budgetedMessages = fitted;
+          if (trim) {
+            console.log(`[ollama] Context budget applied (${contextLength} tokens):`, trim);
+            controller.enqueue(encoder.encode(JSON.stringify({ kind: "context_trimmed", context: trim }) + "\n"));
+          }
+        } catch (e) {
+          console.warn("[ollama] Failed to apply context budget, sending full history:", e);
+        }
+
         // Format messages within stream scope
-        const formattedMessages = messages.map((m) => ({
+        const formattedMessages = budgetedMessages.map((m) => ({
           role: m.role,
           content: m.content,
           ...(m.images && m.images.length > 0 ? { images: m.images } : {})
@@ -213,7 +350,7 @@ export async function POST(req: Request) {
                let modelSupportsTools = false;
                if (enableTools) {
                  try {
-                   const capabilities = await modelsService.getCapabilities(model);
+                   const capabilities = await modelsService.getCapabilities(model, resolved.endpointId);
                    modelSupportsTools = capabilities.capabilities.tools;
                    console.log(`[ollama] Model ${model} tools support:`, modelSupportsTools);
                  } catch (e) {
@@ -222,8 +359,14 @@ export async function POST(req: Request) {
                  }
                }
 
-               // Get available tools if enabled and model supports them
-               const availableTools = enableTools && modelSupportsTools ? await toolRegistry.list() : [];
+               // Get available tools if enabled and model supports them, limited to the chat's selection
+               let toolSelection: ToolSelection | null = null;
+               if (enableTools && modelSupportsTools && chatId) {
+                 const chat = await db.chat.findUnique({ where: { id: chatId }, select: { toolSelection: true } });
+                 toolSelection = parseToolSelection(chat?.toolSelection);
+               }
+               const availableTools = enableTools && modelSupportsTools ? await toolRegistry.list(toolSelection) : [];
+               const offeredToolNames = new Set(availableTools.map(tool => tool.name));
                const ollamaTools = availableTools.map(tool => ({
                  type: 'function',
                  function: {
@@ -247,20 +390,48 @@ export async function POST(req: Request) {
             messages: formattedMessages,
             stream: true,
             think: (reasoningLevel as any) ?? think ?? false,
-            keep_alive: '8m', // Keep model in memory during active conversation
+            keep_alive: keepAlive, // Keep model in memory during active conversation
             ...(ollamaTools.length > 0 ? { tools: ollamaTools } : {}), // Only include tools if we have any
+            ...(options ? { options } : {}),
           });
         } catch (e: unknown) {
           const err = e as Error;
-          const isConnRefused = /ECONNREFUSED|fetch failed|ENOTFOUND|EHOSTUNREACH/i.test(String(err.message));
+          const isConnRefused = isConnectionRefused(err);
           const msg = isConnRefused
-            ? "Cannot connect to Ollama at 127.0.0.1:11434. Start Ollama (ollama serve) and ensure the host is reachable."
+            ? connectionErrorMessage(host, "Start Ollama (ollama serve) and ensure the host is reachable.")
             : `Failed to start chat stream: ${err.message}`;
           controller.enqueue(encoder.encode(JSON.stringify({ kind: "error", error: msg }) + "\n"));
           controller.error(err);
           return;
         }
 
+        // Run, refuse or ask the user about a tool call according to its policy
+        const authorizeToolCall = async (toolCall: { id: string; name: string; arguments: Record<string, any> }): Promise<ToolAuthorization> => {
+          // Models occasionally call tools they were never offered; don't run those
+          if (!offeredToolNames.has(toolCall.name)) return { error: `Tool "${toolCall.name}" is not available in this chat` };
+          const policy = await toolRegistry.getPolicy(toolCall.name);
+          if (policy === "auto") return { arguments: toolCall.arguments };
+          if (policy === "deny") return { error: `Tool "${toolCall.name}" is blocked by its policy` };
+
+          const callPart = toolParts.find((p) => p.type === "tool_call" && p.callId === toolCall.id);
+          if (callPart?.type === "tool_call") callPart.state = "approval-requested";
+          await persistAssistant(true);
+          controller.enqueue(encoder.encode(JSON.stringify({
+            kind: "tool_approval_required",
+            toolApproval: { id: toolCall.id, name: toolCall.name, arguments: toolCall.arguments }
+          }) + "\n"));
+
+          // The stream stays open until the user answers through mcp.respondToToolCall
+          const decision = await toolApprovals.request(toolCall.id, req.signal);
+          if (!decision.approved) return { error: decision.reason ?? "The user rejected this tool call" };
+          const args = decision.arguments ?? toolCall.arguments;
+          if (callPart?.type === "tool_call") {
+            callPart.state = "input-available";
+            callPart.arguments = args;
+          }
+          return { arguments: args };
+        };
+
         // Main stream processing function that handles tool calls and continuations
         const processOllamaStream = async (
           streamToProcess: AsyncIterable<any>,
@@ -269,8 +440,13 @@ export async function POST(req: Request) {
         ): Promise<void> => {
           try {
             for await (const part of streamToProcess) {
+              if (part?.done) stats = addOllamaDoneStats(stats, part);
+
               // Handle regular reasoning content
               const thinking: string | undefined = part?.message?.thinking;
+              if (stats.firstTokenMs === null && (thinking || part?.message?.content)) {
+                stats.firstTokenMs = Date.now() - requestStartedAt;
+              }
               if (thinking && thinking.length > 0) {
                 phaseTracker.current = 'reasoning';
                 finalReasoning += thinking;
@@ -290,6 +466,15 @@ export async function POST(req: Request) {
               // 🔥 Handle tool calls - this is the key functionality
               if (part?.message?.tool_calls && part.message.tool_calls.length > 0) {
                 const toolCalls = part.message.tool_calls;
+                const sendToolLimit = (kind: string, toolLimit: ToolLimitNotice) => {
+                  controller.enqueue(encoder.encode(JSON.stringify({ kind, toolLimit }) + "\n"));
+                };
+
+                // Tools were already withdrawn for going over the limit; ignore calls the model makes up anyway
+                toolRounds++;
+                if (toolRounds > maxToolRounds + 1) return;
+                const roundLimitReached = toolRounds > maxToolRounds;
+                if (roundLimitReached) sendToolLimit("tool_rounds_exceeded", { type: "max_rounds", maxRounds: maxToolRounds });
 
                 // Generate consistent IDs for tool calls and results
                 const toolCallsWithIds = toolCalls.map((tc: any) => ({
@@ -299,6 +484,15 @@ export async function POST(req: Request) {
 
                 // Stream tool calls to UI
                 for (const toolCall of toolCallsWithIds) {
+                  toolParts.push({
+                    type: "tool_call",
+                    toolName: toolCall.function?.name || toolCall.name,
+                    arguments: toolCall.function?.arguments || toolCall.arguments || {},
+                    callId: toolCall.id,
+                    state: "input-available",
+                    phase: phaseTracker.current,
+                    startedAt: Date.now(),
+                  });
                   const toolCallData = {
                     kind: "tool_call",
                     toolCall: {
@@ -312,28 +506,54 @@ export async function POST(req: Request) {
                   controller.enqueue(encoder.encode(JSON.stringify(toolCallData) + "\n"));
                 }
 
+                await persistAssistant(true);
+
                 // Execute tools using the same IDs
                 const toolResults = await executeTools(toolCallsWithIds.map((tc: any) => ({
                   id: tc.id,
                   name: tc.function?.name || tc.name,
                   arguments: tc.function?.arguments || tc.arguments || {}
-                })));
+                })), roundLimitReached
+                  ? async () => ({ error: `Not run: this reply already used its ${maxToolRounds} rounds of tool calls` })
+                  : authorizeToolCall,
+                  toolTimeoutS * 1000);
 
                 // Stream tool results to UI
                 for (const result of toolResults) {
+                  const callPart = toolParts.find((p) => p.type === "tool_call" && p.callId === result.id);
+                  if (callPart && callPart.type === "tool_call") {
+                    callPart.state = result.error ? "output-error" : "output-available";
+                  }
+                  toolParts.push({
+                    type: "tool_result",
+                    toolName: result.name,
+                    callId: result.id,
+                    result: result.result,
+                    error: result.error,
+                    phase: phaseTracker.current,
+                    completedAt: result.completedAt,
+                    durationMs: result.durationMs,
+                  });
                   const toolResultData = {
                     kind: "tool_result",
                     toolResult: {
                       id: result.id,
                       result: result.result,
                       error: result.error,
-                      phase: phaseTracker.current
+                      phase: phaseTracker.current,
+                      durationMs: result.durationMs
                     }
                   };
                   console.log('[API] Streaming tool result:', toolResultData);
                   controller.enqueue(encoder.encode(JSON.stringify(toolResultData) + "\n"));
+                  if (result.timedOut) {
+                    sendToolLimit("tool_timeout", { type: "timeout", callId: result.id, toolName: result.name, timeoutMs: toolTimeoutS * 1000 });
+                  }
                 }
 
+                // Tool invocations are persisted right away so they survive an interrupted stream
+                await persistAssistant(true);
+
                 // Signal stream continuation
                 controller.enqueue(encoder.encode(JSON.stringify({ kind: "stream_continue" }) + "\n"));
 
@@ -342,14 +562,30 @@ export async function POST(req: Request) {
                   role: 'assistant',
                   content: finalText,
                   ...(finalReasoning ? { thinking: finalReasoning } : {}),
-                  tool_calls: toolCalls
+                  // Report the arguments that actually ran, including the user's edits
+                  tool_calls: toolCalls.map((tc: any, i: number) => ({
+                    ...tc,
+                    function: { ...tc.function, arguments: toolResults[i]?.arguments ?? tc.function?.arguments }
+                  }))
                 };
 
-                const toolMessages = toolResults.map(result => ({
-                  role: 'tool',
-                  name: result.name,
-                  content: JSON.stringify(result.result || { error: result.error })
-                }));
+                // Oversized results would crowd everything else out of the context window
+                const toolMessages = toolResults.map(result => {
+                  const content = JSON.stringify(result.result || { error: result.error }) ?? "";
+                  if (content.length <= maxToolResultChars) return { role: 'tool', name: result.name, content };
+                  sendToolLimit("tool_result_truncated", {
+                    type: "truncated",
+                    callId: result.id,
+                    toolName: result.name,
+                    originalChars: content.length,
+                    keptChars: maxToolResultChars
+                  });
+                  return {
+                    role: 'tool',
+                    name: result.name,
+                    content: `${content.slice(0, maxToolResultChars)}\n[Truncated: ${content.length - maxToolResultChars} more characters not shown]`
+                  };
+                });
 
                 const updatedMessages = [
                   ...messagesSoFar,
@@ -357,14 +593,16 @@ export async function POST(req: Request) {
                   ...toolMessages
                 ];
 
-                // Start new stream with tool results - this continues the conversation
+                // Start new stream with tool results - this continues the conversation.
+                // Past the round limit the tools are withdrawn so the model has to answer.
                 const newStream = await client.chat({
                   model,
                   messages: updatedMessages,
                   stream: true,
                   think: (reasoningLevel as any) ?? think ?? false,
-                  keep_alive: '8m',
-                  ...(ollamaTools.length > 0 ? { tools: ollamaTools } : {}),
+                  keep_alive: keepAlive,
+                  ...(ollamaTools.length > 0 && !roundLimitReached ? { tools: ollamaTools } : {}),
+                  ...(options ? { options } : {}),
                 });
 
                 // Recursively process the new stream
@@ -400,23 +638,25 @@ export async function POST(req: Request) {
         // Final persistence and chat activity update
         if (shouldPersist) {
           try {
-            const parts: { type: "reasoning" | "text"; text: string }[] = [];
-            if (finalReasoning) parts.push({ type: "reasoning", text: finalReasoning });
-            if (finalText) parts.push({ type: "text", text: finalText });
+            const parts = buildAssistantParts();
             await db.message.update({
               where: { id: assistantMessageId as string },
-              data: { parts: parts as unknown as object },
+              data: { parts: parts as unknown as object, ...stats },
             });
             await db.chat.update({
               where: { id: chatId as string },
-              data: { lastMessageAt: new Date() },
+              data: { lastMessageAt: new Date(), activeLeafId: null },
             });
+            await messageSearchIndex.indexMessage({ id: assistantMessageId as string, chatId: chatId as string, parts });
           } catch (e) {
             // eslint-disable-next-line no-console
             console.warn("[ollama] failed to finalize assistant message:", (e as Error).message);
           }
         }
 
+        if (stats.completionTokens > 0) {
+          controller.enqueue(encoder.encode(JSON.stringify({ kind: "stats", stats }) + "\n"));
+        }
         controller.enqueue(encoder.encode(JSON.stringify({ kind: "done" }) + "\n"));
         controller.close();
       },
@@ -432,9 +672,9 @@ export async function POST(req: Request) {
     });
   } catch (err: unknown) {
     const e = err as Error;
-    const isConnRefused = /ECONNREFUSED|fetch failed|ENOTFOUND|EHOSTUNREACH/i.test(String(e.message));
+    const isConnRefused = isConnectionRefused(e);
     const msg = isConnRefused
-      ? "Cannot connect to Ollama at 127.0.0.1:11434. Start Ollama (ollama serve)."
+      ? connectionErrorMessage(host)
       : `Unexpected server error: ${e.message}`;
     return NextResponse.json({ error: msg, code: isConnRefused ? "OLLAMA_UNAVAILABLE" : "SERVER_ERROR" }, { status: 500 });
   }
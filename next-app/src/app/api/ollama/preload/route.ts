@@ -1,15 +1,19 @@
 import { NextResponse } from "next/server";
-import { Ollama } from "ollama";
-
-const client = new Ollama({ host: "http://127.0.0.1:11434" });
+import { getOllamaClient, isConnectionRefused, connectionErrorMessage, getDefaultKeepAlive } from "~/lib/ollama/client";
+import { toOllamaKeepAlive } from "~/lib/ollama/keep-alive";
 
 export async function POST(req: Request) {
   try {
-    const { model, keepAlive = '3m' } = (await req.json()) as {
+    const { model, keepAlive: requestedKeepAlive, chatId, endpointId } = (await req.json()) as {
       model: string;
       keepAlive?: string;
+      chatId?: string;
+      endpointId?: string | null;
     };
 
+    // Without an explicit value the model stays loaded as long as it would after a chat
+    const keepAlive = requestedKeepAlive ? toOllamaKeepAlive(requestedKeepAlive) : await getDefaultKeepAlive();
+
     console.log(`[preload-api] Received preload request for model: "${model}", keepAlive: ${keepAlive}`);
 
     if (!model) {
@@ -17,6 +21,8 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "Model is required" }, { status: 400 });
     }
 
+    const { client, host } = await getOllamaClient({ endpointId, chatId });
+
     try {
       const startTime = Date.now();
       console.log(`[preload-api] Starting Ollama generate call for model: ${model}`);
@@ -45,9 +51,9 @@ export async function POST(req: Request) {
       });
     } catch (e: unknown) {
       const err = e as Error;
-      const isConnRefused = /ECONNREFUSED|fetch failed|ENOTFOUND|EHOSTUNREACH/i.test(String(err.message));
+      const isConnRefused = isConnectionRefused(err);
       const msg = isConnRefused
-        ? "Cannot connect to Ollama at 127.0.0.1:11434. Start Ollama (ollama serve) and ensure the host is reachable."
+        ? connectionErrorMessage(host, "Start Ollama (ollama serve) and ensure the host is reachable.")
         : `Failed to preload model: ${err.message}`;
       return NextResponse.json({ 
         error: msg, 
@@ -5,14 +5,21 @@ import { useCallback, useEffect, useRef, useState } from 'react'
 import { api } from '~/trpc/react'
 import ChatInput from '~/components/chat-input'
 import { useOllamaChat } from '~/hooks/use-ollama-chat'
+import { getToolCallsFromParts } from '~/hooks/use-ollama-chat/utils'
 import { Conversation, ConversationContent } from '~/components/ai-elements/conversation'
 import { Message, MessageContent, MessageImage } from '~/components/ai-elements/message'
+import { Branch, BranchMessages, BranchNext, BranchPage, BranchPrevious, BranchSelector } from '~/components/ai-elements/branch'
 import { Reasoning, ReasoningContent, ReasoningTrigger } from '~/components/ai-elements/reasoning'
 import { Response } from '~/components/ai-elements/response'
-import { Tool, ToolHeader, ToolContent, ToolInput, ToolOutput } from '~/components/ai-elements/tool'
+import { CitedResponse, KnowledgeSources, getSourcesFromParts } from '~/components/knowledge-sources'
+import { ModelComparison } from '~/components/model-comparison'
+import { MessageStats } from '~/components/message-stats'
+import { ToolLimitNotices } from '~/components/tool-limit-notices'
+import { MIN_COMPARE_MODELS } from '~/components/compare-models-toggle'
+import { Tool, ToolApproval, ToolApprovalProvider, ToolHeader, ToolContent, ToolInput, ToolOutput } from '~/components/ai-elements/tool'
 import { useChatStore } from '~/lib/chat-store'
 import { toast } from 'sonner'
-import { Paperclip } from 'lucide-react'
+import { Paperclip, Scissors } from 'lucide-react'
 import { parseFile, getFileType, getSupportedFileTypesDescription, getModelFileCapabilities, type FileUploadItem } from '~/lib/file-upload'
 import { useModelCapabilitiesCache } from '~/hooks/use-model-capabilities-cache'
 import type { UIMessage } from '~/lib/chat-types'
@@ -32,10 +39,12 @@ export default function ChatByIdPage() {
   const params = useParams<{ id: string }>()
   const id = params?.id
   const search = useSearchParams()
-  const { data, error } = api.models.list.useQuery()
+  const { renameChat, selectChat, setLastSetPrompt, setChatEndpoint, setChatOptions, selectedModel: storeModel, chats } = useChatStore()
+  // Chats without an endpoint run against the default Ollama endpoint
+  const endpointId = chats.find(c => c.id === String(id))?.endpointId ?? null
+  const { data, error } = api.models.list.useQuery({ endpointId })
   const models: ModelInfo[] = data?.models ?? []
   const [selectedModel, setSelectedModel] = useState('')
-  const { renameChat, selectChat, setLastSetPrompt, selectedModel: storeModel, chats } = useChatStore()
   
   // Initialize model selection for the current chat
   useEffect(() => {
@@ -43,7 +52,8 @@ export default function ChatByIdPage() {
     const chatId = String(id)
     const chat = chats.find(c => c.id === chatId)
     const perChatModel = chat?.lastSetModel || undefined
-    const newSelectedModel = perChatModel || storeModel || models[0]!.name
+    const preferredModel = perChatModel || storeModel
+    const newSelectedModel = preferredModel && models.some(m => m.name === preferredModel) ? preferredModel : models[0]!.name
     
     // Only update if the model has actually changed to avoid unnecessary rerenders
     if (newSelectedModel !== selectedModel) {
@@ -54,31 +64,66 @@ export default function ChatByIdPage() {
   // Get the lastSetPrompt for this chat
   const chat = chats.find(c => c.id === String(id))
   const lastSetPrompt = chat?.lastSetPrompt || undefined
+  const generationOptions = chat?.lastSetOptions ?? null
 
   const { 
     messages, 
     status, 
     streamPhase, 
     submit, 
+    compare,
+    pickComparisonWinner,
+    comparison,
     editMessage, 
     retryMessage, 
+    pinMessage,
+    selectBranch,
+    getSiblings,
+    respondToToolApproval,
     abort,
     reasoningToolCalls,
     responseToolCalls,
     reasoningTimeline,
     responseTimeline,
+    contextNotices,
+    toolLimitNotices,
     displayManager
   } = useOllamaChat(String(id))
 
   // Debug: Log tool calls whenever they change (optional - can be removed in production)
   // console.log('[Chat] Tool calls update:', { reasoningToolCalls: reasoningToolCalls.length, responseToolCalls: responseToolCalls.length })
   const [editingMessageId, setEditingMessageId] = useState<string | null>(null)
+  // Models the next message is fanned out to; kept per page visit, not persisted
+  const [compareModels, setCompareModels] = useState<string[]>([])
+
+  // Jump to a message opened from search (?message=<messageId>) once it has rendered
+  const targetMessageId = search?.get('message') ?? null
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null)
+  const jumpedToRef = useRef<string | null>(null)
+  useEffect(() => {
+    if (!targetMessageId || jumpedToRef.current === targetMessageId) return
+    // The message may sit on a branch that isn't shown yet
+    if (!messages.some(m => m.id === targetMessageId)) {
+      if (getSiblings(targetMessageId).length > 0) selectBranch(targetMessageId)
+      return
+    }
+    const el = document.getElementById(`message-${targetMessageId}`)
+    if (!el) return
+    jumpedToRef.current = targetMessageId
+    el.scrollIntoView({ block: 'center' })
+    setHighlightedMessageId(targetMessageId)
+  }, [targetMessageId, messages, getSiblings, selectBranch])
+  useEffect(() => {
+    if (!highlightedMessageId) return
+    const t = setTimeout(() => setHighlightedMessageId(null), 2500)
+    return () => clearTimeout(t)
+  }, [highlightedMessageId])
   const [isDragOver, setIsDragOver] = useState(false)
   const [uploadedFiles, setUploadedFiles] = useState<Array<FileUploadItem>>([])
   const utils = api.useUtils()
   
   // Get model capabilities for file type display
-  const { getCapabilities } = useModelCapabilitiesCache(models)
+  const { getCapabilities } = useModelCapabilitiesCache(models, endpointId)
   const currentModelCaps = getCapabilities(selectedModel)
   const fileCapabilities = getModelFileCapabilities(currentModelCaps)
   const supportedTypesDescription = getSupportedFileTypesDescription(fileCapabilities)
@@ -154,7 +199,7 @@ export default function ChatByIdPage() {
           const r = await fetch('/api/ollama/chat-name', {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ model, firstMessage: first }),
+            body: JSON.stringify({ model, firstMessage: first, chatId: String(id) }),
           })
           const data = await r.json()
           if (!r.ok) {
@@ -191,7 +236,7 @@ export default function ChatByIdPage() {
           fileName: f.fileName
         })) ?? undefined
         
-        submit({ text: first, model, systemPromptContent: sys ?? undefined, images, userMessage: initialUserMessage })
+        submit({ text: first, model, systemPromptContent: sys ?? undefined, images, userMessage: initialUserMessage, options: generationOptions ?? undefined })
       }, 100)
       // Update chat store with the selected system prompt
       if (sysId && sysId !== 'none') {
@@ -236,7 +281,7 @@ export default function ChatByIdPage() {
       setModelMutation.mutate({ id: chatIdStr, model: selectedModel })
     }
     // Use the current selected model for the edit
-    await editMessage(messageId, newText, selectedModel, undefined, undefined)
+    await editMessage(messageId, newText, selectedModel, undefined, undefined, generationOptions ?? undefined)
   }
 
   const handleEditCancel = () => {
@@ -299,9 +344,117 @@ export default function ChatByIdPage() {
         setModelMutation.mutate({ id: chatIdStr, model })
       }
     }
-    await retryMessage(messageId, retryModel)
+    await retryMessage(messageId, retryModel, undefined, generationOptions ?? undefined)
   }
 
+  const renderMessage = (m: UIMessage) => (
+    <Message 
+      key={`${String(id)}-${m.id}`} 
+      id={`message-${m.id}`}
+      className={highlightedMessageId === m.id ? 'rounded-lg bg-[#113936]/30 transition-colors duration-700' : 'transition-colors duration-700'}
+      from={m.role}
+      message={m}
+      isEditing={editingMessageId === m.id}
+      onEdit={handleEdit}
+      onRetry={handleRetry}
+      onEditSave={handleEditSave}
+      onEditCancel={handleEditCancel}
+      onPin={pinMessage}
+      endpointId={endpointId}
+    >
+      <MessageContent
+        message={m}
+        isEditing={editingMessageId === m.id}
+        onEditSave={handleEditSave}
+        onEditCancel={handleEditCancel}
+      >
+        {m.role === 'assistant' && contextNotices[m.id] && (() => {
+          const notice = contextNotices[m.id]!
+          return (
+            <div
+              className="flex items-center gap-1.5 text-xs text-[#8b9491] mb-2"
+              title={`~${notice.estimatedTokens} of ${notice.contextLength} tokens after trimming`}
+            >
+              <Scissors className="h-3 w-3" />
+              {notice.summarizedCount > 0
+                ? `${notice.summarizedCount} earlier messages summarized to fit the context window`
+                : `${notice.droppedCount} earlier messages dropped to fit the context window`}
+            </div>
+          )
+        })()}
+        {m.role === 'assistant' && <ToolLimitNotices notices={toolLimitNotices[m.id]} />}
+        {m.role === 'assistant' && <KnowledgeSources sources={getSourcesFromParts(m.parts)} />}
+        {/* Only render reasoning and response parts here - text/image/file parts are handled by MessageContent */}
+        {editingMessageId !== m.id && m.parts.map((p, idx) => {
+          // Live tool state only belongs to the last assistant message; older ones use persisted parts
+          const isLiveMessage = m.role === 'assistant' && m.id === messages[messages.length - 1]?.id && (
+            status === 'streaming' ||
+            (status === 'ready' && (reasoningTimeline.length > 0 || responseToolCalls.length > 0))
+          )
+          if (p.type === 'reasoning') {
+            return (
+              <Reasoning key={`reasoning-${idx}`} isStreaming={streamPhase === 'reasoning'} defaultOpen={false}>
+                <ReasoningTrigger />
+                <ReasoningContent 
+                  reasoningTimeline={isLiveMessage ? reasoningTimeline : []}
+                  toolCalls={isLiveMessage ? undefined : getToolCallsFromParts(m.parts, 'reasoning')}
+                >
+                  {p.text}
+                </ReasoningContent>
+              </Reasoning>
+            )
+          }
+          if (p.type === 'text' && m.role === 'assistant') {
+            // For assistant messages, render text as Response component
+            return (
+              <div key={`response-${idx}`}>
+                {m.parts.some(part => part.type === 'source') ? (
+                  <CitedResponse sources={getSourcesFromParts(m.parts)}>{p.text}</CitedResponse>
+                ) : (
+                  <Response isWaiting={status === 'submitted' && idx === 0 && m.role === 'assistant'}>{p.text}</Response>
+                )}
+                
+                {/* Render tool calls that happened during response phase */}
+                {(() => {
+                  const toolCalls = isLiveMessage ? responseToolCalls : getToolCallsFromParts(m.parts, 'response')
+                  if (toolCalls.length === 0) return null
+                  return (
+                  <div className="space-y-2 mt-2">
+                    <div className="text-xs font-medium text-muted-foreground mb-1">Tool Calls:</div>
+                    {toolCalls.map((toolCall) => (
+                      <Tool key={`tool-${toolCall.id}`}>
+                        <ToolHeader 
+                          type={toolCall.name} 
+                          state={toolCall.state}
+                          durationMs={toolCall.durationMs}
+                        />
+                        <ToolApproval toolCall={toolCall} />
+                        <ToolContent>
+                          <ToolInput input={toolCall.arguments} toolName={toolCall.name} />
+                          {(toolCall.result !== undefined || toolCall.error) && (
+                            <ToolOutput 
+                              output={toolCall.result} 
+                              errorText={toolCall.error} 
+                              toolName={toolCall.name}
+                            />
+                          )}
+                        </ToolContent>
+                      </Tool>
+                    ))}
+                  </div>
+                  )
+                })()}
+              </div>
+            )
+          }
+          // text, image, and file parts are handled by MessageContent component
+          return null
+        })}
+        {m.role === 'assistant' && <MessageStats stats={m.metadata?.stats} />}
+      </MessageContent>
+    </Message>
+  )
+
   return (
     <div
       className="relative mx-auto h-dvh flex min-w-full flex-1 flex-col gap-4 p-4 pb-0"
@@ -325,105 +478,66 @@ export default function ChatByIdPage() {
         )}
 
         {/* header strip now rendered in layout to avoid occlusion */}
-        <Conversation>
-          <ConversationContent className="pb-32">
-            {messages.map((m) => (
-              <Message 
-                key={`${String(id)}-${m.id}`} 
-                from={m.role}
-                message={m}
-                isEditing={editingMessageId === m.id}
-                onEdit={handleEdit}
-                onRetry={handleRetry}
-                onEditSave={handleEditSave}
-                onEditCancel={handleEditCancel}
-              >
-                <MessageContent
-                  message={m}
-                  isEditing={editingMessageId === m.id}
-                  onEditSave={handleEditSave}
-                  onEditCancel={handleEditCancel}
-                >
-                  {/* Only render reasoning and response parts here - text/image/file parts are handled by MessageContent */}
-                  {editingMessageId !== m.id && m.parts.map((p, idx) => {
-                    if (p.type === 'reasoning') {
-                      return (
-                        <Reasoning key={`reasoning-${idx}`} isStreaming={streamPhase === 'reasoning'} defaultOpen={false}>
-                          <ReasoningTrigger />
-                          <ReasoningContent 
-                            reasoningTimeline={
-                              // Show reasoning timeline for any streaming assistant message or the last assistant message
-                              m.role === 'assistant' && (
-                                (status === 'streaming' && m.id === messages[messages.length - 1]?.id) ||
-                                (status === 'ready' && reasoningTimeline.length > 0)
-                              ) ? reasoningTimeline : []
-                            }
-                          >
-                            {p.text}
-                          </ReasoningContent>
-                        </Reasoning>
-                      )
-                    }
-                    if (p.type === 'text' && m.role === 'assistant') {
-                      // For assistant messages, render text as Response component
-                      return (
-                        <div key={`response-${idx}`}>
-                          <Response isWaiting={status === 'submitted' && idx === 0 && m.role === 'assistant'}>{p.text}</Response>
-                          
-                          {/* Render tool calls that happened during response phase */}
-                          {m.role === 'assistant' && responseToolCalls.length > 0 && (
-                            (status === 'streaming' && m.id === messages[messages.length - 1]?.id) ||
-                            (status === 'ready')
-                          ) && (
-                            <div className="space-y-2 mt-2">
-                              <div className="text-xs font-medium text-muted-foreground mb-1">Tool Calls:</div>
-                              {responseToolCalls.map((toolCall) => (
-                                <Tool key={`tool-${toolCall.id}`}>
-                                  <ToolHeader 
-                                    type={toolCall.name} 
-                                    state={toolCall.state}
-                                  />
-                                  <ToolContent>
-                                    <ToolInput input={toolCall.arguments} />
-                                    {(toolCall.result !== undefined || toolCall.error) && (
-                                      <ToolOutput 
-                                        output={toolCall.result} 
-                                        errorText={toolCall.error} 
-                                      />
-                                    )}
-                                  </ToolContent>
-                                </Tool>
-                              ))}
-                            </div>
-                          )}
-                        </div>
-                      )
-                    }
-                    // text, image, and file parts are handled by MessageContent component
-                    return null
-                  })}
-                </MessageContent>
-              </Message>
-            ))}
-            {((status === 'submitted' || status === 'streaming') && 
-              (messages.length === 0 || messages[messages.length - 1]?.role === 'user')) ? (
-              <Message from={'assistant'}>
-                <MessageContent>
-                  <div className="flex items-center gap-2">
-                    <span className="h-2 w-2 rounded-full bg-foreground/70 animate-bounce [animation-delay:-0.2s]" />
-                    <span className="h-2 w-2 rounded-full bg-foreground/70 animate-bounce [animation-delay:-0.1s]" />
-                    <span className="h-2 w-2 rounded-full bg-foreground/70 animate-bounce" />
-                  </div>
-                </MessageContent>
-              </Message>
-            ) : null}
-          </ConversationContent>
-        </Conversation>
+        <ToolApprovalProvider value={respondToToolApproval}>
+          <Conversation>
+            <ConversationContent className="pb-32">
+              {messages.map((m) => {
+                const siblings = getSiblings(m.id)
+                if (siblings.length < 2) return renderMessage(m)
+                // Edited or retried turn: flip between the alternatives; each keeps its own continuation
+                return (
+                  <Branch
+                    key={`${String(id)}-branch-${m.id}`}
+                    defaultBranch={Math.max(0, siblings.findIndex(s => s.id === m.id))}
+                    onBranchChange={(index) => {
+                      const sibling = siblings[index]
+                      if (sibling && sibling.id !== m.id) selectBranch(sibling.id)
+                    }}
+                  >
+                    <BranchMessages>
+                      {siblings.map(s => renderMessage(s.id === m.id ? m : s))}
+                    </BranchMessages>
+                    <BranchSelector from={m.role}>
+                      <BranchPrevious disabled={status === 'submitted' || status === 'streaming'} />
+                      <BranchPage />
+                      <BranchNext disabled={status === 'submitted' || status === 'streaming'} />
+                    </BranchSelector>
+                  </Branch>
+                )
+              })}
+              {comparison && (
+                <ModelComparison
+                  comparison={comparison}
+                  isStreaming={status === 'streaming'}
+                  onPick={pickComparisonWinner}
+                />
+              )}
+              {(!comparison && (status === 'submitted' || status === 'streaming') && 
+                (messages.length === 0 || messages[messages.length - 1]?.role === 'user')) ? (
+                <Message from={'assistant'}>
+                  <MessageContent>
+                    <div className="flex items-center gap-2">
+                      <span className="h-2 w-2 rounded-full bg-foreground/70 animate-bounce [animation-delay:-0.2s]" />
+                      <span className="h-2 w-2 rounded-full bg-foreground/70 animate-bounce [animation-delay:-0.1s]" />
+                      <span className="h-2 w-2 rounded-full bg-foreground/70 animate-bounce" />
+                    </div>
+                  </MessageContent>
+                </Message>
+              ) : null}
+            </ConversationContent>
+          </Conversation>
+        </ToolApprovalProvider>
       <div className="pointer-events-none absolute inset-x-0 bottom-0 z-10 px-4">
         <div className="pointer-events-auto mx-auto w-full max-w-4xl">
           <ChatInput
             models={models}
             defaultModel={selectedModel}
+            endpointId={endpointId}
+            onEndpointChange={(next) => setChatEndpoint(String(id), next)}
+            generationOptions={generationOptions}
+            onGenerationOptionsChange={(next) => setChatOptions(String(id), next)}
+            compareModels={compareModels}
+            onCompareModelsChange={setCompareModels}
             chatId={String(id)}
             defaultSystemPromptId={lastSetPrompt}
             placement="container"
@@ -436,6 +550,10 @@ export default function ChatByIdPage() {
             onFilesChange={setUploadedFiles}
             hasImagesInHistory={hasImagesInMessageHistory(messages)}
             onSubmit={({ text, model, reasoningLevel, systemPromptContent, systemPromptId, images, files, userMessage }) => {
+              if (comparison) {
+                toast.info('Pick one of the compared answers to continue')
+                return
+              }
               // Update selected model locally
               setSelectedModel(model)
               // Persist model selection for this chat (with small delay to ensure chat exists)
@@ -453,8 +571,12 @@ export default function ChatByIdPage() {
                   setPromptMutation.mutate({ id: chatIdStr, promptId: systemPromptId })
                 }, 100)
               }
-              // Submit the message
-              submit({ text, model, reasoningLevel, systemPromptContent, images, userMessage })
+              // Submit the message, or fan it out when comparing models
+              if (compareModels.length >= MIN_COMPARE_MODELS) {
+                compare({ text, model, reasoningLevel, systemPromptContent, images, userMessage, options: generationOptions ?? undefined, models: compareModels })
+              } else {
+                submit({ text, model, reasoningLevel, systemPromptContent, images, userMessage, options: generationOptions ?? undefined })
+              }
             }}
           />
         </div>
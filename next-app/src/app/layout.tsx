@@ -14,6 +14,7 @@ export const inter = Inter({
 import { TRPCReactProvider } from "~/trpc/react";
 import { ChatStoreProvider } from "~/lib/chat-store";
 import { LayoutContent } from "./_components/layout-content";
+import { PullToasts } from "./_components/pull-toasts";
 import { Toaster } from "~/components/ui/sonner";
 
 export const metadata: Metadata = {
@@ -32,6 +33,7 @@ export default function RootLayout({
           <ChatStoreProvider>
             <LayoutContent>{children}</LayoutContent>
             <Toaster richColors position="top-right" />
+            <PullToasts />
           </ChatStoreProvider>
         </TRPCReactProvider>
       </body>
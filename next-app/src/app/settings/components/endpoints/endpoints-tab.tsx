@@ -0,0 +1,138 @@
+'use client'
+
+import { useState } from 'react'
+import { api } from '~/trpc/react'
+import { Separator } from '~/components/ui/separator'
+import { Input } from '~/components/ui/input'
+import { Button } from '~/components/ui/button'
+import { Badge } from '~/components/ui/badge'
+import { Loader2, Star, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+export default function EndpointsTab() {
+  const { data, isLoading, refetch } = api.endpoints.list.useQuery()
+  const endpoints = data?.endpoints ?? []
+  const utils = api.useUtils()
+  const setDefaultMutation = api.endpoints.setDefault.useMutation()
+  const deleteMutation = api.endpoints.delete.useMutation()
+
+  // Model lists depend on which endpoint is the default
+  const onChanged = async () => {
+    await refetch()
+    await utils.models.invalidate()
+  }
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-center text-neutral-300">
+        Ollama hosts this app can talk to. Chats use the default endpoint unless another one is picked in the chat toolbar.
+      </p>
+      <Separator />
+      <section className="space-y-3">
+        <h3 className="text-sm font-semibold text-neutral-200">Endpoints</h3>
+        <div className="divide-y divide-white/5 rounded-lg border border-white/10">
+          {isLoading ? (
+            <div className="p-3 text-sm text-neutral-400">Loading…</div>
+          ) : endpoints.length === 0 ? (
+            <div className="p-3 text-sm text-neutral-400">No endpoints configured, using http://127.0.0.1:11434</div>
+          ) : (
+            endpoints.map((e) => (
+              <div key={e.id} className="group flex items-center justify-between p-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 text-sm font-medium text-neutral-100">
+                    <span className="truncate">{e.name}</span>
+                    {e.isDefault && <Badge variant="secondary" className="text-[10px]">Default</Badge>}
+                  </div>
+                  <div className="truncate text-xs text-neutral-400">{e.host}</div>
+                </div>
+                <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                  {!e.isDefault && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 text-neutral-300 hover:text-white"
+                      onClick={async () => {
+                        try {
+                          await setDefaultMutation.mutateAsync({ id: e.id })
+                          await onChanged()
+                        } catch (err) {
+                          toast.error('Failed to set default', { description: String((err as Error).message || err) })
+                        }
+                      }}
+                    >
+                      <Star className="h-3.5 w-3.5" />
+                      Make default
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 text-neutral-400 hover:text-red-400"
+                    aria-label={`Remove ${e.name}`}
+                    onClick={async () => {
+                      try {
+                        await deleteMutation.mutateAsync({ id: e.id })
+                        toast.success(`Removed ${e.name}`)
+                        await onChanged()
+                      } catch (err) {
+                        toast.error(`Failed to remove ${e.name}`, { description: String((err as Error).message || err) })
+                      }
+                    }}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </section>
+
+      <section className="space-y-3">
+        <h3 className="text-sm font-semibold text-neutral-200">Add an endpoint</h3>
+        <AddEndpoint onAdded={onChanged} />
+      </section>
+    </div>
+  )
+}
+
+function AddEndpoint({ onAdded }: { onAdded?: () => void | Promise<void> }) {
+  const [name, setName] = useState('')
+  const [host, setHost] = useState('')
+  const createMutation = api.endpoints.create.useMutation()
+  const testMutation = api.endpoints.testConnection.useMutation()
+
+  const onTest = async () => {
+    if (!host.trim()) return
+    const res = await testMutation.mutateAsync({ host: host.trim() })
+    if (res.success) {
+      toast.success('Connection successful', { description: res.message })
+    } else {
+      toast.error('Connection failed', { description: res.error })
+    }
+  }
+
+  const onAdd = async () => {
+    if (!name.trim() || !host.trim()) return
+    try {
+      await createMutation.mutateAsync({ name: name.trim(), host: host.trim() })
+      toast.success(`Added ${name.trim()}`)
+      setName('')
+      setHost('')
+      await onAdded?.()
+    } catch (err) {
+      toast.error('Failed to add endpoint', { description: String((err as Error).message || err) })
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name, e.g. Workstation" className="h-8 w-48" />
+      <Input value={host} onChange={(e) => setHost(e.target.value)} placeholder="http://192.168.1.20:11434" className="h-8" />
+      <Button size="sm" variant="secondary" onClick={onTest} disabled={!host.trim() || testMutation.isPending}>
+        {testMutation.isPending ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : 'Test'}
+      </Button>
+      <Button size="sm" onClick={onAdd} disabled={!name.trim() || !host.trim() || createMutation.isPending}>Add</Button>
+    </div>
+  )
+}
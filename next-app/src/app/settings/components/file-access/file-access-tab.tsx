@@ -0,0 +1,102 @@
+'use client'
+
+import { useState } from 'react'
+import { api } from '~/trpc/react'
+import { Separator } from '~/components/ui/separator'
+import { Input } from '~/components/ui/input'
+import { Button } from '~/components/ui/button'
+import { Folder, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+export default function FileAccessTab() {
+  const { data, isLoading, refetch } = api.fileAccess.listRoots.useQuery()
+  const roots = data?.roots ?? []
+  const utils = api.useUtils()
+  const removeMutation = api.fileAccess.removeRoot.useMutation()
+
+  // The file tools only show up in the tool picker while a folder is shared
+  const onChanged = async () => {
+    await refetch()
+    await utils.mcp.listAvailableTools.invalidate()
+  }
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-center text-neutral-300">
+        Folders the built-in list_directory, read_file and search_files tools can read. Subfolders are included; nothing outside these folders is reachable and files are never modified.
+      </p>
+      <Separator />
+      <section className="space-y-3">
+        <h3 className="text-sm font-semibold text-neutral-200">Shared folders</h3>
+        <div className="divide-y divide-white/5 rounded-lg border border-white/10">
+          {isLoading ? (
+            <div className="p-3 text-sm text-neutral-400">Loading…</div>
+          ) : roots.length === 0 ? (
+            <div className="p-3 text-sm text-neutral-400">No folders shared, the file tools are not offered to models</div>
+          ) : (
+            roots.map((r) => (
+              <div key={r.id} className="group flex items-center justify-between p-3">
+                <div className="flex min-w-0 items-center gap-2 text-sm text-neutral-100">
+                  <Folder className="h-4 w-4 shrink-0 text-neutral-400" />
+                  <span className="truncate font-mono">{r.path}</span>
+                </div>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 text-neutral-400 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                  aria-label={`Stop sharing ${r.path}`}
+                  onClick={async () => {
+                    try {
+                      await removeMutation.mutateAsync({ id: r.id })
+                      toast.success(`Stopped sharing ${r.path}`)
+                      await onChanged()
+                    } catch (err) {
+                      toast.error(`Failed to remove ${r.path}`, { description: String((err as Error).message || err) })
+                    }
+                  }}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </section>
+
+      <section className="space-y-3">
+        <h3 className="text-sm font-semibold text-neutral-200">Share a folder</h3>
+        <AddRoot onAdded={onChanged} />
+      </section>
+    </div>
+  )
+}
+
+function AddRoot({ onAdded }: { onAdded?: () => void | Promise<void> }) {
+  const [path, setPath] = useState('')
+  const addMutation = api.fileAccess.addRoot.useMutation()
+
+  const onAdd = async () => {
+    if (!path.trim()) return
+    try {
+      const { root } = await addMutation.mutateAsync({ path: path.trim() })
+      toast.success(`Sharing ${root.path}`)
+      setPath('')
+      await onAdded?.()
+    } catch (err) {
+      toast.error('Failed to share folder', { description: String((err as Error).message || err) })
+    }
+  }
+
+  return (
+    <form
+      className="flex items-center gap-2"
+      onSubmit={(e) => {
+        e.preventDefault()
+        void onAdd()
+      }}
+    >
+      <Input value={path} onChange={(e) => setPath(e.target.value)} placeholder="/home/me/projects/my-app" className="h-8 font-mono" />
+      <Button type="submit" size="sm" disabled={!path.trim() || addMutation.isPending}>Add</Button>
+    </form>
+  )
+}
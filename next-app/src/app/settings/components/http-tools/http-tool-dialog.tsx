@@ -0,0 +1,337 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { api } from '~/trpc/react'
+import { Button } from '~/components/ui/button'
+import { Input } from '~/components/ui/input'
+import { Label } from '~/components/ui/label'
+import { Textarea } from '~/components/ui/textarea'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '~/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '~/components/ui/select'
+import { Loader2, Play } from 'lucide-react'
+import { toast } from 'sonner'
+import { httpToolMethods, type HttpToolDefinition, type HttpToolMethod } from '~/lib/tools/http-tools'
+import { toolPolicies, type ToolPolicy } from '~/lib/tools/approvals'
+
+export type EditableHttpTool = HttpToolDefinition & { id: string; policy: string }
+
+export const policyLabels: Record<ToolPolicy, string> = {
+  auto: 'Run automatically',
+  ask: 'Ask first',
+  deny: 'Never run'
+}
+
+interface HttpToolDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSaved: () => void
+  // Edits this tool when given, otherwise creates a new one
+  tool?: EditableHttpTool | null
+}
+
+type FormState = {
+  name: string
+  description: string
+  method: HttpToolMethod
+  url: string
+  headers: string
+  parameters: string
+  body: string
+  policy: ToolPolicy
+}
+
+const emptyParameters = { type: 'object', properties: {}, required: [] }
+
+function toForm(tool?: EditableHttpTool | null): FormState {
+  return {
+    name: tool?.name ?? '',
+    description: tool?.description ?? '',
+    method: tool?.method ?? 'GET',
+    url: tool?.url ?? '',
+    headers: JSON.stringify(tool?.headers ?? {}, null, 2),
+    parameters: JSON.stringify(tool?.parameters ?? emptyParameters, null, 2),
+    body: tool?.body ?? '',
+    policy: (toolPolicies as readonly string[]).includes(tool?.policy ?? '') ? (tool!.policy as ToolPolicy) : 'ask'
+  }
+}
+
+// Placeholder values of the right type so a test request can be sent straight away
+function sampleArguments(parameters: HttpToolDefinition['parameters']): Record<string, unknown> {
+  const samples: Record<string, unknown> = { string: 'example', number: 1, integer: 1, boolean: true, array: [], object: {} }
+  return Object.fromEntries(
+    Object.entries(parameters.properties).map(([name, schema]) => {
+      const s = (schema ?? {}) as { type?: string; enum?: unknown[]; default?: unknown; example?: unknown }
+      return [name, s.example ?? s.default ?? s.enum?.[0] ?? samples[s.type ?? 'string'] ?? 'example']
+    })
+  )
+}
+
+function parseJsonObject(text: string, label: string): Record<string, any> {
+  let value: unknown
+  try {
+    value = JSON.parse(text)
+  } catch {
+    throw new Error(`${label} must be valid JSON`)
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`${label} must be a JSON object`)
+  }
+  return value as Record<string, any>
+}
+
+function toDefinition(form: FormState): HttpToolDefinition {
+  const parameters = parseJsonObject(form.parameters, 'Parameters')
+  const headers = parseJsonObject(form.headers, 'Headers')
+  if (Object.values(headers).some(v => typeof v !== 'string')) {
+    throw new Error('Header values must be strings')
+  }
+  return {
+    name: form.name.trim(),
+    description: form.description.trim(),
+    method: form.method,
+    url: form.url.trim(),
+    headers,
+    parameters: {
+      type: 'object',
+      properties: parameters.properties ?? {},
+      ...(Array.isArray(parameters.required) ? { required: parameters.required } : {})
+    },
+    body: form.body.trim() ? form.body : null
+  }
+}
+
+export function HttpToolDialog({ open, onOpenChange, onSaved, tool }: HttpToolDialogProps) {
+  const [form, setForm] = useState<FormState>(() => toForm(tool))
+  const [testArgs, setTestArgs] = useState('{}')
+  const createMutation = api.httpTools.create.useMutation()
+  const updateMutation = api.httpTools.update.useMutation()
+  const testMutation = api.httpTools.test.useMutation()
+  const isEditing = !!tool
+  const isSaving = createMutation.isPending || updateMutation.isPending
+
+  useEffect(() => {
+    if (!open) return
+    setForm(toForm(tool))
+    setTestArgs(JSON.stringify(tool ? sampleArguments(tool.parameters) : {}, null, 2))
+    testMutation.reset()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, tool?.id])
+
+  const update = (patch: Partial<FormState>) => setForm(prev => ({ ...prev, ...patch }))
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    try {
+      const definition = toDefinition(form)
+      if (tool) {
+        await updateMutation.mutateAsync({ ...definition, id: tool.id, policy: form.policy })
+        toast.success(`Saved ${definition.name}`)
+      } else {
+        await createMutation.mutateAsync({ ...definition, policy: form.policy })
+        toast.success(`Added ${definition.name}`)
+      }
+      onSaved()
+      onOpenChange(false)
+    } catch (error) {
+      toast.error('Failed to save tool', { description: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  const handleTest = async () => {
+    try {
+      const definition = toDefinition(form)
+      await testMutation.mutateAsync({ definition, arguments: parseJsonObject(testArgs, 'Test arguments') })
+    } catch (error) {
+      toast.error('Test failed', { description: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  const fillSampleArgs = () => {
+    try {
+      setTestArgs(JSON.stringify(sampleArguments(toDefinition(form).parameters), null, 2))
+    } catch (error) {
+      toast.error('Invalid parameters', { description: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  const testResult = testMutation.data
+  const responseOk = !!testResult?.response && testResult.response.status >= 200 && testResult.response.status < 300
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? 'Edit HTTP Tool' : 'New HTTP Tool'}</DialogTitle>
+          <DialogDescription>
+            {'Use {{argument}} in the URL, headers and body. Arguments the template doesn\'t mention are sent as query parameters for GET and DELETE, or as the JSON body.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="http-tool-name">Name</Label>
+              <Input
+                id="http-tool-name"
+                placeholder="e.g., get_weather"
+                value={form.name}
+                onChange={(e) => update({ name: e.target.value })}
+                className="font-mono"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="http-tool-policy">Approval</Label>
+              <Select value={form.policy} onValueChange={(value) => update({ policy: value as ToolPolicy })}>
+                <SelectTrigger id="http-tool-policy">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {toolPolicies.map(p => (
+                    <SelectItem key={p} value={p}>{policyLabels[p]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="http-tool-description">Description</Label>
+            <Textarea
+              id="http-tool-description"
+              placeholder="What the tool does and when the model should use it"
+              value={form.description}
+              onChange={(e) => update({ description: e.target.value })}
+              rows={2}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="http-tool-url">Request</Label>
+            <div className="flex gap-2">
+              <Select value={form.method} onValueChange={(value) => update({ method: value as HttpToolMethod })}>
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {httpToolMethods.map(m => (
+                    <SelectItem key={m} value={m}>{m}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                id="http-tool-url"
+                placeholder="https://api.example.com/weather?city={{city}}"
+                value={form.url}
+                onChange={(e) => update({ url: e.target.value })}
+                className="font-mono"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="http-tool-parameters">Parameters (JSON Schema)</Label>
+            <Textarea
+              id="http-tool-parameters"
+              value={form.parameters}
+              onChange={(e) => update({ parameters: e.target.value })}
+              className="font-mono text-xs"
+              rows={6}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="http-tool-headers">Headers (JSON Object)</Label>
+              <Textarea
+                id="http-tool-headers"
+                value={form.headers}
+                onChange={(e) => update({ headers: e.target.value })}
+                className="font-mono text-xs"
+                rows={4}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="http-tool-body">Body Template (optional JSON)</Label>
+              <Textarea
+                id="http-tool-body"
+                placeholder={'{ "query": "{{query}}" }'}
+                value={form.body}
+                onChange={(e) => update({ body: e.target.value })}
+                className="font-mono text-xs"
+                rows={4}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2 rounded-md border border-white/10 p-3">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="http-tool-test-args">Test Arguments</Label>
+              <div className="flex gap-2">
+                <Button type="button" variant="ghost" size="sm" className="h-7" onClick={fillSampleArgs}>
+                  Fill from schema
+                </Button>
+                <Button
+                  type="button"
+                  variant="secondary"
+                  size="sm"
+                  className="h-7"
+                  onClick={handleTest}
+                  disabled={!form.url.trim() || testMutation.isPending}
+                >
+                  {testMutation.isPending ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Play className="h-3.5 w-3.5" />}
+                  Send
+                </Button>
+              </div>
+            </div>
+            <Textarea
+              id="http-tool-test-args"
+              value={testArgs}
+              onChange={(e) => setTestArgs(e.target.value)}
+              className="font-mono text-xs"
+              rows={3}
+            />
+            {testResult && (
+              <div className="space-y-2 text-xs">
+                {testResult.request && (
+                  <pre className="overflow-x-auto whitespace-pre-wrap rounded bg-black/20 p-2 font-mono text-neutral-300">
+                    {`${testResult.request.method} ${testResult.request.url}\n`}
+                    {Object.entries(testResult.request.headers).map(([k, v]) => `${k}: ${v}\n`).join('')}
+                    {testResult.request.body ? `\n${testResult.request.body}` : ''}
+                  </pre>
+                )}
+                {testResult.error ? (
+                  <div className="rounded bg-red-500/10 p-2 text-red-400">{testResult.error}</div>
+                ) : testResult.response && (
+                  <>
+                    <div className={responseOk ? 'text-green-400' : 'text-red-400'}>
+                      {testResult.response.status} {testResult.response.statusText} · {testResult.durationMs}ms
+                      {testResult.response.truncated && ' · truncated'}
+                    </div>
+                    <pre className="max-h-60 overflow-auto whitespace-pre-wrap rounded bg-black/20 p-2 font-mono text-neutral-300">
+                      {typeof testResult.response.body === 'string'
+                        ? testResult.response.body
+                        : JSON.stringify(testResult.response.body, null, 2)}
+                    </pre>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={isSaving || !form.name.trim() || !form.description.trim() || !form.url.trim()}
+              className="bg-[#113936] hover:bg-[#0f2f2c] text-white"
+            >
+              {isEditing ? (isSaving ? 'Saving...' : 'Save Changes') : (isSaving ? 'Adding...' : 'Add Tool')}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
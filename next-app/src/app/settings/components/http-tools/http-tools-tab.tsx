@@ -0,0 +1,146 @@
+'use client'
+
+import { useState } from 'react'
+import { api } from '~/trpc/react'
+import { Separator } from '~/components/ui/separator'
+import { Button } from '~/components/ui/button'
+import { Badge } from '~/components/ui/badge'
+import { Switch } from '~/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '~/components/ui/select'
+import { FileJson, Pencil, Plus, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { normalizeToolPolicy, toolPolicies, type ToolPolicy } from '~/lib/tools/approvals'
+import { HttpToolDialog, policyLabels, type EditableHttpTool } from './http-tool-dialog'
+import { OpenApiImportDialog } from './openapi-import-dialog'
+
+export default function HttpToolsTab() {
+  const { data: tools, isLoading, refetch } = api.httpTools.list.useQuery()
+  const utils = api.useUtils()
+  const setEnabledMutation = api.httpTools.setEnabled.useMutation()
+  const setPolicyMutation = api.httpTools.setPolicy.useMutation()
+  const deleteMutation = api.httpTools.delete.useMutation()
+  const [editing, setEditing] = useState<EditableHttpTool | null>(null)
+  const [showToolDialog, setShowToolDialog] = useState(false)
+  const [showImportDialog, setShowImportDialog] = useState(false)
+
+  // The chat toolbar's tool picker lists these too
+  const onChanged = async () => {
+    await refetch()
+    await utils.mcp.listAvailableTools.invalidate()
+  }
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action()
+      await onChanged()
+    } catch (err) {
+      toast.error(failure, { description: String((err as Error).message || err) })
+    }
+  }
+
+  const echoUrl = `${typeof window !== 'undefined' ? window.location.origin : ''}/api/http-tools/echo`
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-center text-neutral-300">
+        Tools that call an HTTP API, described by a JSON schema and a request template. To try one out, point it at the local echo stub
+        {' '}<code className="rounded bg-white/10 px-1 text-xs">{echoUrl}</code>, which answers with the request it received.
+      </p>
+      <Separator />
+      <section className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-neutral-200">HTTP tools</h3>
+          <div className="flex gap-2">
+            <Button size="sm" variant="secondary" onClick={() => setShowImportDialog(true)}>
+              <FileJson className="h-3.5 w-3.5" />
+              Import OpenAPI
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => {
+                setEditing(null)
+                setShowToolDialog(true)
+              }}
+            >
+              <Plus className="h-3.5 w-3.5" />
+              New tool
+            </Button>
+          </div>
+        </div>
+        <div className="divide-y divide-white/5 rounded-lg border border-white/10">
+          {isLoading ? (
+            <div className="p-3 text-sm text-neutral-400">Loading…</div>
+          ) : !tools || tools.length === 0 ? (
+            <div className="p-3 text-sm text-neutral-400">No HTTP tools yet</div>
+          ) : (
+            tools.map((tool) => (
+              <div key={tool.id} className="group flex items-center justify-between gap-3 p-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 text-sm font-medium text-neutral-100">
+                    <span className="truncate font-mono">{tool.name}</span>
+                    <Badge variant="secondary" className="text-[10px]">{tool.method}</Badge>
+                  </div>
+                  <div className="truncate font-mono text-xs text-neutral-400">{tool.url}</div>
+                  <div className="truncate text-xs text-neutral-500">{tool.description}</div>
+                </div>
+                <div className="flex shrink-0 items-center gap-2">
+                  <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 text-neutral-300 hover:text-white"
+                      aria-label={`Edit ${tool.name}`}
+                      onClick={() => {
+                        setEditing(tool)
+                        setShowToolDialog(true)
+                      }}
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 text-neutral-400 hover:text-red-400"
+                      aria-label={`Delete ${tool.name}`}
+                      onClick={() => {
+                        if (!confirm(`Delete the tool "${tool.name}"?`)) return
+                        void run(() => deleteMutation.mutateAsync({ id: tool.id }), `Failed to delete ${tool.name}`)
+                      }}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                  <Select
+                    value={normalizeToolPolicy(tool.policy)}
+                    onValueChange={(value) =>
+                      void run(() => setPolicyMutation.mutateAsync({ id: tool.id, policy: value as ToolPolicy }), 'Failed to update tool policy')
+                    }
+                  >
+                    <SelectTrigger className="h-7 w-40 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {toolPolicies.map(p => (
+                        <SelectItem key={p} value={p}>{policyLabels[p]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Switch
+                    checked={tool.enabled}
+                    aria-label={tool.enabled ? `Disable ${tool.name}` : `Enable ${tool.name}`}
+                    onCheckedChange={(enabled) =>
+                      void run(() => setEnabledMutation.mutateAsync({ id: tool.id, enabled }), `Failed to update ${tool.name}`)
+                    }
+                  />
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </section>
+
+      <HttpToolDialog open={showToolDialog} onOpenChange={setShowToolDialog} onSaved={() => void onChanged()} tool={editing} />
+      <OpenApiImportDialog open={showImportDialog} onOpenChange={setShowImportDialog} onImported={() => void onChanged()} />
+    </div>
+  )
+}
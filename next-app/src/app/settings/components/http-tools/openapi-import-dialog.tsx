@@ -0,0 +1,174 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { api } from '~/trpc/react'
+import { Button } from '~/components/ui/button'
+import { Input } from '~/components/ui/input'
+import { Label } from '~/components/ui/label'
+import { Textarea } from '~/components/ui/textarea'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '~/components/ui/dialog'
+import { Badge } from '~/components/ui/badge'
+import { AlertTriangle } from 'lucide-react'
+import { toast } from 'sonner'
+
+interface OpenApiImportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onImported: () => void
+}
+
+export function OpenApiImportDialog({ open, onOpenChange, onImported }: OpenApiImportDialogProps) {
+  const [document, setDocument] = useState('')
+  const [baseUrl, setBaseUrl] = useState('')
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const parseMutation = api.httpTools.parseOpenApi.useMutation()
+  const importMutation = api.httpTools.importTools.useMutation()
+  const parsed = parseMutation.data
+
+  useEffect(() => {
+    if (!open) return
+    setDocument('')
+    setBaseUrl('')
+    setSelected(new Set())
+    parseMutation.reset()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open])
+
+  const loadFile = async (file: File | undefined) => {
+    if (!file) return
+    setDocument(await file.text())
+    parseMutation.reset()
+  }
+
+  const handleParse = async () => {
+    try {
+      const result = await parseMutation.mutateAsync({ document, baseUrl: baseUrl.trim() || undefined })
+      // Everything that can be imported starts out selected
+      setSelected(new Set(result.tools.filter(t => !t.conflict).map(t => t.name)))
+    } catch (error) {
+      toast.error('Could not read the document', { description: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  const handleImport = async () => {
+    if (!parsed) return
+    try {
+      const tools = parsed.tools
+        .filter(t => selected.has(t.name))
+        .map(({ conflict: _conflict, ...definition }) => definition)
+      const { count } = await importMutation.mutateAsync({ tools })
+      toast.success(`Imported ${count} ${count === 1 ? 'tool' : 'tools'} from ${parsed.title}`)
+      onImported()
+      onOpenChange(false)
+    } catch (error) {
+      toast.error('Import failed', { description: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  const toggle = (name: string, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (checked) next.add(name)
+      else next.delete(name)
+      return next
+    })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>Import from OpenAPI</DialogTitle>
+          <DialogDescription>
+            Each operation of an OpenAPI 3 document (JSON) becomes a tool. Imported tools ask for approval before running.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="openapi-file">Document</Label>
+            <Input id="openapi-file" type="file" accept=".json,application/json" onChange={(e) => void loadFile(e.target.files?.[0])} />
+            <Textarea
+              value={document}
+              onChange={(e) => {
+                setDocument(e.target.value)
+                parseMutation.reset()
+              }}
+              placeholder='…or paste it here: { "openapi": "3.0.0", ... }'
+              className="font-mono text-xs"
+              rows={5}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="openapi-base-url">Base URL (optional)</Label>
+            <Input
+              id="openapi-base-url"
+              value={baseUrl}
+              onChange={(e) => setBaseUrl(e.target.value)}
+              placeholder="Defaults to the document's first server"
+              className="font-mono"
+            />
+          </div>
+
+          {parsed && (
+            <div className="space-y-2">
+              {parsed.warnings.map(warning => (
+                <div key={warning} className="flex items-start gap-2 text-xs text-amber-400">
+                  <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+                  {warning}
+                </div>
+              ))}
+              <div className="max-h-72 divide-y divide-white/5 overflow-y-auto rounded-lg border border-white/10">
+                {parsed.tools.map(tool => (
+                  <label key={tool.name} className="flex items-start gap-3 p-2 text-sm">
+                    <input
+                      type="checkbox"
+                      className="mt-1"
+                      checked={selected.has(tool.name)}
+                      disabled={tool.conflict}
+                      onChange={(e) => toggle(tool.name, e.target.checked)}
+                    />
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-mono text-neutral-100">{tool.name}</span>
+                        <Badge variant="secondary" className="text-[10px]">{tool.method}</Badge>
+                        {tool.conflict && <span className="text-xs text-amber-400">name already taken</span>}
+                      </div>
+                      <div className="truncate text-xs text-neutral-400">{tool.description}</div>
+                    </div>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          {parsed ? (
+            <Button
+              type="button"
+              onClick={handleImport}
+              disabled={selected.size === 0 || importMutation.isPending}
+              className="bg-[#113936] hover:bg-[#0f2f2c] text-white"
+            >
+              {importMutation.isPending ? 'Importing...' : `Import ${selected.size} ${selected.size === 1 ? 'Tool' : 'Tools'}`}
+            </Button>
+          ) : (
+            <Button
+              type="button"
+              onClick={handleParse}
+              disabled={!document.trim() || parseMutation.isPending}
+              className="bg-[#113936] hover:bg-[#0f2f2c] text-white"
+            >
+              {parseMutation.isPending ? 'Reading...' : 'Preview'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
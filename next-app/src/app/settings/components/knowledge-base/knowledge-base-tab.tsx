@@ -0,0 +1,328 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { api } from '~/trpc/react'
+import { Separator } from '~/components/ui/separator'
+import { Input } from '~/components/ui/input'
+import { Button } from '~/components/ui/button'
+import { Badge } from '~/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '~/components/ui/select'
+import { Loader2, RefreshCw, Trash2, Upload, Search } from 'lucide-react'
+import { toast } from 'sonner'
+import { parseFile, validateFile, getAcceptedFileTypes, type ModelFileCapabilities } from '~/lib/file-upload'
+
+// Knowledge base documents are text only; images are not embedded
+const KNOWLEDGE_FILE_CAPABILITIES: ModelFileCapabilities = { images: false, textFiles: true, pdfs: true, maxFiles: 20 }
+
+const statusStyles: Record<string, string> = {
+  ready: 'text-[#22c55e]',
+  indexing: 'text-amber-300',
+  pending: 'text-neutral-400',
+  error: 'text-red-400',
+}
+
+export default function KnowledgeBaseTab() {
+  const { data, isLoading, refetch } = api.knowledgeBase.listCollections.useQuery()
+  const collections = data?.collections ?? []
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const selected = collections.find(c => c.id === selectedId) ?? collections[0] ?? null
+  const deleteMutation = api.knowledgeBase.deleteCollection.useMutation()
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-center text-neutral-300">
+        Documents are split into chunks and embedded with an Ollama embedding model. Turn collections on per chat from the book icon in the chat toolbar.
+      </p>
+      <Separator />
+      <section className="space-y-3">
+        <h3 className="text-sm font-semibold text-neutral-200">Collections</h3>
+        <div className="divide-y divide-white/5 rounded-lg border border-white/10">
+          {isLoading ? (
+            <div className="p-3 text-sm text-neutral-400">Loading…</div>
+          ) : collections.length === 0 ? (
+            <div className="p-3 text-sm text-neutral-400">No collections yet</div>
+          ) : (
+            collections.map((c) => (
+              <div
+                key={c.id}
+                className={`group flex cursor-pointer items-center justify-between p-3 ${selected?.id === c.id ? 'bg-white/5' : ''}`}
+                onClick={() => setSelectedId(c.id)}
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 text-sm font-medium text-neutral-100">
+                    <span className="truncate">{c.name}</span>
+                    <Badge variant="secondary" className="text-[10px]">{c._count.documents} docs</Badge>
+                  </div>
+                  <div className="truncate text-xs text-neutral-400">{c.description || c.embeddingModel}</div>
+                </div>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 text-neutral-400 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                  aria-label={`Delete ${c.name}`}
+                  onClick={async (e) => {
+                    e.stopPropagation()
+                    try {
+                      await deleteMutation.mutateAsync({ id: c.id })
+                      toast.success(`Deleted ${c.name}`)
+                      await refetch()
+                    } catch (err) {
+                      toast.error(`Failed to delete ${c.name}`, { description: String((err as Error).message || err) })
+                    }
+                  }}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </section>
+
+      <section className="space-y-3">
+        <h3 className="text-sm font-semibold text-neutral-200">New collection</h3>
+        <AddCollection onAdded={async (id) => { await refetch(); setSelectedId(id) }} />
+      </section>
+
+      {selected && (
+        <>
+          <Separator />
+          <CollectionDocuments
+            key={selected.id}
+            collectionId={selected.id}
+            name={selected.name}
+            embeddingModel={selected.embeddingModel}
+            onChanged={refetch}
+          />
+        </>
+      )}
+    </div>
+  )
+}
+
+function AddCollection({ onAdded }: { onAdded?: (id: string) => void | Promise<void> }) {
+  const [name, setName] = useState('')
+  const [embeddingModel, setEmbeddingModel] = useState('')
+  const { data: modelsData } = api.models.list.useQuery(undefined, { refetchOnWindowFocus: false })
+  const models = modelsData?.models ?? []
+  const createMutation = api.knowledgeBase.createCollection.useMutation()
+
+  const onAdd = async () => {
+    if (!name.trim() || !embeddingModel) return
+    try {
+      const { collection } = await createMutation.mutateAsync({ name: name.trim(), embeddingModel })
+      toast.success(`Created ${collection.name}`)
+      setName('')
+      await onAdded?.(collection.id)
+    } catch (err) {
+      toast.error('Failed to create collection', { description: String((err as Error).message || err) })
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name, e.g. Project docs" className="h-8" />
+      <Select value={embeddingModel} onValueChange={setEmbeddingModel}>
+        <SelectTrigger size="sm" className="w-56">
+          <SelectValue placeholder="Embedding model" />
+        </SelectTrigger>
+        <SelectContent>
+          {models.map((m) => (
+            <SelectItem key={m.name} value={m.name}>{m.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button size="sm" onClick={onAdd} disabled={!name.trim() || !embeddingModel || createMutation.isPending}>Create</Button>
+    </div>
+  )
+}
+
+function CollectionDocuments({ collectionId, name, embeddingModel, onChanged }: {
+  collectionId: string
+  name: string
+  embeddingModel: string
+  onChanged?: () => unknown
+}) {
+  const { data, refetch } = api.knowledgeBase.listDocuments.useQuery({ collectionId })
+  const documents = data?.documents ?? []
+  const addMutation = api.knowledgeBase.addDocument.useMutation()
+  const deleteMutation = api.knowledgeBase.deleteDocument.useMutation()
+  const reindexMutation = api.knowledgeBase.reindex.useMutation()
+  const pdfExtractMutation = api.pdf.extractText.useMutation()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [uploading, setUploading] = useState<string | null>(null)
+
+  const refresh = async () => {
+    await refetch()
+    await onChanged?.()
+  }
+
+  const onFiles = async (files: FileList | null) => {
+    for (const file of Array.from(files ?? [])) {
+      const validation = validateFile(file, KNOWLEDGE_FILE_CAPABILITIES)
+      if (!validation.valid || !validation.fileType) {
+        toast.error(`Skipped ${file.name}`, { description: validation.error })
+        continue
+      }
+      setUploading(file.name)
+      try {
+        const parsed = await parseFile(file, validation.fileType)
+        let content = parsed.content ?? ''
+        if (validation.fileType === 'pdf') {
+          const result = await pdfExtractMutation.mutateAsync({ data: parsed.data, fileName: parsed.fileName })
+          if (!result.text) throw new Error(result.error || 'No text found in PDF')
+          content = result.text
+        }
+        const res = await addMutation.mutateAsync({ collectionId, fileName: file.name, mimeType: file.type || parsed.mimeType, content })
+        if (res.status === 'error') {
+          toast.error(`Failed to index ${file.name}`, { description: res.error })
+        } else {
+          toast.success(`Indexed ${file.name}`, { description: `${res.chunkCount} chunks` })
+        }
+      } catch (err) {
+        toast.error(`Failed to add ${file.name}`, { description: String((err as Error).message || err) })
+      }
+    }
+    setUploading(null)
+    if (fileInputRef.current) fileInputRef.current.value = ''
+    await refresh()
+  }
+
+  const onReindex = async (input: { collectionId: string } | { documentId: string }) => {
+    try {
+      const res = await reindexMutation.mutateAsync(input)
+      if (res.failed > 0) {
+        toast.error(`Reindexed with ${res.failed} failure${res.failed === 1 ? '' : 's'}`)
+      } else {
+        toast.success(`Reindexed ${res.ready} document${res.ready === 1 ? '' : 's'}`)
+      }
+    } catch (err) {
+      toast.error('Reindex failed', { description: String((err as Error).message || err) })
+    }
+    await refresh()
+  }
+
+  return (
+    <section className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-sm font-semibold text-neutral-200">{name}</h3>
+          <div className="text-xs text-neutral-400">Embedded with {embeddingModel}</div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-7 text-neutral-300 hover:text-white"
+            onClick={() => onReindex({ collectionId })}
+            disabled={reindexMutation.isPending || documents.length === 0}
+          >
+            {reindexMutation.isPending ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <RefreshCw className="h-3.5 w-3.5" />}
+            Reindex all
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            className="hidden"
+            accept={getAcceptedFileTypes(KNOWLEDGE_FILE_CAPABILITIES)}
+            onChange={(e) => onFiles(e.target.files)}
+          />
+          <Button size="sm" variant="secondary" onClick={() => fileInputRef.current?.click()} disabled={!!uploading}>
+            {uploading ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Upload className="h-3.5 w-3.5" />}
+            {uploading ? `Indexing ${uploading}…` : 'Add documents'}
+          </Button>
+        </div>
+      </div>
+
+      <div className="divide-y divide-white/5 rounded-lg border border-white/10">
+        {documents.length === 0 ? (
+          <div className="p-3 text-sm text-neutral-400">No documents yet. Text, code and text-based PDF files are supported.</div>
+        ) : (
+          documents.map((d) => (
+            <div key={d.id} className="group flex items-center justify-between p-3">
+              <div className="min-w-0">
+                <div className="truncate text-sm font-medium text-neutral-100">{d.fileName}</div>
+                <div className="truncate text-xs">
+                  <span className={statusStyles[d.status] ?? 'text-neutral-400'}>{d.status}</span>
+                  <span className="text-neutral-400">{d.status === 'error' && d.error ? ` · ${d.error}` : ` · ${d.chunkCount} chunks`}</span>
+                </div>
+              </div>
+              <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 text-neutral-400 hover:text-white"
+                  aria-label={`Reindex ${d.fileName}`}
+                  onClick={() => onReindex({ documentId: d.id })}
+                  disabled={reindexMutation.isPending}
+                >
+                  <RefreshCw className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 text-neutral-400 hover:text-red-400"
+                  aria-label={`Remove ${d.fileName}`}
+                  onClick={async () => {
+                    try {
+                      await deleteMutation.mutateAsync({ id: d.id })
+                      await refresh()
+                    } catch (err) {
+                      toast.error(`Failed to remove ${d.fileName}`, { description: String((err as Error).message || err) })
+                    }
+                  }}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      <SearchPreview collectionId={collectionId} />
+    </section>
+  )
+}
+
+// Quick way to check what a chat would retrieve for a question
+function SearchPreview({ collectionId }: { collectionId: string }) {
+  const [draft, setDraft] = useState('')
+  const [query, setQuery] = useState('')
+  const { data, isFetching, error } = api.knowledgeBase.search.useQuery(
+    { collectionIds: [collectionId], query },
+    { enabled: !!query, refetchOnWindowFocus: false }
+  )
+  const results = data?.results ?? []
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') setQuery(draft.trim()) }}
+          placeholder="Test a question against this collection"
+          className="h-8"
+        />
+        <Button size="sm" variant="secondary" onClick={() => setQuery(draft.trim())} disabled={!draft.trim() || isFetching}>
+          {isFetching ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Search className="h-3.5 w-3.5" />}
+        </Button>
+      </div>
+      {error && <div className="text-xs text-red-400">{error.message}</div>}
+      {query && !isFetching && !error && results.length === 0 && (
+        <div className="text-xs text-neutral-400">No relevant chunks found</div>
+      )}
+      {results.map((r) => (
+        <div key={r.chunkId} className="rounded-lg border border-white/10 p-3">
+          <div className="mb-1 flex items-center justify-between text-xs text-neutral-400">
+            <span className="truncate">{r.fileName}</span>
+            <span>{r.score.toFixed(3)}</span>
+          </div>
+          <div className="line-clamp-4 whitespace-pre-wrap text-xs text-neutral-300">{r.content}</div>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { api } from '~/trpc/react'
 import { Button } from '~/components/ui/button'
 import { Input } from '~/components/ui/input'
@@ -8,40 +8,95 @@ import { Label } from '~/components/ui/label'
 import { Textarea } from '~/components/ui/textarea'
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '~/components/ui/dialog'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '~/components/ui/select'
-import { TestTube, CheckCircle, XCircle } from 'lucide-react'
+import { TestTube, CheckCircle, XCircle, Lock, LockOpen, Plus, X } from 'lucide-react'
 import { toast } from 'sonner'
+import { MASKED_SECRET, mcpTransportLabels, mcpTransports, type MaskedMcpEnvVar, type McpTransport } from '~/lib/mcp/transports'
+
+// A saved server as listServers returns it; secret env values arrive as null and header values masked
+export interface EditableMcpServer {
+  id: string
+  name: string
+  transport: McpTransport
+  command: string
+  args: string[]
+  env: MaskedMcpEnvVar[]
+  cwd: string | null
+  url: string | null
+  headers: Record<string, string> | null
+}
 
 interface AddMcpServerDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
   onServerAdded: () => void
+  server?: EditableMcpServer // Edit this server instead of adding a new one
 }
 
-export function AddMcpServerDialog({ open, onOpenChange, onServerAdded }: AddMcpServerDialogProps) {
-  const [formData, setFormData] = useState({
-    name: '',
-    command: 'npx',
-    argsJson: '[]'
-  })
+// `stored` marks a saved secret whose value the UI never sees; leaving it empty keeps it
+type EnvRow = { key: string; value: string; secret: boolean; stored: boolean }
+
+// Common package managers
+const commonCommands = [
+  { value: 'npx', label: 'npx (Node.js)', example: '["@modelcontextprotocol/server-filesystem"]' },
+  { value: 'uvx', label: 'uvx (Python/UV)', example: '["mcp-server-git"]' },
+  { value: 'pipx', label: 'pipx (Python)', example: '["mcp-server-sqlite"]' },
+  { value: 'pnpm dlx', label: 'pnpm dlx (Node.js)', example: '["@modelcontextprotocol/server-filesystem"]' },
+  { value: 'yarn dlx', label: 'yarn dlx (Node.js)', example: '["@modelcontextprotocol/server-filesystem"]' },
+  { value: 'bun x', label: 'bun x (Node.js)', example: '["@modelcontextprotocol/server-filesystem"]' },
+]
+
+const emptyForm = () => ({
+  name: '',
+  transport: 'stdio' as McpTransport,
+  command: 'npx',
+  argsJson: '[]',
+  cwd: '',
+  url: '',
+  headersJson: '{}'
+})
+
+export function AddMcpServerDialog({ open, onOpenChange, onServerAdded, server }: AddMcpServerDialogProps) {
+  const [formData, setFormData] = useState(emptyForm)
+  const [envRows, setEnvRows] = useState<EnvRow[]>([])
   const [customCommand, setCustomCommand] = useState('')
   const [useCustomCommand, setUseCustomCommand] = useState(false)
   const [testResult, setTestResult] = useState<{ success: boolean; message?: string; error?: string } | null>(null)
 
-  // Common package managers
-  const commonCommands = [
-    { value: 'npx', label: 'npx (Node.js)', example: '["@modelcontextprotocol/server-filesystem"]' },
-    { value: 'uvx', label: 'uvx (Python/UV)', example: '["mcp-server-git"]' },
-    { value: 'pipx', label: 'pipx (Python)', example: '["mcp-server-sqlite"]' },
-    { value: 'pnpm dlx', label: 'pnpm dlx (Node.js)', example: '["@modelcontextprotocol/server-filesystem"]' },
-    { value: 'yarn dlx', label: 'yarn dlx (Node.js)', example: '["@modelcontextprotocol/server-filesystem"]' },
-    { value: 'bun x', label: 'bun x (Node.js)', example: '["@modelcontextprotocol/server-filesystem"]' },
-  ]
-  
+  const isEditing = !!server
   const currentCommand = useCustomCommand ? customCommand : formData.command
   const currentExample = commonCommands.find(cmd => cmd.value === formData.command)?.example || '["package-name", "--arg"]'
 
   const createServerMutation = api.mcp.createServer.useMutation()
+  const updateServerMutation = api.mcp.updateServer.useMutation()
   const testConnectionMutation = api.mcp.testConnection.useMutation()
+  const isSaving = createServerMutation.isPending || updateServerMutation.isPending
+
+  const resetForm = () => {
+    const isCustom = !!server && server.transport === 'stdio' && !commonCommands.some(cmd => cmd.value === server.command)
+    setFormData(server ? {
+      name: server.name,
+      transport: server.transport,
+      command: isCustom ? 'npx' : server.command || 'npx',
+      argsJson: JSON.stringify(server.args),
+      cwd: server.cwd ?? '',
+      url: server.url ?? '',
+      headersJson: JSON.stringify(server.headers ?? {}, null, 2)
+    } : emptyForm())
+    setEnvRows(server ? server.env.map(v => ({ key: v.key, value: v.value ?? '', secret: v.secret, stored: v.value === null })) : [])
+    setCustomCommand(isCustom ? server.command : '')
+    setUseCustomCommand(isCustom)
+    setTestResult(null)
+  }
+
+  // Load the server being edited (or a blank form) each time the dialog opens
+  useEffect(() => {
+    if (open) resetForm()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, server?.id])
+
+  const updateEnvRow = (index: number, patch: Partial<EnvRow>) => {
+    setEnvRows(rows => rows.map((row, i) => (i === index ? { ...row, ...patch } : row)))
+  }
 
   const parseArgsJson = (jsonString: string): string[] => {
     try {
@@ -55,24 +110,71 @@ export function AddMcpServerDialog({ open, onOpenChange, onServerAdded }: AddMcp
     }
   }
 
-  const handleTestConnection = async () => {
+  const parseHeadersJson = (jsonString: string): Record<string, string> | null => {
+    try {
+      const parsed = JSON.parse(jsonString || '{}')
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed) && Object.values(parsed).every(v => typeof v === 'string')) {
+        return parsed as Record<string, string>
+      }
+      return null
+    } catch {
+      return null
+    }
+  }
+
+  // Validate the form for the chosen transport; toasts and returns null when something is missing
+  const buildConnection = () => {
+    if (formData.transport !== 'stdio') {
+      if (!formData.url.trim()) {
+        toast.error('Please provide the server URL')
+        return null
+      }
+      const headers = parseHeadersJson(formData.headersJson)
+      if (!headers) {
+        toast.error('Headers must be a JSON object of strings')
+        return null
+      }
+      return { transport: formData.transport, url: formData.url.trim(), headers }
+    }
+
+    if (!currentCommand.trim()) {
+      toast.error('Please specify a command')
+      return null
+    }
+
     const args = parseArgsJson(formData.argsJson)
     
     if (args.length === 0) {
       toast.error('Please provide valid JSON array of arguments')
-      return
+      return null
     }
 
-    if (!currentCommand.trim()) {
-      toast.error('Please specify a command')
-      return
+    const env = envRows.filter(row => row.key.trim())
+    if (env.some(row => !/^[A-Za-z_][A-Za-z0-9_]*$/.test(row.key.trim()))) {
+      toast.error('Environment variable names may only contain letters, digits and underscores')
+      return null
     }
 
+    return {
+      transport: 'stdio' as const,
+      command: currentCommand,
+      args,
+      // An untouched saved secret is sent without a value so the server keeps it
+      env: env.map(row => ({
+        key: row.key.trim(),
+        secret: row.secret,
+        value: row.stored && !row.value ? undefined : row.value
+      })),
+      cwd: formData.cwd.trim() || undefined
+    }
+  }
+
+  const handleTestConnection = async () => {
+    const connection = buildConnection()
+    if (!connection) return
+
     try {
-      const result = await testConnectionMutation.mutateAsync({
-        command: currentCommand,
-        args: args
-      })
+      const result = await testConnectionMutation.mutateAsync({ serverId: server?.id, ...connection })
       
       setTestResult(result)
       
@@ -95,62 +197,42 @@ export function AddMcpServerDialog({ open, onOpenChange, onServerAdded }: AddMcp
       return
     }
 
-    if (!currentCommand.trim()) {
-      toast.error('Please specify a command')
-      return
-    }
-
-    const args = parseArgsJson(formData.argsJson)
-    
-    if (args.length === 0) {
-      toast.error('Please provide valid JSON array of arguments')
-      return
-    }
+    const connection = buildConnection()
+    if (!connection) return
 
     try {
-      await createServerMutation.mutateAsync({
-        name: formData.name.trim(),
-        command: currentCommand,
-        args: args
-      })
+      if (server) {
+        await updateServerMutation.mutateAsync({
+          id: server.id,
+          name: formData.name.trim(),
+          connection
+        })
+        toast.success('MCP server updated')
+      } else {
+        await createServerMutation.mutateAsync({
+          name: formData.name.trim(),
+          ...connection
+        })
+        toast.success('MCP server added successfully!')
+      }
 
-      toast.success('MCP server added successfully!')
       onServerAdded()
       onOpenChange(false)
-      
-      // Reset form
-      setFormData({
-        name: '',
-        command: 'npx',
-        argsJson: '[]'
-      })
-      setCustomCommand('')
-      setUseCustomCommand(false)
-      setTestResult(null)
     } catch (error) {
-      toast.error('Failed to add MCP server')
-      console.error('Create server error:', error)
+      toast.error(server ? 'Failed to update MCP server' : 'Failed to add MCP server')
+      console.error('Save server error:', error)
     }
   }
 
   const handleClose = () => {
     onOpenChange(false)
-    // Reset form when closing
-    setFormData({
-      name: '',
-      command: 'npx',
-      argsJson: '[]'
-    })
-    setCustomCommand('')
-    setUseCustomCommand(false)
-    setTestResult(null)
   }
 
   return (
     <Dialog open={open} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-[500px]">
         <DialogHeader>
-          <DialogTitle>Add MCP Server</DialogTitle>
+          <DialogTitle>{isEditing ? 'Edit MCP Server' : 'Add MCP Server'}</DialogTitle>
           <DialogDescription>
             Connect to a Model Context Protocol server to extend your AI's capabilities.
           </DialogDescription>
@@ -168,62 +250,186 @@ export function AddMcpServerDialog({ open, onOpenChange, onServerAdded }: AddMcp
             />
           </div>
 
-          {/* Package Manager */}
+          {/* Transport */}
           <div className="space-y-2">
-            <Label htmlFor="command">Package Manager</Label>
-            <Select 
-              value={useCustomCommand ? 'custom' : formData.command} 
+            <Label htmlFor="transport">Connection</Label>
+            <Select
+              value={formData.transport}
               onValueChange={(value) => {
-                if (value === 'custom') {
-                  setUseCustomCommand(true)
-                } else {
-                  setUseCustomCommand(false)
-                  setFormData(prev => ({ ...prev, command: value }))
-                }
+                setFormData(prev => ({ ...prev, transport: value as McpTransport }))
+                setTestResult(null)
               }}
             >
-              <SelectTrigger>
-                <SelectValue placeholder="Select a package manager" />
+              <SelectTrigger id="transport">
+                <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                {commonCommands.map((cmd) => (
-                  <SelectItem key={cmd.value} value={cmd.value}>
-                    {cmd.label}
+                {mcpTransports.map((transport) => (
+                  <SelectItem key={transport} value={transport}>
+                    {mcpTransportLabels[transport]}
                   </SelectItem>
                 ))}
-                <SelectItem value="custom">Custom Command</SelectItem>
               </SelectContent>
             </Select>
-            
-            {useCustomCommand && (
-              <Input
-                placeholder="e.g., python -m, ./my-script.sh, docker run ..."
-                value={customCommand}
-                onChange={(e) => setCustomCommand(e.target.value)}
-                className="mt-2"
-              />
-            )}
-            
-            <p className="text-xs text-neutral-500">
-              Command must be available on the server. Common: npx (Node.js), uvx/pipx (Python)
-            </p>
           </div>
 
-          {/* Arguments */}
-          <div className="space-y-2">
-            <Label htmlFor="args">Arguments (JSON Array)</Label>
-            <Textarea
-              id="args"
-              placeholder={currentExample}
-              value={formData.argsJson}
-              onChange={(e) => setFormData(prev => ({ ...prev, argsJson: e.target.value }))}
-              className="min-h-[80px] font-mono text-sm"
-              rows={3}
-            />
-            <p className="text-xs text-neutral-500">
-              Enter arguments as a JSON array of strings. Examples vary by package manager.
-            </p>
-          </div>
+          {formData.transport === 'stdio' ? (
+            <>
+              {/* Package Manager */}
+              <div className="space-y-2">
+                <Label htmlFor="command">Package Manager</Label>
+                <Select 
+                  value={useCustomCommand ? 'custom' : formData.command} 
+                  onValueChange={(value) => {
+                    if (value === 'custom') {
+                      setUseCustomCommand(true)
+                    } else {
+                      setUseCustomCommand(false)
+                      setFormData(prev => ({ ...prev, command: value }))
+                    }
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a package manager" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {commonCommands.map((cmd) => (
+                      <SelectItem key={cmd.value} value={cmd.value}>
+                        {cmd.label}
+                      </SelectItem>
+                    ))}
+                    <SelectItem value="custom">Custom Command</SelectItem>
+                  </SelectContent>
+                </Select>
+                
+                {useCustomCommand && (
+                  <Input
+                    placeholder="e.g., python -m, ./my-script.sh, docker run ..."
+                    value={customCommand}
+                    onChange={(e) => setCustomCommand(e.target.value)}
+                    className="mt-2"
+                  />
+                )}
+                
+                <p className="text-xs text-neutral-500">
+                  Command must be available on the server. Common: npx (Node.js), uvx/pipx (Python)
+                </p>
+              </div>
+
+              {/* Arguments */}
+              <div className="space-y-2">
+                <Label htmlFor="args">Arguments (JSON Array)</Label>
+                <Textarea
+                  id="args"
+                  placeholder={currentExample}
+                  value={formData.argsJson}
+                  onChange={(e) => setFormData(prev => ({ ...prev, argsJson: e.target.value }))}
+                  className="min-h-[80px] font-mono text-sm"
+                  rows={3}
+                />
+                <p className="text-xs text-neutral-500">
+                  Enter arguments as a JSON array of strings. Examples vary by package manager.
+                </p>
+              </div>
+
+              {/* Working Directory */}
+              <div className="space-y-2">
+                <Label htmlFor="cwd">Working Directory</Label>
+                <Input
+                  id="cwd"
+                  placeholder="e.g., /Users/me/projects/my-repo (optional)"
+                  value={formData.cwd}
+                  onChange={(e) => setFormData(prev => ({ ...prev, cwd: e.target.value }))}
+                  className="font-mono text-sm"
+                />
+              </div>
+
+              {/* Environment Variables */}
+              <div className="space-y-2">
+                <Label>Environment Variables</Label>
+                {envRows.map((row, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Input
+                      placeholder="NAME"
+                      value={row.key}
+                      onChange={(e) => updateEnvRow(index, { key: e.target.value })}
+                      className="w-2/5 font-mono text-sm"
+                    />
+                    <Input
+                      type={row.secret ? 'password' : 'text'}
+                      placeholder={row.stored ? `${MASKED_SECRET} (unchanged)` : 'value'}
+                      value={row.value}
+                      onChange={(e) => updateEnvRow(index, { value: e.target.value })}
+                      className="flex-1 font-mono text-sm"
+                      autoComplete="off"
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className={`h-8 w-8 p-0 ${row.secret ? 'text-amber-400' : 'text-neutral-400'}`}
+                      title={row.secret ? 'Secret: hidden once saved' : 'Mark as secret'}
+                      onClick={() => updateEnvRow(index, row.stored ? { secret: !row.secret, stored: false } : { secret: !row.secret })}
+                    >
+                      {row.secret ? <Lock className="h-4 w-4" /> : <LockOpen className="h-4 w-4" />}
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0 text-neutral-400 hover:text-white"
+                      onClick={() => setEnvRows(rows => rows.filter((_, i) => i !== index))}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-neutral-300"
+                  onClick={() => setEnvRows(rows => [...rows, { key: '', value: '', secret: false, stored: false }])}
+                >
+                  <Plus className="h-3 w-3 mr-1" />
+                  Add variable
+                </Button>
+                <p className="text-xs text-neutral-500">
+                  Passed to the server process, e.g. API tokens. Values marked secret are never shown again after saving.
+                </p>
+              </div>
+            </>
+          ) : (
+            <>
+              {/* Server URL */}
+              <div className="space-y-2">
+                <Label htmlFor="url">Server URL</Label>
+                <Input
+                  id="url"
+                  placeholder={formData.transport === 'sse' ? 'e.g., http://localhost:3001/sse' : 'e.g., http://localhost:3001/mcp'}
+                  value={formData.url}
+                  onChange={(e) => setFormData(prev => ({ ...prev, url: e.target.value }))}
+                  className="font-mono text-sm"
+                />
+              </div>
+
+              {/* Headers */}
+              <div className="space-y-2">
+                <Label htmlFor="headers">Headers (JSON Object)</Label>
+                <Textarea
+                  id="headers"
+                  placeholder='{"Authorization": "Bearer ..."}'
+                  value={formData.headersJson}
+                  onChange={(e) => setFormData(prev => ({ ...prev, headersJson: e.target.value }))}
+                  className="min-h-[80px] font-mono text-sm"
+                  rows={3}
+                />
+                <p className="text-xs text-neutral-500">
+                  Sent with every request, e.g. for API keys. Leave as {'{}'} if the server needs none. Saved values are never shown again; leave {MASKED_SECRET} to keep one.
+                </p>
+              </div>
+            </>
+          )}
 
           {/* Test Connection */}
           <div className="space-y-2">
@@ -258,10 +464,10 @@ export function AddMcpServerDialog({ open, onOpenChange, onServerAdded }: AddMcp
             </Button>
             <Button 
               type="submit" 
-              disabled={createServerMutation.isPending}
+              disabled={isSaving}
               className="bg-[#113936] hover:bg-[#0f2f2c] text-white"
             >
-              {createServerMutation.isPending ? 'Adding...' : 'Add Server'}
+              {isEditing ? (isSaving ? 'Saving...' : 'Save Changes') : (isSaving ? 'Adding...' : 'Add Server')}
             </Button>
           </DialogFooter>
         </form>
@@ -1,34 +1,43 @@
 'use client'
 
-import React, { useState, useMemo } from 'react'
+import React, { useState } from 'react'
 import { api } from '~/trpc/react'
 import { Button } from '~/components/ui/button'
 import { Switch } from '~/components/ui/switch'
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '~/components/ui/dropdown-menu'
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '~/components/ui/collapsible'
-import { MoreHorizontal, Trash2, TestTube, ChevronsUpDown } from 'lucide-react'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '~/components/ui/select'
+import { MoreHorizontal, Trash2, TestTube, ChevronsUpDown, Pencil } from 'lucide-react'
 import { toast } from 'sonner'
-import type { ConnectionStatus } from '~/lib/mcp/server-client-manager'
+import type { ConnectionStatus, ServerHealth } from '~/lib/mcp/server-client-manager'
+import { describeMcpServer, MASKED_SECRET } from '~/lib/mcp/transports'
+import { normalizeToolPolicy, type ToolPolicy } from '~/lib/tools/approvals'
+import { AddMcpServerDialog, type EditableMcpServer } from './add-mcp-server-dialog'
+
+const policyLabels: Record<ToolPolicy, string> = {
+  auto: 'Run automatically',
+  ask: 'Ask first',
+  deny: 'Never run'
+}
 
 interface McpServerCardProps {
-  server: {
-    id: string
-    name: string
-    command: string
-    args: string[]
+  server: EditableMcpServer & {
     enabled: boolean
+    toolPolicy: string
     createdAt: Date
     updatedAt: Date
   }
   status: ConnectionStatus
+  health?: ServerHealth
   onUpdate: () => void
   isFirst?: boolean
   isLast?: boolean
 }
 
-export function McpServerCard({ server, status, onUpdate, isFirst = false, isLast = false }: McpServerCardProps) {
+export function McpServerCard({ server, status, health, onUpdate, isFirst = false, isLast = false }: McpServerCardProps) {
   const [isExpanded, setIsExpanded] = useState(false)
   const [optimisticEnabled, setOptimisticEnabled] = useState(server.enabled)
+  const [showEditDialog, setShowEditDialog] = useState(false)
   
   const toggleServerMutation = api.mcp.toggleServer.useMutation()
   const deleteServerMutation = api.mcp.deleteServer.useMutation()
@@ -39,35 +48,6 @@ export function McpServerCard({ server, status, onUpdate, isFirst = false, isLas
     setOptimisticEnabled(server.enabled)
   }, [server.enabled])
   
-  // Mock tools based on server name - memoized to prevent recreation
-  const getMockTools = useMemo(() => (serverName: string) => {
-    if (serverName.toLowerCase().includes('gh') || serverName.toLowerCase().includes('github')) {
-      return [
-        { name: 'search_repos', enabled: true },
-        { name: 'get_repo_details', enabled: true },
-        { name: 'read_file_content', enabled: true },
-        { name: 'get_readme', enabled: true },
-        { name: 'get_file_tree', enabled: true },
-        { name: 'get_commit_history', enabled: true },
-        { name: 'get_languages', enabled: true }
-      ]
-    }
-    if (serverName.toLowerCase().includes('filesystem')) {
-      return [
-        { name: 'read_file', enabled: true },
-        { name: 'write_file', enabled: true },
-        { name: 'list_directory', enabled: true },
-        { name: 'create_directory', enabled: true }
-      ]
-    }
-    // Default generic tools
-    return [
-      { name: 'tool_1', enabled: true },
-      { name: 'tool_2', enabled: true },
-      { name: 'tool_3', enabled: false }
-    ]
-  }, [])
-  
   // Fetch real tools for this server
   const { data: serverTools, isLoading: toolsLoading } = api.mcp.getServerTools.useQuery(
     { serverId: server.id },
@@ -77,29 +57,37 @@ export function McpServerCard({ server, status, onUpdate, isFirst = false, isLas
       staleTime: 5 * 60 * 1000, // 5 minutes
     }
   )
+  const tools = serverTools ?? []
 
-  // Use real tools if available, fallback to mock tools for demonstration
-  const tools = useMemo(() => {
-    if (serverTools && serverTools.length > 0) {
-      return serverTools.map(tool => ({ name: tool.name, enabled: true }))
-    }
-    return status === 'connected' ? [] : getMockTools(server.name)
-  }, [serverTools, status, server.name, getMockTools])
+  // Resources and prompts are only counted here; they are picked from the chat input
+  const { data: resources } = api.mcp.listResources.useQuery(
+    { serverId: server.id },
+    { enabled: optimisticEnabled && status === 'connected', staleTime: 5 * 60 * 1000 }
+  )
+  const { data: prompts } = api.mcp.listPrompts.useQuery(
+    { serverId: server.id },
+    { enabled: optimisticEnabled && status === 'connected', staleTime: 5 * 60 * 1000 }
+  )
+  const contextCounts = [
+    resources?.length ? `${resources.length} ${resources.length === 1 ? 'resource' : 'resources'}` : null,
+    prompts?.length ? `${prompts.length} ${prompts.length === 1 ? 'prompt' : 'prompts'}` : null
+  ].filter(Boolean).join(' · ')
 
-  const [toolStates, setToolStates] = useState<Record<string, boolean>>({})
+  // Approval policies: the server's default plus per-tool overrides
+  const { data: toolPolicies, refetch: refetchToolPolicies } = api.mcp.getToolPolicies.useQuery({ serverId: server.id })
+  const setToolPolicyMutation = api.mcp.setToolPolicy.useMutation()
+  const updateServerMutation = api.mcp.updateServer.useMutation()
+  const serverPolicy = normalizeToolPolicy(server.toolPolicy)
 
-  // Update tool states when tools change
-  React.useEffect(() => {
-    if (tools.length > 0) {
-      const newStates = tools.reduce((acc, tool) => {
-        acc[tool.name] = tool.enabled
-        return acc
-      }, {} as Record<string, boolean>)
-      setToolStates(newStates)
-    } else {
-      setToolStates({})
-    }
-  }, [tools])
+  // What the supervisor did after the server last went down
+  const restartNote = !health || health.restarts === 0
+    ? null
+    : health.nextRestartAt
+      ? `Restarting in ${Math.max(0, Math.ceil((health.nextRestartAt - Date.now()) / 1000))}s (attempt ${health.restarts}/${health.maxRestarts})`
+      : health.status === 'connected'
+        ? `Restarted ${health.restarts} ${health.restarts === 1 ? 'time' : 'times'}`
+        : `Gave up after ${health.restarts} restarts`
+  const hasCrashDetails = !!health && (!!health.lastError || health.stderr.length > 0)
 
   const statusConfig = {
     connected: {
@@ -164,10 +152,18 @@ export function McpServerCard({ server, status, onUpdate, isFirst = false, isLas
 
   const handleTestConnection = async () => {
     try {
-      const result = await testConnectionMutation.mutateAsync({
-        command: server.command,
-        args: server.args
-      })
+      const result = await testConnectionMutation.mutateAsync(
+        server.transport === 'stdio'
+          ? {
+              serverId: server.id, // Lets the server fill in secret env values the UI never sees
+              transport: 'stdio',
+              command: server.command,
+              args: server.args,
+              env: server.env.map(v => ({ key: v.key, secret: v.secret, value: v.value ?? undefined })),
+              cwd: server.cwd ?? undefined
+            }
+          : { serverId: server.id, transport: server.transport, url: server.url ?? '', headers: server.headers ?? undefined }
+      )
       
       if (result.success) {
         toast.success('Connection test successful')
@@ -185,17 +181,31 @@ export function McpServerCard({ server, status, onUpdate, isFirst = false, isLas
   // Get first letter of server name for avatar
   const avatarLetter = server.name.charAt(0).toUpperCase()
   
-  // Calculate enabled tools based on current state
-  const currentEnabledCount = useMemo(() => 
-    Object.values(toolStates).filter(Boolean).length, 
-    [toolStates]
-  )
-  
-  const handleToolToggle = (toolName: string) => {
-    setToolStates(prev => ({
-      ...prev,
-      [toolName]: !prev[toolName]
-    }))
+  // Denied tools are never offered to the model
+  const currentEnabledCount = tools.filter(tool => normalizeToolPolicy(toolPolicies?.[tool.name] ?? serverPolicy) !== 'deny').length
+
+  const handleServerPolicyChange = async (policy: ToolPolicy) => {
+    try {
+      await updateServerMutation.mutateAsync({ id: server.id, toolPolicy: policy })
+      onUpdate()
+    } catch (error) {
+      toast.error('Failed to update tool policy')
+      console.error('Update tool policy error:', error)
+    }
+  }
+
+  const handleToolPolicyChange = async (toolName: string, value: string) => {
+    try {
+      await setToolPolicyMutation.mutateAsync({
+        serverId: server.id,
+        toolName,
+        policy: value === 'default' ? null : normalizeToolPolicy(value)
+      })
+      await refetchToolPolicies()
+    } catch (error) {
+      toast.error('Failed to update tool policy')
+      console.error('Update tool policy error:', error)
+    }
   }
 
   // Dynamic border radius classes
@@ -225,8 +235,24 @@ export function McpServerCard({ server, status, onUpdate, isFirst = false, isLas
             <div className="flex-1">
               <div className="font-medium text-white">{server.name}</div>
               <div className="text-sm text-neutral-400">
-                {server.command} {server.args.join(' ')}
+                {describeMcpServer(server)}
               </div>
+              {contextCounts && (
+                <div className="text-xs text-neutral-500">{contextCounts}</div>
+              )}
+              {restartNote && (
+                <div className={`text-xs ${health?.status === 'connected' ? 'text-yellow-400' : 'text-red-400'}`}>{restartNote}</div>
+              )}
+              {server.transport === 'stdio' && (server.cwd || server.env.length > 0) && (
+                <div className="text-xs text-neutral-500 font-mono break-all">
+                  {server.cwd && <div>cwd: {server.cwd}</div>}
+                  {server.env.length > 0 && (
+                    <div>
+                      {server.env.map(v => `${v.key}=${v.secret ? MASKED_SECRET : v.value}`).join(' ')}
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
 
             {/* Tools Dropdown */}
@@ -256,6 +282,10 @@ export function McpServerCard({ server, status, onUpdate, isFirst = false, isLas
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end" className="w-[160px]">
+                <DropdownMenuItem onClick={() => setShowEditDialog(true)}>
+                  <Pencil className="h-4 w-4 mr-2" />
+                  Edit
+                </DropdownMenuItem>
                 <DropdownMenuItem onClick={handleTestConnection} disabled={testConnectionMutation.isPending}>
                   <TestTube className="h-4 w-4 mr-2" />
                   Test Connection
@@ -276,6 +306,18 @@ export function McpServerCard({ server, status, onUpdate, isFirst = false, isLas
         {/* Expanded Tools List */}
         <CollapsibleContent>
           <div className={`bg-black/30 ${isLast ? 'rounded-b-lg' : ''}`}>
+            {hasCrashDetails && (
+              <div className="px-8 py-2 space-y-1">
+                {health?.lastError && (
+                  <div className="text-xs text-red-400 break-all">Last error: {health.lastError}</div>
+                )}
+                {!!health?.stderr.length && (
+                  <pre className="max-h-40 overflow-auto rounded bg-black/40 p-2 text-[11px] text-neutral-400 whitespace-pre-wrap break-all">
+                    {health.stderr.join('\n')}
+                  </pre>
+                )}
+              </div>
+            )}
             {toolsLoading ? (
               <div className="flex items-center justify-center px-8 py-4">
                 <div className="text-sm text-neutral-400">Loading tools...</div>
@@ -286,25 +328,61 @@ export function McpServerCard({ server, status, onUpdate, isFirst = false, isLas
                   {status === 'connected' ? 'No tools available' : 'Server not connected'}
                 </div>
               </div>
-            ) : tools.map((tool, index) => (
-              <div key={tool.name}>
-                <div 
-                  className={`flex items-center justify-between px-8 py-2 hover:bg-white/5 cursor-pointer transition-colors ${!toolStates[tool.name] ? 'opacity-50' : ''}`}
-                  onClick={() => handleToolToggle(tool.name)}
-                >
-                  <span className={`text-sm font-mono ${toolStates[tool.name] ? 'text-neutral-200' : 'text-neutral-500'}`}>
-                    {tool.name}
-                  </span>
+            ) : (
+              <>
+                <div className="flex items-center justify-between px-8 py-2">
+                  <span className="text-xs text-neutral-400">Default for this server's tools</span>
+                  <Select value={serverPolicy} onValueChange={(value) => handleServerPolicyChange(normalizeToolPolicy(value))}>
+                    <SelectTrigger size="sm" className="h-7 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(policyLabels).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
-                {index < tools.length - 1 && (
-                  <div className="mx-8 border-b border-white/10" />
-                )}
-              </div>
-            ))}
+                <div className="mx-8 border-b border-white/10" />
+                {tools.map((tool, index) => {
+                  const override = toolPolicies?.[tool.name]
+                  const isDenied = normalizeToolPolicy(override ?? serverPolicy) === 'deny'
+                  return (
+                    <div key={tool.name}>
+                      <div className={`flex items-center justify-between px-8 py-2 hover:bg-white/5 transition-colors ${isDenied ? 'opacity-50' : ''}`}>
+                        <span className={`text-sm font-mono ${isDenied ? 'text-neutral-500' : 'text-neutral-200'}`}>
+                          {tool.name}
+                        </span>
+                        <Select value={override ?? 'default'} onValueChange={(value) => handleToolPolicyChange(tool.name, value)}>
+                          <SelectTrigger size="sm" className="h-7 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="default">Server default ({policyLabels[serverPolicy]})</SelectItem>
+                            {Object.entries(policyLabels).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {index < tools.length - 1 && (
+                        <div className="mx-8 border-b border-white/10" />
+                      )}
+                    </div>
+                  )
+                })}
+              </>
+            )}
             {isLast && <div className="h-0.5" />}
           </div>
         </CollapsibleContent>
       </div>
+      <AddMcpServerDialog
+        open={showEditDialog}
+        onOpenChange={setShowEditDialog}
+        onServerAdded={onUpdate}
+        server={server}
+      />
     </Collapsible>
   )
 }
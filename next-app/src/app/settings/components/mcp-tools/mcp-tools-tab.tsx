@@ -7,6 +7,7 @@ import { Separator } from '~/components/ui/separator'
 import { Plus } from 'lucide-react'
 import { McpServerCard } from './mcp-server-card'
 import { AddMcpServerDialog } from './add-mcp-server-dialog'
+import { mcpTransports, type McpTransport } from '~/lib/mcp/transports'
 
 export default function McpToolsTab() {
   const [showAddDialog, setShowAddDialog] = useState(false)
@@ -59,9 +60,12 @@ export default function McpToolsTab() {
                 <McpServerCard
                   server={{
                     ...server,
-                    args: Array.isArray(server.args) ? server.args as string[] : []
+                    transport: mcpTransports.includes(server.transport as McpTransport) ? server.transport as McpTransport : 'stdio',
+                    args: Array.isArray(server.args) ? server.args as string[] : [],
+                    headers: server.headers && typeof server.headers === 'object' ? server.headers as Record<string, string> : null
                   }}
-                  status={statuses?.[server.id] || 'disconnected'}
+                  status={statuses?.[server.id]?.status || 'disconnected'}
+                  health={statuses?.[server.id]}
                   onUpdate={refetch}
                   isFirst={index === 0}
                   isLast={false} // Add button is always last
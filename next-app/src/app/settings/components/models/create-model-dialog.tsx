@@ -0,0 +1,236 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { api } from '~/trpc/react'
+import { Button } from '~/components/ui/button'
+import { Input } from '~/components/ui/input'
+import { Label } from '~/components/ui/label'
+import { Textarea } from '~/components/ui/textarea'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '~/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '~/components/ui/select'
+import { AlertTriangle, Plus, X } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  formatParameterValue,
+  modelfileFromShow,
+  modelfileParameters,
+  parseModelfile,
+  quoteBlock,
+  validateModelName,
+  type ModelfileMessage,
+} from '~/lib/models/modelfile'
+
+type ParameterRow = { name: string; value: string }
+
+type CreateModelDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  endpointId: string | null
+  models: string[]
+  // The model whose Modelfile the editor starts from; null starts from scratch
+  sourceModel: string | null
+  onCreated: () => void | Promise<void>
+}
+
+export function CreateModelDialog({ open, onOpenChange, endpointId, models, sourceModel, onCreated }: CreateModelDialogProps) {
+  const [name, setName] = useState('')
+  const [from, setFrom] = useState('')
+  const [system, setSystem] = useState('')
+  const [template, setTemplate] = useState('')
+  const [parameters, setParameters] = useState<ParameterRow[]>([])
+  // Carried over from the source model unchanged; the editor doesn't expose them
+  const [messages, setMessages] = useState<ModelfileMessage[]>([])
+  const [license, setLicense] = useState<string[]>([])
+  const [progress, setProgress] = useState<{ status: string; percent?: number } | null>(null)
+  const createMutation = api.models.create.useMutation()
+
+  const showQuery = api.models.show.useQuery(
+    { model: sourceModel ?? '', endpointId },
+    { enabled: open && !!sourceModel, staleTime: 60_000, retry: false }
+  )
+
+  useEffect(() => {
+    if (!open) return
+    const source = sourceModel && typeof showQuery.data?.details?.modelfile === 'string'
+      ? modelfileFromShow(showQuery.data.details.modelfile, sourceModel)
+      : null
+    setName(sourceModel ? `${sourceModel.split(':')[0]}-custom` : '')
+    setFrom(source?.from ?? sourceModel ?? models[0] ?? '')
+    setSystem(source?.system ?? '')
+    setTemplate(source?.template ?? '')
+    setParameters(
+      Object.entries(source?.parameters ?? {}).flatMap(([key, value]) =>
+        (Array.isArray(value) ? value : [value]).map(item => ({ name: key, value: formatParameterValue(item) }))
+      )
+    )
+    setMessages(source?.messages ?? [])
+    setLicense(source?.license ?? [])
+    setProgress(null)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, sourceModel, showQuery.data])
+
+  const modelfileText = useMemo(() => {
+    const lines = [`FROM ${from}`]
+    if (template.trim()) lines.push(`TEMPLATE ${quoteBlock(template)}`)
+    if (system.trim()) lines.push(`SYSTEM ${quoteBlock(system)}`)
+    for (const p of parameters) {
+      if (p.name || p.value.trim()) lines.push(`PARAMETER ${p.name} ${p.value.trim()}`)
+    }
+    for (const m of messages) lines.push(`MESSAGE ${m.role} ${quoteBlock(m.content)}`)
+    for (const l of license) lines.push(`LICENSE ${quoteBlock(l)}`)
+    return lines.join('\n') + '\n'
+  }, [from, template, system, parameters, messages, license])
+
+  const issues = useMemo(() => {
+    const found = parseModelfile(modelfileText).issues.map(i => i.message)
+    if (system.includes('"""') || template.includes('"""')) found.push('SYSTEM and TEMPLATE can\'t contain """')
+    const nameError = validateModelName(name)
+    if (nameError) found.unshift(nameError)
+    else if (models.includes(name.trim()) || models.includes(`${name.trim()}:latest`)) found.unshift(`${name.trim()} already exists and would be replaced`)
+    return found
+  }, [modelfileText, system, template, name, models])
+
+  // Replacing an existing model is allowed, everything else must be fixed first
+  const blocking = issues.filter(i => !i.endsWith('would be replaced'))
+  const isCreating = progress !== null
+
+  const updateParameter = (index: number, patch: Partial<ParameterRow>) =>
+    setParameters(prev => prev.map((p, i) => (i === index ? { ...p, ...patch } : p)))
+
+  const handleCreate = async () => {
+    const model = name.trim()
+    setProgress({ status: 'starting' })
+    try {
+      const events = await createMutation.mutateAsync({ model, modelfile: modelfileText, endpointId })
+      for await (const event of events) {
+        if (event.kind === 'progress') setProgress({ status: event.status, percent: event.percent })
+      }
+      toast.success(`Created ${model}`)
+      await onCreated()
+      onOpenChange(false)
+    } catch (error) {
+      toast.error(`Failed to create ${model}`, { description: error instanceof Error ? error.message : String(error) })
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isCreating && onOpenChange(next)}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>{sourceModel ? `Customize ${sourceModel}` : 'Create a model'}</DialogTitle>
+          <DialogDescription>
+            Builds a new model from a Modelfile. Fields left empty keep the base model&apos;s own settings.
+          </DialogDescription>
+        </DialogHeader>
+
+        {sourceModel && showQuery.isLoading ? (
+          <div className="py-6 text-center text-sm text-neutral-400">Loading Modelfile…</div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="create-model-name">Name</Label>
+                <Input id="create-model-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. llama3-pirate" className="font-mono" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="create-model-from">Base model (FROM)</Label>
+                <Select value={from} onValueChange={setFrom}>
+                  <SelectTrigger id="create-model-from">
+                    <SelectValue placeholder="Pick a model" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {models.map(m => (
+                      <SelectItem key={m} value={m}>{m}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="create-model-system">System prompt (SYSTEM)</Label>
+              <Textarea id="create-model-system" value={system} onChange={(e) => setSystem(e.target.value)} rows={4} />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="create-model-template">Prompt template (TEMPLATE)</Label>
+              <Textarea id="create-model-template" value={template} onChange={(e) => setTemplate(e.target.value)} rows={4} className="font-mono text-xs" />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Parameters (PARAMETER)</Label>
+                <Button type="button" variant="ghost" size="sm" className="h-7" onClick={() => setParameters(prev => [...prev, { name: 'temperature', value: '' }])}>
+                  <Plus className="h-3.5 w-3.5" />
+                  Add parameter
+                </Button>
+              </div>
+              {parameters.map((p, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Select value={p.name} onValueChange={(value) => updateParameter(index, { name: value })}>
+                    <SelectTrigger className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.keys(modelfileParameters).map(key => (
+                        <SelectItem key={key} value={key}>{key}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input value={p.value} onChange={(e) => updateParameter(index, { value: e.target.value })} placeholder={modelfileParameters[p.name] ?? ''} className="font-mono" />
+                  <Button type="button" variant="ghost" size="sm" className="h-8 px-2" aria-label={`Remove ${p.name}`} onClick={() => setParameters(prev => prev.filter((_, i) => i !== index))}>
+                    <X className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            {(messages.length > 0 || license.length > 0) && (
+              <div className="text-xs text-neutral-400">
+                Keeps {messages.length > 0 && `${messages.length} example ${messages.length === 1 ? 'message' : 'messages'}`}
+                {messages.length > 0 && license.length > 0 && ' and '}
+                {license.length > 0 && 'the license'} from {sourceModel}.
+              </div>
+            )}
+
+            <details className="text-xs">
+              <summary className="cursor-pointer text-neutral-400">Modelfile</summary>
+              <pre className="mt-2 max-h-60 overflow-auto whitespace-pre-wrap rounded bg-black/20 p-2 font-mono text-neutral-300">{modelfileText}</pre>
+            </details>
+
+            {issues.length > 0 && (
+              <div className="space-y-1">
+                {issues.map(issue => (
+                  <div key={issue} className="flex items-start gap-2 text-xs text-amber-400">
+                    <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+                    {issue}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {progress && (
+              <div>
+                <div className="h-1.5 w-full overflow-hidden rounded bg-white/10">
+                  <div className="h-1.5 bg-emerald-400" style={{ width: `${progress.percent ?? 0}%` }} />
+                </div>
+                <div className="mt-1 text-[10px] text-neutral-300">{progress.status}{typeof progress.percent === 'number' && ` ${progress.percent}%`}</div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="secondary" onClick={() => onOpenChange(false)} disabled={isCreating}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleCreate} disabled={isCreating || blocking.length > 0}>
+            {isCreating ? 'Creating…' : 'Create'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
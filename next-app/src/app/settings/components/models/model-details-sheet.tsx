@@ -0,0 +1,304 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { api } from '~/trpc/react'
+import { Badge } from '~/components/ui/badge'
+import { Button } from '~/components/ui/button'
+import { Input } from '~/components/ui/input'
+import { Separator } from '~/components/ui/separator'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '~/components/ui/select'
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '~/components/ui/sheet'
+import { toast } from 'sonner'
+
+type ModelDetailsSheetProps = {
+  name: string | null
+  endpointId: string | null
+  onOpenChange: (open: boolean) => void
+  onChanged: () => void | Promise<void>
+}
+
+// model_info keys are prefixed with the architecture, e.g. `llama.block_count`
+const architectureFields: Array<{ suffix: string; label: string }> = [
+  { suffix: 'context_length', label: 'Context length' },
+  { suffix: 'embedding_length', label: 'Embedding length' },
+  { suffix: 'block_count', label: 'Layers' },
+  { suffix: 'attention.head_count', label: 'Attention heads' },
+  { suffix: 'attention.head_count_kv', label: 'KV heads' },
+  { suffix: 'feed_forward_length', label: 'Feed-forward length' },
+  { suffix: 'vocab_size', label: 'Vocabulary size' },
+  { suffix: 'expert_count', label: 'Experts' },
+  { suffix: 'expert_used_count', label: 'Experts per token' },
+]
+
+function formatCount(n: number): string {
+  if (n >= 1e9) return `${(n / 1e9).toFixed(1)}B`
+  if (n >= 1e6) return `${(n / 1e6).toFixed(1)}M`
+  return n.toLocaleString()
+}
+
+function formatInfoValue(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.length} items]`
+  if (value === null || value === undefined) return '—'
+  if (typeof value === 'number') return value.toLocaleString()
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="space-y-2">
+      <h3 className="text-xs font-semibold uppercase tracking-wide text-neutral-400">{title}</h3>
+      {children}
+    </section>
+  )
+}
+
+function Facts({ rows }: { rows: Array<[string, string]> }) {
+  return (
+    <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+      {rows.map(([label, value]) => (
+        <div key={label} className="contents">
+          <dt className="text-neutral-400">{label}</dt>
+          <dd className="truncate text-neutral-100 tabular-nums" title={value}>{value}</dd>
+        </div>
+      ))}
+    </dl>
+  )
+}
+
+function TextBlock({ text }: { text: string }) {
+  return <pre className="max-h-60 overflow-auto whitespace-pre-wrap rounded bg-black/20 p-2 font-mono text-xs text-neutral-300">{text}</pre>
+}
+
+const capabilityFlags = [
+  { key: 'vision', label: 'Vision' },
+  { key: 'tools', label: 'Tool calling' },
+  { key: 'thinking', label: 'Thinking' },
+  { key: 'embedding', label: 'Embeddings' },
+] as const
+
+type CapabilityFlag = (typeof capabilityFlags)[number]['key']
+
+/** Probed capabilities, with a per-flag override for models the probes get wrong */
+function CapabilityOverrides({ name, endpointId }: { name: string; endpointId: string | null }) {
+  const utils = api.useUtils()
+  const { data, isLoading, error } = api.models.capabilities.useQuery({ model: name, endpointId }, { retry: false })
+  const redetectMutation = api.models.redetectCapabilities.useMutation()
+  const overrideMutation = api.models.setCapabilityOverrides.useMutation()
+
+  if (isLoading) return <div className="text-sm text-neutral-400">Detecting…</div>
+  if (error || !data) return <div className="text-sm text-red-300">{error?.message ?? 'Failed to detect capabilities'}</div>
+
+  const detected: Record<CapabilityFlag, boolean> = {
+    vision: data.detected.vision,
+    tools: data.detected.tools,
+    thinking: data.detected.thinkLevels.length > 0,
+    embedding: data.detected.embedding,
+  }
+
+  const update = async (key: CapabilityFlag, value: string) => {
+    const next: Partial<Record<CapabilityFlag, boolean | null>> = { ...data.overrides }
+    next[key] = value === 'detected' ? null : value === 'on'
+    try {
+      const res = await overrideMutation.mutateAsync({ model: name, overrides: next, endpointId })
+      utils.models.capabilities.setData({ model: name, endpointId }, res)
+    } catch (e) {
+      toast.error('Failed to save override', { description: String((e as Error).message || e) })
+    }
+  }
+
+  const redetect = async () => {
+    try {
+      const res = await redetectMutation.mutateAsync({ model: name, endpointId })
+      utils.models.capabilities.setData({ model: name, endpointId }, res)
+      toast.success(`Re-detected capabilities of ${name}`)
+    } catch (e) {
+      toast.error('Failed to re-detect capabilities', { description: String((e as Error).message || e) })
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      {capabilityFlags.map(({ key, label }) => {
+        const override = data.overrides[key]
+        return (
+          <div key={key} className="flex items-center justify-between gap-4 text-sm">
+            <span className="text-neutral-300">{label}</span>
+            <Select value={override === undefined ? 'detected' : override ? 'on' : 'off'} onValueChange={(v) => void update(key, v)} disabled={overrideMutation.isPending}>
+              <SelectTrigger size="sm" className="min-w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="detected">Detected ({detected[key] ? 'yes' : 'no'})</SelectItem>
+                <SelectItem value="on">Always on</SelectItem>
+                <SelectItem value="off">Always off</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )
+      })}
+      <div className="flex items-center justify-between gap-4 pt-1">
+        <p className="text-xs text-neutral-400">
+          {data.probedAt ? `Probed ${new Date(data.probedAt).toLocaleString()}; probed again when the model changes.` : 'Not stored; this model has no digest on this endpoint.'}
+        </p>
+        <Button size="sm" variant="secondary" onClick={() => void redetect()} disabled={redetectMutation.isPending}>
+          {redetectMutation.isPending ? 'Detecting…' : 'Re-detect'}
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+/** Everything `show` reports about a model, plus copy and rename */
+export function ModelDetailsSheet({ name, endpointId, onOpenChange, onChanged }: ModelDetailsSheetProps) {
+  const [destination, setDestination] = useState('')
+  const showQuery = api.models.show.useQuery(
+    { model: name ?? '', endpointId },
+    { enabled: !!name, staleTime: 60_000, retry: false }
+  )
+  const copyMutation = api.models.copy.useMutation()
+  const renameMutation = api.models.rename.useMutation()
+
+  useEffect(() => {
+    if (name) setDestination(name.includes(':') ? '' : `${name}:snapshot`)
+  }, [name])
+
+  const show = (showQuery.data?.details ?? {}) as Record<string, any>
+  const details = (show.details ?? {}) as Record<string, any>
+  const info = (show.model_info && typeof show.model_info === 'object' ? show.model_info : {}) as Record<string, unknown>
+  const architecture = typeof info['general.architecture'] === 'string' ? info['general.architecture'] : details.family
+  const capabilities: string[] = Array.isArray(show.capabilities) ? show.capabilities : []
+
+  const overview: Array<[string, string]> = [
+    ['Architecture', architecture ?? '—'],
+    ['Parameters', typeof info['general.parameter_count'] === 'number' ? formatCount(info['general.parameter_count']) : details.parameter_size ?? '—'],
+    ['Quantization', details.quantization_level ?? '—'],
+    ['Format', details.format ?? '—'],
+    ...(details.parent_model ? [['Parent model', String(details.parent_model)] as [string, string]] : []),
+    ...(show.modified_at ? [['Modified', new Date(show.modified_at).toLocaleString()] as [string, string]] : []),
+  ]
+  const architectureRows = architectureFields.flatMap(({ suffix, label }): Array<[string, string]> => {
+    const value = architecture ? info[`${architecture}.${suffix}`] : undefined
+    return value === undefined ? [] : [[label, formatInfoValue(value)]]
+  })
+  const projector = show.projector_info && typeof show.projector_info === 'object' ? (show.projector_info as Record<string, unknown>) : null
+
+  const run = async (action: 'copy' | 'rename') => {
+    if (!name || !destination.trim()) return
+    try {
+      if (action === 'copy') {
+        await copyMutation.mutateAsync({ source: name, destination: destination.trim(), endpointId })
+        toast.success(`Copied ${name} to ${destination.trim()}`)
+      } else {
+        await renameMutation.mutateAsync({ source: name, destination: destination.trim(), endpointId })
+        toast.success(`Renamed ${name} to ${destination.trim()}`)
+        onOpenChange(false)
+      }
+      await onChanged()
+    } catch (e) {
+      toast.error(`Failed to ${action} ${name}`, { description: String((e as Error).message || e) })
+    }
+  }
+  const isBusy = copyMutation.isPending || renameMutation.isPending
+
+  return (
+    <Sheet open={!!name} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full overflow-y-auto sm:max-w-xl">
+        <SheetHeader>
+          <SheetTitle className="font-mono">{name}</SheetTitle>
+          <SheetDescription>
+            {[details.family, details.parameter_size, details.quantization_level].filter(Boolean).join(' · ') || 'Model details'}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-6 px-4 pb-6">
+          {showQuery.isLoading ? (
+            <div className="text-sm text-neutral-400">Loading…</div>
+          ) : showQuery.error ? (
+            <div className="text-sm text-red-300">{showQuery.error.message}</div>
+          ) : (
+            <>
+              {capabilities.length > 0 && (
+                <div className="flex flex-wrap gap-1.5">
+                  {capabilities.map(c => (
+                    <Badge key={c} variant="secondary" className="text-[10px]">{c}</Badge>
+                  ))}
+                </div>
+              )}
+
+              <Section title="Overview">
+                <Facts rows={overview} />
+              </Section>
+
+              {name && (
+                <Section title="Capabilities">
+                  <CapabilityOverrides name={name} endpointId={endpointId} />
+                </Section>
+              )}
+
+              {architectureRows.length > 0 && (
+                <Section title="Architecture">
+                  <Facts rows={architectureRows} />
+                </Section>
+              )}
+
+              {projector && (
+                <Section title="Vision projector">
+                  <Facts rows={Object.entries(projector).map(([k, v]): [string, string] => [k, formatInfoValue(v)])} />
+                </Section>
+              )}
+
+              {typeof show.parameters === 'string' && show.parameters.trim() && (
+                <Section title="Parameters">
+                  <TextBlock text={show.parameters.trim()} />
+                </Section>
+              )}
+
+              {typeof show.system === 'string' && show.system.trim() && (
+                <Section title="System prompt">
+                  <TextBlock text={show.system} />
+                </Section>
+              )}
+
+              {typeof show.template === 'string' && show.template.trim() && (
+                <Section title="Template">
+                  <TextBlock text={show.template} />
+                </Section>
+              )}
+
+              {Object.keys(info).length > 0 && (
+                <details className="text-sm">
+                  <summary className="cursor-pointer text-xs font-semibold uppercase tracking-wide text-neutral-400">All model info</summary>
+                  <div className="mt-2">
+                    <Facts rows={Object.entries(info).sort(([a], [b]) => a.localeCompare(b)).map(([k, v]): [string, string] => [k, formatInfoValue(v)])} />
+                  </div>
+                </details>
+              )}
+
+              {typeof show.license === 'string' && show.license.trim() && (
+                <details className="text-sm">
+                  <summary className="cursor-pointer text-xs font-semibold uppercase tracking-wide text-neutral-400">License</summary>
+                  <div className="mt-2">
+                    <TextBlock text={show.license} />
+                  </div>
+                </details>
+              )}
+            </>
+          )}
+
+          <Separator />
+
+          <Section title="Copy or rename">
+            <p className="text-xs text-neutral-400">
+              Copies share the original&apos;s files, so tagged snapshots such as <span className="font-mono">{name?.split(':')[0]}:v1</span> take no extra space.
+            </p>
+            <div className="flex items-center gap-2">
+              <Input value={destination} onChange={(e) => setDestination(e.target.value)} placeholder="New name, e.g. my-model:v1" className="h-8 font-mono" />
+              <Button size="sm" variant="secondary" onClick={() => void run('copy')} disabled={!destination.trim() || isBusy}>Copy</Button>
+              <Button size="sm" variant="secondary" onClick={() => void run('rename')} disabled={!destination.trim() || isBusy}>Rename</Button>
+            </div>
+          </Section>
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
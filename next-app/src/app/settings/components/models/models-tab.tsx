@@ -1,17 +1,25 @@
 'use client'
 
-import { useMemo, useState } from 'react'
+import { useEffect, useMemo, useRef, useState } from 'react'
 import { api } from '~/trpc/react'
 import { Separator } from '~/components/ui/separator'
 import { Input } from '~/components/ui/input'
 import { Button } from '~/components/ui/button'
 import { useOllamaModelCapabilities } from '~/hooks/use-ollama-model-capabilities'
-import { Brain, Image as ImageIcon, Wrench } from 'lucide-react'
+import { Brain, Image as ImageIcon, SlidersHorizontal, Wrench } from 'lucide-react'
 import { toast } from 'sonner'
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '~/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '~/components/ui/select'
+import { CreateModelDialog } from './create-model-dialog'
+import { ModelDetailsSheet } from './model-details-sheet'
+import { DefaultKeepAlive, RunningModels } from './running-models'
+import { PullQueue } from './pull-queue'
 
 export default function ModelsTab() {
-  const { data, error, isLoading, refetch } = api.models.list.useQuery()
+  const { data: endpointData } = api.endpoints.list.useQuery()
+  const endpoints = endpointData?.endpoints ?? []
+  const [endpointId, setEndpointId] = useState<string | null>(null)
+  const { data, error, isLoading, refetch } = api.models.list.useQuery({ endpointId })
   const models = data?.models ?? []
   const totalBytes = useMemo(() => models.reduce((acc, m) => acc + (m.size || 0), 0), [models])
   const toSize = (bytes?: number) => {
@@ -22,66 +30,60 @@ export default function ModelsTab() {
     return `${mb.toFixed(1)} MB`
   }
 
-  const [pending, setPending] = useState<Record<string, number | null>>({})
-  const startPull = async (name: string) => {
-    if (!name) return
-    setPending((p) => ({ ...p, [name]: null }))
+  // undefined while the editor is closed, null when starting without a source model
+  const [customizing, setCustomizing] = useState<string | null | undefined>(undefined)
+  const [inspecting, setInspecting] = useState<string | null>(null)
+
+  // Pulls run on the server; poll faster while something is downloading
+  const { data: pullData } = api.pulls.list.useQuery(undefined, {
+    refetchInterval: (query) => (query.state.data?.active.length ? 1_000 : 5_000),
+  })
+  const pulls = useMemo(() => (pullData?.active ?? []).filter((p) => p.endpointId === endpointId), [pullData, endpointId])
+  const pullHistory = useMemo(() => (pullData?.history ?? []).filter((p) => p.endpointId === endpointId), [pullData, endpointId])
+  // Keyed like installed models, which always carry a tag
+  const pulling = useMemo(() => new Map(pulls.map((p) => [p.model.includes(':') ? p.model : `${p.model}:latest`, p])), [pulls])
+  const utils = api.useUtils()
+  const startMutation = api.pulls.start.useMutation()
+
+  // Refresh the installed list whenever a pull on this endpoint finishes
+  const activeKey = pulls.map((p) => p.id).join(',')
+  const previousKey = useRef(activeKey)
+  useEffect(() => {
+    if (previousKey.current !== activeKey) void refetch()
+    previousKey.current = activeKey
+  }, [activeKey, refetch])
+
+  const startPull = async (names: string[]) => {
+    if (names.length === 0) return
     try {
-      toast.info(`Starting pull for ${name}`)
-      const res = await fetch('/api/ollama/pull', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ model: name }),
-      })
-      if (!res.ok || !res.body) throw new Error('Failed to start pull')
-      const reader = res.body.getReader()
-      const decoder = new TextDecoder()
-      let buffer = ''
-      while (true) {
-        const { done, value } = await reader.read()
-        if (done) break
-        buffer += decoder.decode(value, { stream: true })
-        let idx
-        while ((idx = buffer.indexOf('\n')) !== -1) {
-          const line = buffer.slice(0, idx).trim()
-          buffer = buffer.slice(idx + 1)
-          if (!line) continue
-          let obj: any
-          try { obj = JSON.parse(line) } catch { continue }
-          if (obj.kind === 'progress') {
-            const pct = typeof obj.percent === 'number' ? obj.percent : null
-            setPending((p) => ({ ...p, [name]: pct }))
-          } else if (obj.kind === 'done') {
-            setPending((p) => {
-              const n = { ...p }
-              delete n[name]
-              return n
-            })
-            // refresh installed list
-            await refetch()
-            toast.success(`Pulled ${name}`)
-          } else if (obj.kind === 'error') {
-            setPending((p) => {
-              const n = { ...p }
-              delete n[name]
-              return n
-            })
-            toast.error(`Pull failed for ${name}`)
-          }
-        }
-      }
-    } catch {
-      setPending((p) => {
-        const n = { ...p }
-        delete n[name]
-        return n
-      })
-      toast.error(`Pull failed for ${name}`)
+      const { queued, skipped } = await startMutation.mutateAsync({ models: names, endpointId })
+      if (queued.length > 0) toast.info(queued.length === 1 ? `Queued ${queued[0]}` : `Queued ${queued.length} models`)
+      for (const s of skipped) toast.error(`Could not queue ${s.model}`, { description: s.reason })
+    } catch (e) {
+      toast.error('Failed to start pull', { description: String((e as Error).message || e) })
+    } finally {
+      await utils.pulls.list.invalidate()
     }
   }
 
   return (
     <div className="space-y-6">
+      {endpoints.length > 1 && (
+        <div className="flex items-center justify-between">
+          <div className="text-sm text-neutral-300">Endpoint</div>
+          <Select value={endpointId ?? 'default'} onValueChange={(v) => setEndpointId(v === 'default' ? null : v)}>
+            <SelectTrigger size="sm" className="min-w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="default">Default</SelectItem>
+              {endpoints.map((e) => (
+                <SelectItem key={e.id} value={e.id}>{e.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
       <div className="flex items-center justify-between">
         <div className="text-sm text-neutral-300">Storage used</div>
         <div className="text-sm font-medium text-neutral-100">{toSize(totalBytes)}</div>
@@ -95,33 +97,63 @@ export default function ModelsTab() {
           ) : error ? (
             <div className="p-3 text-sm text-red-300">{String((error as any)?.message || 'Failed to load models')}</div>
           ) : models.length === 0 ? (
-            Object.keys(pending).length === 0 ? (
-              <div className="p-3 text-sm text-neutral-400">No models installed</div>
-            ) : null
+            <div className="p-3 text-sm text-neutral-400">No models installed</div>
           ) : (
             models.map((m) => (
-              <ModelRow key={m.name} name={m.name} meta={{ family: m.family, parameterSize: m.parameterSize, quantization: m.quantization }} size={m.size} onRemoved={refetch} isPulling={m.name in pending} />
+              <ModelRow key={m.name} name={m.name} endpointId={endpointId} meta={{ family: m.family, parameterSize: m.parameterSize, quantization: m.quantization }} size={m.size} onRemoved={refetch} onCustomize={() => setCustomizing(m.name)} onInspect={() => setInspecting(m.name)} pendingPercent={pulling.get(m.name)?.percent} isPulling={pulling.has(m.name)} />
             ))
           )}
-          {Object.entries(pending).map(([name, pct]) => (
-            <ModelRow key={`pending:${name}`} name={name} meta={{}} size={undefined} pendingPercent={pct} />
-          ))}
         </div>
       </section>
 
       <section className="space-y-3">
-        <h3 className="text-sm font-semibold text-neutral-200">Pull a model</h3>
+        <h3 className="text-sm font-semibold text-neutral-200">Loaded models</h3>
+        <RunningModels endpointId={endpointId} />
+      </section>
+
+      <section className="space-y-3">
+        <h3 className="text-sm font-semibold text-neutral-200">Default keep-alive</h3>
+        <DefaultKeepAlive />
+      </section>
+
+      <section className="space-y-3">
+        <h3 className="text-sm font-semibold text-neutral-200">Pull models</h3>
         <PullModel onStartPull={startPull} />
+        <PullQueue active={pulls} history={pullHistory} />
+      </section>
+
+      <section className="space-y-3">
+        <h3 className="text-sm font-semibold text-neutral-200">Create a model</h3>
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-xs text-neutral-400">Derive a variant with its own system prompt, template or parameters, or use a model&apos;s customize button to start from its Modelfile.</p>
+          <Button size="sm" variant="secondary" onClick={() => setCustomizing(null)} disabled={models.length === 0}>New model</Button>
+        </div>
       </section>
+
+      <CreateModelDialog
+        open={customizing !== undefined}
+        onOpenChange={(open) => !open && setCustomizing(undefined)}
+        endpointId={endpointId}
+        models={models.map(m => m.name)}
+        sourceModel={customizing ?? null}
+        onCreated={async () => { await refetch() }}
+      />
+
+      <ModelDetailsSheet
+        name={inspecting}
+        endpointId={endpointId}
+        onOpenChange={(open) => !open && setInspecting(null)}
+        onChanged={async () => { await refetch() }}
+      />
     </div>
   )
 }
 
-function ModelRow({ name, meta, size, pendingPercent, onRemoved, isPulling }: { name: string; meta: { family?: string; parameterSize?: string; quantization?: string }; size?: number; pendingPercent?: number | null; onRemoved?: () => void; isPulling?: boolean }) {
+function ModelRow({ name, endpointId = null, meta, size, pendingPercent, onRemoved, onCustomize, onInspect, isPulling }: { name: string; endpointId?: string | null; meta: { family?: string; parameterSize?: string; quantization?: string }; size?: number; pendingPercent?: number | null; onRemoved?: () => void; onCustomize?: () => void; onInspect?: () => void; isPulling?: boolean }) {
   const isPending = typeof pendingPercent === 'number' || isPulling
-  const { data } = useOllamaModelCapabilities(isPending ? undefined : name)
+  const { data } = useOllamaModelCapabilities(isPending ? undefined : name, endpointId)
   const showQuery = api.models.show.useQuery(
-    { model: name },
+    { model: name, endpointId },
     { 
       enabled: !isPending && !!name, 
       staleTime: 60_000,
@@ -179,7 +211,13 @@ function ModelRow({ name, meta, size, pendingPercent, onRemoved, isPulling }: {
   return (
     <div className="group flex items-center justify-between p-3">
       <div className="min-w-0">
-        <div className="truncate text-sm font-medium text-neutral-100">{name}</div>
+        {onInspect && !isPending ? (
+          <button className="block max-w-full truncate text-left text-sm font-medium text-neutral-100 hover:underline" onClick={onInspect} title="Show details">
+            {name}
+          </button>
+        ) : (
+          <div className="truncate text-sm font-medium text-neutral-100">{name}</div>
+        )}
         <div className="truncate text-xs text-neutral-400">
           {(meta.family || '—')} · {(meta.parameterSize || '—')} · {(meta.quantization || '—')} · {toCtx()}
         </div>
@@ -195,7 +233,7 @@ function ModelRow({ name, meta, size, pendingPercent, onRemoved, isPulling }: {
                 <div className="mt-1 text-[10px] text-neutral-300">Pulling… {pendingPercent}%</div>
               </>
             ) : (
-              <div className="text-[10px] text-neutral-300">Finalizing…</div>
+              <div className="text-[10px] text-neutral-300">Waiting to pull…</div>
             )}
           </div>
         ) : (
@@ -212,11 +250,21 @@ function ModelRow({ name, meta, size, pendingPercent, onRemoved, isPulling }: {
               </span>
             </div>
             <div className="text-xs text-neutral-300">{toSize(size)}</div>
+            {onCustomize && (
+              <button
+                className="opacity-0 group-hover:opacity-100 transition-opacity text-neutral-400 hover:text-white"
+                aria-label={`Customize ${name}`}
+                title={`Create a variant of ${name}`}
+                onClick={onCustomize}
+              >
+                <SlidersHorizontal className="h-3.5 w-3.5" />
+              </button>
+            )}
             <ConfirmRemove
               name={name}
               onConfirm={async () => {
                 try {
-                  await removeMutation.mutateAsync({ model: name })
+                  await removeMutation.mutateAsync({ model: name, endpointId })
                   toast.success(`Removed ${name}`)
                   onRemoved?.()
                 } catch (e) {
@@ -268,16 +316,18 @@ function ConfirmRemove({ name, onConfirm }: { name: string; onConfirm: () => voi
   )
 }
 
-function PullModel({ onStartPull }: { onStartPull?: (name: string) => void }) {
+function PullModel({ onStartPull }: { onStartPull?: (names: string[]) => void }) {
   const [name, setName] = useState('')
+  // Several models can be queued at once, separated by spaces or commas
   const onPull = async () => {
-    if (!name.trim()) return
-    onStartPull?.(name.trim())
+    const names = name.split(/[\s,]+/).filter(Boolean)
+    if (names.length === 0) return
+    onStartPull?.(names)
     setName('')
   }
   return (
     <div className="flex items-center gap-2">
-      <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. llama3.2:1b" className="h-8" />
+      <Input value={name} onChange={(e) => setName(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter') void onPull() }} placeholder="e.g. llama3.2:1b, qwen3:4b" className="h-8" />
       <Button size="sm" onClick={onPull}>Pull</Button>
     </div>
   )
@@ -0,0 +1,148 @@
+'use client'
+
+import { useState } from 'react'
+import { api, type RouterOutputs } from '~/trpc/react'
+import { Button } from '~/components/ui/button'
+import { ChevronDown, ChevronRight, RotateCw, X } from 'lucide-react'
+import { describePullProgress } from '~/lib/models/pull-progress'
+import { formatMemory } from '~/lib/models/running'
+import { toast } from 'sonner'
+
+type Pull = RouterOutputs['pulls']['list']['active'][number]
+
+const statusLabels: Record<string, string> = {
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  error: 'Failed',
+}
+
+export function PullQueue({ active, history }: { active: Pull[]; history: Pull[] }) {
+  const utils = api.useUtils()
+  const cancelMutation = api.pulls.cancel.useMutation()
+  const retryMutation = api.pulls.retry.useMutation()
+  const clearMutation = api.pulls.clearHistory.useMutation()
+
+  const cancel = async (pull: Pull) => {
+    try {
+      await cancelMutation.mutateAsync({ id: pull.id })
+    } catch (e) {
+      toast.error(`Failed to cancel ${pull.model}`, { description: String((e as Error).message || e) })
+    } finally {
+      await utils.pulls.list.invalidate()
+    }
+  }
+
+  const retry = async (pull: Pull) => {
+    try {
+      await retryMutation.mutateAsync({ id: pull.id })
+    } catch (e) {
+      toast.error(`Failed to retry ${pull.model}`, { description: String((e as Error).message || e) })
+    } finally {
+      await utils.pulls.list.invalidate()
+    }
+  }
+
+  const clear = async () => {
+    try {
+      await clearMutation.mutateAsync()
+    } catch (e) {
+      toast.error('Failed to clear history', { description: String((e as Error).message || e) })
+    } finally {
+      await utils.pulls.list.invalidate()
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="divide-y divide-white/5 rounded-lg border border-white/10">
+        {active.length === 0 ? (
+          <div className="p-3 text-sm text-neutral-400">No downloads in progress</div>
+        ) : (
+          active.map((pull) => <ActivePullRow key={pull.id} pull={pull} onCancel={() => cancel(pull)} />)
+        )}
+      </div>
+
+      {history.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <div className="text-xs text-neutral-400">Recent downloads</div>
+            <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={clear} disabled={clearMutation.isPending}>
+              Clear history
+            </Button>
+          </div>
+          <div className="divide-y divide-white/5 rounded-lg border border-white/10">
+            {history.map((pull) => (
+              <div key={pull.id} className="flex items-center justify-between gap-4 p-3">
+                <div className="min-w-0">
+                  <div className="truncate text-sm text-neutral-100">{pull.model}</div>
+                  <div className={pull.status === 'error' ? 'truncate text-xs text-red-300' : 'truncate text-xs text-neutral-400'} title={pull.error ?? undefined}>
+                    {statusLabels[pull.status] ?? pull.status}
+                    {pull.status === 'completed' && pull.total > 0 ? ` · ${formatMemory(pull.total)}` : ''}
+                    {pull.error ? ` · ${pull.error}` : ''}
+                    {pull.finishedAt ? ` · ${new Date(pull.finishedAt).toLocaleString()}` : ''}
+                  </div>
+                </div>
+                {(pull.status === 'error' || pull.status === 'cancelled') && (
+                  <Button size="sm" variant="secondary" className="shrink-0" onClick={() => retry(pull)} disabled={retryMutation.isPending}>
+                    <RotateCw className="h-3.5 w-3.5" />
+                    Resume
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function ActivePullRow({ pull, onCancel }: { pull: Pull; onCancel: () => void }) {
+  const [showLayers, setShowLayers] = useState(false)
+  return (
+    <div className="space-y-2 p-3">
+      <div className="flex items-center justify-between gap-4">
+        <div className="min-w-0">
+          <div className="truncate text-sm font-medium text-neutral-100">{pull.model}</div>
+          <div className="truncate text-xs text-neutral-400">{describePullProgress(pull)}</div>
+        </div>
+        <div className="flex shrink-0 items-center gap-3">
+          {typeof pull.percent === 'number' && <div className="text-xs text-neutral-300">{pull.percent}%</div>}
+          <button
+            className="text-neutral-400 hover:text-red-400"
+            aria-label={`Cancel ${pull.model}`}
+            title={`Cancel ${pull.model}`}
+            onClick={onCancel}
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+      {pull.status === 'pulling' && (
+        <div className="h-1.5 w-full overflow-hidden rounded bg-white/10">
+          <div className="h-1.5 bg-emerald-400 transition-[width]" style={{ width: `${pull.percent ?? 0}%` }} />
+        </div>
+      )}
+      {pull.layers.length > 0 && (
+        <div>
+          <button className="flex items-center gap-1 text-[11px] text-neutral-400 hover:text-neutral-200" onClick={() => setShowLayers(v => !v)}>
+            {showLayers ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+            {pull.layers.length === 1 ? '1 layer' : `${pull.layers.length} layers`}
+          </button>
+          {showLayers && (
+            <div className="mt-1 space-y-1">
+              {pull.layers.map((layer) => (
+                <div key={layer.digest} className="flex items-center justify-between gap-4 font-mono text-[11px] text-neutral-400">
+                  <span className="truncate">{layer.digest.replace(/^sha256:/, '').slice(0, 12)}</span>
+                  <span className="shrink-0">
+                    {layer.completed > 0 ? formatMemory(layer.completed) : '0 MB'} / {formatMemory(layer.total)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
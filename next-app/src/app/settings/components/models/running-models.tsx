@@ -0,0 +1,127 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { api } from '~/trpc/react'
+import { Button } from '~/components/ui/button'
+import { Input } from '~/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '~/components/ui/select'
+import { formatKeepAlive, keepAlivePresets, validateKeepAlive } from '~/lib/ollama/keep-alive'
+import { formatExpiry, formatMemory, formatProcessor } from '~/lib/models/running'
+import { toast } from 'sonner'
+
+export function RunningModels({ endpointId }: { endpointId: string | null }) {
+  const utils = api.useUtils()
+  const { data, error, isLoading } = api.models.running.useQuery({ endpointId }, { refetchInterval: 5_000, retry: false })
+  const models = data?.models ?? []
+  const unloadMutation = api.models.unload.useMutation()
+  const keepLoadedMutation = api.models.keepLoaded.useMutation()
+  const [busy, setBusy] = useState<string | null>(null)
+
+  // Tick the countdowns between polls
+  const [now, setNow] = useState(() => Date.now())
+  useEffect(() => {
+    if (models.length === 0) return
+    const timer = setInterval(() => setNow(Date.now()), 1_000)
+    return () => clearInterval(timer)
+  }, [models.length])
+
+  const unload = async (model: string) => {
+    setBusy(model)
+    try {
+      await unloadMutation.mutateAsync({ model, endpointId })
+      toast.success(`Unloaded ${model}`)
+    } catch (e) {
+      toast.error(`Failed to unload ${model}`, { description: String((e as Error).message || e) })
+    } finally {
+      setBusy(null)
+      await utils.models.running.invalidate()
+    }
+  }
+
+  const keepLoaded = async (model: string, keepAlive: string) => {
+    setBusy(model)
+    try {
+      await keepLoadedMutation.mutateAsync({ model, keepAlive, endpointId })
+      toast.success(`${model} stays loaded ${keepAlive.startsWith('-') ? 'until unloaded' : `for ${formatKeepAlive(keepAlive)}`}`)
+    } catch (e) {
+      toast.error(`Failed to update ${model}`, { description: String((e as Error).message || e) })
+    } finally {
+      setBusy(null)
+      await utils.models.running.invalidate()
+    }
+  }
+
+  return (
+    <div className="divide-y divide-white/5 rounded-lg border border-white/10">
+      {isLoading ? (
+        <div className="p-3 text-sm text-neutral-400">Loading…</div>
+      ) : error ? (
+        <div className="p-3 text-sm text-red-300">{String(error.message || 'Failed to load running models')}</div>
+      ) : models.length === 0 ? (
+        <div className="p-3 text-sm text-neutral-400">No models are loaded</div>
+      ) : (
+        models.map((m) => (
+          <div key={m.name} className="flex items-center justify-between gap-4 p-3">
+            <div className="min-w-0">
+              <div className="truncate text-sm font-medium text-neutral-100">{m.name}</div>
+              <div className="truncate text-xs text-neutral-400">
+                {formatMemory(m.size)} · {formatProcessor(m.size, m.sizeVram)} · {formatExpiry(m.expiresAt, now)}
+              </div>
+            </div>
+            <div className="flex shrink-0 items-center gap-2">
+              <Select value="" onValueChange={(v) => keepLoaded(m.name, v)} disabled={busy === m.name}>
+                <SelectTrigger size="sm" className="min-w-36">
+                  <SelectValue placeholder="Keep loaded for…" />
+                </SelectTrigger>
+                <SelectContent>
+                  {keepAlivePresets.map((p) => (
+                    <SelectItem key={p.value} value={p.value}>{p.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button size="sm" variant="secondary" onClick={() => unload(m.name)} disabled={busy === m.name}>
+                Unload now
+              </Button>
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  )
+}
+
+export function DefaultKeepAlive() {
+  const utils = api.useUtils()
+  const { data } = api.models.defaultKeepAlive.useQuery()
+  const saveMutation = api.models.setDefaultKeepAlive.useMutation()
+  const [value, setValue] = useState('')
+
+  useEffect(() => {
+    if (data) setValue(data.keepAlive)
+  }, [data])
+
+  const error = value ? validateKeepAlive(value) : null
+  const dirty = !!data && value.trim() !== data.keepAlive
+
+  const save = async () => {
+    try {
+      const res = await saveMutation.mutateAsync({ keepAlive: value })
+      await utils.models.defaultKeepAlive.invalidate()
+      toast.success('Default keep-alive saved', { description: `Models now stay loaded: ${formatKeepAlive(res.keepAlive)}` })
+    } catch (e) {
+      toast.error('Failed to save keep-alive', { description: String((e as Error).message || e) })
+    }
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        <Input value={value} onChange={(e) => setValue(e.target.value)} placeholder="8m" className="h-8 max-w-40" />
+        <Button size="sm" onClick={save} disabled={!dirty || !!error || saveMutation.isPending}>Save</Button>
+      </div>
+      <p className={error ? 'text-xs text-red-300' : 'text-xs text-neutral-400'}>
+        {error ?? 'How long a model stays in memory after a chat or preload. Use a duration like 10m or 2h, 0 to unload right away, or -1 to keep it until unloaded.'}
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,116 @@
+'use client'
+
+import Link from 'next/link'
+import { api } from '~/trpc/react'
+import { Separator } from '~/components/ui/separator'
+import { formatDuration } from '~/lib/generation-stats'
+
+type Summary = {
+  replies: number
+  promptTokens: number
+  completionTokens: number
+  tokensPerSecond: number | null
+  avgFirstTokenMs: number | null
+}
+
+const formatRate = (tps: number | null) => (tps === null ? '–' : `${tps.toFixed(1)} tok/s`)
+const formatLatency = (ms: number | null) => (ms === null ? '–' : formatDuration(ms))
+
+function SummaryCells({ summary }: { summary: Summary }) {
+  return (
+    <>
+      <td className="px-3 py-2 text-right tabular-nums">{summary.replies}</td>
+      <td className="px-3 py-2 text-right tabular-nums">{summary.promptTokens.toLocaleString()}</td>
+      <td className="px-3 py-2 text-right tabular-nums">{summary.completionTokens.toLocaleString()}</td>
+      <td className="px-3 py-2 text-right tabular-nums">{formatRate(summary.tokensPerSecond)}</td>
+      <td className="px-3 py-2 text-right tabular-nums">{formatLatency(summary.avgFirstTokenMs)}</td>
+    </>
+  )
+}
+
+function TableHead({ label }: { label: string }) {
+  return (
+    <thead className="text-xs text-neutral-400">
+      <tr className="border-b border-white/10">
+        <th className="px-3 py-2 text-left font-medium">{label}</th>
+        <th className="px-3 py-2 text-right font-medium">Replies</th>
+        <th className="px-3 py-2 text-right font-medium">Prompt tokens</th>
+        <th className="px-3 py-2 text-right font-medium">Completion tokens</th>
+        <th className="px-3 py-2 text-right font-medium">Speed</th>
+        <th className="px-3 py-2 text-right font-medium">First token</th>
+      </tr>
+    </thead>
+  )
+}
+
+export default function StatisticsTab() {
+  const { data, isLoading } = api.stats.overview.useQuery(undefined, { refetchOnWindowFocus: false })
+
+  if (isLoading) return <div className="text-sm text-center text-neutral-400">Loading…</div>
+  if (!data || data.totals.replies === 0) {
+    return (
+      <p className="text-sm text-center text-neutral-300">
+        No statistics yet. Token counts and timings are recorded for every new reply.
+      </p>
+    )
+  }
+
+  const { totals } = data
+  const tiles = [
+    { label: 'Replies', value: totals.replies.toLocaleString() },
+    { label: 'Tokens generated', value: totals.completionTokens.toLocaleString() },
+    { label: 'Average speed', value: formatRate(totals.tokensPerSecond) },
+    { label: 'Time to first token', value: formatLatency(totals.avgFirstTokenMs) },
+  ]
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-center text-neutral-300">
+        Token counts and timings reported by Ollama for each reply. Speed is completion tokens over generation time; first token is averaged.
+      </p>
+      <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+        {tiles.map(t => (
+          <div key={t.label} className="rounded-lg border border-white/10 p-3">
+            <div className="text-xs text-neutral-400">{t.label}</div>
+            <div className="text-lg font-semibold text-neutral-100">{t.value}</div>
+          </div>
+        ))}
+      </div>
+      <Separator />
+      <section className="space-y-3">
+        <h3 className="text-sm font-semibold text-neutral-200">By model</h3>
+        <div className="overflow-x-auto rounded-lg border border-white/10">
+          <table className="w-full text-sm text-neutral-200">
+            <TableHead label="Model" />
+            <tbody className="divide-y divide-white/5">
+              {data.models.map(m => (
+                <tr key={m.model}>
+                  <td className="px-3 py-2 font-medium">{m.model}</td>
+                  <SummaryCells summary={m} />
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </section>
+      <section className="space-y-3">
+        <h3 className="text-sm font-semibold text-neutral-200">By chat</h3>
+        <div className="overflow-x-auto rounded-lg border border-white/10">
+          <table className="w-full text-sm text-neutral-200">
+            <TableHead label="Chat" />
+            <tbody className="divide-y divide-white/5">
+              {data.chats.map(c => (
+                <tr key={c.chatId}>
+                  <td className="max-w-64 truncate px-3 py-2">
+                    <Link href={`/chat/${c.chatId}`} className="hover:text-white hover:underline">{c.title}</Link>
+                  </td>
+                  <SummaryCells summary={c} />
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </section>
+    </div>
+  )
+}
@@ -9,11 +9,16 @@ import dynamic from 'next/dynamic'
 const ModelsTab = dynamic(() => import('./components/models/models-tab'), { ssr: false })
 const SystemPromptsTab = dynamic(() => import('./components/system-prompts/system-prompts-tab'), { ssr: false })
 const McpToolsTab = dynamic(() => import('./components/mcp-tools/mcp-tools-tab'), { ssr: false })
+const EndpointsTab = dynamic(() => import('./components/endpoints/endpoints-tab'), { ssr: false })
+const KnowledgeBaseTab = dynamic(() => import('./components/knowledge-base/knowledge-base-tab'), { ssr: false })
+const HttpToolsTab = dynamic(() => import('./components/http-tools/http-tools-tab'), { ssr: false })
+const FileAccessTab = dynamic(() => import('./components/file-access/file-access-tab'), { ssr: false })
+const StatisticsTab = dynamic(() => import('./components/statistics/statistics-tab'), { ssr: false })
 
 export default function SettingsPage() {
   const router = useRouter()
   const [activeTab, setActiveTab] = React.useState<
-    "system-prompts" | "models" | "mcp-tools" | "knowledge-base"
+    "system-prompts" | "models" | "endpoints" | "mcp-tools" | "http-tools" | "file-access" | "knowledge-base" | "statistics"
   >("system-prompts")
 
   function handleBack() {
@@ -79,6 +84,16 @@ export default function SettingsPage() {
             >
               Models
             </Button>
+            <Button
+              variant="ghost"
+              className={
+                "h-8 px-3 text-neutral-200 hover:text-[#d3e6e2] hover:bg-[#113936]/20 " +
+                (activeTab === "endpoints" ? "bg-[#113936]/40 text-white" : "")
+              }
+              onClick={() => setActiveTab("endpoints")}
+            >
+              Endpoints
+            </Button>
             <Button
               variant="ghost"
               className={
@@ -89,6 +104,26 @@ export default function SettingsPage() {
             >
               MCP Tools
             </Button>
+            <Button
+              variant="ghost"
+              className={
+                "h-8 px-3 text-neutral-200 hover:text-[#d3e6e2] hover:bg-[#113936]/20 " +
+                (activeTab === "http-tools" ? "bg-[#113936]/40 text-white" : "")
+              }
+              onClick={() => setActiveTab("http-tools")}
+            >
+              HTTP Tools
+            </Button>
+            <Button
+              variant="ghost"
+              className={
+                "h-8 px-3 text-neutral-200 hover:text-[#d3e6e2] hover:bg-[#113936]/20 " +
+                (activeTab === "file-access" ? "bg-[#113936]/40 text-white" : "")
+              }
+              onClick={() => setActiveTab("file-access")}
+            >
+              File Access
+            </Button>
             <Button
               variant="ghost"
               className={
@@ -99,6 +134,16 @@ export default function SettingsPage() {
             >
               Knowledge Base
             </Button>
+            <Button
+              variant="ghost"
+              className={
+                "h-8 px-3 text-neutral-200 hover:text-[#d3e6e2] hover:bg-[#113936]/20 " +
+                (activeTab === "statistics" ? "bg-[#113936]/40 text-white" : "")
+              }
+              onClick={() => setActiveTab("statistics")}
+            >
+              Statistics
+            </Button>
           </div>
         </div>
 
@@ -106,8 +151,12 @@ export default function SettingsPage() {
           <h1 className="text-2xl font-semibold tracking-tight text-neutral-100">
             {activeTab === "system-prompts" && "System Prompts"}
             {activeTab === "models" && "Models"}
+            {activeTab === "endpoints" && "Ollama Endpoints"}
             {activeTab === "mcp-tools" && "MCP Tools"}
+            {activeTab === "http-tools" && "HTTP Tools"}
+            {activeTab === "file-access" && "File Access"}
             {activeTab === "knowledge-base" && "Knowledge Base"}
+            {activeTab === "statistics" && "Statistics"}
           </h1>
         </div>
 
@@ -118,6 +167,13 @@ export default function SettingsPage() {
             </div>
           </div>
         ) : null}
+        {activeTab === 'endpoints' ? (
+          <div className="mt-6 flex w-full justify-center">
+            <div className="w-full max-w-4xl px-4">
+              <EndpointsTab />
+            </div>
+          </div>
+        ) : null}
         {activeTab === 'mcp-tools' ? (
           <div className="mt-6 flex w-full justify-center">
             <div className="w-full max-w-4xl px-4">
@@ -125,6 +181,34 @@ export default function SettingsPage() {
             </div>
           </div>
         ) : null}
+        {activeTab === 'http-tools' ? (
+          <div className="mt-6 flex w-full justify-center">
+            <div className="w-full max-w-4xl px-4">
+              <HttpToolsTab />
+            </div>
+          </div>
+        ) : null}
+        {activeTab === 'file-access' ? (
+          <div className="mt-6 flex w-full justify-center">
+            <div className="w-full max-w-4xl px-4">
+              <FileAccessTab />
+            </div>
+          </div>
+        ) : null}
+        {activeTab === 'knowledge-base' ? (
+          <div className="mt-6 flex w-full justify-center">
+            <div className="w-full max-w-4xl px-4">
+              <KnowledgeBaseTab />
+            </div>
+          </div>
+        ) : null}
+        {activeTab === 'statistics' ? (
+          <div className="mt-6 flex w-full justify-center">
+            <div className="w-full max-w-4xl px-4">
+              <StatisticsTab />
+            </div>
+          </div>
+        ) : null}
         {activeTab === 'system-prompts' ? (
           <div className="mt-6 flex w-full justify-center">
             <div className="w-full max-w-4xl px-4">
@@ -57,6 +57,15 @@ export type InlineCitationCardTriggerProps = ComponentProps<typeof Badge> & {
   sources: string[];
 };
 
+// Web sources show their hostname; anything else (e.g. a file name) is shown as-is
+const sourceLabel = (source: string) => {
+  try {
+    return new URL(source).hostname;
+  } catch {
+    return source;
+  }
+};
+
 export const InlineCitationCardTrigger = ({
   sources,
   className,
@@ -70,7 +79,7 @@ export const InlineCitationCardTrigger = ({
     >
       {sources.length ? (
         <>
-          {sources[0] ? new URL(sources[0]).hostname : 'unknown'}{' '}
+          {sources[0] ? sourceLabel(sources[0]) : 'unknown'}{' '}
           {sources.length > 1 && `+${sources.length - 1}`}
         </>
       ) : (
@@ -1,7 +1,7 @@
 'use client'
 
 import { useState } from 'react'
-import { Copy, Edit, RotateCcw, Check } from 'lucide-react'
+import { Copy, Edit, RotateCcw, Check, Pin, PinOff } from 'lucide-react'
 import { toast } from 'sonner'
 import {
   DropdownMenu,
@@ -20,12 +20,14 @@ export type MessageActionsProps = {
   onEdit?: (messageId: string) => void
   onRetry?: (messageId: string, model?: string) => void
   onEditCancel?: () => void
+  onPin?: (messageId: string, pinned: boolean) => void
+  endpointId?: string | null
   className?: string
 }
 
-export function MessageActions({ message, isEditing, onEdit, onRetry, onEditCancel, className }: MessageActionsProps) {
+export function MessageActions({ message, isEditing, onEdit, onRetry, onEditCancel, onPin, endpointId = null, className }: MessageActionsProps) {
   const [copied, setCopied] = useState(false)
-  const { data: modelsData } = api.models.list.useQuery()
+  const { data: modelsData } = api.models.list.useQuery({ endpointId })
   const models = modelsData?.models ?? []
 
   const handleCopy = async () => {
@@ -58,6 +60,8 @@ export function MessageActions({ message, isEditing, onEdit, onRetry, onEditCanc
     onRetry?.(message.id, model)
   }
 
+  const isPinned = !!message.metadata?.pinned
+
   return (
     <div className={`flex items-center gap-1 ${className}`}>
       {/* Copy button - always available */}
@@ -84,6 +88,21 @@ export function MessageActions({ message, isEditing, onEdit, onRetry, onEditCanc
         </button>
       )}
 
+      {/* Pin button - pinned messages are kept when history is trimmed to fit the context window */}
+      {onPin && !isEditing && (
+        <button
+          onClick={() => onPin(message.id, !isPinned)}
+          className={`p-1.5 rounded-md transition-colors ${
+            isPinned
+              ? 'text-foreground bg-accent/70'
+              : 'text-muted-foreground hover:text-foreground hover:bg-accent/50'
+          }`}
+          title={isPinned ? "Unpin message" : "Pin message (kept in context)"}
+        >
+          {isPinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+        </button>
+      )}
+
       {/* Retry button - only for assistant messages and not in edit mode */}
       {message.role === 'assistant' && !isEditing && (
         <DropdownMenu>
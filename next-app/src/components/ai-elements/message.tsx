@@ -21,6 +21,8 @@ export type MessageProps = HTMLAttributes<HTMLDivElement> & {
   onRetry?: (messageId: string, model?: string) => void;
   onEditSave?: (messageId: string, newText: string) => void;
   onEditCancel?: () => void;
+  onPin?: (messageId: string, pinned: boolean) => void;
+  endpointId?: string | null;
 };
 
 export const Message = ({ 
@@ -32,6 +34,8 @@ export const Message = ({
   onRetry, 
   onEditSave, 
   onEditCancel, 
+  onPin,
+  endpointId,
   children,
   ...props 
 }: MessageProps) => (
@@ -59,6 +63,8 @@ export const Message = ({
             onEdit={onEdit}
             onRetry={onRetry}
             onEditCancel={onEditCancel}
+            onPin={onPin}
+            endpointId={endpointId}
             className="opacity-0 group-hover:opacity-100 transition-opacity duration-200"
           />
         )}
@@ -11,7 +11,7 @@ import { BrainIcon, ChevronDownIcon } from 'lucide-react';
 import type { ComponentProps } from 'react';
 import { createContext, memo, useContext, useEffect, useState } from 'react';
 import { Response } from './response';
-import { Tool, ToolHeader, ToolContent, ToolInput, ToolOutput } from './tool';
+import { Tool, ToolApproval, ToolHeader, ToolContent, ToolInput, ToolOutput } from './tool';
 import type { ToolCall } from '~/lib/tools/types';
 import type { ReasoningEvent } from '~/hooks/use-ollama-chat/display-state-manager';
 
@@ -215,13 +215,16 @@ export const ReasoningContent = memo(
                           <ToolHeader 
                             type={event.toolCall.name} 
                             state={event.toolCall.state}
+                            durationMs={event.toolCall.durationMs}
                           />
+                          <ToolApproval toolCall={event.toolCall} />
                           <ToolContent>
-                            <ToolInput input={event.toolCall.arguments} />
+                            <ToolInput input={event.toolCall.arguments} toolName={event.toolCall.name} />
                             {(event.toolCall.result !== undefined || event.toolCall.error) && (
                               <ToolOutput 
                                 output={event.toolCall.result} 
-                                errorText={event.toolCall.error} 
+                                errorText={event.toolCall.error}
+                                toolName={event.toolCall.name}
                               />
                             )}
                           </ToolContent>
@@ -250,13 +253,15 @@ export const ReasoningContent = memo(
                       <ToolHeader 
                         type={toolCall.name} 
                         state={toolCall.state}
+                        durationMs={toolCall.durationMs}
                       />
                       <ToolContent>
-                        <ToolInput input={toolCall.arguments} />
+                        <ToolInput input={toolCall.arguments} toolName={toolCall.name} />
                         {(toolCall.result !== undefined || toolCall.error) && (
                           <ToolOutput 
                             output={toolCall.result} 
                             errorText={toolCall.error} 
+                            toolName={toolCall.name}
                           />
                         )}
                       </ToolContent>
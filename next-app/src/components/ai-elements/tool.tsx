@@ -1,6 +1,8 @@
 'use client';
 
 import { Badge } from '~/components/ui/badge';
+import { Button } from '~/components/ui/button';
+import { Textarea } from '~/components/ui/textarea';
 import {
   Collapsible,
   CollapsibleContent,
@@ -8,15 +10,18 @@ import {
 } from '~/components/ui/collapsible';
 import { cn } from '~/lib/utils';
 import type { ToolUIPart } from 'ai';
+import type { ToolCall } from '~/lib/tools/types';
+import type { ToolApprovalDecision } from '~/lib/tools/approvals';
 import {
   CheckCircleIcon,
   ChevronDownIcon,
   CircleIcon,
   ClockIcon,
+  ShieldQuestionIcon,
   WrenchIcon,
   XCircleIcon,
 } from 'lucide-react';
-import type { ComponentProps, ReactNode } from 'react';
+import { createContext, useContext, useState, type ComponentProps, type ReactNode } from 'react';
 import { CodeBlock } from './code-block';
 
 export type ToolProps = ComponentProps<typeof Collapsible>;
@@ -30,13 +35,15 @@ export const Tool = ({ className, ...props }: ToolProps) => (
 
 export type ToolHeaderProps = {
   type: ToolUIPart['type'] | string;  // Allow string for tool names
-  state: ToolUIPart['state'];
+  state: ToolCall['state'];
+  durationMs?: number;
   className?: string;
 };
 
-const getStatusBadge = (status: ToolUIPart['state']) => {
+const getStatusBadge = (status: ToolCall['state']) => {
   const labels = {
     'input-streaming': 'Pending',
+    'approval-requested': 'Awaiting approval',
     'input-available': 'Running',
     'output-available': 'Completed',
     'output-error': 'Error',
@@ -44,6 +51,7 @@ const getStatusBadge = (status: ToolUIPart['state']) => {
 
   const icons = {
     'input-streaming': <CircleIcon className="size-4" />,
+    'approval-requested': <ShieldQuestionIcon className="size-4 text-amber-500" />,
     'input-available': <ClockIcon className="size-4 animate-pulse" />,
     'output-available': <CheckCircleIcon className="size-4 text-green-600" />,
     'output-error': <XCircleIcon className="size-4 text-red-600" />,
@@ -61,6 +69,7 @@ export const ToolHeader = ({
   className,
   type,
   state,
+  durationMs,
   ...props
 }: ToolHeaderProps) => (
   <CollapsibleTrigger
@@ -74,6 +83,11 @@ export const ToolHeader = ({
       <WrenchIcon className="size-4 text-muted-foreground" />
       <span className="font-medium text-sm">{type}</span>
       {getStatusBadge(state)}
+      {durationMs !== undefined && (
+        <span className="text-muted-foreground text-xs">
+          {durationMs < 1000 ? `${durationMs}ms` : `${(durationMs / 1000).toFixed(1)}s`}
+        </span>
+      )}
     </div>
     <ChevronDownIcon className="size-4 text-muted-foreground transition-transform group-data-[state=open]:rotate-180" />
   </CollapsibleTrigger>
@@ -93,34 +107,97 @@ export const ToolContent = ({ className, ...props }: ToolContentProps) => (
 
 export type ToolInputProps = ComponentProps<'div'> & {
   input: ToolUIPart['input'];
+  toolName?: string;
 };
 
-export const ToolInput = ({ className, input, ...props }: ToolInputProps) => (
-  <div className={cn('space-y-2 overflow-hidden p-4', className)} {...props}>
-    <h4 className="font-medium text-muted-foreground text-xs uppercase tracking-wide">
-      Parameters
-    </h4>
-    <div className="rounded-md bg-muted/50">
-      <CodeBlock code={JSON.stringify(input, null, 2)} language="json" />
+// Tools whose code argument is shown as source rather than as an escaped JSON string
+const CODE_TOOLS: Record<string, string> = { run_javascript: 'javascript' };
+
+export const ToolInput = ({ className, input, toolName, ...props }: ToolInputProps) => {
+  const language = toolName ? CODE_TOOLS[toolName] : undefined;
+  const code = language && input && typeof input === 'object' ? (input as Record<string, unknown>).code : undefined;
+
+  return (
+    <div className={cn('space-y-2 overflow-hidden p-4', className)} {...props}>
+      <h4 className="font-medium text-muted-foreground text-xs uppercase tracking-wide">
+        {typeof code === 'string' ? 'Code' : 'Parameters'}
+      </h4>
+      <div className="rounded-md bg-muted/50">
+        {typeof code === 'string' && language ? (
+          <CodeBlock code={code} language={language} />
+        ) : (
+          <CodeBlock code={JSON.stringify(input, null, 2)} language="json" />
+        )}
+      </div>
     </div>
-  </div>
-);
+  );
+};
 
 export type ToolOutputProps = ComponentProps<'div'> & {
   output: ReactNode;
   errorText: ToolUIPart['errorText'];
+  toolName?: string;
 };
 
+type CodeRunOutput = { stdout: string; result?: string; error?: string; outputTruncated?: boolean };
+
+const asCodeRunOutput = (output: unknown): CodeRunOutput | null => {
+  if (typeof output === 'string') {
+    try {
+      output = JSON.parse(output);
+    } catch {
+      return null;
+    }
+  }
+  return output && typeof output === 'object' && typeof (output as CodeRunOutput).stdout === 'string'
+    ? (output as CodeRunOutput)
+    : null;
+};
+
+const OutputSection = ({ title, children, error }: { title: string; children: ReactNode; error?: boolean }) => (
+  <div className="space-y-1">
+    <h4 className="font-medium text-muted-foreground text-xs uppercase tracking-wide">{title}</h4>
+    <pre
+      className={cn(
+        'overflow-x-auto whitespace-pre-wrap rounded-md p-2 font-mono text-xs',
+        error ? 'bg-destructive/10 text-destructive' : 'bg-muted/50 text-foreground'
+      )}
+    >
+      {children}
+    </pre>
+  </div>
+);
+
 export const ToolOutput = ({
   className,
   output,
   errorText,
+  toolName,
   ...props
 }: ToolOutputProps) => {
   if (!(output || errorText)) {
     return null;
   }
 
+  const codeRun = toolName && CODE_TOOLS[toolName] && !errorText ? asCodeRunOutput(output) : null;
+  if (codeRun) {
+    return (
+      <div className={cn('space-y-3 p-4', className)} {...props}>
+        {codeRun.stdout && (
+          <OutputSection title="Console">
+            {codeRun.stdout}
+            {codeRun.outputTruncated && '\n… output truncated'}
+          </OutputSection>
+        )}
+        {codeRun.result !== undefined && <OutputSection title="Return value">{codeRun.result}</OutputSection>}
+        {codeRun.error && <OutputSection title="Error" error>{codeRun.error}</OutputSection>}
+        {!codeRun.stdout && codeRun.result === undefined && !codeRun.error && (
+          <div className="text-muted-foreground text-xs">No output</div>
+        )}
+      </div>
+    );
+  }
+
   return (
     <div className={cn('space-y-2 p-4', className)} {...props}>
       <h4 className="font-medium text-muted-foreground text-xs uppercase tracking-wide">
@@ -146,3 +223,98 @@ export const ToolOutput = ({
     </div>
   );
 };
+
+/** Answers a paused tool call; provided by the chat page so nested tool lists can reach it */
+export type ToolApprovalHandler = (callId: string, decision: ToolApprovalDecision) => void;
+
+const ToolApprovalContext = createContext<ToolApprovalHandler | null>(null);
+
+export const ToolApprovalProvider = ToolApprovalContext.Provider;
+
+export type ToolApprovalProps = {
+  toolCall: Pick<ToolCall, 'id' | 'state' | 'arguments'>;
+  className?: string;
+};
+
+export const ToolApproval = ({ toolCall, className }: ToolApprovalProps) => {
+  const respond = useContext(ToolApprovalContext);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [draftError, setDraftError] = useState<string | null>(null);
+
+  if (!respond || toolCall.state !== 'approval-requested') {
+    return null;
+  }
+
+  const approveEdited = () => {
+    try {
+      const parsed = JSON.parse(draft);
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new Error('Arguments must be a JSON object');
+      }
+      respond(toolCall.id, { approved: true, arguments: parsed });
+    } catch (error) {
+      setDraftError(error instanceof Error ? error.message : 'Invalid JSON');
+    }
+  };
+
+  return (
+    <div className={cn('space-y-2 border-t px-3 py-2', className)}>
+      {isEditing ? (
+        <>
+          <Textarea
+            value={draft}
+            onChange={(e) => {
+              setDraft(e.target.value);
+              setDraftError(null);
+            }}
+            className="min-h-24 font-mono text-xs"
+            spellCheck={false}
+          />
+          {draftError && <div className="text-destructive text-xs">{draftError}</div>}
+        </>
+      ) : (
+        <div className="text-muted-foreground text-xs">This tool needs your approval before it runs.</div>
+      )}
+      <div className="flex items-center gap-2">
+        {isEditing ? (
+          <>
+            <Button type="button" size="sm" className="h-7" onClick={approveEdited}>
+              Run with these arguments
+            </Button>
+            <Button type="button" size="sm" variant="ghost" className="h-7" onClick={() => setIsEditing(false)}>
+              Cancel
+            </Button>
+          </>
+        ) : (
+          <>
+            <Button type="button" size="sm" className="h-7" onClick={() => respond(toolCall.id, { approved: true })}>
+              Approve
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              className="h-7"
+              onClick={() => {
+                setDraft(JSON.stringify(toolCall.arguments, null, 2));
+                setIsEditing(true);
+              }}
+            >
+              Edit arguments
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              className="h-7 text-destructive"
+              onClick={() => respond(toolCall.id, { approved: false })}
+            >
+              Reject
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,7 +1,7 @@
 'use client'
 
 import { useEffect, useMemo, useRef, useState, type FormEventHandler } from 'react'
-import { Brain, X, Loader2, FileText } from 'lucide-react'
+import { Brain, X, Loader2, FileText, Server } from 'lucide-react'
 import {
   PromptInput,
   PromptInputModelSelect,
@@ -20,6 +20,12 @@ import { useModelCapabilitiesCache } from '~/hooks/use-model-capabilities-cache'
 import { useModelPreload } from '~/hooks/use-model-preload'
 import { getModelFileCapabilities, getSupportedFileTypesDescription, getAcceptedFileTypes, hasImagesInFiles, hasPDFsInFiles, hasProcessingFiles, type FileUploadItem } from '~/lib/file-upload'
 import { formatPDFForPrompt } from '~/lib/pdf'
+import type { GenerationOptions } from '~/lib/generation-options'
+import { GenerationSettings } from '~/components/generation-settings'
+import { KnowledgeBaseToggle } from '~/components/knowledge-base-toggle'
+import { CompareModelsToggle } from '~/components/compare-models-toggle'
+import { McpContextPicker } from '~/components/mcp-context-picker'
+import { ToolSelectionToggle } from '~/components/tool-selection-toggle'
 import { api } from '~/trpc/react'
 import { toast } from 'sonner'
 
@@ -31,6 +37,12 @@ export type ChatInputProps = {
   models: ChatInputModel[]
   defaultModel?: string
   chatId?: string
+  endpointId?: string | null
+  onEndpointChange?: (endpointId: string | null) => void
+  generationOptions?: GenerationOptions | null
+  onGenerationOptionsChange?: (options: GenerationOptions | null) => void
+  compareModels?: string[]
+  onCompareModelsChange?: (models: string[]) => void
   defaultSystemPromptId?: string
   placeholder?: string
   prefillText?: string
@@ -50,7 +62,7 @@ export type ChatInputProps = {
   hasImagesInHistory?: boolean
 }
 
-export function ChatInput({ models, defaultModel, chatId, defaultSystemPromptId, placeholder = 'Type your message…', prefillText, onSubmit, onStop, onTypingStart, onTypingStop, autoClear = true, initialAutoSubmit = false, status: externalStatus, placement = 'viewport', maxWidthClass = 'max-w-3xl', uploadedImages: externalImages, onImagesChange, uploadedFiles: externalFiles, onFilesChange, hasImagesInHistory = false }: ChatInputProps) {
+export function ChatInput({ models, defaultModel, chatId, endpointId = null, onEndpointChange, generationOptions = null, onGenerationOptionsChange, compareModels = [], onCompareModelsChange, defaultSystemPromptId, placeholder = 'Type your message…', prefillText, onSubmit, onStop, onTypingStart, onTypingStop, autoClear = true, initialAutoSubmit = false, status: externalStatus, placement = 'viewport', maxWidthClass = 'max-w-3xl', uploadedImages: externalImages, onImagesChange, uploadedFiles: externalFiles, onFilesChange, hasImagesInHistory = false }: ChatInputProps) {
   const [text, setText] = useState('')
   const [model, setModel] = useState('')
   const [uploadedFiles, setUploadedFiles] = useState<Array<FileUploadItem>>(externalFiles || [])
@@ -60,11 +72,13 @@ export function ChatInput({ models, defaultModel, chatId, defaultSystemPromptId,
   const hasCleared = useRef(false)
   const status = externalStatus ?? 'ready'
   const [reasoningLevel, setReasoningLevel] = useState<'low' | 'medium' | 'high'>('high')
-  const { data: caps, error: capsError, thinkLevels } = useOllamaModelCapabilities(model)
-  const { getCapabilities } = useModelCapabilitiesCache(models)
+  const { data: caps, error: capsError, thinkLevels } = useOllamaModelCapabilities(model, endpointId)
+  const { getCapabilities } = useModelCapabilitiesCache(models, endpointId)
   const { preloadModel } = useModelPreload()
   const { data: promptData } = api.systemPrompts.list.useQuery(undefined, { refetchOnWindowFocus: false })
   const systemPrompts = promptData?.prompts ?? []
+  const { data: endpointData } = api.endpoints.list.useQuery(undefined, { refetchOnWindowFocus: false, enabled: !!onEndpointChange })
+  const endpoints = endpointData?.endpoints ?? []
   
   // PDF processing
   const pdfExtractMutation = api.pdf.extractText.useMutation({
@@ -440,7 +454,7 @@ export function ChatInput({ models, defaultModel, chatId, defaultSystemPromptId,
                   
                   // Preload the current model to warm it up
                   if (model) {
-                    preloadModel(model)
+                    preloadModel(model, { chatId, endpointId })
                   } else {
                     console.warn('[preload] ⚠️  No model selected, cannot preload')
                   }
@@ -466,6 +480,41 @@ export function ChatInput({ models, defaultModel, chatId, defaultSystemPromptId,
             />
             <PromptInputToolbar>
               <div className="flex items-center gap-2">
+                {onEndpointChange && endpoints.length > 1 && (
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <div>
+                        <PromptInputModelSelect
+                          onValueChange={(v) => onEndpointChange(v === 'default' ? null : v)}
+                          value={endpointId ?? 'default'}
+                        >
+                          <PromptInputModelSelectTrigger className="h-8">
+                            <PromptInputModelSelectValue>
+                              <div className="inline-flex items-center gap-1 text-xs">
+                                <Server className="h-3.5 w-3.5" />
+                                <span>{endpoints.find(e => e.id === endpointId)?.name ?? 'Default'}</span>
+                              </div>
+                            </PromptInputModelSelectValue>
+                          </PromptInputModelSelectTrigger>
+                          <PromptInputModelSelectContent>
+                            <PromptInputModelSelectItem key={'default'} value={'default'}>
+                              Default
+                            </PromptInputModelSelectItem>
+                            {endpoints.map((e) => (
+                              <PromptInputModelSelectItem key={e.id} value={e.id}>
+                                {e.name}
+                              </PromptInputModelSelectItem>
+                            ))}
+                          </PromptInputModelSelectContent>
+                        </PromptInputModelSelect>
+                      </div>
+                    </TooltipTrigger>
+                    <TooltipContent className="bg-[#2a2a2a] border-[#404040] text-white shadow-lg">
+                      <div className="font-medium">Ollama Endpoint</div>
+                      <div className="text-xs text-gray-400">{endpoints.find(e => e.id === endpointId)?.host ?? 'Uses the default endpoint'}</div>
+                    </TooltipContent>
+                  </Tooltip>
+                )}
                 <PromptInputModelSelect onValueChange={setModel} value={model}>
                   <PromptInputModelSelectTrigger className="h-8">
                     <PromptInputModelSelectValue />
@@ -490,6 +539,23 @@ export function ChatInput({ models, defaultModel, chatId, defaultSystemPromptId,
                     })}
                   </PromptInputModelSelectContent>
                 </PromptInputModelSelect>
+
+                {onGenerationOptionsChange && (
+                  <GenerationSettings value={generationOptions} onChange={onGenerationOptionsChange} />
+                )}
+
+                {onCompareModelsChange && (
+                  <CompareModelsToggle models={models} value={compareModels} onChange={onCompareModelsChange} />
+                )}
+
+                {chatId && <KnowledgeBaseToggle chatId={chatId} />}
+
+                {chatId && <ToolSelectionToggle chatId={chatId} />}
+
+                <McpContextPicker
+                  onAttachFiles={(files) => handleFilesChange([...uploadedFiles, ...files])}
+                  onInsertText={(inserted) => setText(prev => (prev.trim() ? `${prev.trimEnd()}\n\n${inserted}` : inserted))}
+                />
                 
                 <Tooltip>
                   <TooltipTrigger asChild>
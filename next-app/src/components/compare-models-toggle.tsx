@@ -0,0 +1,86 @@
+'use client'
+
+import { Columns2 } from 'lucide-react'
+import { Button } from '~/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '~/components/ui/dropdown-menu'
+import { Tooltip, TooltipContent, TooltipTrigger } from '~/components/ui/tooltip'
+
+export const MIN_COMPARE_MODELS = 2
+export const MAX_COMPARE_MODELS = 4
+
+export type CompareModelsToggleProps = {
+  models: Array<{ name: string }>
+  value: string[]
+  onChange: (models: string[]) => void
+}
+
+/** Picks 2–4 models to answer the next message side by side; fewer than two means comparison is off */
+export function CompareModelsToggle({ models, value, onChange }: CompareModelsToggleProps) {
+  if (models.length < MIN_COMPARE_MODELS) return null
+  const active = value.length >= MIN_COMPARE_MODELS
+
+  const toggle = (name: string, checked: boolean) => {
+    onChange(checked ? [...value, name] : value.filter(m => m !== name))
+  }
+
+  return (
+    <DropdownMenu>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <DropdownMenuTrigger asChild>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className={`h-8 px-2 ${active ? 'text-[#22c55e]' : 'text-[#8b9491]'}`}
+              aria-label="Compare models"
+            >
+              <Columns2 className="h-4 w-4" />
+              {value.length > 0 && <span className="text-xs">{value.length}</span>}
+            </Button>
+          </DropdownMenuTrigger>
+        </TooltipTrigger>
+        <TooltipContent className="bg-[#2a2a2a] border-[#404040] text-white shadow-lg">
+          <div className="font-medium">Compare Models</div>
+          <div className="text-xs text-gray-400">
+            {active ? `Next message goes to ${value.length} models` : `Pick ${MIN_COMPARE_MODELS}–${MAX_COMPARE_MODELS} models to compare`}
+          </div>
+        </TooltipContent>
+      </Tooltip>
+      <DropdownMenuContent align="start" className="w-64">
+        <DropdownMenuLabel>Answer with ({value.length}/{MAX_COMPARE_MODELS})</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <div className="max-h-64 overflow-y-auto">
+          {models.map(m => {
+            const checked = value.includes(m.name)
+            return (
+              <DropdownMenuCheckboxItem
+                key={m.name}
+                checked={checked}
+                disabled={!checked && value.length >= MAX_COMPARE_MODELS}
+                onCheckedChange={(next) => toggle(m.name, next)}
+                onSelect={(e) => e.preventDefault()}
+              >
+                <span className="truncate">{m.name}</span>
+              </DropdownMenuCheckboxItem>
+            )
+          })}
+        </div>
+        {value.length > 0 && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onSelect={() => onChange([])}>Turn off comparison</DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,221 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { SlidersHorizontal, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { api } from '~/trpc/react'
+import { Button } from '~/components/ui/button'
+import { Input } from '~/components/ui/input'
+import { Label } from '~/components/ui/label'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '~/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '~/components/ui/select'
+import { Tooltip, TooltipContent, TooltipTrigger } from '~/components/ui/tooltip'
+import { defaultToolLimits, normalizeGenerationOptions, type ContextStrategy, type GenerationOptions } from '~/lib/generation-options'
+
+type Draft = { temperature: string; top_p: string; num_ctx: string; seed: string; stop: string; context_strategy: ContextStrategy | ''; max_tool_rounds: string; tool_timeout_s: string; max_tool_result_chars: string }
+
+const contextStrategyLabels: Record<ContextStrategy, string> = {
+  drop_oldest: 'Drop oldest messages',
+  keep_pinned: 'Drop oldest, keep pinned',
+  summarize: 'Summarize older messages',
+}
+
+const toDraft = (o?: GenerationOptions | null): Draft => ({
+  temperature: o?.temperature?.toString() ?? '',
+  top_p: o?.top_p?.toString() ?? '',
+  num_ctx: o?.num_ctx?.toString() ?? '',
+  seed: o?.seed?.toString() ?? '',
+  stop: (o?.stop ?? []).join(', '),
+  context_strategy: o?.context_strategy ?? '',
+  max_tool_rounds: o?.max_tool_rounds?.toString() ?? '',
+  tool_timeout_s: o?.tool_timeout_s?.toString() ?? '',
+  max_tool_result_chars: o?.max_tool_result_chars?.toString() ?? '',
+})
+
+const fromDraft = (d: Draft): GenerationOptions | undefined => {
+  const num = (v: string) => (v.trim() === '' ? undefined : Number(v))
+  return normalizeGenerationOptions({
+    temperature: num(d.temperature),
+    top_p: num(d.top_p),
+    num_ctx: num(d.num_ctx),
+    seed: num(d.seed),
+    stop: d.stop.split(',').map(s => s.trim()).filter(Boolean),
+    context_strategy: d.context_strategy || undefined,
+    max_tool_rounds: num(d.max_tool_rounds),
+    tool_timeout_s: num(d.tool_timeout_s),
+    max_tool_result_chars: num(d.max_tool_result_chars),
+  })
+}
+
+export type GenerationSettingsProps = {
+  value: GenerationOptions | null
+  onChange: (options: GenerationOptions | null) => void
+}
+
+export function GenerationSettings({ value, onChange }: GenerationSettingsProps) {
+  const [open, setOpen] = useState(false)
+  const [draft, setDraft] = useState<Draft>(toDraft(value))
+  const [presetName, setPresetName] = useState('')
+  const utils = api.useUtils()
+  const { data: presetData } = api.generationPresets.list.useQuery(undefined, { enabled: open, refetchOnWindowFocus: false })
+  const presets = presetData?.presets ?? []
+  const createPreset = api.generationPresets.create.useMutation({ onSuccess: () => utils.generationPresets.list.invalidate() })
+  const deletePreset = api.generationPresets.delete.useMutation({ onSuccess: () => utils.generationPresets.list.invalidate() })
+
+  // Start from the chat's saved options every time the panel opens
+  useEffect(() => {
+    if (open) setDraft(toDraft(value))
+  }, [open, value])
+
+  const isCustomized = !!value && Object.keys(value).length > 0
+  const field = (key: Exclude<keyof Draft, 'context_strategy'>, label: string, placeholder: string, step?: string) => (
+    <div className="grid gap-1.5">
+      <Label htmlFor={`gen-${key}`} className="text-xs">{label}</Label>
+      <Input
+        id={`gen-${key}`}
+        type={key === 'stop' ? 'text' : 'number'}
+        step={step}
+        value={draft[key]}
+        onChange={(e) => setDraft(d => ({ ...d, [key]: e.target.value }))}
+        placeholder={placeholder}
+        className="h-8"
+      />
+    </div>
+  )
+
+  const handleApply = () => {
+    const next = fromDraft(draft)
+    const hasInput = Object.values(draft).some(v => v.trim() !== '')
+    if (hasInput && !next) {
+      toast.error('Invalid generation settings', { description: 'Check the ranges: temperature 0–2, top_p 0–1, num_ctx ≥ 256, tool rounds 1–50, tool timeout 1–3600s, tool result ≥ 500 characters.' })
+      return
+    }
+    onChange(next ?? null)
+    setOpen(false)
+  }
+
+  const handleSavePreset = async () => {
+    const options = fromDraft(draft)
+    if (!presetName.trim() || !options) return
+    try {
+      await createPreset.mutateAsync({ name: presetName.trim(), options })
+      toast.success(`Saved preset ${presetName.trim()}`)
+      setPresetName('')
+    } catch (e) {
+      toast.error('Failed to save preset', { description: String((e as Error).message || e) })
+    }
+  }
+
+  return (
+    <>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className={`h-8 px-2 ${isCustomized ? 'text-[#22c55e]' : 'text-[#8b9491]'}`}
+            onClick={() => setOpen(true)}
+            aria-label="Generation settings"
+          >
+            <SlidersHorizontal className="h-4 w-4" />
+          </Button>
+        </TooltipTrigger>
+        <TooltipContent className="bg-[#2a2a2a] border-[#404040] text-white shadow-lg">
+          <div className="font-medium">Generation Settings</div>
+          <div className="text-xs text-gray-400">{isCustomized ? 'Custom options for this chat' : 'Model defaults'}</div>
+        </TooltipContent>
+      </Tooltip>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-[460px]">
+          <DialogHeader>
+            <DialogTitle>Generation settings</DialogTitle>
+            <DialogDescription>Saved for this chat. Leave a field empty to use the model default.</DialogDescription>
+          </DialogHeader>
+
+          {presets.length > 0 && (
+            <div className="flex items-center gap-2">
+              <Select onValueChange={(id) => {
+                const preset = presets.find(p => p.id === id)
+                if (preset) setDraft(toDraft(preset.options))
+              }}>
+                <SelectTrigger size="sm" className="flex-1">
+                  <SelectValue placeholder="Apply a preset…" />
+                </SelectTrigger>
+                <SelectContent>
+                  {presets.map(p => (
+                    <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            {field('temperature', 'Temperature', '0.8', '0.05')}
+            {field('top_p', 'Top P', '0.9', '0.05')}
+            {field('num_ctx', 'Context length (num_ctx)', '4096', '256')}
+            {field('seed', 'Seed', 'random', '1')}
+          </div>
+          {field('stop', 'Stop sequences (comma separated)', 'e.g. </answer>, User:')}
+
+          <div className="grid gap-1.5">
+            <Label className="text-xs">When history exceeds the context window</Label>
+            <Select
+              value={draft.context_strategy || 'drop_oldest'}
+              onValueChange={(v) => setDraft(d => ({ ...d, context_strategy: v as ContextStrategy }))}
+            >
+              <SelectTrigger size="sm" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(contextStrategyLabels) as ContextStrategy[]).map(s => (
+                  <SelectItem key={s} value={s}>{contextStrategyLabels[s]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            {field('max_tool_rounds', 'Max tool rounds', String(defaultToolLimits.max_tool_rounds), '1')}
+            {field('tool_timeout_s', 'Tool timeout (s)', String(defaultToolLimits.tool_timeout_s), '1')}
+            {field('max_tool_result_chars', 'Max tool result', String(defaultToolLimits.max_tool_result_chars), '500')}
+          </div>
+
+          <div className="grid gap-1.5">
+            <Label className="text-xs">Save as preset</Label>
+            <div className="flex items-center gap-2">
+              <Input value={presetName} onChange={(e) => setPresetName(e.target.value)} placeholder="Preset name" className="h-8" />
+              <Button type="button" size="sm" variant="secondary" onClick={handleSavePreset} disabled={!presetName.trim() || createPreset.isPending}>
+                Save
+              </Button>
+            </div>
+            {presets.length > 0 && (
+              <div className="flex flex-wrap gap-1 pt-1">
+                {presets.map(p => (
+                  <span key={p.id} className="inline-flex items-center gap-1 rounded-full border border-white/10 px-2 py-0.5 text-[11px] text-neutral-300">
+                    {p.name}
+                    <button
+                      type="button"
+                      className="text-neutral-500 hover:text-red-400"
+                      aria-label={`Delete preset ${p.name}`}
+                      onClick={() => deletePreset.mutate({ id: p.id })}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={() => setDraft(toDraft(null))}>Reset</Button>
+            <Button type="button" onClick={handleApply}>Apply</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,79 @@
+'use client'
+
+import { BookOpen } from 'lucide-react'
+import { toast } from 'sonner'
+import { api } from '~/trpc/react'
+import { Button } from '~/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '~/components/ui/dropdown-menu'
+import { Tooltip, TooltipContent, TooltipTrigger } from '~/components/ui/tooltip'
+
+export type KnowledgeBaseToggleProps = {
+  chatId: string
+}
+
+/** Picks which knowledge base collections this chat retrieves from; hidden until a collection exists */
+export function KnowledgeBaseToggle({ chatId }: KnowledgeBaseToggleProps) {
+  const utils = api.useUtils()
+  const { data: collectionData } = api.knowledgeBase.listCollections.useQuery(undefined, { refetchOnWindowFocus: false })
+  const { data: selectionData } = api.knowledgeBase.chatCollections.useQuery({ chatId }, { refetchOnWindowFocus: false })
+  const setCollections = api.knowledgeBase.setChatCollections.useMutation({
+    onSuccess: (data) => utils.knowledgeBase.chatCollections.setData({ chatId }, data),
+    onError: (e) => toast.error('Failed to update knowledge base', { description: e.message }),
+  })
+
+  const collections = collectionData?.collections ?? []
+  const selected = selectionData?.collectionIds ?? []
+  if (collections.length === 0) return null
+
+  const toggle = (id: string, checked: boolean) => {
+    const next = checked ? [...selected, id] : selected.filter(c => c !== id)
+    setCollections.mutate({ chatId, collectionIds: next })
+  }
+
+  return (
+    <DropdownMenu>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <DropdownMenuTrigger asChild>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className={`h-8 px-2 ${selected.length > 0 ? 'text-[#22c55e]' : 'text-[#8b9491]'}`}
+              aria-label="Knowledge base"
+            >
+              <BookOpen className="h-4 w-4" />
+              {selected.length > 0 && <span className="text-xs">{selected.length}</span>}
+            </Button>
+          </DropdownMenuTrigger>
+        </TooltipTrigger>
+        <TooltipContent className="bg-[#2a2a2a] border-[#404040] text-white shadow-lg">
+          <div className="font-medium">Knowledge Base</div>
+          <div className="text-xs text-gray-400">{selected.length > 0 ? `Searching ${selected.length} collection${selected.length === 1 ? '' : 's'}` : 'Off for this chat'}</div>
+        </TooltipContent>
+      </Tooltip>
+      <DropdownMenuContent align="start" className="w-56">
+        <DropdownMenuLabel>Search collections</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {collections.map(c => (
+          <DropdownMenuCheckboxItem
+            key={c.id}
+            checked={selected.includes(c.id)}
+            onCheckedChange={(checked) => toggle(c.id, checked)}
+            onSelect={(e) => e.preventDefault()}
+          >
+            <span className="truncate">{c.name}</span>
+            <span className="ml-auto text-xs text-muted-foreground">{c._count.documents}</span>
+          </DropdownMenuCheckboxItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,112 @@
+'use client'
+
+import { useMemo, type ComponentProps, type ReactNode } from 'react'
+import { FileText } from 'lucide-react'
+import { Response } from '~/components/ai-elements/response'
+import { Source, Sources, SourcesContent, SourcesTrigger } from '~/components/ai-elements/source'
+import {
+  InlineCitation,
+  InlineCitationCard,
+  InlineCitationCardBody,
+  InlineCitationCardTrigger,
+  InlineCitationQuote,
+  InlineCitationSource,
+} from '~/components/ai-elements/inline-citation'
+import type { KnowledgeSource, UIMessagePart } from '~/lib/chat-types'
+
+const CITATION_PREFIX = '#kb-source-'
+
+export function getSourcesFromParts(parts: UIMessagePart[]): KnowledgeSource[] {
+  return parts.flatMap(p => (p.type === 'source' ? [p] : []))
+}
+
+/**
+ * Turn the model's [n] / [1, 2] markers into fragment links the citation renderer picks up.
+ * Code fences are left alone.
+ */
+export function linkCitations(text: string, sources: KnowledgeSource[]): string {
+  if (sources.length === 0) return text
+  const known = new Set(sources.map(s => s.index))
+  return text
+    .split(/(```[\s\S]*?(?:```|$))/)
+    .map((segment, i) => {
+      if (i % 2 === 1) return segment
+      return segment.replace(/\[(\d+(?:\s*,\s*\d+)*)\](?![(\[])/g, (match, list: string) => {
+        const nums = list.split(',').map(n => parseInt(n.trim(), 10))
+        if (!nums.every(n => known.has(n))) return match
+        return nums.map(n => `[${n}](${CITATION_PREFIX}${n})`).join('')
+      })
+    })
+    .join('')
+}
+
+function CitationCard({ source, children }: { source: KnowledgeSource; children?: ReactNode }) {
+  return (
+    <InlineCitationCard>
+      <InlineCitationCardTrigger sources={[source.fileName]}>{children}</InlineCitationCardTrigger>
+      <InlineCitationCardBody>
+        <div className="space-y-2 p-4">
+          <InlineCitationSource
+            title={`[${source.index}] ${source.fileName}`}
+            url={source.collectionName ? `${source.collectionName} · relevance ${source.score.toFixed(2)}` : undefined}
+          />
+          <InlineCitationQuote className="line-clamp-6 whitespace-pre-wrap not-italic">{source.snippet}</InlineCitationQuote>
+        </div>
+      </InlineCitationCardBody>
+    </InlineCitationCard>
+  )
+}
+
+/** Markdown components for `Response` that render citation links as hover cards */
+function useCitationComponents(sources: KnowledgeSource[]) {
+  return useMemo(() => {
+    if (sources.length === 0) return undefined
+    const byIndex = new Map(sources.map(s => [s.index, s]))
+    return {
+      a({ href, children, className, ...props }: { href?: string; children?: ReactNode; className?: string; node?: unknown }) {
+        const source = href?.startsWith(CITATION_PREFIX) ? byIndex.get(parseInt(href.slice(CITATION_PREFIX.length), 10)) : undefined
+        if (source) {
+          return (
+            <InlineCitation>
+              <CitationCard source={source}>{source.index}</CitationCard>
+            </InlineCitation>
+          )
+        }
+        const { node: _node, ...rest } = props
+        return (
+          <a className={`wrap-anywhere font-medium text-primary underline ${className ?? ''}`} href={href} rel="noreferrer" target="_blank" {...rest}>
+            {children}
+          </a>
+        )
+      },
+    }
+  }, [sources])
+}
+
+/** `Response` with the model's [n] markers rendered as inline citations */
+export function CitedResponse({ sources, children, ...props }: ComponentProps<typeof Response> & { sources: KnowledgeSource[]; children: string }) {
+  const components = useCitationComponents(sources)
+  return (
+    <Response {...props} components={components}>
+      {linkCitations(children, sources)}
+    </Response>
+  )
+}
+
+export function KnowledgeSources({ sources }: { sources: KnowledgeSource[] }) {
+  if (sources.length === 0) return null
+  return (
+    <Sources>
+      <SourcesTrigger count={sources.length} />
+      <SourcesContent>
+        {sources.map(s => (
+          <Source key={`${s.documentId}-${s.index}`} title={s.fileName}>
+            <FileText className="h-4 w-4" />
+            <span className="font-medium">[{s.index}] {s.fileName}</span>
+            {s.collectionName && <span className="text-muted-foreground">{s.collectionName}</span>}
+          </Source>
+        ))}
+      </SourcesContent>
+    </Sources>
+  )
+}
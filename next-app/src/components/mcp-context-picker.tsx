@@ -0,0 +1,204 @@
+'use client'
+
+import { useState } from 'react'
+import { Blocks, FileText, MessageSquareText } from 'lucide-react'
+import { toast } from 'sonner'
+import { api } from '~/trpc/react'
+import { Button } from '~/components/ui/button'
+import { Input } from '~/components/ui/input'
+import { Label } from '~/components/ui/label'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '~/components/ui/dialog'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '~/components/ui/dropdown-menu'
+import { Tooltip, TooltipContent, TooltipTrigger } from '~/components/ui/tooltip'
+import type { FileUploadItem } from '~/lib/file-upload'
+import type { McpPromptInfo, McpResourceContent, McpResourceInfo } from '~/lib/mcp/server-client-manager'
+
+export type McpContextPickerProps = {
+  onAttachFiles: (files: FileUploadItem[]) => void
+  onInsertText: (text: string) => void
+}
+
+type PendingPrompt = { serverId: string; prompt: McpPromptInfo }
+
+// Text contents become text attachments and images stay images; other binary contents are skipped
+function toFileItems(resource: McpResourceInfo, contents: McpResourceContent[]): FileUploadItem[] {
+  return contents.flatMap((c, i): FileUploadItem[] => {
+    const fileName = contents.length > 1 ? `${resource.name} (${i + 1})` : resource.name
+    if (c.text !== undefined) {
+      return [{ data: c.text, mimeType: 'text/plain', fileName, fileType: 'text', content: c.text }]
+    }
+    if (c.blob && c.mimeType?.startsWith('image/')) {
+      return [{ data: c.blob, mimeType: c.mimeType, fileName, fileType: 'image' }]
+    }
+    return []
+  })
+}
+
+/** Attaches MCP resources to the message or inserts MCP prompts; hidden until a connected server offers either */
+export function McpContextPicker({ onAttachFiles, onInsertText }: McpContextPickerProps) {
+  const [pendingPrompt, setPendingPrompt] = useState<PendingPrompt | null>(null)
+  const [promptArgs, setPromptArgs] = useState<Record<string, string>>({})
+  const { data: servers } = api.mcp.listContextItems.useQuery(undefined, { refetchOnWindowFocus: false, staleTime: 60 * 1000 })
+  const readResource = api.mcp.readResource.useMutation()
+  const getPrompt = api.mcp.getPrompt.useMutation()
+
+  const available = (servers ?? []).filter(s => s.resources.length > 0 || s.prompts.length > 0)
+  if (available.length === 0) return null
+
+  const attachResource = async (serverId: string, resource: McpResourceInfo) => {
+    try {
+      const files = toFileItems(resource, await readResource.mutateAsync({ serverId, uri: resource.uri }))
+      if (files.length === 0) {
+        toast.error('Unsupported resource', { description: `${resource.name} has no text or image content` })
+        return
+      }
+      onAttachFiles(files)
+    } catch (error) {
+      toast.error('Failed to read resource', { description: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  const insertPrompt = async (serverId: string, prompt: McpPromptInfo, args: Record<string, string>) => {
+    try {
+      // Optional arguments left blank are omitted rather than sent empty
+      const filled = Object.fromEntries(Object.entries(args).filter(([, value]) => value.trim()))
+      const result = await getPrompt.mutateAsync({ serverId, name: prompt.name, arguments: filled })
+      const text = result.messages.map(m => m.text).join('\n\n')
+      if (!text) {
+        toast.error('Empty prompt', { description: `${prompt.name} returned no text` })
+        return
+      }
+      onInsertText(text)
+      setPendingPrompt(null)
+    } catch (error) {
+      toast.error('Failed to get prompt', { description: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  const selectPrompt = (serverId: string, prompt: McpPromptInfo) => {
+    if (prompt.arguments.length === 0) {
+      void insertPrompt(serverId, prompt, {})
+      return
+    }
+    setPromptArgs({})
+    setPendingPrompt({ serverId, prompt })
+  }
+
+  const missingArgs = pendingPrompt?.prompt.arguments.some(a => a.required && !promptArgs[a.name]?.trim()) ?? false
+
+  return (
+    <>
+      <DropdownMenu>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <DropdownMenuTrigger asChild>
+              <Button type="button" variant="ghost" size="sm" className="h-8 px-2 text-[#8b9491]" aria-label="MCP resources and prompts">
+                <Blocks className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+          </TooltipTrigger>
+          <TooltipContent className="bg-[#2a2a2a] border-[#404040] text-white shadow-lg">
+            <div className="font-medium">MCP Resources & Prompts</div>
+            <div className="text-xs text-gray-400">Attach a resource or insert a prompt from a connected server</div>
+          </TooltipContent>
+        </Tooltip>
+        <DropdownMenuContent align="start" className="w-56">
+          {available.map((server, index) => (
+            <div key={server.serverId}>
+              {index > 0 && <DropdownMenuSeparator />}
+              <DropdownMenuLabel>{server.serverName}</DropdownMenuLabel>
+              {server.resources.length > 0 && (
+                <DropdownMenuSub>
+                  <DropdownMenuSubTrigger>
+                    <FileText className="h-4 w-4 mr-2" />
+                    Resources
+                    <span className="ml-auto text-xs text-muted-foreground">{server.resources.length}</span>
+                  </DropdownMenuSubTrigger>
+                  <DropdownMenuSubContent className="max-h-80 w-64 overflow-y-auto">
+                    {server.resources.map(r => (
+                      <DropdownMenuItem key={r.uri} onSelect={() => void attachResource(server.serverId, r)}>
+                        <div className="min-w-0">
+                          <div className="truncate">{r.name}</div>
+                          <div className="truncate text-xs text-muted-foreground">{r.description ?? r.uri}</div>
+                        </div>
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuSubContent>
+                </DropdownMenuSub>
+              )}
+              {server.prompts.length > 0 && (
+                <DropdownMenuSub>
+                  <DropdownMenuSubTrigger>
+                    <MessageSquareText className="h-4 w-4 mr-2" />
+                    Prompts
+                    <span className="ml-auto text-xs text-muted-foreground">{server.prompts.length}</span>
+                  </DropdownMenuSubTrigger>
+                  <DropdownMenuSubContent className="max-h-80 w-64 overflow-y-auto">
+                    {server.prompts.map(p => (
+                      <DropdownMenuItem key={p.name} onSelect={() => selectPrompt(server.serverId, p)}>
+                        <div className="min-w-0">
+                          <div className="truncate">{p.name}</div>
+                          {p.description && <div className="truncate text-xs text-muted-foreground">{p.description}</div>}
+                        </div>
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuSubContent>
+                </DropdownMenuSub>
+              )}
+            </div>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={!!pendingPrompt} onOpenChange={(open) => !open && setPendingPrompt(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{pendingPrompt?.prompt.name}</DialogTitle>
+            {pendingPrompt?.prompt.description && <DialogDescription>{pendingPrompt.prompt.description}</DialogDescription>}
+          </DialogHeader>
+          <form
+            id="mcp-prompt-args"
+            className="space-y-3"
+            onSubmit={(e) => {
+              e.preventDefault()
+              if (pendingPrompt && !missingArgs) void insertPrompt(pendingPrompt.serverId, pendingPrompt.prompt, promptArgs)
+            }}
+          >
+            {pendingPrompt?.prompt.arguments.map(arg => (
+              <div key={arg.name} className="space-y-1">
+                <Label htmlFor={`mcp-prompt-arg-${arg.name}`}>
+                  {arg.name}
+                  {arg.required && <span className="text-red-400"> *</span>}
+                </Label>
+                <Input
+                  id={`mcp-prompt-arg-${arg.name}`}
+                  value={promptArgs[arg.name] ?? ''}
+                  placeholder={arg.description}
+                  onChange={(e) => setPromptArgs(prev => ({ ...prev, [arg.name]: e.target.value }))}
+                />
+              </div>
+            ))}
+          </form>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setPendingPrompt(null)}>
+              Cancel
+            </Button>
+            <Button type="submit" form="mcp-prompt-args" disabled={missingArgs || getPrompt.isPending}>
+              {getPrompt.isPending ? 'Inserting...' : 'Insert Prompt'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
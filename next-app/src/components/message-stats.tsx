@@ -0,0 +1,35 @@
+'use client'
+
+import { Gauge } from 'lucide-react'
+import { Tooltip, TooltipContent, TooltipTrigger } from '~/components/ui/tooltip'
+import { formatDuration, getTokensPerSecond, type GenerationStats } from '~/lib/generation-stats'
+
+/** One-line summary of how a reply was generated, with the full breakdown on hover */
+export function MessageStats({ stats }: { stats?: GenerationStats }) {
+  if (!stats) return null
+  const tokensPerSecond = getTokensPerSecond(stats.completionTokens, stats.evalDurationMs)
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <div className="mt-2 flex w-fit items-center gap-1.5 text-xs text-[#8b9491]">
+          <Gauge className="h-3 w-3" />
+          {tokensPerSecond !== null && <span>{tokensPerSecond.toFixed(1)} tok/s</span>}
+          {stats.firstTokenMs !== null && <span>· {formatDuration(stats.firstTokenMs)} to first token</span>}
+          <span>· {stats.promptTokens} prompt tokens</span>
+        </div>
+      </TooltipTrigger>
+      <TooltipContent className="bg-[#2a2a2a] border-[#404040] text-white shadow-lg">
+        <div className="font-medium">{stats.model}</div>
+        <div className="grid grid-cols-[auto_auto] gap-x-3 text-xs text-gray-400">
+          <span>Completion tokens</span><span className="text-right">{stats.completionTokens}</span>
+          <span>Prompt tokens</span><span className="text-right">{stats.promptTokens}</span>
+          <span>Prompt eval</span><span className="text-right">{formatDuration(stats.promptEvalDurationMs)}</span>
+          <span>Generation</span><span className="text-right">{formatDuration(stats.evalDurationMs)}</span>
+          <span>Model load</span><span className="text-right">{formatDuration(stats.loadDurationMs)}</span>
+          <span>Total</span><span className="text-right">{formatDuration(stats.totalDurationMs)}</span>
+        </div>
+      </TooltipContent>
+    </Tooltip>
+  )
+}
@@ -0,0 +1,83 @@
+'use client'
+
+import { AlertCircle, Check, Loader2 } from 'lucide-react'
+import { Button } from '~/components/ui/button'
+import { Reasoning, ReasoningContent, ReasoningTrigger } from '~/components/ai-elements/reasoning'
+import { Response } from '~/components/ai-elements/response'
+import { CitedResponse, getSourcesFromParts } from '~/components/knowledge-sources'
+import { getCandidateMetrics, type ComparisonCandidate, type ComparisonState } from '~/hooks/use-ollama-chat/utils'
+
+function formatMetrics(candidate: ComparisonCandidate): string {
+  const { latencyMs, tokensPerSecond, tokenCount, chunksPerSecond } = getCandidateMetrics(candidate)
+  const parts: string[] = []
+  if (latencyMs !== null) parts.push(`${(latencyMs / 1000).toFixed(1)}s to first token`)
+  if (tokensPerSecond !== null) parts.push(`${tokensPerSecond.toFixed(1)} tok/s`)
+  if (chunksPerSecond !== null) parts.push(`${chunksPerSecond.toFixed(1)} chunks/s`)
+  if (tokenCount !== null && tokenCount > 0) parts.push(`${tokenCount} tokens`)
+  return parts.join(' · ')
+}
+
+function CandidateColumn({ candidate, canPick, onPick }: { candidate: ComparisonCandidate; canPick: boolean; onPick: () => void }) {
+  const reasoning = candidate.message.parts.flatMap(p => (p.type === 'reasoning' ? [p.text] : [])).join('')
+  const text = candidate.message.parts.flatMap(p => (p.type === 'text' ? [p.text] : [])).join('')
+  const sources = getSourcesFromParts(candidate.message.parts)
+  const isRunning = candidate.status === 'pending' || candidate.status === 'streaming'
+
+  return (
+    <div className="flex min-w-0 flex-col rounded-xl border border-[#2b3f3e]/60 bg-[#132827]/40">
+      <div className="flex items-center gap-2 border-b border-[#2b3f3e]/60 px-3 py-2">
+        {isRunning && <Loader2 className="h-3.5 w-3.5 animate-spin text-muted-foreground" />}
+        {candidate.status === 'done' && <Check className="h-3.5 w-3.5 text-[#22c55e]" />}
+        {candidate.status === 'error' && <AlertCircle className="h-3.5 w-3.5 text-red-400" />}
+        <span className="truncate text-sm font-medium text-[#cde3df]">{candidate.model}</span>
+      </div>
+      <div className="min-h-24 flex-1 overflow-x-auto px-3 py-2 text-sm">
+        {reasoning && (
+          <Reasoning isStreaming={candidate.status === 'streaming' && !text} defaultOpen={false}>
+            <ReasoningTrigger />
+            <ReasoningContent>{reasoning}</ReasoningContent>
+          </Reasoning>
+        )}
+        {text && (sources.length > 0 ? <CitedResponse sources={sources}>{text}</CitedResponse> : <Response>{text}</Response>)}
+        {candidate.error && <div className="text-red-400">{candidate.error}</div>}
+        {candidate.status === 'pending' && <div className="text-muted-foreground">Waiting for the model…</div>}
+      </div>
+      <div className="flex items-center gap-2 border-t border-[#2b3f3e]/60 px-3 py-2">
+        <span className="truncate text-xs text-muted-foreground">{formatMetrics(candidate)}</span>
+        <Button
+          type="button"
+          size="sm"
+          variant="secondary"
+          className="ml-auto h-7 shrink-0"
+          disabled={!canPick || candidate.status !== 'done'}
+          onClick={onPick}
+        >
+          Use this answer
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export type ModelComparisonProps = {
+  comparison: ComparisonState
+  isStreaming: boolean
+  onPick: (assistantId: string) => void
+}
+
+/** Side-by-side answers to one user turn; picking one continues the chat from it, the rest stay as branches */
+export function ModelComparison({ comparison, isStreaming, onPick }: ModelComparisonProps) {
+  const columns = comparison.candidates.length > 2 ? 'lg:grid-cols-2 xl:grid-cols-4' : 'md:grid-cols-2'
+  return (
+    <div className="py-4">
+      <div className="mb-2 text-xs text-muted-foreground">
+        {isStreaming ? 'Comparing models…' : 'Pick the answer to continue with; the others stay available as branches'}
+      </div>
+      <div className={`grid grid-cols-1 gap-3 ${columns}`}>
+        {comparison.candidates.map(c => (
+          <CandidateColumn key={c.assistantId} candidate={c} canPick={!isStreaming} onPick={() => onPick(c.assistantId)} />
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,35 @@
+'use client'
+
+import { Repeat, Scissors, TimerOff } from 'lucide-react'
+import type { ToolLimitNotice } from '~/lib/chat-types'
+
+function describe(notice: ToolLimitNotice): string {
+  switch (notice.type) {
+    case 'max_rounds':
+      return `Stopped calling tools after ${notice.maxRounds} rounds; the answer uses what was gathered so far`
+    case 'timeout':
+      return `${notice.toolName} timed out after ${Math.round(notice.timeoutMs / 1000)}s`
+    case 'truncated':
+      return `${notice.toolName} result cut to ${notice.keptChars.toLocaleString()} of ${notice.originalChars.toLocaleString()} characters for the model`
+  }
+}
+
+const icons = { max_rounds: Repeat, timeout: TimerOff, truncated: Scissors } as const
+
+/** Tool limits the chat route enforced while writing this reply */
+export function ToolLimitNotices({ notices }: { notices?: ToolLimitNotice[] }) {
+  if (!notices || notices.length === 0) return null
+  return (
+    <div className="mb-2 space-y-1">
+      {notices.map((notice, i) => {
+        const Icon = icons[notice.type]
+        return (
+          <div key={i} className="flex items-center gap-1.5 text-xs text-[#8b9491]">
+            <Icon className="h-3 w-3 shrink-0" />
+            {describe(notice)}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
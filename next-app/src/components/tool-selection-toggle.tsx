@@ -0,0 +1,120 @@
+'use client'
+
+import { Wrench } from 'lucide-react'
+import { toast } from 'sonner'
+import { api } from '~/trpc/react'
+import { Button } from '~/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '~/components/ui/dropdown-menu'
+import { Tooltip, TooltipContent, TooltipTrigger } from '~/components/ui/tooltip'
+import type { ToolSelection } from '~/lib/tools/selection'
+
+export type ToolSelectionToggleProps = {
+  chatId: string
+}
+
+/** Picks which tools and MCP servers this chat offers the model; hidden until a tool exists */
+export function ToolSelectionToggle({ chatId }: ToolSelectionToggleProps) {
+  const utils = api.useUtils()
+  const { data: groupData } = api.mcp.listAvailableTools.useQuery(undefined, { refetchOnWindowFocus: false })
+  const { data: selectionData } = api.mcp.chatToolSelection.useQuery({ chatId }, { refetchOnWindowFocus: false })
+  const setSelection = api.mcp.setChatToolSelection.useMutation({
+    onSuccess: (data) => utils.mcp.chatToolSelection.setData({ chatId }, data),
+    onError: (e) => toast.error('Failed to update tools', { description: e.message }),
+  })
+
+  const groups = groupData ?? []
+  const selection = selectionData?.selection ?? null
+  if (groups.length === 0) return null
+
+  // Without a selection every tool is on; spell that out before narrowing it
+  const current: ToolSelection = selection ?? { sources: groups.map(g => g.source), tools: [] }
+  const isSourceOn = (source: string) => current.sources.includes(source)
+  const isToolOn = (source: string, name: string) => isSourceOn(source) || current.tools.includes(name)
+  const totalTools = groups.reduce((n, g) => n + g.tools.length, 0)
+  const enabledTools = groups.reduce((n, g) => n + g.tools.filter(t => isToolOn(g.source, t.name)).length, 0)
+
+  const toggleSource = (source: string, checked: boolean) => {
+    const names = groups.find(g => g.source === source)?.tools.map(t => t.name) ?? []
+    setSelection.mutate({
+      chatId,
+      selection: {
+        sources: checked ? [...current.sources, source] : current.sources.filter(s => s !== source),
+        tools: current.tools.filter(t => !names.includes(t)),
+      },
+    })
+  }
+
+  const toggleTool = (source: string, name: string, checked: boolean) => {
+    // Turning off one tool of a fully enabled source keeps its other tools individually
+    const siblings = groups.find(g => g.source === source)?.tools.map(t => t.name) ?? []
+    const tools = isSourceOn(source) ? [...current.tools, ...siblings] : current.tools
+    setSelection.mutate({
+      chatId,
+      selection: {
+        sources: current.sources.filter(s => s !== source),
+        tools: checked ? [...tools, name] : tools.filter(t => t !== name),
+      },
+    })
+  }
+
+  return (
+    <DropdownMenu>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <DropdownMenuTrigger asChild>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className={`h-8 px-2 ${selection ? 'text-[#22c55e]' : 'text-[#8b9491]'}`}
+              aria-label="Tools"
+            >
+              <Wrench className="h-4 w-4" />
+              {selection && <span className="text-xs">{enabledTools}</span>}
+            </Button>
+          </DropdownMenuTrigger>
+        </TooltipTrigger>
+        <TooltipContent className="bg-[#2a2a2a] border-[#404040] text-white shadow-lg">
+          <div className="font-medium">Tools</div>
+          <div className="text-xs text-gray-400">{selection ? `${enabledTools} of ${totalTools} tools offered in this chat` : 'Every available tool is offered'}</div>
+        </TooltipContent>
+      </Tooltip>
+      <DropdownMenuContent align="start" className="max-h-96 w-64 overflow-y-auto">
+        <DropdownMenuItem disabled={!selection} onSelect={() => setSelection.mutate({ chatId, selection: null })}>
+          Use all available tools
+        </DropdownMenuItem>
+        {groups.map(group => (
+          <div key={group.source}>
+            <DropdownMenuSeparator />
+            <DropdownMenuCheckboxItem
+              checked={isSourceOn(group.source)}
+              onCheckedChange={(checked) => toggleSource(group.source, checked)}
+              onSelect={(e) => e.preventDefault()}
+            >
+              <span className="font-medium">{group.label}</span>
+              <span className="ml-auto text-xs text-muted-foreground">{group.tools.length}</span>
+            </DropdownMenuCheckboxItem>
+            {group.tools.map(tool => (
+              <DropdownMenuCheckboxItem
+                key={tool.name}
+                checked={isToolOn(group.source, tool.name)}
+                onCheckedChange={(checked) => toggleTool(group.source, tool.name, checked)}
+                onSelect={(e) => e.preventDefault()}
+                className="pl-10"
+              >
+                <span className="truncate" title={tool.description}>{tool.label}</span>
+              </DropdownMenuCheckboxItem>
+            ))}
+          </div>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
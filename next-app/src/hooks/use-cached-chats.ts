@@ -2,6 +2,7 @@ import { useCallback, useEffect, useState } from 'react'
 import { api } from '~/trpc/react'
 import { getCacheManager } from '~/lib/chat-cache'
 import type { CachedChat, ChatCacheData, CacheResult, CachedMessage } from '~/lib/chat-cache/types'
+import type { GenerationOptions } from '~/lib/generation-options'
 
 /**
  * Hook for cache-first chat data access
@@ -83,6 +84,9 @@ export function useCachedChats() {
           pinnedAt: chat.pinnedAt ? new Date(chat.pinnedAt as any) : null,
           lastSetModel: chat.lastSetModel || null,
           lastSetPrompt: chat.lastSetPrompt || null,
+          lastSetOptions: (chat.lastSetOptions as GenerationOptions | null) ?? null,
+          endpointId: chat.endpointId || null,
+          activeLeafId: chat.activeLeafId ?? null,
           cachedAt: new Date(),
           version: 1,
           isDirty: false,
@@ -121,6 +125,9 @@ export function useCachedChats() {
               parts: msg.parts,
               createdAt: new Date(msg.createdAt as any),
               index: msg.index,
+              pinned: msg.pinned,
+              parentId: msg.parentId,
+              stats: msg.stats,
               cachedAt: new Date(),
               version: 1,
               isDirty: false
@@ -208,6 +215,9 @@ export function useCachedChats() {
             pinnedAt: restoredChat.pinnedAt ? new Date(restoredChat.pinnedAt as any) : null,
             lastSetModel: restoredChat.lastSetModel || null,
             lastSetPrompt: restoredChat.lastSetPrompt || null,
+            lastSetOptions: (restoredChat.lastSetOptions as GenerationOptions | null) ?? null,
+            endpointId: restoredChat.endpointId || null,
+            activeLeafId: restoredChat.activeLeafId ?? null,
             cachedAt: new Date(),
             version: 1,
             isDirty: false,
@@ -309,6 +319,9 @@ export function useCachedChatData(chatId: string) {
                 pinnedAt: chat.pinnedAt ? new Date(chat.pinnedAt as any) : null,
                 lastSetModel: chat.lastSetModel || null,
                 lastSetPrompt: chat.lastSetPrompt || null,
+                lastSetOptions: (chat.lastSetOptions as GenerationOptions | null) ?? null,
+                endpointId: chat.endpointId || null,
+                activeLeafId: chat.activeLeafId ?? null,
                 cachedAt: new Date(),
                 version: 1,
                 isDirty: false,
@@ -323,6 +336,9 @@ export function useCachedChatData(chatId: string) {
                 parts: msg.parts,
                 createdAt: new Date(msg.createdAt as any),
                 index: msg.index,
+                pinned: msg.pinned,
+                parentId: msg.parentId,
+                stats: msg.stats,
                 cachedAt: new Date(),
                 version: 1,
                 isDirty: false
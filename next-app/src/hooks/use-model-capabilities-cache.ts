@@ -6,7 +6,7 @@ import type { ModelCapabilities } from './use-ollama-model-capabilities'
 
 type CapabilitiesCache = Record<string, ModelCapabilities>
 
-export function useModelCapabilitiesCache(models: Array<{ name: string }>) {
+export function useModelCapabilitiesCache(models: Array<{ name: string }>, endpointId?: string | null) {
   const [cache, setCache] = useState<CapabilitiesCache>({})
   const [loadingModels, setLoadingModels] = useState<Set<string>>(new Set())
   const [errors, setErrors] = useState<Error[]>([])
@@ -15,6 +15,11 @@ export function useModelCapabilitiesCache(models: Array<{ name: string }>) {
   const getCapabilities = (modelName: string): ModelCapabilities | null => {
     return cache[modelName] || null
   }
+
+  // Same model name can differ between Ollama hosts, so start over when the endpoint changes
+  useEffect(() => {
+    setCache({})
+  }, [endpointId])
   
   // Fetch capabilities for models not in cache
   useEffect(() => {
@@ -34,7 +39,7 @@ export function useModelCapabilitiesCache(models: Array<{ name: string }>) {
     // Fetch capabilities for each model
     const fetchPromises = modelsToFetch.map(async (model) => {
       try {
-        const capabilities = await utils.models.capabilities.fetch({ model: model.name })
+        const capabilities = await utils.models.capabilities.fetch({ model: model.name, endpointId })
         
         setCache(prevCache => ({
           ...prevCache,
@@ -59,7 +64,7 @@ export function useModelCapabilitiesCache(models: Array<{ name: string }>) {
     Promise.all(fetchPromises).catch(() => {
       // Individual errors are handled above
     })
-  }, [models, cache, loadingModels, utils])
+  }, [models, cache, loadingModels, utils, endpointId])
 
   return {
     getCapabilities,
@@ -9,7 +9,7 @@ export function useModelPreload() {
   const cacheRef = useRef<PreloadCache>({})
   const PRELOAD_COOLDOWN = 2 * 60 * 1000 // 2 minutes - don't preload same model within this window
 
-  const preloadModel = useCallback(async (model: string) => {
+  const preloadModel = useCallback(async (model: string, target?: { chatId?: string; endpointId?: string | null }) => {
     console.log(`[preload] preloadModel called with model: "${model}"`)
     
     if (!model) {
@@ -34,7 +34,7 @@ export function useModelPreload() {
       const response = await fetch('/api/ollama/preload', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ model })
+        body: JSON.stringify({ model, chatId: target?.chatId, endpointId: target?.endpointId })
       })
       
       const duration = Date.now() - startTime
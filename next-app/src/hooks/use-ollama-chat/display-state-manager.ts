@@ -1,5 +1,5 @@
-import type { UIMessage } from '~/lib/chat-types'
-import type { ChatStatus, StreamPhase, StreamChunk } from './utils'
+import type { UIMessage, ContextTrimInfo, ToolLimitNotice } from '~/lib/chat-types'
+import type { ChatStatus, StreamPhase, StreamChunk, ComparisonState } from './utils'
 import { updateMessagesWithStreamChunk, calculateReasoningDuration } from './utils'
 import type { ToolCall } from '~/lib/tools/types'
 
@@ -15,18 +15,25 @@ export interface DisplayState {
   status: ChatStatus
   streamPhase: StreamPhase
   reasoningDurations: Record<string, number>
+  contextNotices: Record<string, ContextTrimInfo>  // Keyed by assistant message id
+  toolLimitNotices: Record<string, ToolLimitNotice[]>  // Keyed by assistant message id
   currentAssistantId: string | null
   reasoningStart: number | null
   reasoningToolCalls?: Map<string, ToolCall>  // Optional for backward compatibility
   responseToolCalls?: Map<string, ToolCall>   // Optional for backward compatibility
   reasoningTimeline?: ReasoningEvent[]        // New timeline for inline rendering
   responseTimeline?: ReasoningEvent[]         // New timeline for response phase
+  comparison: ComparisonState | null          // Side-by-side answers waiting for the user to pick one
 }
 
 export class DisplayStateManager {
   private displayState: DisplayState
   private persistedState: UIMessage[]
   private chatId: string
+  // Every message across all branches, in creation order; displayState.messages is the active path through it
+  private nodes = new Map<string, UIMessage>()
+  // Leaf of the branch the user chose or last wrote to; null falls back to the stored or newest one
+  private activeLeafId: string | null = null
 
   constructor(chatId: string) {
     this.chatId = chatId
@@ -35,10 +42,13 @@ export class DisplayStateManager {
       status: 'ready',
       streamPhase: 'idle',
       reasoningDurations: {},
+      contextNotices: {},
+      toolLimitNotices: {},
       currentAssistantId: null,
       reasoningStart: null,
       reasoningTimeline: [],
       responseTimeline: [],
+      comparison: null,
     }
     this.persistedState = []
   }
@@ -46,10 +56,15 @@ export class DisplayStateManager {
   // === Immediate UI Updates ===
 
   addUserMessage(message: UIMessage): void {
-    this.displayState.messages = [...this.displayState.messages, message]
+    // Without an explicit parent the message continues the visible branch
+    const node = { ...message, parentId: message.parentId !== undefined ? message.parentId : this.getLastNodeId() }
+    this.nodes.set(node.id, node)
+    this.activeLeafId = node.id
+    this.displayState.messages = [...this.displayState.messages, node]
     this.notifyStateChange()
   }
 
+  // Only hides messages from the active path; they stay in the tree as another branch
   removeMessagesAfter(messageId: string): UIMessage[] {
     const messageIndex = this.displayState.messages.findIndex(m => m.id === messageId)
     if (messageIndex === -1) return []
@@ -176,6 +191,7 @@ export class DisplayStateManager {
             ...existing,
             result: toolResult.result,
             error: toolResult.error,
+            durationMs: toolResult.durationMs,
             state: toolResult.error ? 'output-error' : 'output-available'
           };
           console.log('[DisplayManager] Updating tool call with result:', updated);
@@ -207,6 +223,33 @@ export class DisplayStateManager {
       return;
     }
 
+    // The route paused before running a tool until the user approves it
+    if (chunk.kind === 'tool_approval_required' && chunk.toolApproval) {
+      this.patchToolCall(chunk.toolApproval.id, { state: 'approval-requested' })
+      this.notifyStateChange()
+      return
+    }
+
+    // Handle history trimmed to fit the context window
+    if (chunk.kind === 'context_trimmed' && chunk.context) {
+      this.displayState.contextNotices = {
+        ...this.displayState.contextNotices,
+        [assistantId]: chunk.context
+      }
+      this.notifyStateChange()
+      return
+    }
+
+    // Handle a tool limit the route enforced (round cap, timeout, truncated result)
+    if ((chunk.kind === 'tool_rounds_exceeded' || chunk.kind === 'tool_timeout' || chunk.kind === 'tool_result_truncated') && chunk.toolLimit) {
+      this.displayState.toolLimitNotices = {
+        ...this.displayState.toolLimitNotices,
+        [assistantId]: [...(this.displayState.toolLimitNotices[assistantId] ?? []), chunk.toolLimit]
+      }
+      this.notifyStateChange()
+      return
+    }
+
     // Handle stream continuation
     if (chunk.kind === 'stream_continue') {
       // Just notify - don't reset anything, preserve all tool calls
@@ -218,7 +261,18 @@ export class DisplayStateManager {
       return;
     }
 
-    if (chunk.kind !== 'reasoning' && chunk.kind !== 'text') return
+    // Token counts and timings arrive once, after the last text
+    if (chunk.kind === 'stats' && chunk.stats) {
+      const stats = chunk.stats
+      this.displayState.messages = this.displayState.messages.map(m =>
+        m.id === assistantId ? { ...m, metadata: { ...m.metadata, stats } } : m
+      )
+      this.syncStreamingNode(assistantId)
+      this.notifyStateChange()
+      return
+    }
+
+    if (chunk.kind !== 'reasoning' && chunk.kind !== 'text' && chunk.kind !== 'sources') return
 
     // Add reasoning text to timeline
     if (chunk.kind === 'reasoning' && chunk.text) {
@@ -237,6 +291,7 @@ export class DisplayStateManager {
     )
 
     this.displayState.messages = result.updatedMessages
+    this.syncStreamingNode(assistantId)
     
     if (result.shouldUpdatePhase) {
       this.displayState.streamPhase = result.updatedPhase
@@ -250,6 +305,29 @@ export class DisplayStateManager {
     this.notifyStateChange()
   }
 
+  /** Reflect the user's answer right away; the tool result follows on the stream */
+  resolveToolApproval(callId: string, approvedArguments?: Record<string, any>): void {
+    this.patchToolCall(callId, {
+      state: 'input-available',
+      ...(approvedArguments ? { arguments: approvedArguments } : {}),
+    })
+    this.notifyStateChange()
+  }
+
+  private patchToolCall(callId: string, patch: Partial<ToolCall>): void {
+    for (const map of [this.displayState.reasoningToolCalls, this.displayState.responseToolCalls]) {
+      const existing = map?.get(callId)
+      if (existing) map!.set(callId, { ...existing, ...patch })
+    }
+    for (const timeline of [this.displayState.reasoningTimeline, this.displayState.responseTimeline]) {
+      timeline?.forEach((event, i) => {
+        if (event.type === 'tool_call' && event.toolCall?.id === callId) {
+          timeline[i] = { ...event, toolCall: { ...event.toolCall, ...patch } }
+        }
+      })
+    }
+  }
+
   finalizeReasoning(): void {
     if (this.displayState.currentAssistantId && this.displayState.reasoningStart !== null) {
       const seconds = calculateReasoningDuration(this.displayState.reasoningStart)
@@ -268,6 +346,166 @@ export class DisplayStateManager {
     });
   }
 
+  setMessagePinned(messageId: string, pinned: boolean): void {
+    this.displayState.messages = this.displayState.messages.map(m =>
+      m.id === messageId ? { ...m, metadata: { ...m.metadata, pinned } } : m
+    )
+    const node = this.nodes.get(messageId)
+    if (node) this.nodes.set(messageId, { ...node, metadata: { ...node.metadata, pinned } })
+    this.notifyStateChange()
+  }
+
+  // === Branches ===
+
+  /** Messages sharing this message's parent, oldest first; more than one means the turn was edited or retried */
+  getSiblings(messageId: string): UIMessage[] {
+    const node = this.nodes.get(messageId)
+    if (!node) return []
+    return this.getChildren(node.parentId ?? null)
+  }
+
+  /**
+   * Show the branch through `messageId`, following the newest reply at every later fork.
+   * Returns the new leaf, or null when nothing changed (unknown message or a reply in flight).
+   */
+  selectBranch(messageId: string): string | null {
+    if (!this.nodes.has(messageId) || this.isBusy()) return null
+    const leafId = this.findNewestLeaf(messageId)
+    this.activeLeafId = leafId
+    this.displayState.messages = this.getPath(leafId)
+    this.displayState.status = 'ready'
+    this.notifyStateChange()
+    return leafId
+  }
+
+  private getChildren(parentId: string | null): UIMessage[] {
+    return [...this.nodes.values()].filter(m => (m.parentId ?? null) === parentId)
+  }
+
+  private findNewestLeaf(messageId: string): string {
+    let id = messageId
+    const seen = new Set([id])
+    for (let children = this.getChildren(id); children.length > 0; children = this.getChildren(id)) {
+      const next = children[children.length - 1]!.id
+      if (seen.has(next)) break
+      seen.add(next)
+      id = next
+    }
+    return id
+  }
+
+  private getPath(leafId: string): UIMessage[] {
+    const path: UIMessage[] = []
+    const seen = new Set<string>()
+    let node = this.nodes.get(leafId)
+    while (node && !seen.has(node.id)) {
+      seen.add(node.id)
+      path.unshift(node)
+      node = node.parentId ? this.nodes.get(node.parentId) : undefined
+    }
+    return path
+  }
+
+  private getLastNodeId(): string | null {
+    for (let i = this.displayState.messages.length - 1; i >= 0; i--) {
+      const id = this.displayState.messages[i]!.id
+      if (this.nodes.has(id)) return id
+    }
+    return null
+  }
+
+  // The streamed reply hangs off whatever preceded it on screen (the user turn it answers)
+  private syncStreamingNode(assistantId: string): void {
+    const index = this.displayState.messages.findIndex(m => m.id === assistantId)
+    const message = this.displayState.messages[index]
+    if (!message) return
+    const parentId = this.nodes.get(assistantId)?.parentId ?? this.displayState.messages[index - 1]?.id ?? null
+    const node = { ...message, parentId }
+    this.displayState.messages[index] = node
+    this.nodes.set(assistantId, node)
+    this.activeLeafId = assistantId
+  }
+
+  private isBusy(): boolean {
+    return this.displayState.status === 'streaming' || this.displayState.status === 'submitted' || this.displayState.comparison !== null
+  }
+
+  // === Model Comparison ===
+
+  startComparison(userMessageId: string, candidates: Array<{ assistantId: string; model: string }>): void {
+    const startedAt = Date.now()
+    this.displayState.comparison = {
+      userMessageId,
+      candidates: candidates.map(c => ({
+        ...c,
+        status: 'pending',
+        message: { id: c.assistantId, role: 'assistant', parts: [], parentId: userMessageId },
+        startedAt,
+        firstTokenAt: null,
+        finishedAt: null,
+        chunkCount: 0,
+      })),
+    }
+    this.notifyStateChange()
+  }
+
+  updateComparisonCandidate(assistantId: string, chunk: StreamChunk): void {
+    this.patchCandidate(assistantId, c => {
+      if (chunk.kind === 'stats' && chunk.stats) {
+        return { ...c, message: { ...c.message, metadata: { ...c.message.metadata, stats: chunk.stats } } }
+      }
+      if (chunk.kind !== 'reasoning' && chunk.kind !== 'text' && chunk.kind !== 'sources') return c
+      const hasText = chunk.kind !== 'sources' && !!chunk.text
+      const { updatedMessages } = updateMessagesWithStreamChunk([c.message], chunk, assistantId, 'reasoning')
+      return {
+        ...c,
+        status: 'streaming',
+        message: updatedMessages[0] ?? c.message,
+        firstTokenAt: c.firstTokenAt ?? (hasText ? Date.now() : null),
+        chunkCount: c.chunkCount + (hasText ? 1 : 0),
+      }
+    })
+  }
+
+  finishComparisonCandidate(assistantId: string, error?: string): void {
+    this.patchCandidate(assistantId, c => (
+      c.status === 'done' || c.status === 'error'
+        ? c
+        : { ...c, status: error ? 'error' : 'done', error, finishedAt: Date.now() }
+    ))
+  }
+
+  /**
+   * Keep every finished candidate as a sibling branch and continue from the winner.
+   * Returns the winner's id, or null while candidates are still streaming.
+   */
+  pickComparisonWinner(assistantId: string): string | null {
+    const comparison = this.displayState.comparison
+    if (!comparison || this.displayState.status === 'streaming' || this.displayState.status === 'submitted') return null
+    const winner = comparison.candidates.find(c => c.assistantId === assistantId && c.status === 'done')
+    if (!winner) return null
+    for (const c of comparison.candidates) {
+      if (c.status === 'done') this.nodes.set(c.assistantId, { ...c.message, parentId: comparison.userMessageId })
+      else this.nodes.delete(c.assistantId)
+    }
+    this.displayState.comparison = null
+    return this.selectBranch(assistantId)
+  }
+
+  getComparison(): ComparisonState | null {
+    return this.displayState.comparison
+  }
+
+  private patchCandidate(assistantId: string, update: (c: ComparisonState['candidates'][number]) => ComparisonState['candidates'][number]): void {
+    const comparison = this.displayState.comparison
+    if (!comparison) return
+    this.displayState.comparison = {
+      ...comparison,
+      candidates: comparison.candidates.map(c => (c.assistantId === assistantId ? update(c) : c)),
+    }
+    this.notifyStateChange()
+  }
+
   // === Error Handling ===
 
   addErrorMessage(error: string, isRetryable: boolean = true): void {
@@ -305,12 +543,34 @@ export class DisplayStateManager {
 
   // === State Hydration ===
 
-  hydrate(dbMessages: UIMessage[]): void {
-    this.persistedState = [...dbMessages]
-    
-    if (this.shouldUseDbState(dbMessages)) {
-      this.displayState.messages = [...dbMessages]
+  hydrate(dbMessages: UIMessage[], storedLeafId?: string | null): void {
+    const previous = this.nodes
+    this.nodes = new Map()
+    dbMessages.forEach((m, i) => {
+      // Messages cached before branching existed have no parent pointer; they form one straight line
+      const parentId = m.parentId !== undefined ? m.parentId : dbMessages[i - 1]?.id ?? null
+      this.nodes.set(m.id, { ...m, parentId })
+    })
+    // Keep optimistic messages that haven't reached the DB yet
+    previous.forEach((m, id) => {
+      if (!this.nodes.has(id)) this.nodes.set(id, m)
+    })
+
+    let leafId = this.activeLeafId ?? storedLeafId ?? null
+    if (!leafId || !this.nodes.has(leafId)) leafId = [...this.nodes.keys()].pop() ?? null
+    const path = leafId ? this.getPath(leafId) : []
+    this.persistedState = path
+
+    const switchedBranch = !this.isBusy() && path.length > 0 && path[path.length - 1]!.id !== this.getLastNodeId()
+    // Candidates under comparison are already in the DB but must not take over the screen yet
+    if (!this.displayState.comparison && (switchedBranch || this.shouldUseDbState(path))) {
+      this.displayState.messages = path
       this.notifyStateChange()
+    } else {
+      // Keep the in-flight versions of on-screen messages in the tree
+      this.displayState.messages.forEach(m => {
+        if (this.nodes.has(m.id)) this.nodes.set(m.id, m)
+      })
     }
   }
 
@@ -375,6 +635,14 @@ export class DisplayStateManager {
     return { ...this.displayState.reasoningDurations }
   }
 
+  getContextNotices(): Record<string, ContextTrimInfo> {
+    return { ...this.displayState.contextNotices }
+  }
+
+  getToolLimitNotices(): Record<string, ToolLimitNotice[]> {
+    return { ...this.displayState.toolLimitNotices }
+  }
+
   getCurrentAssistantId(): string | null {
     return this.displayState.currentAssistantId
   }
@@ -401,14 +669,19 @@ export class DisplayStateManager {
       status: 'ready',
       streamPhase: 'idle',
       reasoningDurations: {},
+      contextNotices: {},
+      toolLimitNotices: {},
       currentAssistantId: null,
       reasoningStart: null,
       reasoningToolCalls: new Map(),
       responseToolCalls: new Map(),
       reasoningTimeline: [],
       responseTimeline: [],
+      comparison: null,
     }
     this.persistedState = []
+    this.nodes = new Map()
+    this.activeLeafId = null
     this.notifyStateChange()
   }
 
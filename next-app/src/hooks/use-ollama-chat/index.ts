@@ -3,13 +3,17 @@
 import { useCallback, useEffect, useRef, useState } from 'react'
 import { useChatStore } from '~/lib/chat-store'
 import type { UIMessage } from '~/lib/chat-types'
+import type { GenerationOptions } from '~/lib/generation-options'
+import type { ToolApprovalDecision } from '~/lib/tools/approvals'
 import { api } from '~/trpc/react'
+import { toast } from 'sonner'
 import { useCachedChatData } from '~/hooks/use-cached-chats'
 import {
   type ChatStatus,
   type StreamPhase,
   type ChatSubmitParams,
   convertDbToUiMessages,
+  buildChatHistory,
   createUserMessage,
   createDbMessageParts,
   extractImagesFromMessage,
@@ -50,8 +54,10 @@ export function useOllamaChat(chatId: string) {
   }, [displayManager, forceUpdate])
 
   const abortRef = useRef<AbortController | null>(null)
-  const { selectChat } = useChatStore()
+  const { chats, selectChat, setChatActiveLeaf } = useChatStore()
+  const storedLeafId = chats.find(c => c.id === chatId)?.activeLeafId ?? null
   const createMessageMutation = api.messages.create.useMutation()
+  const respondToToolCallMutation = api.mcp.respondToToolCall.useMutation()
   const currentChatIdRef = useRef<string>(chatId)
 
   // Use cache-first data loading (replaces usePreloadedChatData)
@@ -110,10 +116,10 @@ export function useOllamaChat(chatId: string) {
     
     if (messages) {
       const fromDb = convertDbToUiMessages(messages)
-      displayManager.hydrate(fromDb)
+      displayManager.hydrate(fromDb, storedLeafId)
       console.log(`[useOllamaChat] Hydrated ${fromDb.length} UI messages for ${chatId}`)
     }
-  }, [cachedChatData?.messages, initialData?.messages, chatId, displayManager, cacheSource, fromCache])
+  }, [cachedChatData?.messages, initialData?.messages, chatId, displayManager, cacheSource, fromCache, storedLeafId])
 
   // Force refetch when returning to this chat to ensure fresh data
   // Only refetch if we had to fall back to TRPC (cache miss)
@@ -133,6 +139,35 @@ export function useOllamaChat(chatId: string) {
     return msg
   }, [displayManager])
 
+  // Show the user's turn right away and persist it on the active branch
+  const appendUserTurn = useCallback((params: ChatSubmitParams): UIMessage => {
+    // Use structured user message if provided, otherwise create legacy format
+    const userMessage = params.userMessage || appendUser(params.text, params.images)
+    
+    // Add to display manager if it's a new structured message
+    if (params.userMessage) {
+      displayManager.addUserMessage(userMessage)
+    }
+    
+    // Persist user message to DB (fire-and-forget to avoid UI lag)
+    const dbParts = createDbMessageParts(params.text, params.images, params.userMessage)
+    const parentId = displayManager.getMessage(userMessage.id)?.parentId ?? null
+    createMessageMutation.mutate(
+      { chatId, role: 'USER', parts: dbParts, id: userMessage.id, parentId } as any,
+      {
+        onSuccess: () => {
+          displayManager.markAsPersisted(userMessage.id)
+          console.log(`[useOllamaChat] ✓ Persisted user message ${userMessage.id}`)
+          // Note: Cache is already updated optimistically via displayManager
+        },
+        onError: (e) => {
+          console.warn('[chat] failed to persist user message:', e?.message || 'Unknown error')
+        },
+      }
+    )
+    return userMessage
+  }, [appendUser, chatId, createMessageMutation, displayManager])
+
   const submit = useCallback(
     async (params: ChatSubmitParams) => {
       if (!validateSubmitParams(params)) return
@@ -143,36 +178,15 @@ export function useOllamaChat(chatId: string) {
       // Check if this exact message already exists
       const currentMessages = displayManager.getMessages()
       if (!messageAlreadyExists(currentMessages, params.text)) {
-        // Use structured user message if provided, otherwise create legacy format
-        const userMessage = params.userMessage || appendUser(params.text, params.images)
-        
-        // Add to display manager if it's a new structured message
-        if (params.userMessage) {
-          displayManager.addUserMessage(userMessage)
-        }
-        
-        // Persist user message to DB (fire-and-forget to avoid UI lag)
-        const dbParts = createDbMessageParts(params.text, params.images, params.userMessage)
-        createMessageMutation.mutate(
-          { chatId, role: 'USER', parts: dbParts, id: userMessage.id } as any,
-          {
-            onSuccess: () => {
-              displayManager.markAsPersisted(userMessage.id)
-              console.log(`[useOllamaChat] ✓ Persisted user message ${userMessage.id}`)
-              // Note: Cache is already updated optimistically via displayManager
-            },
-            onError: (e) => {
-              console.warn('[chat] failed to persist user message:', e?.message || 'Unknown error')
-            },
-          }
-        )
+        appendUserTurn(params)
       }
 
       displayManager.setStatus('submitted')
       displayManager.setStreamPhase('reasoning')
       
-      // Create assistant message ID upfront
+      // Create assistant message ID upfront; the reply branches off the last message on screen
       const assistantId = crypto.randomUUID()
+      const parentMessageId = displayManager.getLastMessage()?.id
       displayManager.setCurrentAssistantId(assistantId)
       displayManager.setReasoningStart(null)
 
@@ -181,34 +195,7 @@ export function useOllamaChat(chatId: string) {
 
       try {
         const currentMessages = displayManager.getMessages()
-        const baseHistory = currentMessages.map((m) => {
-          const textParts = m.parts.filter(p => p.type === 'text')
-          const imageParts = m.parts.filter(p => p.type === 'image')
-          const fileParts = m.parts.filter(p => p.type === 'file')
-          
-          // Combine text content with file content for text/code files
-          let content = textParts.map((p) => p.text).join(' ')
-          
-          // Add file content for user messages (incorporate into text for the model)
-          if (m.role === 'user' && fileParts.length > 0) {
-            const fileContents = fileParts.map(file => 
-              `### ${file.fileName}\n\n${file.content || file.data}\n`
-            ).join('\n')
-            
-            if (fileContents) {
-              content += `\n\n## Attached Files\n\n${fileContents}`
-            }
-          }
-          
-          const message: any = { role: m.role, content }
-
-          // Add images for this message if it has any
-          if (m.role === 'user' && imageParts.length > 0) {
-            message.images = imageParts.map(img => img.data)
-          }
-
-          return message
-        })
+        const baseHistory = buildChatHistory(currentMessages)
         
         const payload = prepareApiPayload({
           model: params.model,
@@ -217,6 +204,8 @@ export function useOllamaChat(chatId: string) {
           reasoningLevel: params.reasoningLevel,
           chatId,
           assistantMessageId: assistantId,
+          userMessageId: parentMessageId,
+          options: params.options,
         })
 
         logPayload(payload, 'sending')
@@ -256,58 +245,98 @@ export function useOllamaChat(chatId: string) {
         abortRef.current = null
       }
     },
-    [appendUser, chatId, createMessageMutation, displayManager]
+    [appendUserTurn, chatId, displayManager]
   )
 
-  const deleteAfterMessageMutation = api.messages.deleteAfterMessage.useMutation()
+  const compareControllersRef = useRef<AbortController[]>([])
+  const deleteMessageMutation = api.messages.deleteMessage.useMutation()
+
+  // Fan one user turn out to several models at once; the answers stay on screen side by side until one is picked
+  const compare = useCallback(async (params: ChatSubmitParams & { models: string[] }) => {
+    if (!validateSubmitParams(params) || params.models.length < 2) return
 
-  const editMessage = useCallback(async (messageId: string, newText: string, model: string, systemPromptContent?: string, images?: Array<{ data: string; mimeType: string; fileName: string }>) => {
-    // Remove any existing error messages
     displayManager.removeErrorMessages()
-    
-    // Find the message index
-    const messageIndex = displayManager.findMessageIndex(messageId)
-    if (messageIndex === -1) return
+    const userMessage = appendUserTurn(params)
+    const history = buildChatHistory(displayManager.getMessages())
+    const candidates = params.models.map(model => ({ assistantId: crypto.randomUUID(), model }))
+    displayManager.startComparison(userMessage.id, candidates)
+    displayManager.setStatus('streaming')
 
-    // Remove all messages after the edited message (including the edited one)
-    const removedMessages = displayManager.removeMessagesAfter(messageId)
-    
-    // Add the edited user message
-    const editedMessage = createUserMessage(newText, images)
-    displayManager.addUserMessage(editedMessage)
-    
-    // Delete the original message and all messages after it from DB
-    const originalMessage = removedMessages[0]
-    if (originalMessage) {
+    await Promise.all(candidates.map(async ({ assistantId, model }) => {
+      const controller = new AbortController()
+      compareControllersRef.current.push(controller)
       try {
-        await new Promise<void>((resolve, reject) => {
-          deleteAfterMessageMutation.mutate(
-            { chatId, messageId: originalMessage.id },
-            {
-              onSuccess: () => {
-                utils.messages.list.invalidate({ chatId })
-
-                // Cache updates handled optimistically by displayManager
-                resolve()
-              },
-              onError: (e) => {
-                console.warn('[chat] failed to delete messages after edit:', e?.message || 'Unknown error')
-                reject(e)
-              },
-            }
-          )
+        const payload = prepareApiPayload({
+          model,
+          messages: history,
+          systemPromptContent: params.systemPromptContent,
+          reasoningLevel: params.reasoningLevel,
+          chatId,
+          assistantMessageId: assistantId,
+          userMessageId: userMessage.id,
+          options: params.options,
         })
-      } catch (error) {
-        // Continue even if deletion fails to avoid blocking the edit
+        logPayload(payload, `compare:${model}`)
+
+        const res = await fetchChatStream(payload, controller.signal)
+        let error: string | undefined
+        for await (const chunk of processStreamReader(res.body!.getReader())) {
+          if (chunk.kind === 'error') {
+            error = formatErrorMessageForDisplay(handleStreamChunkError(chunk))
+            continue
+          }
+          if (chunk.kind === 'done') continue
+          // Nobody can watch several columns for approvals; let the model carry on without the tool
+          if (chunk.kind === 'tool_approval_required' && chunk.toolApproval) {
+            respondToToolCallMutation.mutate({
+              callId: chunk.toolApproval.id,
+              approved: false,
+              reason: 'Tools that need approval are not available while comparing models',
+            })
+            continue
+          }
+          displayManager.updateComparisonCandidate(assistantId, chunk)
+        }
+        displayManager.finishComparisonCandidate(assistantId, error)
+      } catch (e) {
+        displayManager.finishComparisonCandidate(assistantId, formatErrorMessageForDisplay(handleFetchError(e, 'compare')))
       }
+    }))
+
+    compareControllersRef.current = []
+    displayManager.setStatus('ready')
+    displayManager.setStreamPhase('idle')
+  }, [appendUserTurn, chatId, displayManager, respondToToolCallMutation])
+
+  const pickComparisonWinner = useCallback((assistantId: string) => {
+    const comparison = displayManager.getComparison()
+    const leafId = displayManager.pickComparisonWinner(assistantId)
+    if (!comparison || !leafId) return
+    setChatActiveLeaf(chatId, leafId)
+    // Failed candidates only leave an empty assistant row behind
+    for (const c of comparison.candidates) {
+      if (c.status === 'error') deleteMessageMutation.mutate({ messageId: c.assistantId })
     }
+  }, [chatId, deleteMessageMutation, displayManager, setChatActiveLeaf])
+
+  const editMessage = useCallback(async (messageId: string, newText: string, model: string, systemPromptContent?: string, images?: Array<{ data: string; mimeType: string; fileName: string }>, options?: GenerationOptions) => {
+    // Remove any existing error messages
+    displayManager.removeErrorMessages()
+    
+    const originalMessage = displayManager.getMessage(messageId)
+    if (!originalMessage) return
+
+    // The edit becomes a sibling of the original, which keeps its replies as another branch
+    displayManager.removeMessagesAfter(messageId)
+    const editedMessage: UIMessage = { ...createUserMessage(newText, images), parentId: originalMessage.parentId ?? null }
+    displayManager.addUserMessage(editedMessage)
     
     // Persist the edited message to DB
     try {
       await new Promise<void>((resolve, reject) => {
         const dbParts = createDbMessageParts(newText, images)
         createMessageMutation.mutate(
-          { chatId, role: 'USER', parts: dbParts, id: editedMessage.id } as any,
+          { chatId, role: 'USER', parts: dbParts, id: editedMessage.id, parentId: editedMessage.parentId } as any,
           {
             onSuccess: () => {
               displayManager.markAsPersisted(editedMessage.id)
@@ -328,10 +357,10 @@ export function useOllamaChat(chatId: string) {
 
     // Submit the new conversation (don't pass the text again since it's already in history)
     const currentMessages = displayManager.getMessages()
-    await submitWithHistory('', model, currentMessages, systemPromptContent, editedMessage.id, images)
-  }, [chatId, createMessageMutation, deleteAfterMessageMutation, utils, displayManager])
+    await submitWithHistory('', model, currentMessages, systemPromptContent, editedMessage.id, images, options)
+  }, [chatId, createMessageMutation, utils, displayManager])
 
-  const retryMessage = useCallback(async (messageId: string, model?: string, systemPromptContent?: string) => {
+  const retryMessage = useCallback(async (messageId: string, model?: string, systemPromptContent?: string, options?: GenerationOptions) => {
     // Remove any existing error messages
     displayManager.removeErrorMessages()
     
@@ -356,35 +385,9 @@ export function useOllamaChat(chatId: string) {
     const userText = findUserTextFromMessage(userMessage)
     if (!userText) return
 
-    // Remove all messages after the user message
+    // Hide the old reply; the new one becomes its sibling branch under the same user message
     displayManager.replaceMessagesFromIndex(userMessageIndex + 1, [])
 
-    // Delete the assistant message and any subsequent messages from DB
-    const assistantMessage = currentMessages[messageIndex]
-    if (assistantMessage) {
-      try {
-        await new Promise<void>((resolve, reject) => {
-          deleteAfterMessageMutation.mutate(
-            { chatId, messageId: assistantMessage.id },
-            {
-              onSuccess: () => {
-                utils.messages.list.invalidate({ chatId })
-
-                // Cache updates handled optimistically by displayManager
-                resolve()
-              },
-              onError: (e) => {
-                console.warn('[chat] failed to delete messages after retry:', e?.message || 'Unknown error')
-                reject(e)
-              },
-            }
-          )
-        })
-      } catch (error) {
-        // Continue even if deletion fails
-      }
-    }
-
     // Use the provided model or get the current model from context
     const retryModel = model || 'llama3.2:latest' // fallback model
     
@@ -393,8 +396,8 @@ export function useOllamaChat(chatId: string) {
 
     // Resubmit with the same user message (don't pass text since it's already in newMessages)
     const updatedMessages = displayManager.getMessages()
-    await submitWithHistory('', retryModel, updatedMessages, systemPromptContent, userMessage.id, images)
-  }, [chatId, deleteAfterMessageMutation, utils, displayManager])
+    await submitWithHistory('', retryModel, updatedMessages, systemPromptContent, userMessage.id, images, options)
+  }, [displayManager])
 
   const submitWithHistory = useCallback(async (
     text: string,
@@ -402,7 +405,8 @@ export function useOllamaChat(chatId: string) {
     history: UIMessage[],
     systemPromptContent?: string,
     userMessageId?: string,
-    images?: Array<{ data: string; mimeType: string; fileName: string }>
+    images?: Array<{ data: string; mimeType: string; fileName: string }>,
+    options?: GenerationOptions
   ) => {
     displayManager.setStatus('submitted')
     displayManager.setStreamPhase('reasoning')
@@ -424,6 +428,7 @@ export function useOllamaChat(chatId: string) {
         chatId,
         assistantMessageId: assistantId,
         userMessageId,
+        options,
       })
 
       logPayload(payload, 'submitWithHistory')
@@ -463,7 +468,40 @@ export function useOllamaChat(chatId: string) {
     }
   }, [chatId, displayManager])
 
+  const setPinnedMutation = api.messages.setPinned.useMutation()
+
+  const pinMessage = useCallback(async (messageId: string, pinned: boolean) => {
+    displayManager.setMessagePinned(messageId, pinned)
+    try {
+      await setPinnedMutation.mutateAsync({ messageId, pinned })
+      utils.messages.list.invalidate({ chatId })
+    } catch (error) {
+      console.error('Failed to update pinned state:', error)
+      displayManager.setMessagePinned(messageId, !pinned)
+    }
+  }, [chatId, displayManager, setPinnedMutation, utils])
+
+  const selectBranch = useCallback((messageId: string) => {
+    const leafId = displayManager.selectBranch(messageId)
+    if (leafId) setChatActiveLeaf(chatId, leafId)
+  }, [chatId, displayManager, setChatActiveLeaf])
+
+  const getSiblings = useCallback((messageId: string) => displayManager.getSiblings(messageId), [displayManager])
+
+  const respondToToolApproval = useCallback(async (callId: string, decision: ToolApprovalDecision) => {
+    displayManager.resolveToolApproval(callId, decision.approved ? decision.arguments : undefined)
+    try {
+      const { resolved } = await respondToToolCallMutation.mutateAsync({ callId, ...decision })
+      if (!resolved) toast.error('This tool call is no longer waiting for approval')
+    } catch (error) {
+      console.error('Failed to answer tool approval:', error)
+      toast.error('Failed to send your answer to the tool call')
+    }
+  }, [displayManager, respondToToolCallMutation])
+
   const abort = useCallback(() => {
+    compareControllersRef.current.forEach(controller => controller.abort())
+    compareControllersRef.current = []
     if (abortRef.current) {
       abortRef.current.abort()
       abortRef.current = null
@@ -477,8 +515,14 @@ export function useOllamaChat(chatId: string) {
     status: displayManager.getStatus(),
     streamPhase: displayManager.getStreamPhase(),
     submit,
+    compare,
+    pickComparisonWinner,
     editMessage,
     retryMessage,
+    pinMessage,
+    selectBranch,
+    getSiblings,
+    respondToToolApproval,
     abort,
     // Expose tool calls and display manager for UI components
     displayManager,
@@ -486,6 +530,9 @@ export function useOllamaChat(chatId: string) {
     responseToolCalls: displayManager.getResponseToolCalls(),
     reasoningTimeline: displayManager.getReasoningTimeline(),
     responseTimeline: displayManager.getResponseTimeline(),
+    contextNotices: displayManager.getContextNotices(),
+    toolLimitNotices: displayManager.getToolLimitNotices(),
+    comparison: displayManager.getComparison(),
   }
 }
 
@@ -1,4 +1,7 @@
-import type { UIMessage } from '~/lib/chat-types'
+import type { UIMessage, ContextTrimInfo, KnowledgeSource, ToolLimitNotice } from '~/lib/chat-types'
+import type { ToolCall } from '~/lib/tools/types'
+import type { GenerationOptions } from '~/lib/generation-options'
+import { getTokensPerSecond, type GenerationStats } from '~/lib/generation-stats'
 import { toast } from 'sonner'
 
 // Types for internal use
@@ -6,7 +9,7 @@ export type ChatStatus = 'ready' | 'submitted' | 'streaming' | 'error'
 export type StreamPhase = 'idle' | 'reasoning' | 'answer'
 
 export interface StreamChunk {
-  kind: 'reasoning' | 'text' | 'error' | 'done' | 'tool_call' | 'tool_result' | 'stream_continue'
+  kind: 'reasoning' | 'text' | 'error' | 'done' | 'tool_call' | 'tool_result' | 'stream_continue' | 'context_trimmed' | 'sources' | 'stats' | 'tool_approval_required' | 'tool_rounds_exceeded' | 'tool_timeout' | 'tool_result_truncated'
   text?: string
   error?: string
   toolCall?: {
@@ -20,7 +23,17 @@ export interface StreamChunk {
     result?: any
     error?: string
     phase: 'reasoning' | 'response'
+    durationMs?: number
   }
+  toolApproval?: {
+    id: string
+    name: string
+    arguments: Record<string, any>
+  }
+  context?: ContextTrimInfo
+  toolLimit?: ToolLimitNotice
+  sources?: KnowledgeSource[]
+  stats?: GenerationStats
   isContinuation?: boolean
 }
 
@@ -31,6 +44,7 @@ export interface ChatSubmitParams {
   systemPromptContent?: string
   images?: Array<{ data: string; mimeType: string; fileName: string }>
   userMessage?: UIMessage // Structured message with file parts
+  options?: GenerationOptions
 }
 
 export interface SubmitHistoryParams {
@@ -42,15 +56,137 @@ export interface SubmitHistoryParams {
   images?: Array<{ data: string; mimeType: string; fileName: string }>
 }
 
+// One model's answer in comparison mode; candidates stream side by side until one is picked
+export interface ComparisonCandidate {
+  assistantId: string
+  model: string
+  status: 'pending' | 'streaming' | 'done' | 'error'
+  message: UIMessage
+  error?: string
+  startedAt: number
+  firstTokenAt: number | null
+  finishedAt: number | null
+  chunkCount: number // Streamed reasoning/text chunks, not tokens: a chunk can carry several
+}
+
+export interface ComparisonState {
+  userMessageId: string
+  candidates: ComparisonCandidate[]
+}
+
+// Token numbers come from Ollama's stats at the end; until then only the chunk rate is known
+export function getCandidateMetrics(candidate: ComparisonCandidate, now = Date.now()): {
+  latencyMs: number | null
+  tokensPerSecond: number | null
+  tokenCount: number | null
+  chunksPerSecond: number | null
+} {
+  const { firstTokenAt, finishedAt, startedAt, chunkCount } = candidate
+  const latencyMs = firstTokenAt !== null ? firstTokenAt - startedAt : null
+  const stats = candidate.message.metadata?.stats as GenerationStats | undefined
+  if (stats) {
+    return {
+      latencyMs: stats.firstTokenMs ?? latencyMs,
+      tokensPerSecond: getTokensPerSecond(stats.completionTokens, stats.evalDurationMs),
+      tokenCount: stats.completionTokens,
+      chunksPerSecond: null,
+    }
+  }
+  const generationMs = firstTokenAt !== null ? (finishedAt ?? now) - firstTokenAt : 0
+  return {
+    latencyMs,
+    tokensPerSecond: null,
+    tokenCount: null,
+    chunksPerSecond: generationMs > 0 && chunkCount > 1 ? (chunkCount - 1) / (generationMs / 1000) : null,
+  }
+}
+
 // Message transformation utilities
 export function convertDbToUiMessages(dbMessages: any[]): UIMessage[] {
   return dbMessages.map(m => ({
     id: m.id,
     role: String(m.role).toLowerCase() as UIMessage['role'],
-    parts: (m.parts as any[]) as UIMessage['parts'],
+    parts: rehydrateToolParts((m.parts as any[]) as UIMessage['parts']),
+    parentId: m.parentId,
+    ...(m.pinned || m.stats
+      ? { metadata: { ...(m.pinned ? { pinned: true } : {}), ...(m.stats ? { stats: m.stats } : {}) } }
+      : {}),
   }))
 }
 
+// A persisted tool_call without a result and still "in flight" means the stream was interrupted
+function rehydrateToolParts(parts: UIMessage['parts']): UIMessage['parts'] {
+  if (!Array.isArray(parts)) return []
+  const resultIds = new Set(parts.filter(p => p.type === 'tool_result').map(p => p.callId))
+  return parts.map(part => {
+    if (part.type !== 'tool_call' || resultIds.has(part.callId)) return part
+    if (part.state === 'output-available' || part.state === 'output-error') return part
+    return { ...part, state: 'output-error' as const }
+  })
+}
+
+// Merge persisted tool_call/tool_result parts into ToolCall objects for rendering
+export function getToolCallsFromParts(parts: UIMessage['parts'], phase?: 'reasoning' | 'response'): ToolCall[] {
+  const results = new Map(
+    parts.flatMap(p => (p.type === 'tool_result' ? [[p.callId, p] as const] : []))
+  )
+  const toolCalls: ToolCall[] = []
+  for (const part of parts) {
+    if (part.type !== 'tool_call') continue
+    if (phase && part.phase !== phase) continue
+    const result = results.get(part.callId)
+    const error = result?.error ?? (result || part.state !== 'output-error' ? undefined : 'Tool call was interrupted')
+    toolCalls.push({
+      id: part.callId,
+      name: part.toolName,
+      arguments: part.arguments,
+      phase: part.phase,
+      result: result?.result,
+      error,
+      durationMs: result?.durationMs,
+      state: error ? 'output-error' : result ? 'output-available' : part.state,
+    })
+  }
+  return toolCalls
+}
+
+// Chat route history for a fresh turn: attached text/code files are inlined into the user's content
+export function buildChatHistory(uiMessages: UIMessage[]): any[] {
+  return uiMessages.map((m) => {
+    const textParts = m.parts.filter(p => p.type === 'text')
+    const imageParts = m.parts.filter(p => p.type === 'image')
+    const fileParts = m.parts.filter(p => p.type === 'file')
+    
+    // Combine text content with file content for text/code files
+    let content = textParts.map((p) => p.text).join(' ')
+    
+    // Add file content for user messages (incorporate into text for the model)
+    if (m.role === 'user' && fileParts.length > 0) {
+      const fileContents = fileParts.map(file => 
+        `### ${file.fileName}\n\n${file.content || file.data}\n`
+      ).join('\n')
+      
+      if (fileContents) {
+        content += `\n\n## Attached Files\n\n${fileContents}`
+      }
+    }
+    
+    const message: any = { role: m.role, content }
+
+    // Add images for this message if it has any
+    if (m.role === 'user' && imageParts.length > 0) {
+      message.images = imageParts.map(img => img.data)
+    }
+
+    // Pinned messages survive context trimming on the server
+    if (m.metadata?.pinned) {
+      message.pinned = true
+    }
+
+    return message
+  })
+}
+
 export function convertUiToApiMessages(uiMessages: UIMessage[]): any[] {
   return uiMessages.map((m) => {
     const textParts = m.parts.filter(p => p.type === 'text')
@@ -63,6 +199,11 @@ export function convertUiToApiMessages(uiMessages: UIMessage[]): any[] {
       message.images = imageParts.map(img => img.data)
     }
 
+    // Pinned messages survive context trimming on the server
+    if (m.metadata?.pinned) {
+      message.pinned = true
+    }
+
     return message
   })
 }
@@ -183,7 +324,7 @@ export function updateMessagesWithStreamChunk(
   shouldUpdatePhase: boolean 
 } {
   // Handle tool calls and results - don't update messages directly as they're managed by DisplayStateManager
-  if (chunk.kind === 'tool_call' || chunk.kind === 'tool_result' || chunk.kind === 'stream_continue') {
+  if (chunk.kind === 'tool_call' || chunk.kind === 'tool_result' || chunk.kind === 'tool_approval_required' || chunk.kind === 'stream_continue' || chunk.kind === 'context_trimmed') {
     return { 
       updatedMessages: messages, 
       updatedPhase: streamPhase,
@@ -191,7 +332,7 @@ export function updateMessagesWithStreamChunk(
     }
   }
 
-  if (chunk.kind !== 'reasoning' && chunk.kind !== 'text') {
+  if (chunk.kind !== 'reasoning' && chunk.kind !== 'text' && chunk.kind !== 'sources') {
     return { 
       updatedMessages: messages, 
       updatedPhase: streamPhase,
@@ -199,10 +340,6 @@ export function updateMessagesWithStreamChunk(
     }
   }
 
-  const kind = chunk.kind as 'reasoning' | 'text'
-  const textDelta = String(chunk.text ?? '')
-  const shouldUpdatePhase = kind === 'text' && streamPhase !== 'answer'
-
   const next = [...messages]
   const lastMessage = next[next.length - 1]
   const needsNewAssistantMessage = next.length === 0 || 
@@ -216,6 +353,17 @@ export function updateMessagesWithStreamChunk(
   const lastIndex = next.length - 1
   const lastMsg = next[lastIndex]!
   const parts = lastMsg.parts.slice()
+
+  // Knowledge base sources arrive once, before any text
+  if (chunk.kind === 'sources') {
+    parts.push(...(chunk.sources ?? []).map(s => ({ type: 'source' as const, ...s })))
+    next[lastIndex] = { ...lastMsg, parts }
+    return { updatedMessages: next, updatedPhase: streamPhase, shouldUpdatePhase: false }
+  }
+
+  const kind = chunk.kind as 'reasoning' | 'text'
+  const textDelta = String(chunk.text ?? '')
+  const shouldUpdatePhase = kind === 'text' && streamPhase !== 'answer'
   const lastPart = parts[parts.length - 1]
   
   if (lastPart && lastPart.type === kind) {
@@ -246,6 +394,7 @@ export function prepareApiPayload(params: {
   chatId: string
   assistantMessageId: string
   userMessageId?: string
+  options?: GenerationOptions
 }): any {
   const combinedMessages = [
     ...(params.systemPromptContent ? [{ role: 'system' as const, content: params.systemPromptContent }] : []),
@@ -260,6 +409,7 @@ export function prepareApiPayload(params: {
     chatId: params.chatId,
     assistantMessageId: params.assistantMessageId,
     userMessageId: params.userMessageId,
+    options: params.options,
   }
 }
 
@@ -272,6 +422,7 @@ export function prepareSubmitHistoryPayload(params: {
   chatId: string
   assistantMessageId: string
   userMessageId?: string
+  options?: GenerationOptions
 }): any {
   const baseHistory = convertUiToApiMessages(params.history)
   
@@ -295,6 +446,7 @@ export function prepareSubmitHistoryPayload(params: {
     chatId: params.chatId,
     assistantMessageId: params.assistantMessageId,
     userMessageId: params.userMessageId,
+    options: params.options,
   }
 }
 
@@ -5,14 +5,15 @@ import { api } from '~/trpc/react'
 
 export type ModelCapabilities = {
   model: string
-  capabilities: { completion: boolean; vision: boolean; tools: boolean }
+  capabilities: { completion: boolean; vision: boolean; tools: boolean; embedding?: boolean }
   think: { supported: boolean; levels: ('low' | 'medium' | 'high')[] }
+  contextLength?: number | null
 }
 
-export function useOllamaModelCapabilities(model?: string) {
+export function useOllamaModelCapabilities(model?: string, endpointId?: string | null) {
   const enabled = !!model
   const { data, error, isLoading } = api.models.capabilities.useQuery(
-    { model: model as string },
+    { model: model as string, endpointId },
     { enabled }
   ) as unknown as { data: ModelCapabilities | undefined; error: Error | null; isLoading: boolean }
 
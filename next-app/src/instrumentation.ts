@@ -0,0 +1,14 @@
+/**
+ * Runs once when the server starts, before it handles requests.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  const { linkLegacyMessages } = await import("~/server/link-legacy-messages");
+  try {
+    const linked = await linkLegacyMessages();
+    if (linked > 0) console.log(`[migrate] Linked the message history of ${linked} pre-branching chats`);
+  } catch (e) {
+    console.error("[migrate] Failed to link pre-branching messages:", e);
+  }
+}
@@ -3,6 +3,9 @@
  * Three-tier caching: Memory -> IndexedDB -> SQLite
  */
 
+import type { GenerationOptions } from '~/lib/generation-options'
+import type { GenerationStats } from '~/lib/generation-stats'
+
 export interface CachedMessage {
   id: string
   chatId: string
@@ -10,6 +13,9 @@ export interface CachedMessage {
   parts: unknown
   createdAt: Date
   index: number | null
+  pinned?: boolean
+  parentId?: string | null
+  stats?: GenerationStats | null
   // Cache metadata
   cachedAt: Date
   version: number
@@ -25,6 +31,9 @@ export interface CachedChat {
   pinnedAt: Date | null
   lastSetModel: string | null
   lastSetPrompt: string | null
+  lastSetOptions: GenerationOptions | null
+  endpointId: string | null
+  activeLeafId?: string | null
   // Cache metadata
   cachedAt: Date
   version: number
@@ -0,0 +1,173 @@
+import type { UIMessagePart } from '~/lib/chat-types'
+import type { ChatExportBundle, ExportedChat, ExportedMessage } from './types'
+
+const ROLE_LABELS: Record<ExportedMessage['role'], string> = {
+  USER: 'You',
+  ASSISTANT: 'Assistant',
+  SYSTEM: 'System',
+  TOOL: 'Tool',
+}
+
+/**
+ * The branch that was on screen: walk up from the active leaf (or the newest message).
+ * JSON bundles keep every branch; the readable formats only show this one.
+ */
+export function getActiveBranch(chat: ExportedChat): ExportedMessage[] {
+  const byId = new Map(chat.messages.map(m => [m.id, m]))
+  let node = (chat.activeLeafId ? byId.get(chat.activeLeafId) : undefined) ?? chat.messages[chat.messages.length - 1]
+  const path: ExportedMessage[] = []
+  const seen = new Set<string>()
+  while (node && !seen.has(node.id)) {
+    seen.add(node.id)
+    path.unshift(node)
+    node = node.parentId ? byId.get(node.parentId) : undefined
+  }
+  return path
+}
+
+function formatDate(iso: string | null): string {
+  return iso ? new Date(iso).toLocaleString() : ''
+}
+
+function fence(content: string, lang = ''): string {
+  // Use a fence longer than any backtick run inside the content
+  const longest = Math.max(2, ...(content.match(/`+/g) ?? []).map(r => r.length))
+  const ticks = '`'.repeat(longest + 1)
+  return `${ticks}${lang}\n${content}\n${ticks}`
+}
+
+// === Markdown ===
+
+function partToMarkdown(part: UIMessagePart): string | null {
+  switch (part.type) {
+    case 'text':
+      return part.text
+    case 'reasoning':
+      return `<details>\n<summary>Reasoning</summary>\n\n${part.text}\n\n</details>`
+    case 'image':
+      return `![${part.fileName ?? 'image'}](data:${part.mimeType};base64,${part.data})`
+    case 'file':
+      return `**Attachment: ${part.fileName}**\n\n${fence(part.content ?? '(binary file not included)', part.fileType ?? '')}`
+    case 'tool_call':
+      return `**Tool call: \`${part.toolName}\`**\n\n${fence(JSON.stringify(part.arguments, null, 2), 'json')}`
+    case 'tool_result':
+      return part.error
+        ? `**Tool error (\`${part.toolName}\`):** ${part.error}`
+        : `**Tool result (\`${part.toolName}\`)**\n\n${fence(JSON.stringify(part.result, null, 2) ?? '', 'json')}`
+    case 'source':
+      return null
+  }
+}
+
+function chatToMarkdown(chat: ExportedChat): string {
+  const lines: string[] = [`# ${chat.title}`, '']
+  if (chat.model) lines.push(`- Model: ${chat.model}`)
+  lines.push(`- Created: ${formatDate(chat.createdAt)}`, '')
+  if (chat.systemPrompt) {
+    lines.push(`## System prompt: ${chat.systemPrompt.title}`, '', ...chat.systemPrompt.content.split('\n').map(l => `> ${l}`), '')
+  }
+  for (const message of getActiveBranch(chat)) {
+    lines.push('---', '', `### ${ROLE_LABELS[message.role]}`, '')
+    for (const part of message.parts) {
+      const md = partToMarkdown(part)
+      if (md) lines.push(md, '')
+    }
+    const sources = message.parts.flatMap(p => (p.type === 'source' ? [p] : []))
+    if (sources.length > 0) {
+      lines.push('**Sources**', '', ...sources.map(s => `${s.index}. ${s.fileName} (${s.collectionName})`), '')
+    }
+  }
+  return lines.join('\n')
+}
+
+export function renderMarkdown(bundle: ChatExportBundle): string {
+  return bundle.chats.map(chatToMarkdown).join('\n\n')
+}
+
+// === HTML ===
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function partToHtml(part: UIMessagePart): string | null {
+  switch (part.type) {
+    case 'text':
+      return `<div class="text">${escapeHtml(part.text)}</div>`
+    case 'reasoning':
+      return `<details class="reasoning"><summary>Reasoning</summary><div class="text">${escapeHtml(part.text)}</div></details>`
+    case 'image':
+      return `<img src="data:${escapeHtml(part.mimeType)};base64,${escapeHtml(part.data)}" alt="${escapeHtml(part.fileName ?? 'image')}">`
+    case 'file':
+      return `<details class="file"><summary>${escapeHtml(part.fileName)}</summary><pre>${escapeHtml(part.content ?? '(binary file not included)')}</pre></details>`
+    case 'tool_call':
+      return `<details class="tool"><summary>Tool call: <code>${escapeHtml(part.toolName)}</code></summary><pre>${escapeHtml(JSON.stringify(part.arguments, null, 2))}</pre></details>`
+    case 'tool_result':
+      return `<details class="tool"><summary>${part.error ? 'Tool error' : 'Tool result'}: <code>${escapeHtml(part.toolName)}</code></summary><pre>${escapeHtml(part.error ?? JSON.stringify(part.result, null, 2) ?? '')}</pre></details>`
+    case 'source':
+      return null
+  }
+}
+
+function chatToHtml(chat: ExportedChat): string {
+  const messages = getActiveBranch(chat).map(message => {
+    const parts = message.parts.map(partToHtml).filter(Boolean).join('\n')
+    const sources = message.parts.flatMap(p => (p.type === 'source' ? [p] : []))
+    const sourceList = sources.length > 0
+      ? `<ol class="sources">${sources.map(s => `<li value="${s.index}">${escapeHtml(s.fileName)} <span>${escapeHtml(s.collectionName)}</span></li>`).join('')}</ol>`
+      : ''
+    return `<section class="message ${message.role.toLowerCase()}"><header>${ROLE_LABELS[message.role]}</header>${parts}${sourceList}</section>`
+  }).join('\n')
+
+  const systemPrompt = chat.systemPrompt
+    ? `<details class="system"><summary>System prompt: ${escapeHtml(chat.systemPrompt.title)}</summary><div class="text">${escapeHtml(chat.systemPrompt.content)}</div></details>`
+    : ''
+
+  return `<article>
+<h1>${escapeHtml(chat.title)}</h1>
+<p class="meta">${chat.model ? `${escapeHtml(chat.model)} · ` : ''}${escapeHtml(formatDate(chat.createdAt))}</p>
+${systemPrompt}
+${messages}
+</article>`
+}
+
+const STYLES = `
+body { margin: 0; background: #0a1515; color: #e5e9e8; font: 15px/1.6 system-ui, sans-serif; }
+main { max-width: 48rem; margin: 0 auto; padding: 2rem 1rem; }
+article + article { margin-top: 4rem; border-top: 1px solid #2b3f3e; padding-top: 2rem; }
+h1 { font-size: 1.5rem; margin: 0; }
+.meta { color: #8b9491; font-size: 0.85rem; }
+.message { margin: 1.5rem 0; }
+.message header { font-size: 0.75rem; font-weight: 600; text-transform: uppercase; color: #8b9491; margin-bottom: 0.25rem; }
+.message.user .text { background: #132827; border-radius: 0.75rem; padding: 0.75rem 1rem; }
+.text { white-space: pre-wrap; word-wrap: break-word; }
+details { margin: 0.5rem 0; color: #b9c4c1; }
+summary { cursor: pointer; font-size: 0.85rem; }
+pre { background: #101f1e; border-radius: 0.5rem; padding: 0.75rem; overflow-x: auto; font-size: 0.8rem; }
+img { max-width: 100%; border-radius: 0.5rem; margin: 0.5rem 0; }
+.sources { font-size: 0.8rem; color: #8b9491; }
+.sources span { opacity: 0.7; }
+`
+
+export function renderHtml(bundle: ChatExportBundle): string {
+  const title = bundle.chats.length === 1 ? bundle.chats[0]!.title : `${bundle.chats.length} chats`
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<main>
+${bundle.chats.map(chatToHtml).join('\n')}
+</main>
+</body>
+</html>
+`
+}
@@ -0,0 +1,35 @@
+import type { UIMessagePart } from '~/lib/chat-types'
+import type { GenerationOptions } from '~/lib/generation-options'
+
+// Bump when the bundle shape changes; import rejects versions it doesn't know
+export const CHAT_EXPORT_VERSION = 1
+
+export type ChatExportFormat = 'json' | 'markdown' | 'html'
+
+export type ExportedMessage = {
+  id: string
+  parentId: string | null
+  role: 'USER' | 'ASSISTANT' | 'SYSTEM' | 'TOOL'
+  parts: UIMessagePart[]
+  createdAt: string
+  pinned: boolean
+}
+
+export type ExportedChat = {
+  id: string
+  title: string
+  model: string | null
+  createdAt: string
+  lastMessageAt: string | null
+  options: GenerationOptions | null
+  systemPrompt: { title: string; content: string } | null
+  activeLeafId: string | null
+  messages: ExportedMessage[]
+}
+
+export type ChatExportBundle = {
+  app: 'localhost-11434'
+  version: typeof CHAT_EXPORT_VERSION
+  exportedAt: string
+  chats: ExportedChat[]
+}
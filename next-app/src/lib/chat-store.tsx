@@ -3,6 +3,7 @@
 import { createContext, useCallback, useContext, useMemo, useState } from 'react'
 import { api } from '~/trpc/react'
 import { useCachedChats } from '~/hooks/use-cached-chats'
+import type { GenerationOptions } from '~/lib/generation-options'
 
 export type ChatListItem = {
   id: string
@@ -11,15 +12,22 @@ export type ChatListItem = {
   pinned?: boolean
   lastSetModel?: string | null
   lastSetPrompt?: string | null
+  lastSetOptions?: GenerationOptions | null
+  endpointId?: string | null
+  activeLeafId?: string | null
 }
 
 type ChatStore = {
   chats: ChatListItem[]
   selectedChatId: string | null
   createChat: (id: string, title?: string, model?: string) => void
+  addChats: (items: ChatListItem[]) => void
   renameChat: (id: string, title: string) => void
   pinChat: (id: string, pinned: boolean) => void
   setLastSetPrompt: (id: string, promptId: string | null) => void
+  setChatEndpoint: (id: string, endpointId: string | null) => void
+  setChatOptions: (id: string, options: GenerationOptions | null) => void
+  setChatActiveLeaf: (id: string, messageId: string | null) => void
   selectChat: (id: string | null) => void
   selectedModel: string | null
   setSelectedModel: (model: string) => void
@@ -62,7 +70,10 @@ export function ChatStoreProvider({ children }: { children: React.ReactNode }) {
         createdAt: c.createdAt.getTime(), 
         pinned: !!c.pinned, 
         lastSetModel: c.lastSetModel,
-        lastSetPrompt: c.lastSetPrompt
+        lastSetPrompt: c.lastSetPrompt,
+        lastSetOptions: c.lastSetOptions ?? null,
+        endpointId: c.endpointId ?? null,
+        activeLeafId: c.activeLeafId ?? null
       })))
     } else if (chatsData?.chats) {
       // Fallback to TRPC data
@@ -73,7 +84,10 @@ export function ChatStoreProvider({ children }: { children: React.ReactNode }) {
         createdAt: new Date(c.createdAt as any).getTime(), 
         pinned: !!c.pinned, 
         lastSetModel: (c as any).lastSetModel ?? null, 
-        lastSetPrompt: (c as any).lastSetPrompt ?? null 
+        lastSetPrompt: (c as any).lastSetPrompt ?? null,
+        lastSetOptions: (c.lastSetOptions as GenerationOptions | null) ?? null,
+        endpointId: c.endpointId ?? null,
+        activeLeafId: c.activeLeafId ?? null
       })))
     }
   }, [cacheInitialized, cachedChats, chatsData?.chats])
@@ -140,10 +154,63 @@ export function ChatStoreProvider({ children }: { children: React.ReactNode }) {
     })
   }, [chats, pinChatMutation, utils])
 
+  // Chats created server-side (e.g. imported) that only need to show up in the list
+  const addChats = useCallback((items: ChatListItem[]) => {
+    setChats(prev => [...items, ...prev.filter(c => !items.some(i => i.id === c.id))])
+    utils.chats.list.invalidate()
+  }, [utils])
+
   const setLastSetPrompt = useCallback((id: string, promptId: string | null) => {
     setChats(prev => prev.map(c => (c.id === id ? { ...c, lastSetPrompt: promptId } : c)))
   }, [])
 
+  const setChatEndpointMutation = api.chats.setEndpoint.useMutation()
+  const setChatEndpoint = useCallback((id: string, endpointId: string | null) => {
+    const old = chats.find(c => c.id === id)
+    setChats(prev => prev.map(c => (c.id === id ? { ...c, endpointId } : c)))
+
+    setChatEndpointMutation.mutate({ id, endpointId }, {
+      onSuccess: () => {
+        console.log(`[ChatStore] ✓ Set endpoint for chat ${id}`)
+        utils.chats.list.invalidate()
+      },
+      onError: () => {
+        console.warn(`[ChatStore] ✗ Failed to set endpoint for chat ${id}, rolling back`)
+        if (old) setChats(prev => prev.map(c => (c.id === id ? old : c)))
+      },
+    })
+  }, [chats, setChatEndpointMutation, utils])
+
+  const setChatOptionsMutation = api.chats.setOptions.useMutation()
+  const setChatOptions = useCallback((id: string, options: GenerationOptions | null) => {
+    const old = chats.find(c => c.id === id)
+    setChats(prev => prev.map(c => (c.id === id ? { ...c, lastSetOptions: options } : c)))
+
+    setChatOptionsMutation.mutate({ id, options }, {
+      onSuccess: () => {
+        utils.chats.list.invalidate()
+      },
+      onError: () => {
+        console.warn(`[ChatStore] ✗ Failed to save generation options for chat ${id}, rolling back`)
+        if (old) setChats(prev => prev.map(c => (c.id === id ? old : c)))
+      },
+    })
+  }, [chats, setChatOptionsMutation, utils])
+
+  const setChatActiveLeafMutation = api.chats.setActiveLeaf.useMutation()
+  const setChatActiveLeaf = useCallback((id: string, messageId: string | null) => {
+    setChats(prev => prev.map(c => (c.id === id ? { ...c, activeLeafId: messageId } : c)))
+
+    setChatActiveLeafMutation.mutate({ id, messageId }, {
+      onSuccess: () => {
+        utils.chats.list.invalidate()
+      },
+      onError: () => {
+        console.warn(`[ChatStore] ✗ Failed to save active branch for chat ${id}`)
+      },
+    })
+  }, [setChatActiveLeafMutation, utils])
+
   const selectChat = useCallback((id: string | null) => {
     setSelectedChatId(id)
   }, [])
@@ -202,14 +269,18 @@ export function ChatStoreProvider({ children }: { children: React.ReactNode }) {
     chats,
     selectedChatId,
     createChat,
+    addChats,
     renameChat,
     pinChat,
     setLastSetPrompt,
+    setChatEndpoint,
+    setChatOptions,
+    setChatActiveLeaf,
     selectChat,
     selectedModel,
     setSelectedModel,
     deleteChat,
-  }), [chats, selectedChatId, createChat, renameChat, pinChat, setLastSetPrompt, selectChat, selectedModel, setSelectedModel, deleteChat])
+  }), [chats, selectedChatId, createChat, addChats, renameChat, pinChat, setLastSetPrompt, setChatEndpoint, setChatOptions, setChatActiveLeaf, selectChat, selectedModel, setSelectedModel, deleteChat])
 
   return <ChatStoreContext.Provider value={storeValue}>{children}</ChatStoreContext.Provider>
 }
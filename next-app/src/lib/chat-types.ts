@@ -1,15 +1,29 @@
+import type { ContextStrategy } from '~/lib/generation-options'
+
 export type UIMessagePart =
   | { type: 'reasoning'; text: string }
   | { type: 'text'; text: string }
   | { type: 'image'; data: string; mimeType: string; fileName?: string }
   | { type: 'file'; data: string; mimeType: string; fileName: string; content?: string; fileType?: string }
-  | { type: 'tool_call'; toolName: string; arguments: Record<string, any>; callId: string; state: 'input-streaming' | 'input-available' | 'output-available' | 'output-error'; phase: 'reasoning' | 'response' }
-  | { type: 'tool_result'; toolName: string; callId: string; result?: any; error?: string; phase: 'reasoning' | 'response' }
+  | { type: 'tool_call'; toolName: string; arguments: Record<string, any>; callId: string; state: 'input-streaming' | 'approval-requested' | 'input-available' | 'output-available' | 'output-error'; phase: 'reasoning' | 'response'; startedAt?: number }
+  | { type: 'tool_result'; toolName: string; callId: string; result?: any; error?: string; phase: 'reasoning' | 'response'; completedAt?: number; durationMs?: number }
+  | ({ type: 'source' } & KnowledgeSource)
+
+// A knowledge base chunk injected into the prompt; `index` is the number the model cites as [n]
+export type KnowledgeSource = {
+  index: number
+  documentId: string
+  fileName: string
+  collectionName: string
+  snippet: string
+  score: number
+}
 
 export type UIMessage = {
   id: string
   role: 'user' | 'assistant' | 'system'
   parts: UIMessagePart[]
+  parentId?: string | null // Message this one follows; undefined for chats saved before branching
   metadata?: {
     isError?: boolean
     retryable?: boolean
@@ -17,4 +31,17 @@ export type UIMessage = {
   }
 }
 
+// Sent by the chat route when history was trimmed to fit the context window
+export type ContextTrimInfo = {
+  strategy: ContextStrategy
+  droppedCount: number
+  summarizedCount: number
+  estimatedTokens: number
+  contextLength: number
+}
 
+// A tool limit the chat route enforced while producing one reply
+export type ToolLimitNotice =
+  | { type: 'max_rounds'; maxRounds: number }
+  | { type: 'timeout'; callId: string; toolName: string; timeoutMs: number }
+  | { type: 'truncated'; callId: string; toolName: string; originalChars: number; keptChars: number }
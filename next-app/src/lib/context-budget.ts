@@ -0,0 +1,165 @@
+import 'server-only'
+import type { Ollama } from 'ollama'
+import { modelsService } from '~/lib/models/service'
+import type { ContextStrategy } from '~/lib/generation-options'
+import type { ContextTrimInfo } from '~/lib/chat-types'
+
+export type BudgetMessage = {
+  role: 'system' | 'user' | 'assistant' | 'tool'
+  content: string
+  images?: string[]
+  tool_calls?: unknown[]
+  pinned?: boolean
+}
+
+// Ollama runs every model with num_ctx (4096 by default) unless the request or Modelfile sets it
+const OLLAMA_DEFAULT_NUM_CTX = 4096
+const CHARS_PER_TOKEN = 4
+const MESSAGE_OVERHEAD_TOKENS = 4
+const IMAGE_TOKENS = 768
+const SUMMARY_RESERVE_TOKENS = 512
+
+const SUMMARY_PROMPT =
+  'Summarize the following conversation so it can replace the original messages as context. ' +
+  'Keep facts, decisions, names, numbers, code identifiers and open questions. Be concise. ' +
+  'Respond only with the summary.'
+
+/** Rough token estimate (~4 chars per token); good enough to decide when to trim */
+export function estimateTokens(messages: BudgetMessage[]): number {
+  let total = 0
+  for (const m of messages) {
+    total += MESSAGE_OVERHEAD_TOKENS + Math.ceil((m.content?.length ?? 0) / CHARS_PER_TOKEN)
+    total += (m.images?.length ?? 0) * IMAGE_TOKENS
+  }
+  return total
+}
+
+/**
+ * The context window the request will actually run with:
+ * explicit num_ctx → Modelfile num_ctx → Ollama default, capped by the model's trained context_length.
+ */
+export async function getContextLength(model: string, endpointId?: string | null, numCtx?: number): Promise<number> {
+  let trained: number | undefined
+  let modelfileNumCtx: number | undefined
+  try {
+    const show: any = await modelsService.showModel(model, endpointId)
+    const info = show?.model_info && typeof show.model_info === 'object' ? show.model_info as Record<string, unknown> : {}
+    for (const [k, v] of Object.entries(info)) {
+      if (/context_length$/i.test(k) && typeof v === 'number' && v > 0) {
+        trained = v
+        break
+      }
+    }
+    const params = typeof show?.parameters === 'string' ? show.parameters : ''
+    const m = params.match(/\bnum_ctx\s+(\d+)/i)
+    if (m?.[1]) modelfileNumCtx = parseInt(m[1], 10)
+  } catch (e) {
+    console.warn(`[context] Failed to read context length for ${model}:`, e)
+  }
+  const requested = numCtx ?? modelfileNumCtx ?? OLLAMA_DEFAULT_NUM_CTX
+  return trained ? Math.min(requested, trained) : requested
+}
+
+/** Ask the same model for a summary of the given messages */
+export async function summarizeMessages(client: Ollama, model: string, messages: BudgetMessage[], maxTokens: number, keepAlive?: string | number): Promise<string> {
+  let transcript = messages.map(m => `${m.role.toUpperCase()}: ${m.content}`).join('\n\n')
+  // Keep the most recent part if the transcript alone would not fit
+  const maxChars = Math.max(1000, maxTokens * CHARS_PER_TOKEN)
+  if (transcript.length > maxChars) transcript = transcript.slice(transcript.length - maxChars)
+  const res: any = await client.chat({
+    model,
+    stream: false,
+    messages: [
+      { role: 'system', content: SUMMARY_PROMPT },
+      { role: 'user', content: transcript },
+    ],
+    keep_alive: keepAlive,
+  })
+  return String(res?.message?.content ?? '').trim()
+}
+
+/**
+ * Fit `messages` into the context window, leaving room for the response.
+ * Leading system messages and the latest message are always kept.
+ */
+export async function applyContextBudget<T extends BudgetMessage>(params: {
+  messages: T[]
+  contextLength: number
+  strategy: ContextStrategy
+  summarize?: (older: T[], maxTokens: number) => Promise<string>
+}): Promise<{ messages: T[]; trim: ContextTrimInfo | null }> {
+  const { messages, contextLength, strategy } = params
+  const reserve = Math.min(1024, Math.floor(contextLength / 4))
+  const budget = contextLength - reserve
+  const estimated = estimateTokens(messages)
+  if (estimated <= budget || messages.length < 3) return { messages, trim: null }
+
+  let headCount = 0
+  while (headCount < messages.length - 1 && messages[headCount]!.role === 'system') headCount++
+  const head = messages.slice(0, headCount)
+  const body = messages.slice(headCount, -1)
+  const last = messages[messages.length - 1]!
+
+  const isRemovable = (m: T) => m.role !== 'system' && !(strategy === 'keep_pinned' && m.pinned)
+  const target = strategy === 'summarize' ? budget - SUMMARY_RESERVE_TOKENS : budget
+
+  // An assistant turn that called tools and the tool results answering it stand or fall together
+  const unitOf: number[] = []
+  for (let i = 0; i < body.length; i++) {
+    const previous = i > 0 ? unitOf[i - 1]! : i
+    const continuesCall = body[i]!.role === 'tool' && i > 0 && (body[previous]!.tool_calls?.length ?? 0) > 0
+    unitOf.push(continuesCall ? previous : i)
+  }
+  const unitMembers = (i: number) => body.flatMap((_, j) => (unitOf[j] === unitOf[i] ? [j] : []))
+
+  const removed = new Set<number>()
+  let total = estimated
+  const removeUnit = (i: number) => {
+    for (const j of unitMembers(i)) {
+      if (removed.has(j)) continue
+      removed.add(j)
+      total -= estimateTokens([body[j]!])
+    }
+  }
+  const isUnitRemovable = (i: number) => unitMembers(i).every(j => isRemovable(body[j]!))
+
+  // Remove oldest removable messages until the rest fits
+  for (let i = 0; i < body.length && total > target; i++) {
+    if (removed.has(i) || !isUnitRemovable(i)) continue
+    removeUnit(i)
+  }
+  // Replies without the message they answer only confuse the model; this can happen after
+  // any gap, including behind a pinned message that keep_pinned kept
+  for (let i = 1; i < body.length; i++) {
+    if (removed.has(i) || !removed.has(i - 1)) continue
+    const m = body[i]!
+    const orphaned = m.role === 'tool' || (m.role === 'assistant' && unitOf[i] === i)
+    if (orphaned && isUnitRemovable(i)) removeUnit(i)
+  }
+  if (removed.size === 0) return { messages, trim: null }
+
+  const kept = body.filter((_, i) => !removed.has(i))
+  const older = body.filter((_, i) => removed.has(i))
+
+  if (strategy === 'summarize' && params.summarize) {
+    try {
+      const summary = await params.summarize(older, budget)
+      if (summary) {
+        const summaryMessage = { role: 'system', content: `Summary of ${older.length} earlier messages:\n${summary}` } as T
+        const next = [...head, summaryMessage, ...kept, last]
+        return {
+          messages: next,
+          trim: { strategy, droppedCount: 0, summarizedCount: older.length, estimatedTokens: estimateTokens(next), contextLength },
+        }
+      }
+    } catch (e) {
+      console.warn('[context] Summarization failed, dropping oldest messages instead:', e)
+    }
+  }
+
+  const next = [...head, ...kept, last]
+  return {
+    messages: next,
+    trim: { strategy, droppedCount: older.length, summarizedCount: 0, estimatedTokens: estimateTokens(next), contextLength },
+  }
+}
@@ -0,0 +1,58 @@
+import { z } from 'zod'
+
+/**
+ * How the chat route fits long histories into the context window.
+ * - drop_oldest: remove the oldest turns first
+ * - keep_pinned: like drop_oldest, but never remove pinned messages
+ * - summarize: replace the oldest turns with a summary written by the same model
+ */
+export const contextStrategies = ['drop_oldest', 'keep_pinned', 'summarize'] as const
+export type ContextStrategy = (typeof contextStrategies)[number]
+
+/**
+ * Sampling options forwarded to Ollama's `options` on chat requests.
+ * Anything left undefined falls back to the model's Modelfile defaults.
+ * `context_strategy` and the tool limits are handled by the chat route and never sent to Ollama.
+ */
+export const generationOptionsSchema = z.object({
+  temperature: z.number().min(0).max(2).optional(),
+  top_p: z.number().min(0).max(1).optional(),
+  num_ctx: z.number().int().min(256).max(1_048_576).optional(),
+  seed: z.number().int().optional(),
+  stop: z.array(z.string().min(1)).max(8).optional(),
+  context_strategy: z.enum(contextStrategies).optional(),
+  max_tool_rounds: z.number().int().min(1).max(50).optional(),
+  tool_timeout_s: z.number().int().min(1).max(3600).optional(),
+  max_tool_result_chars: z.number().int().min(500).max(1_000_000).optional(),
+})
+
+export type GenerationOptions = z.infer<typeof generationOptionsSchema>
+
+/**
+ * Guards for one reply's tool use when a chat doesn't set its own:
+ * - max_tool_rounds: model turns that may call tools before it must answer without them
+ * - tool_timeout_s: how long a single tool may run (time spent waiting for approval doesn't count)
+ * - max_tool_result_chars: longer results are cut before they are fed back to the model
+ */
+export const defaultToolLimits = {
+  max_tool_rounds: 8,
+  tool_timeout_s: 60,
+  max_tool_result_chars: 20_000,
+} satisfies Partial<GenerationOptions>
+
+/**
+ * Parse untrusted input field by field, dropping empty and invalid values so one bad
+ * field (e.g. from a stale preset) doesn't discard the rest; returns undefined when nothing is set
+ */
+export function normalizeGenerationOptions(input: unknown): GenerationOptions | undefined {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return undefined
+  const shape = generationOptionsSchema.shape
+  const out: GenerationOptions = {}
+  for (const key of Object.keys(shape) as (keyof typeof shape)[]) {
+    const parsed = shape[key].safeParse((input as Record<string, unknown>)[key])
+    if (!parsed.success || parsed.data === undefined) continue
+    if (Array.isArray(parsed.data) && parsed.data.length === 0) continue
+    ;(out as Record<string, unknown>)[key] = parsed.data
+  }
+  return Object.keys(out).length > 0 ? out : undefined
+}
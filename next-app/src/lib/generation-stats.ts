@@ -0,0 +1,76 @@
+/**
+ * Timings and token counts for one assistant reply. Ollama reports them on the final
+ * chunk of every stream; replies with tool calls span several streams, which are summed.
+ */
+export type GenerationStats = {
+  model: string
+  promptTokens: number
+  completionTokens: number
+  evalDurationMs: number
+  promptEvalDurationMs: number
+  loadDurationMs: number
+  totalDurationMs: number
+  firstTokenMs: number | null // Measured by the chat route from request start to the first streamed token
+}
+
+// Ollama durations are nanoseconds
+const nsToMs = (ns: unknown): number => (typeof ns === 'number' && Number.isFinite(ns) ? ns / 1e6 : 0)
+const count = (n: unknown): number => (typeof n === 'number' && Number.isFinite(n) ? n : 0)
+
+/** Add the numbers from a `done` chunk of Ollama's chat stream to the running totals */
+export function addOllamaDoneStats(stats: GenerationStats, part: any): GenerationStats {
+  return {
+    ...stats,
+    promptTokens: stats.promptTokens + count(part?.prompt_eval_count),
+    completionTokens: stats.completionTokens + count(part?.eval_count),
+    evalDurationMs: stats.evalDurationMs + nsToMs(part?.eval_duration),
+    promptEvalDurationMs: stats.promptEvalDurationMs + nsToMs(part?.prompt_eval_duration),
+    loadDurationMs: stats.loadDurationMs + nsToMs(part?.load_duration),
+    totalDurationMs: stats.totalDurationMs + nsToMs(part?.total_duration),
+  }
+}
+
+export function emptyGenerationStats(model: string): GenerationStats {
+  return {
+    model,
+    promptTokens: 0,
+    completionTokens: 0,
+    evalDurationMs: 0,
+    promptEvalDurationMs: 0,
+    loadDurationMs: 0,
+    totalDurationMs: 0,
+    firstTokenMs: null,
+  }
+}
+
+export function getTokensPerSecond(completionTokens: number, evalDurationMs: number): number | null {
+  return evalDurationMs > 0 && completionTokens > 0 ? completionTokens / (evalDurationMs / 1000) : null
+}
+
+/** Rebuild stats from the Message columns; null for user turns and replies saved before stats existed */
+export function statsFromMessageRow(row: {
+  model: string | null
+  promptTokens: number | null
+  completionTokens: number | null
+  evalDurationMs: number | null
+  promptEvalDurationMs: number | null
+  loadDurationMs: number | null
+  totalDurationMs: number | null
+  firstTokenMs: number | null
+}): GenerationStats | null {
+  if (!row.model || row.completionTokens === null) return null
+  return {
+    model: row.model,
+    promptTokens: row.promptTokens ?? 0,
+    completionTokens: row.completionTokens,
+    evalDurationMs: row.evalDurationMs ?? 0,
+    promptEvalDurationMs: row.promptEvalDurationMs ?? 0,
+    loadDurationMs: row.loadDurationMs ?? 0,
+    totalDurationMs: row.totalDurationMs ?? 0,
+    firstTokenMs: row.firstTokenMs,
+  }
+}
+
+export function formatDuration(ms: number): string {
+  return ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(1)}s`
+}
@@ -0,0 +1,36 @@
+export type ChunkOptions = {
+  chunkSize?: number // characters
+  overlap?: number // characters carried over from the previous chunk
+}
+
+const DEFAULT_CHUNK_SIZE = 1200
+const DEFAULT_OVERLAP = 200
+
+/**
+ * Split text into overlapping chunks, preferring paragraph, then line, then sentence boundaries.
+ */
+export function chunkText(text: string, opts: ChunkOptions = {}): string[] {
+  const chunkSize = Math.max(200, opts.chunkSize ?? DEFAULT_CHUNK_SIZE)
+  const overlap = Math.min(Math.max(0, opts.overlap ?? DEFAULT_OVERLAP), Math.floor(chunkSize / 2))
+  const normalized = text.replace(/\r\n?/g, '\n').replace(/\n{3,}/g, '\n\n').trim()
+  if (!normalized) return []
+  if (normalized.length <= chunkSize) return [normalized]
+
+  const chunks: string[] = []
+  let start = 0
+  while (start < normalized.length) {
+    let end = Math.min(start + chunkSize, normalized.length)
+    if (end < normalized.length) {
+      const window = normalized.slice(start, end)
+      const minBreak = Math.floor(chunkSize / 2)
+      const breaks = [window.lastIndexOf('\n\n'), window.lastIndexOf('\n'), window.search(/[.!?]\s(?!.*[.!?]\s)/s)]
+      const best = breaks.find(i => i >= minBreak)
+      if (best !== undefined) end = start + best + 1
+    }
+    const chunk = normalized.slice(start, end).trim()
+    if (chunk) chunks.push(chunk)
+    if (end >= normalized.length) break
+    start = Math.max(end - overlap, start + 1)
+  }
+  return chunks
+}
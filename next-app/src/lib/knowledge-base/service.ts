@@ -0,0 +1,188 @@
+import 'server-only'
+import { db } from '~/server/db'
+import { getOllamaClient } from '~/lib/ollama/client'
+import type { KnowledgeSource } from '~/lib/chat-types'
+import { chunkText } from './chunking'
+
+export type RetrievedChunk = {
+  chunkId: string
+  documentId: string
+  fileName: string
+  collectionId: string
+  collectionName: string
+  content: string
+  score: number
+}
+
+// Ollama embeds a batch per request; keep batches small so one huge document doesn't time out
+const EMBED_BATCH_SIZE = 16
+const DEFAULT_TOP_K = 5
+const MIN_SCORE = 0.2
+
+function toBytes(vector: number[]): Uint8Array<ArrayBuffer> {
+  return new Uint8Array(Float32Array.from(vector).buffer)
+}
+
+function fromBytes(bytes: Uint8Array): Float32Array {
+  // Copy into an aligned buffer; Prisma may hand back a slice of a larger one
+  const copy = new Uint8Array(bytes.byteLength)
+  copy.set(bytes)
+  return new Float32Array(copy.buffer)
+}
+
+function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  if (a.length !== b.length || a.length === 0) return 0
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i]! * b[i]!
+    normA += a[i]! * a[i]!
+    normB += b[i]! * b[i]!
+  }
+  return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0
+}
+
+async function embed(texts: string[], model: string, endpointId?: string | null): Promise<number[][]> {
+  const { client } = await getOllamaClient({ endpointId })
+  const out: number[][] = []
+  for (let i = 0; i < texts.length; i += EMBED_BATCH_SIZE) {
+    const res = await client.embed({ model, input: texts.slice(i, i + EMBED_BATCH_SIZE) })
+    out.push(...res.embeddings)
+  }
+  return out
+}
+
+/** Chunk and embed one document, replacing any chunks from a previous run */
+async function indexDocument(documentId: string): Promise<{ status: 'ready' | 'error'; chunkCount: number; error?: string }> {
+  const doc = await db.knowledgeDocument.findUnique({
+    where: { id: documentId },
+    select: { id: true, content: true, collectionId: true, collection: { select: { embeddingModel: true, endpointId: true } } },
+  })
+  if (!doc) throw new Error('Document not found')
+
+  await db.knowledgeDocument.update({ where: { id: doc.id }, data: { status: 'indexing', error: null } })
+  try {
+    const chunks = chunkText(doc.content)
+    const vectors = await embed(chunks, doc.collection.embeddingModel, doc.collection.endpointId)
+    if (vectors.length !== chunks.length) {
+      throw new Error(`Expected ${chunks.length} embeddings, got ${vectors.length}`)
+    }
+    await db.$transaction([
+      db.knowledgeChunk.deleteMany({ where: { documentId: doc.id } }),
+      db.knowledgeChunk.createMany({
+        data: chunks.map((content, index) => ({
+          documentId: doc.id,
+          collectionId: doc.collectionId,
+          index,
+          content,
+          embedding: toBytes(vectors[index]!),
+        })),
+      }),
+      db.knowledgeDocument.update({ where: { id: doc.id }, data: { status: 'ready', chunkCount: chunks.length } }),
+    ])
+    return { status: 'ready', chunkCount: chunks.length }
+  } catch (e) {
+    const error = e instanceof Error ? e.message : String(e)
+    console.warn(`[knowledge] Failed to index document ${doc.id}:`, error)
+    await db.knowledgeDocument.update({ where: { id: doc.id }, data: { status: 'error', error, chunkCount: 0 } })
+    return { status: 'error', chunkCount: 0, error }
+  }
+}
+
+async function reindexCollection(collectionId: string): Promise<{ ready: number; failed: number }> {
+  const docs = await db.knowledgeDocument.findMany({ where: { collectionId }, select: { id: true }, orderBy: { createdAt: 'asc' } })
+  let ready = 0
+  let failed = 0
+  // Sequential on purpose: the embedding model handles one request at a time anyway
+  for (const d of docs) {
+    const res = await indexDocument(d.id)
+    if (res.status === 'ready') ready++
+    else failed++
+  }
+  return { ready, failed }
+}
+
+/**
+ * Top-k chunks across collections by cosine similarity.
+ * Each collection's query is embedded with that collection's own model.
+ */
+async function search(params: { collectionIds: string[]; query: string; topK?: number }): Promise<RetrievedChunk[]> {
+  const query = params.query.trim()
+  if (!query || params.collectionIds.length === 0) return []
+
+  const collections = await db.knowledgeCollection.findMany({
+    where: { id: { in: params.collectionIds } },
+    select: { id: true, name: true, embeddingModel: true, endpointId: true },
+  })
+
+  // Collections sharing a model and host can share one query embedding
+  const groups = new Map<string, typeof collections>()
+  for (const c of collections) {
+    const key = `${c.endpointId ?? ''}::${c.embeddingModel}`
+    groups.set(key, [...(groups.get(key) ?? []), c])
+  }
+
+  const results: RetrievedChunk[] = []
+  for (const group of groups.values()) {
+    const first = group[0]!
+    const [queryVector] = await embed([query], first.embeddingModel, first.endpointId)
+    if (!queryVector) continue
+    const names = new Map(group.map(c => [c.id, c.name]))
+    const chunks = await db.knowledgeChunk.findMany({
+      where: { collectionId: { in: group.map(c => c.id) } },
+      select: { id: true, content: true, embedding: true, documentId: true, collectionId: true, document: { select: { fileName: true } } },
+    })
+    for (const chunk of chunks) {
+      results.push({
+        chunkId: chunk.id,
+        documentId: chunk.documentId,
+        fileName: chunk.document.fileName,
+        collectionId: chunk.collectionId,
+        collectionName: names.get(chunk.collectionId) ?? '',
+        content: chunk.content,
+        score: cosineSimilarity(queryVector, fromBytes(chunk.embedding)),
+      })
+    }
+  }
+
+  return results
+    .filter(r => r.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, params.topK ?? DEFAULT_TOP_K)
+}
+
+/** System message listing retrieved chunks as numbered sources the model can cite */
+function buildContextPrompt(chunks: RetrievedChunk[]): string {
+  const body = chunks
+    .map((c, i) => `[${i + 1}] ${c.fileName}${c.collectionName ? ` (${c.collectionName})` : ''}\n${c.content}`)
+    .join('\n\n')
+  return (
+    'The following excerpts were retrieved from the user\'s knowledge base. ' +
+    'Use them when they are relevant and cite them inline as [1], [2], etc. ' +
+    'If they do not contain the answer, say so rather than guessing.\n\n' +
+    body
+  )
+}
+
+function toSources(chunks: RetrievedChunk[]): KnowledgeSource[] {
+  return chunks.map((c, i) => ({
+    index: i + 1,
+    documentId: c.documentId,
+    fileName: c.fileName,
+    collectionName: c.collectionName,
+    snippet: c.content.length > 400 ? `${c.content.slice(0, 400)}…` : c.content,
+    score: Math.round(c.score * 1000) / 1000,
+  }))
+}
+
+export const knowledgeBaseService = {
+  embed,
+  indexDocument,
+  reindexCollection,
+  search,
+  buildContextPrompt,
+  toSources,
+}
+
+export type KnowledgeBaseService = typeof knowledgeBaseService
@@ -1,16 +1,113 @@
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
-import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { StdioClientTransport, getDefaultEnvironment } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { describeMcpServer, mcpTransports, parseMcpEnv, toMcpToolPrefix, type McpTransport } from "~/lib/mcp/transports";
 import { db } from "~/server/db";
 import type { ToolSchema } from "~/lib/tools/types";
+import { normalizeToolPolicy, type ToolPolicy } from "~/lib/tools/approvals";
 
 export type ConnectionStatus = 'connected' | 'connecting' | 'error' | 'disconnected';
 
+// Restart policy for servers whose connection drops unexpectedly
+const MAX_RESTARTS = 5;
+const RESTART_BASE_DELAY_MS = 1000;
+const RESTART_MAX_DELAY_MS = 60 * 1000;
+// A server that stayed up this long starts over with a fresh restart budget
+const STABLE_CONNECTION_MS = 2 * 60 * 1000;
+const STDERR_TAIL_LINES = 50;
+
+// Status plus what the supervisor knows about a server's recent crashes
+export interface ServerHealth {
+  status: ConnectionStatus;
+  restarts: number;
+  maxRestarts: number;
+  lastError: string | null;
+  nextRestartAt: number | null;
+  stderr: string[];
+}
+
+interface Supervision {
+  restarts: number;
+  lastError: string | null;
+  connectedAt: number | null;
+  nextRestartAt: number | null;
+  timer?: NodeJS.Timeout;
+  stderr: string[];
+}
+
 export interface McpServerConfig {
   id: string;
   name: string;
+  toolPrefix?: string;
+  transport: McpTransport;
   command: string;
   args: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+  url?: string;
+  headers?: Record<string, string>;
+  enabled: boolean;
+}
+
+// A tool together with the server that provides it; names are only unique per server
+export interface McpToolEntry {
+  serverId: string;
+  serverName: string;
+  toolPrefix: string;
+  tool: ToolSchema;
+}
+
+export interface McpResourceInfo {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface McpPromptInfo {
+  name: string;
+  description?: string;
+  arguments: Array<{ name: string; description?: string; required: boolean }>;
+}
+
+// One entry of a resource read; binary contents arrive base64 encoded in `blob`
+export interface McpResourceContent {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+}
+
+// Build a config from a McpServer row
+export function toMcpServerConfig(server: {
+  id: string;
+  name: string;
+  toolPrefix: string | null;
+  transport: string;
+  command: string;
+  args: unknown;
+  env: unknown;
+  cwd: string | null;
+  url: string | null;
+  headers: unknown;
   enabled: boolean;
+}): McpServerConfig {
+  const transport = mcpTransports.includes(server.transport as McpTransport) ? server.transport as McpTransport : 'stdio';
+  return {
+    id: server.id,
+    name: server.name,
+    toolPrefix: server.toolPrefix ?? undefined,
+    transport,
+    command: server.command,
+    args: Array.isArray(server.args) ? server.args as string[] : [],
+    env: Object.fromEntries(parseMcpEnv(server.env).map(v => [v.key, v.value])),
+    cwd: server.cwd ?? undefined,
+    url: server.url ?? undefined,
+    headers: server.headers && typeof server.headers === 'object' ? server.headers as Record<string, string> : undefined,
+    enabled: server.enabled
+  };
 }
 
 class ServerMcpManager {
@@ -19,6 +116,9 @@ class ServerMcpManager {
   private connectionStatus = new Map<string, ConnectionStatus>();
   private serverConfigs = new Map<string, McpServerConfig>();
   private healthCheckInterval?: NodeJS.Timeout;
+  private supervision = new Map<string, Supervision>();
+  // Servers being closed on purpose, whose close events must not trigger a restart
+  private stopping = new Set<string>();
   
   async refreshFromDatabase(): Promise<void> {
     try {
@@ -40,21 +140,18 @@ class ServerMcpManager {
       
       // Connect to new/updated servers
       for (const server of servers) {
-        const config: McpServerConfig = {
-          id: server.id,
-          name: server.name,
-          command: server.command,
-          args: server.args as string[],
-          enabled: server.enabled
-        };
+        const config = toMcpServerConfig(server);
         
         // If server is not connected, connect it
         if (!this.clients.has(server.id)) {
           console.log(`[MCP] Connecting to new server: ${server.name}`);
+          // Settings changed, so a server the supervisor gave up on gets a fresh restart budget
+          this.clearSupervision(server.id);
           try {
             await this.connectServer(config);
           } catch (error) {
             console.error(`[MCP] Failed to connect to ${server.name}:`, error);
+            this.scheduleRestart(config);
           }
         } else {
           // Update the config in case it changed
@@ -69,15 +166,12 @@ class ServerMcpManager {
   }
   
   async connectServer(config: McpServerConfig): Promise<void> {
-    console.log(`[MCP] Connecting to server: ${config.name} (${config.command} ${config.args.join(' ')})`);
+    console.log(`[MCP] Connecting to server: ${config.name} (${describeMcpServer(config)})`);
     this.connectionStatus.set(config.id, 'connecting');
     
+    let transport: Transport | undefined;
     try {
-      // Create stdio transport for package manager command
-      const transport = new StdioClientTransport({
-        command: config.command,
-        args: config.args
-      });
+      transport = this.createTransport(config);
       
       // Add error handlers to detect process failures
       this.setupTransportErrorHandlers(transport, config);
@@ -95,6 +189,11 @@ class ServerMcpManager {
       this.transports.set(config.id, transport);
       this.serverConfigs.set(config.id, config);
       this.connectionStatus.set(config.id, 'connected');
+      const supervision = this.getSupervision(config.id);
+      clearTimeout(supervision.timer);
+      supervision.timer = undefined;
+      supervision.nextRestartAt = null;
+      supervision.connectedAt = Date.now();
       
       console.log(`✅ [MCP] Connected to server: ${config.name}`);
       
@@ -109,80 +208,162 @@ class ServerMcpManager {
       
     } catch (error) {
       this.connectionStatus.set(config.id, 'error');
+      this.getSupervision(config.id).lastError = error instanceof Error ? error.message : String(error);
       console.error(`❌ [MCP] Failed to connect to ${config.name}:`, error);
+      // A failed handshake still leaves a spawned stdio process behind
+      await transport?.close().catch(closeError => console.warn(`[MCP] Warning while closing ${config.name}:`, closeError));
       throw error;
     }
   }
 
-  private setupTransportErrorHandlers(transport: any, config: McpServerConfig): void {
+  // Connects on a client of its own that never enters the shared maps, so no chat can call an unsaved server
+  async testServer(config: McpServerConfig): Promise<void> {
+    const transport = this.createTransport(config);
+    const client = new Client({
+      name: "localhost-11434-server",
+      version: "1.0.0"
+    });
     try {
-      // Access the underlying process if available
-      const process = (transport as any).process;
-      
-      if (process) {
-        // Handle process exit
-        process.on('exit', (code: number, signal: string) => {
-          console.warn(`[MCP] Server process exited: ${config.name} (code: ${code}, signal: ${signal})`);
-          this.connectionStatus.set(config.id, 'disconnected');
-          this.cleanupServer(config.id);
-        });
+      await client.connect(transport);
+    } finally {
+      await client.close().catch(() => undefined);
+      await transport.close().catch(() => undefined);
+    }
+  }
 
-        // Handle process errors
-        process.on('error', (error: Error) => {
-          console.error(`[MCP] Server process error: ${config.name}:`, error);
-          this.connectionStatus.set(config.id, 'error');
-          this.cleanupServer(config.id);
-        });
+  private createTransport(config: McpServerConfig): Transport {
+    if (config.transport === 'stdio') {
+      // Create stdio transport for package manager command
+      // Passing env replaces the SDK's safe defaults (PATH, HOME, ...), so layer on top of them
+      // stderr is piped rather than inherited so the last lines can be shown after a crash
+      return new StdioClientTransport({
+        command: config.command,
+        args: config.args,
+        stderr: 'pipe',
+        ...(config.env && Object.keys(config.env).length > 0 ? { env: { ...getDefaultEnvironment(), ...config.env } } : {}),
+        ...(config.cwd ? { cwd: config.cwd } : {})
+      });
+    }
 
-        // Handle stdio errors
-        if (process.stdin) {
-          process.stdin.on('error', (error: Error) => {
-            console.warn(`[MCP] Server stdin error: ${config.name}:`, error);
-            this.connectionStatus.set(config.id, 'error');
-            this.cleanupServer(config.id);
-          });
-        }
+    if (!config.url) {
+      throw new Error(`MCP server "${config.name}" has no URL`);
+    }
+    const url = new URL(config.url);
+    const requestInit = config.headers ? { headers: config.headers } : undefined;
+    return config.transport === 'sse'
+      ? new SSEClientTransport(url, { requestInit })
+      : new StreamableHTTPClientTransport(url, { requestInit });
+  }
 
-        if (process.stdout) {
-          process.stdout.on('error', (error: Error) => {
-            console.warn(`[MCP] Server stdout error: ${config.name}:`, error);
-            this.connectionStatus.set(config.id, 'error');
-            this.cleanupServer(config.id);
-          });
-        }
+  private setupTransportErrorHandlers(transport: Transport, config: McpServerConfig): void {
+    // The client chains these callbacks on connect. For stdio, onclose fires when the process exits.
+    transport.onclose = () => {
+      if (this.stopping.has(config.id) || !this.clients.has(config.id)) return;
+      this.handleConnectionLost(config, 'Connection closed unexpectedly');
+    };
+    transport.onerror = (error: Error) => {
+      // Individual request failures surface through callTool/listTools; just log here
+      console.warn(`[MCP] Transport error: ${config.name}:`, error);
+    };
 
-        if (process.stderr) {
-          process.stderr.on('error', (error: Error) => {
-            console.warn(`[MCP] Server stderr error: ${config.name}:`, error);
-            // Don't mark as error for stderr issues, just log
-          });
+    // The tail is kept across restarts so the output leading up to a crash stays visible
+    if (transport instanceof StdioClientTransport) {
+      let partial = '';
+      transport.stderr?.on('data', (chunk: Buffer) => {
+        const stderr = this.getSupervision(config.id).stderr;
+        const lines = (partial + chunk.toString('utf8')).split(/\r?\n/);
+        partial = lines.pop() ?? '';
+        for (const line of lines.filter(Boolean)) {
+          console.warn(`[MCP] ${config.name} stderr: ${line}`);
+          stderr.push(line);
         }
-      }
+        stderr.splice(0, Math.max(0, stderr.length - STDERR_TAIL_LINES));
+      });
+    }
+  }
 
-      // Handle transport-level errors if the transport has error events
-      if (typeof transport.on === 'function') {
-        transport.on('error', (error: Error) => {
-          console.error(`[MCP] Transport error: ${config.name}:`, error);
-          this.connectionStatus.set(config.id, 'error');
-          this.cleanupServer(config.id);
-        });
-      }
-    } catch (error) {
-      console.warn(`[MCP] Could not setup error handlers for ${config.name}:`, error);
+  private getSupervision(serverId: string): Supervision {
+    let supervision = this.supervision.get(serverId);
+    if (!supervision) {
+      supervision = { restarts: 0, lastError: null, connectedAt: null, nextRestartAt: null, stderr: [] };
+      this.supervision.set(serverId, supervision);
     }
+    return supervision;
+  }
+
+  private clearSupervision(serverId: string): void {
+    clearTimeout(this.supervision.get(serverId)?.timer);
+    this.supervision.delete(serverId);
+  }
+
+  // A connection died without anyone asking: drop it and let the supervisor bring it back
+  private handleConnectionLost(config: McpServerConfig, reason: string): void {
+    console.warn(`[MCP] Lost connection to ${config.name}: ${reason}`);
+    this.connectionStatus.set(config.id, 'error');
+    this.getSupervision(config.id).lastError = reason;
+    this.cleanupServer(config.id);
+    this.scheduleRestart(config);
+  }
+
+  private scheduleRestart(config: McpServerConfig): void {
+    const supervision = this.getSupervision(config.id);
+    if (supervision.timer) return;
+
+    if (supervision.connectedAt && Date.now() - supervision.connectedAt >= STABLE_CONNECTION_MS) {
+      supervision.restarts = 0;
+    }
+    supervision.connectedAt = null;
+
+    if (supervision.restarts >= MAX_RESTARTS) {
+      console.error(`[MCP] Giving up on ${config.name} after ${supervision.restarts} restarts`);
+      supervision.nextRestartAt = null;
+      return;
+    }
+
+    const delay = Math.min(RESTART_BASE_DELAY_MS * 2 ** supervision.restarts, RESTART_MAX_DELAY_MS);
+    supervision.restarts++;
+    supervision.nextRestartAt = Date.now() + delay;
+    console.log(`[MCP] Restarting ${config.name} in ${delay}ms (attempt ${supervision.restarts}/${MAX_RESTARTS})`);
+
+    supervision.timer = setTimeout(async () => {
+      supervision.timer = undefined;
+      supervision.nextRestartAt = null;
+
+      // Only servers that are still saved and enabled come back; test connections never do
+      const server = await db.mcpServer.findUnique({ where: { id: config.id } }).catch(() => null);
+      if (!server?.enabled || this.clients.has(config.id)) return;
+
+      try {
+        await this.connectServer(toMcpServerConfig(server));
+      } catch {
+        this.scheduleRestart(config);
+      }
+    }, delay);
   }
 
   private async cleanupServer(serverId: string): Promise<void> {
-    // Clean up without trying to close already-dead connections
+    // Drop the dead connection; closing may fail since the other end is already gone
     const config = this.serverConfigs.get(serverId);
+    const transport = this.transports.get(serverId);
     
     this.clients.delete(serverId);
     this.transports.delete(serverId);
     this.serverConfigs.delete(serverId);
+    await transport?.close().catch(() => {});
     
     console.log(`[MCP] Cleaned up dead server: ${config?.name || serverId}`);
   }
 
+  private connectionLost(serverId: string, error: unknown): void {
+    const config = this.serverConfigs.get(serverId);
+    if (config) {
+      this.handleConnectionLost(config, error instanceof Error ? error.message : String(error));
+    } else {
+      this.connectionStatus.set(serverId, 'error');
+      this.cleanupServer(serverId);
+    }
+  }
+
   // Start periodic health checks
   private startHealthCheck(): void {
     if (this.healthCheckInterval) {
@@ -200,9 +381,8 @@ class ServerMcpManager {
             // Quick health check - just ping the server
             await client.listTools();
           } catch (error) {
-            console.warn(`[MCP] Health check failed for ${config.name}, cleaning up:`, error);
-            this.connectionStatus.set(serverId, 'error');
-            this.cleanupServer(serverId);
+            console.warn(`[MCP] Health check failed for ${config.name}, restarting:`, error);
+            this.handleConnectionLost(config, `Health check failed: ${error instanceof Error ? error.message : String(error)}`);
           }
         }
       }
@@ -221,8 +401,10 @@ class ServerMcpManager {
     const config = this.serverConfigs.get(serverId);
     const client = this.clients.get(serverId);
     const transport = this.transports.get(serverId);
+    this.clearSupervision(serverId);
     
     if (client || transport) {
+      this.stopping.add(serverId);
       try {
         // Cleanup connection
         if (client && typeof client.close === 'function') {
@@ -233,6 +415,8 @@ class ServerMcpManager {
         }
       } catch (error) {
         console.warn(`[MCP] Warning during disconnect of ${config?.name || serverId}:`, error);
+      } finally {
+        this.stopping.delete(serverId);
       }
       
       this.clients.delete(serverId);
@@ -244,34 +428,49 @@ class ServerMcpManager {
     }
   }
   
-  // Get all available tools from connected servers
-  async getAvailableTools(): Promise<ToolSchema[]> {
-    const allTools: ToolSchema[] = [];
+  // Get all available tools from connected servers, ordered by server name so routing is stable
+  async getAvailableTools(): Promise<McpToolEntry[]> {
+    const allTools: McpToolEntry[] = [];
+    const servers = Array.from(this.clients.entries())
+      .map(([serverId, client]) => {
+        const config = this.serverConfigs.get(serverId);
+        const serverName = config?.name || 'Unknown';
+        // Servers created before prefixes were stored fall back to their current name
+        return { serverId, client, serverName, toolPrefix: config?.toolPrefix ?? toMcpToolPrefix(serverName) };
+      })
+      .sort((a, b) => a.serverName.localeCompare(b.serverName) || a.serverId.localeCompare(b.serverId));
     
-    for (const [serverId, client] of this.clients.entries()) {
+    for (const { serverId, client, serverName, toolPrefix } of servers) {
       const status = this.connectionStatus.get(serverId);
       if (status === 'connected') {
         try {
           const response = await client.listTools();
-          const serverName = this.serverConfigs.get(serverId)?.name || 'Unknown';
+          const policies = await this.loadToolPolicies(serverId);
           
-          const serverTools: ToolSchema[] = response.tools.map(tool => ({
-            name: tool.name,
-            description: tool.description || `Tool from ${serverName}`,
-            parameters: {
-              type: 'object',
-              properties: (tool.inputSchema?.properties as Record<string, any>) || {},
-              required: tool.inputSchema?.required || []
-            }
-          }));
+          // Denied tools are never offered to the model
+          const serverTools: McpToolEntry[] = response.tools
+            .filter(tool => (policies.tools.get(tool.name) ?? policies.server) !== 'deny')
+            .map(tool => ({
+              serverId,
+              serverName,
+              toolPrefix,
+              tool: {
+                name: tool.name,
+                description: tool.description || `Tool from ${serverName}`,
+                parameters: {
+                  type: 'object',
+                  properties: (tool.inputSchema?.properties as Record<string, any>) || {},
+                  required: tool.inputSchema?.required || []
+                }
+              }
+            }));
           
           allTools.push(...serverTools);
           
         } catch (error) {
           console.error(`[MCP] Failed to list tools from server ${serverId}:`, error);
-          this.connectionStatus.set(serverId, 'error');
-          // Clean up the dead connection
-          this.cleanupServer(serverId);
+          // Replace the dead connection
+          this.connectionLost(serverId, error);
         }
       }
     }
@@ -305,53 +504,161 @@ class ServerMcpManager {
       
     } catch (error) {
       console.error(`[MCP] Failed to list tools from server ${serverId}:`, error);
-      this.connectionStatus.set(serverId, 'error');
-      // Clean up the dead connection
-      this.cleanupServer(serverId);
+      // Replace the dead connection
+      this.connectionLost(serverId, error);
       return [];
     }
   }
   
-  // Execute tool call (used by chat API)
-  async callTool(toolName: string, args: Record<string, any>): Promise<any> {
-    console.log(`[MCP] Executing tool: ${toolName} with args:`, args);
-    
-    for (const [serverId, client] of this.clients.entries()) {
-      const status = this.connectionStatus.get(serverId);
-      if (status === 'connected') {
-        try {
-          // Check if this server has the requested tool
-          const tools = await client.listTools();
-          const tool = tools.tools.find(t => t.name === toolName);
-          
-          if (tool) {
-            const serverName = this.serverConfigs.get(serverId)?.name || 'Unknown';
-            console.log(`[MCP] Found tool ${toolName} on server: ${serverName}`);
-            
-            const result = await client.callTool({
-              name: toolName,
-              arguments: args
-            });
-            
-            console.log(`[MCP] Tool ${toolName} executed successfully`);
-            return result.content;
-          }
-        } catch (error) {
-          const serverName = this.serverConfigs.get(serverId)?.name || 'Unknown';
-          console.error(`[MCP] Tool execution failed on server ${serverName}:`, error);
-          this.connectionStatus.set(serverId, 'error');
-          // Clean up the dead connection
-          this.cleanupServer(serverId);
-        }
-      }
+  // Execute a tool on a specific server (used by chat API). Failures reported by the
+  // server, or by the call itself, are thrown with the server's message. Aborting `signal`
+  // sends the server a cancellation.
+  async callTool(serverId: string, toolName: string, args: Record<string, any>, signal?: AbortSignal): Promise<any> {
+    const client = this.clients.get(serverId);
+    const serverName = this.serverConfigs.get(serverId)?.name || serverId;
+    if (!client || this.connectionStatus.get(serverId) !== 'connected') {
+      throw new Error(`MCP server "${serverName}" is not connected`);
     }
-    
-    throw new Error(`Tool "${toolName}" not found on any connected MCP server`);
+
+    console.log(`[MCP] Executing tool ${toolName} on server ${serverName} with args:`, args);
+    const result = await client.callTool({
+      name: toolName,
+      arguments: args
+    }, undefined, { signal });
+
+    if (result.isError) {
+      const content = Array.isArray(result.content) ? result.content : [];
+      const message = content
+        .map((c: any) => (c?.type === 'text' ? c.text : ''))
+        .filter(Boolean)
+        .join('\n');
+      throw new Error(message || `Tool "${toolName}" reported an error`);
+    }
+
+    console.log(`[MCP] Tool ${toolName} executed successfully`);
+    return result.content;
+  }
+
+  // Resources and prompts are optional capabilities; servers that don't advertise them have none
+  private getConnectedClient(serverId: string): Client | undefined {
+    return this.connectionStatus.get(serverId) === 'connected' ? this.clients.get(serverId) : undefined;
+  }
+
+  async listResources(serverId: string): Promise<McpResourceInfo[]> {
+    const client = this.getConnectedClient(serverId);
+    if (!client?.getServerCapabilities()?.resources) return [];
+
+    try {
+      const resources: McpResourceInfo[] = [];
+      let cursor: string | undefined;
+      do {
+        const response = await client.listResources(cursor ? { cursor } : undefined);
+        resources.push(...response.resources.map(r => ({
+          uri: r.uri,
+          name: r.name,
+          description: r.description,
+          mimeType: r.mimeType
+        })));
+        cursor = response.nextCursor;
+      } while (cursor);
+      return resources;
+    } catch (error) {
+      console.warn(`[MCP] Failed to list resources from server ${serverId}:`, error);
+      return [];
+    }
+  }
+
+  async readResource(serverId: string, uri: string): Promise<McpResourceContent[]> {
+    const client = this.getConnectedClient(serverId);
+    if (!client) {
+      throw new Error(`MCP server ${serverId} is not connected`);
+    }
+
+    const response = await client.readResource({ uri });
+    return response.contents.map(c => ({
+      uri: c.uri,
+      mimeType: c.mimeType,
+      ...('text' in c ? { text: String(c.text) } : { blob: String(c.blob) })
+    }));
+  }
+
+  async listPrompts(serverId: string): Promise<McpPromptInfo[]> {
+    const client = this.getConnectedClient(serverId);
+    if (!client?.getServerCapabilities()?.prompts) return [];
+
+    try {
+      const prompts: McpPromptInfo[] = [];
+      let cursor: string | undefined;
+      do {
+        const response = await client.listPrompts(cursor ? { cursor } : undefined);
+        prompts.push(...response.prompts.map(p => ({
+          name: p.name,
+          description: p.description,
+          arguments: (p.arguments ?? []).map(a => ({ name: a.name, description: a.description, required: !!a.required }))
+        })));
+        cursor = response.nextCursor;
+      } while (cursor);
+      return prompts;
+    } catch (error) {
+      console.warn(`[MCP] Failed to list prompts from server ${serverId}:`, error);
+      return [];
+    }
+  }
+
+  // Render a prompt template; only its text content is kept
+  async getPrompt(serverId: string, name: string, args: Record<string, string>): Promise<{ description?: string; messages: Array<{ role: 'user' | 'assistant'; text: string }> }> {
+    const client = this.getConnectedClient(serverId);
+    if (!client) {
+      throw new Error(`MCP server ${serverId} is not connected`);
+    }
+
+    const response = await client.getPrompt({ name, arguments: args });
+    return {
+      description: response.description,
+      messages: response.messages.flatMap(m => {
+        const content = m.content;
+        if (content.type === 'text') return [{ role: m.role, text: content.text }];
+        if (content.type === 'resource' && 'text' in content.resource) return [{ role: m.role, text: String(content.resource.text) }];
+        return [];
+      })
+    };
+  }
+
+  // Approval policy for a tool: its own override, else its server's default
+  async getToolPolicy(serverId: string, toolName: string): Promise<ToolPolicy> {
+    try {
+      const policies = await this.loadToolPolicies(serverId);
+      return policies.tools.get(toolName) ?? policies.server;
+    } catch (error) {
+      console.warn(`[MCP] Could not resolve policy for ${toolName} on ${serverId}:`, error);
+      return normalizeToolPolicy(undefined);
+    }
+  }
+
+  private async loadToolPolicies(serverId: string): Promise<{ server: ToolPolicy; tools: Map<string, ToolPolicy> }> {
+    const server = await db.mcpServer.findUnique({
+      where: { id: serverId },
+      select: { toolPolicy: true, toolPolicies: { select: { toolName: true, policy: true } } }
+    });
+    return {
+      server: normalizeToolPolicy(server?.toolPolicy),
+      tools: new Map((server?.toolPolicies ?? []).map(p => [p.toolName, normalizeToolPolicy(p.policy)]))
+    };
   }
   
   // Get connection status for all servers (for settings UI)
-  getServerStatuses(): Record<string, ConnectionStatus> {
-    return Object.fromEntries(this.connectionStatus.entries());
+  getServerStatuses(): Record<string, ServerHealth> {
+    return Object.fromEntries(Array.from(this.connectionStatus.entries()).map(([serverId, status]) => {
+      const supervision = this.supervision.get(serverId);
+      return [serverId, {
+        status,
+        restarts: supervision?.restarts ?? 0,
+        maxRestarts: MAX_RESTARTS,
+        lastError: supervision?.lastError ?? null,
+        nextRestartAt: supervision?.nextRestartAt ?? null,
+        stderr: supervision?.stderr ?? []
+      }];
+    }));
   }
   
   // Get server configuration
@@ -0,0 +1,59 @@
+/**
+ * MCP connection kinds, shared by the server manager and the settings UI
+ */
+
+// stdio spawns a local process; http (Streamable HTTP) and sse talk to a running server
+export const mcpTransports = ['stdio', 'http', 'sse'] as const;
+export type McpTransport = (typeof mcpTransports)[number];
+
+export const mcpTransportLabels: Record<McpTransport, string> = {
+  stdio: 'Local command (stdio)',
+  http: 'Streamable HTTP',
+  sse: 'Server-Sent Events (legacy)',
+};
+
+// One-line summary for logs and the server list
+export function describeMcpServer(config: { transport: McpTransport; command: string; args: string[]; url?: string | null }): string {
+  return config.transport === 'stdio' ? `${config.command} ${config.args.join(' ')}` : `${config.url ?? ''} (${config.transport})`;
+}
+
+// Slug of a server name that prefixes its offered tool names, e.g. "Filesystem Tools" -> `filesystem_tools`
+export function toMcpToolPrefix(serverName: string): string {
+  return serverName.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'mcp';
+}
+
+// Environment variable for a stdio server; secret values are write-only once saved
+export type McpEnvVar = { key: string; value: string; secret: boolean };
+
+// What the settings UI receives: secret values come back as null
+export type MaskedMcpEnvVar = { key: string; value: string | null; secret: boolean };
+
+export const MASKED_SECRET = '••••••••';
+
+/** Read the `env` column, dropping malformed entries */
+export function parseMcpEnv(value: unknown): McpEnvVar[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((entry) => {
+    if (!entry || typeof entry !== 'object') return [];
+    const { key, value, secret } = entry as Record<string, unknown>;
+    if (typeof key !== 'string' || !key || typeof value !== 'string') return [];
+    return [{ key, value, secret: secret === true }];
+  });
+}
+
+export function maskMcpEnv(env: McpEnvVar[]): MaskedMcpEnvVar[] {
+  return env.map(v => (v.secret ? { ...v, value: null } : v));
+}
+
+/** Read the `headers` column, dropping non-string values */
+export function parseMcpHeaders(value: unknown): Record<string, string> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+  );
+}
+
+// Headers usually carry tokens, so every value is write-only; the UI gets the names only
+export function maskMcpHeaders(headers: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.keys(headers).map(key => [key, MASKED_SECRET]));
+}
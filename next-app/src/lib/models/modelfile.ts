@@ -0,0 +1,198 @@
+/**
+ * Modelfile parsing, validation and formatting for creating model variants.
+ * Ollama's create API takes structured fields rather than Modelfile text, so the
+ * editor's text is parsed here and sent as a create request.
+ */
+
+export type ModelfileMessage = { role: 'system' | 'user' | 'assistant'; content: string }
+export type ModelfileParameterValue = number | boolean | string | string[]
+
+export type Modelfile = {
+  from: string
+  system?: string
+  template?: string
+  license?: string[]
+  parameters: Record<string, ModelfileParameterValue>
+  messages: ModelfileMessage[]
+}
+
+export type ModelfileIssue = { line: number; message: string }
+
+type ParameterKind = 'int' | 'float' | 'bool' | 'strings'
+
+// The runtime options Ollama accepts in a Modelfile; `stop` may be repeated
+export const modelfileParameters: Record<string, ParameterKind> = {
+  num_ctx: 'int',
+  num_predict: 'int',
+  num_keep: 'int',
+  num_batch: 'int',
+  num_gpu: 'int',
+  main_gpu: 'int',
+  num_thread: 'int',
+  seed: 'int',
+  top_k: 'int',
+  repeat_last_n: 'int',
+  mirostat: 'int',
+  temperature: 'float',
+  top_p: 'float',
+  min_p: 'float',
+  typical_p: 'float',
+  repeat_penalty: 'float',
+  presence_penalty: 'float',
+  frequency_penalty: 'float',
+  mirostat_tau: 'float',
+  mirostat_eta: 'float',
+  penalize_newline: 'bool',
+  use_mmap: 'bool',
+  stop: 'strings',
+}
+
+const unitIntervalParameters = new Set(['top_p', 'min_p', 'typical_p'])
+const messageRoles = ['system', 'user', 'assistant'] as const
+
+// Lowercase letters, digits, `.`, `_` and `-`, with an optional namespace and tag: `me/llama3-pirate:latest`
+const MODEL_NAME = /^[a-zA-Z0-9][a-zA-Z0-9._-]*(\/[a-zA-Z0-9][a-zA-Z0-9._-]*)?(:[a-zA-Z0-9][a-zA-Z0-9._-]{0,127})?$/
+
+export function validateModelName(name: string): string | null {
+  if (!name.trim()) return 'Enter a name for the new model'
+  if (!MODEL_NAME.test(name.trim())) return 'Use letters, digits, ".", "_" and "-", optionally with a namespace/ and a :tag'
+  return null
+}
+
+function parseParameterValue(name: string, raw: string): { value?: number | boolean | string; error?: string } {
+  const kind = modelfileParameters[name]
+  if (!kind) return { error: `Unknown parameter "${name}"` }
+  if (kind === 'strings') return { value: raw }
+  if (kind === 'bool') {
+    if (/^(true|false)$/i.test(raw)) return { value: raw.toLowerCase() === 'true' }
+    return { error: `${name} must be true or false` }
+  }
+  const value = Number(raw)
+  if (!raw || !Number.isFinite(value)) return { error: `${name} must be a number` }
+  if (kind === 'int' && !Number.isInteger(value)) return { error: `${name} must be a whole number` }
+  if (name !== 'seed' && value < 0) return { error: `${name} can't be negative` }
+  if (unitIntervalParameters.has(name) && value > 1) return { error: `${name} must be between 0 and 1` }
+  if (name === 'num_ctx' && value < 1) return { error: 'num_ctx must be at least 1' }
+  return { value }
+}
+
+function unquote(value: string): string {
+  return value.length >= 2 && value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1) : value
+}
+
+/**
+ * Parse Modelfile text. Parsing continues past problems so every issue is reported at once.
+ */
+export function parseModelfile(text: string): { modelfile: Modelfile; issues: ModelfileIssue[] } {
+  const modelfile: Modelfile = { from: '', parameters: {}, messages: [] }
+  const issues: ModelfileIssue[] = []
+  const lines = text.split(/\r?\n/)
+
+  for (let i = 0; i < lines.length; i++) {
+    const lineNumber = i + 1
+    const line = lines[i]!.trim()
+    if (!line || line.startsWith('#')) continue
+
+    const match = /^(\S+)\s*([\s\S]*)$/.exec(line)
+    const instruction = match?.[1]?.toUpperCase() ?? ''
+    let rest = match?.[2] ?? ''
+
+    // Triple-quoted values may span lines
+    const tripleStart = rest.search(/"""/)
+    if (tripleStart !== -1) {
+      const prefix = rest.slice(0, tripleStart)
+      let body = rest.slice(tripleStart + 3)
+      let end = body.indexOf('"""')
+      while (end === -1 && i + 1 < lines.length) {
+        body += '\n' + lines[++i]
+        end = body.indexOf('"""')
+      }
+      if (end === -1) {
+        issues.push({ line: lineNumber, message: 'Unterminated """ block' })
+        break
+      }
+      // A value ending in a quote runs into the closing quotes: `"""say "hi""""`
+      while (body[end + 3] === '"') end++
+      rest = prefix + body.slice(0, end)
+    } else {
+      rest = rest.trim()
+    }
+
+    switch (instruction) {
+      case 'FROM':
+        if (!rest.trim()) issues.push({ line: lineNumber, message: 'FROM needs a base model' })
+        modelfile.from = unquote(rest.trim())
+        break
+      case 'SYSTEM':
+        modelfile.system = tripleStart === -1 ? unquote(rest) : rest
+        break
+      case 'TEMPLATE':
+        modelfile.template = tripleStart === -1 ? unquote(rest) : rest
+        break
+      case 'LICENSE':
+        modelfile.license = [...(modelfile.license ?? []), tripleStart === -1 ? unquote(rest) : rest]
+        break
+      case 'PARAMETER': {
+        const [, name = '', raw = ''] = /^(\S+)\s*([\s\S]*)$/.exec(rest) ?? []
+        const { value, error } = parseParameterValue(name.toLowerCase(), unquote(raw.trim()))
+        if (error !== undefined || value === undefined) {
+          issues.push({ line: lineNumber, message: error ?? `PARAMETER ${name} needs a value` })
+          break
+        }
+        const key = name.toLowerCase()
+        if (modelfileParameters[key] === 'strings') {
+          const previous = modelfile.parameters[key]
+          modelfile.parameters[key] = [...(Array.isArray(previous) ? previous : []), String(value)]
+        } else {
+          modelfile.parameters[key] = value
+        }
+        break
+      }
+      case 'MESSAGE': {
+        const [, role = '', content = ''] = /^(\S+)\s*([\s\S]*)$/.exec(rest) ?? []
+        if (!messageRoles.includes(role.toLowerCase() as ModelfileMessage['role'])) {
+          issues.push({ line: lineNumber, message: `MESSAGE role must be system, user or assistant (got "${role}")` })
+          break
+        }
+        modelfile.messages.push({ role: role.toLowerCase() as ModelfileMessage['role'], content: tripleStart === -1 ? unquote(content) : content })
+        break
+      }
+      case 'ADAPTER':
+        issues.push({ line: lineNumber, message: 'ADAPTER is not supported here; create adapter models with the ollama CLI' })
+        break
+      default:
+        issues.push({ line: lineNumber, message: `Unknown instruction "${match?.[1] ?? line}"` })
+    }
+  }
+
+  if (!modelfile.from) issues.push({ line: 1, message: 'A FROM line with the base model is required' })
+  return { modelfile, issues }
+}
+
+export function quoteBlock(value: string): string {
+  return `"""${value}"""`
+}
+
+export function formatParameterValue(value: number | boolean | string): string {
+  return typeof value === 'string' && /\s|^$/.test(value) ? JSON.stringify(value) : String(value)
+}
+
+export function formatModelfile(modelfile: Modelfile): string {
+  const lines = [`FROM ${modelfile.from}`]
+  if (modelfile.template !== undefined) lines.push(`TEMPLATE ${quoteBlock(modelfile.template)}`)
+  if (modelfile.system !== undefined) lines.push(`SYSTEM ${quoteBlock(modelfile.system)}`)
+  for (const [name, value] of Object.entries(modelfile.parameters)) {
+    for (const item of Array.isArray(value) ? value : [value]) lines.push(`PARAMETER ${name} ${formatParameterValue(item)}`)
+  }
+  for (const message of modelfile.messages) lines.push(`MESSAGE ${message.role} ${quoteBlock(message.content)}`)
+  for (const license of modelfile.license ?? []) lines.push(`LICENSE ${quoteBlock(license)}`)
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * Modelfiles from `show` point FROM at a blob on the server; creating a variant needs the model's name instead
+ */
+export function modelfileFromShow(text: string, modelName: string): Modelfile {
+  const { modelfile } = parseModelfile(text)
+  return { ...modelfile, from: modelName }
+}
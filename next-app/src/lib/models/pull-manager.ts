@@ -0,0 +1,274 @@
+import 'server-only'
+import type { ProgressResponse } from 'ollama'
+import { db } from '~/server/db'
+import { getOllamaClient } from '~/lib/ollama/client'
+
+export type PullStatus = 'queued' | 'pulling' | 'completed' | 'cancelled' | 'error'
+
+export type PullLayer = { digest: string; total: number; completed: number }
+
+export type PullSnapshot = {
+  id: string
+  model: string
+  endpointId: string | null
+  status: PullStatus
+  phase: string | null
+  layers: PullLayer[]
+  total: number
+  completed: number
+  percent: number | null
+  bytesPerSecond: number | null
+  etaSeconds: number | null
+  error: string | null
+  createdAt: Date
+  startedAt: Date | null
+  finishedAt: Date | null
+}
+
+const MAX_CONCURRENT_PULLS = 2
+const HISTORY_LIMIT = 20
+// Speed is averaged over this window so it doesn't jump with every chunk
+const SPEED_WINDOW_MS = 10_000
+const UNFINISHED: PullStatus[] = ['queued', 'pulling']
+
+type ActivePull = {
+  id: string
+  model: string
+  endpointId: string | null
+  insecure: boolean
+  status: 'queued' | 'pulling'
+  phase: string | null
+  layers: Map<string, PullLayer>
+  samples: { at: number; completed: number }[]
+  createdAt: Date
+  startedAt: Date | null
+  cancelled: boolean
+  abort?: () => void
+}
+
+function sumLayers(layers: Iterable<PullLayer>): { total: number; completed: number } {
+  let total = 0
+  let completed = 0
+  for (const layer of layers) {
+    total += layer.total
+    completed += Math.min(layer.completed, layer.total)
+  }
+  return { total, completed }
+}
+
+/**
+ * Pulls run here rather than in the request that started them, so they survive the page
+ * being closed. Unfinished pulls are in memory and in the ModelPull table; the table is
+ * what lets a restarted server pick them up again.
+ */
+class PullManager {
+  // Insertion order is queue order
+  private pulls = new Map<string, ActivePull>()
+  private restored: Promise<void> | null = null
+
+  // Ollama keeps the layers it already downloaded, so re-pulling continues where it stopped
+  private restore(): Promise<void> {
+    this.restored ??= (async () => {
+      try {
+        const rows = await db.modelPull.findMany({ where: { status: { in: UNFINISHED } }, orderBy: { createdAt: 'asc' } })
+        for (const row of rows) {
+          this.pulls.set(row.id, {
+            id: row.id,
+            model: row.model,
+            endpointId: row.endpointId,
+            insecure: row.insecure,
+            status: 'queued',
+            phase: null,
+            layers: new Map(),
+            samples: [],
+            createdAt: row.createdAt,
+            startedAt: null,
+            cancelled: false,
+          })
+        }
+        if (rows.length > 0) {
+          await db.modelPull.updateMany({ where: { id: { in: rows.map(r => r.id) } }, data: { status: 'queued' } })
+        }
+      } catch (e) {
+        console.warn('[pulls] Failed to restore unfinished pulls', e)
+      }
+      this.pump()
+    })()
+    return this.restored
+  }
+
+  async enqueue(model: string, opts: { endpointId?: string | null; insecure?: boolean } = {}): Promise<PullSnapshot> {
+    await this.restore()
+    const name = model.trim()
+    const endpointId = opts.endpointId ?? null
+    const existing = [...this.pulls.values()].find(p => p.model === name && p.endpointId === endpointId)
+    if (existing) {
+      throw new Error(existing.status === 'queued' ? `${name} is already queued` : `${name} is already being pulled`)
+    }
+    const row = await db.modelPull.create({ data: { model: name, endpointId, insecure: !!opts.insecure } })
+    const pull: ActivePull = {
+      id: row.id,
+      model: name,
+      endpointId,
+      insecure: row.insecure,
+      status: 'queued',
+      phase: null,
+      layers: new Map(),
+      samples: [],
+      createdAt: row.createdAt,
+      startedAt: null,
+      cancelled: false,
+    }
+    this.pulls.set(pull.id, pull)
+    this.pump()
+    return this.snapshot(pull)
+  }
+
+  async cancel(id: string): Promise<void> {
+    await this.restore()
+    const pull = this.pulls.get(id)
+    if (!pull) throw new Error('This pull has already finished')
+    pull.cancelled = true
+    if (pull.status === 'queued') {
+      this.pulls.delete(id)
+      await db.modelPull.update({ where: { id }, data: { status: 'cancelled', finishedAt: new Date() } })
+      return
+    }
+    // run() records the cancellation once the stream stops
+    pull.abort?.()
+  }
+
+  /** Queue a failed or cancelled pull again as a new entry */
+  async retry(id: string): Promise<PullSnapshot> {
+    const row = await db.modelPull.findUnique({ where: { id } })
+    if (!row) throw new Error('Pull not found')
+    if (row.status !== 'error' && row.status !== 'cancelled') throw new Error('Only failed or cancelled pulls can be retried')
+    return this.enqueue(row.model, { endpointId: row.endpointId, insecure: row.insecure })
+  }
+
+  async list(): Promise<{ active: PullSnapshot[]; history: PullSnapshot[] }> {
+    await this.restore()
+    const rows = await db.modelPull.findMany({
+      where: { status: { notIn: UNFINISHED } },
+      orderBy: { createdAt: 'desc' },
+      take: HISTORY_LIMIT,
+    })
+    const history = rows.map((row): PullSnapshot => {
+      const total = row.totalBytes === null ? 0 : Number(row.totalBytes)
+      const completed = row.status === 'completed' ? total : 0
+      return {
+        id: row.id,
+        model: row.model,
+        endpointId: row.endpointId,
+        status: row.status as PullStatus,
+        phase: null,
+        layers: [],
+        total,
+        completed,
+        percent: row.status === 'completed' ? 100 : null,
+        bytesPerSecond: null,
+        etaSeconds: null,
+        error: row.error,
+        createdAt: row.createdAt,
+        startedAt: row.startedAt,
+        finishedAt: row.finishedAt,
+      }
+    })
+    return { active: [...this.pulls.values()].map(p => this.snapshot(p)), history }
+  }
+
+  async clearHistory(): Promise<{ count: number }> {
+    return db.modelPull.deleteMany({ where: { status: { notIn: UNFINISHED } } })
+  }
+
+  private pump(): void {
+    let running = [...this.pulls.values()].filter(p => p.status === 'pulling').length
+    for (const pull of this.pulls.values()) {
+      if (running >= MAX_CONCURRENT_PULLS) break
+      if (pull.status !== 'queued') continue
+      running++
+      void this.run(pull)
+    }
+  }
+
+  private async run(pull: ActivePull): Promise<void> {
+    pull.status = 'pulling'
+    pull.startedAt = new Date()
+    let outcome: { status: 'completed' | 'cancelled' | 'error'; error?: string }
+    try {
+      await db.modelPull.update({ where: { id: pull.id }, data: { status: 'pulling', startedAt: pull.startedAt } })
+      const { client } = await getOllamaClient({ endpointId: pull.endpointId })
+      const stream = await client.pull({ model: pull.model, insecure: pull.insecure, stream: true })
+      pull.abort = () => stream.abort()
+      if (pull.cancelled) stream.abort()
+      for await (const part of stream) this.track(pull, part)
+      outcome = { status: 'completed' }
+    } catch (e) {
+      outcome = pull.cancelled
+        ? { status: 'cancelled' }
+        : { status: 'error', error: String((e as Error)?.message ?? e) }
+    }
+
+    const { total } = sumLayers(pull.layers.values())
+    try {
+      await db.modelPull.update({
+        where: { id: pull.id },
+        data: {
+          status: outcome.status,
+          error: outcome.error ?? null,
+          finishedAt: new Date(),
+          totalBytes: total > 0 ? BigInt(total) : null,
+        },
+      })
+    } catch (e) {
+      console.warn(`[pulls] Failed to record the outcome of ${pull.model}`, e)
+    }
+    // Removed only after the row is final, so a pull is always either active or in the history
+    this.pulls.delete(pull.id)
+    this.pump()
+  }
+
+  private track(pull: ActivePull, part: ProgressResponse): void {
+    pull.phase = part.status || pull.phase
+    if (!part.digest || !(part.total > 0)) return
+    pull.layers.set(part.digest, { digest: part.digest, total: part.total, completed: part.completed ?? 0 })
+    const now = Date.now()
+    pull.samples.push({ at: now, completed: sumLayers(pull.layers.values()).completed })
+    while (pull.samples.length > 2 && now - pull.samples[0]!.at > SPEED_WINDOW_MS) pull.samples.shift()
+  }
+
+  private snapshot(pull: ActivePull): PullSnapshot {
+    const { total, completed } = sumLayers(pull.layers.values())
+    let bytesPerSecond: number | null = null
+    const first = pull.samples[0]
+    const last = pull.samples[pull.samples.length - 1]
+    if (first && last && last.at - first.at >= 1000) {
+      bytesPerSecond = Math.max(0, (last.completed - first.completed) / ((last.at - first.at) / 1000))
+    }
+    return {
+      id: pull.id,
+      model: pull.model,
+      endpointId: pull.endpointId,
+      status: pull.status,
+      phase: pull.phase,
+      layers: [...pull.layers.values()],
+      total,
+      completed,
+      percent: total > 0 ? Math.floor((completed / total) * 100) : null,
+      bytesPerSecond,
+      etaSeconds: bytesPerSecond ? Math.round((total - completed) / bytesPerSecond) : null,
+      error: null,
+      createdAt: pull.createdAt,
+      startedAt: pull.startedAt,
+      finishedAt: null,
+    }
+  }
+}
+
+const globalForPulls = globalThis as unknown as {
+  pullManager: PullManager | undefined
+}
+
+export const pullManager = globalForPulls.pullManager ?? new PullManager()
+
+globalForPulls.pullManager = pullManager
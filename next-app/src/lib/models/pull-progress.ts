@@ -0,0 +1,31 @@
+import { formatMemory } from '~/lib/models/running'
+
+type PullProgress = {
+  status: string
+  phase: string | null
+  total: number
+  completed: number
+  bytesPerSecond: number | null
+  etaSeconds: number | null
+}
+
+export function formatEta(seconds: number): string {
+  if (seconds < 60) return `${Math.max(1, Math.round(seconds))}s left`
+  const minutes = Math.round(seconds / 60)
+  if (minutes < 60) return `${minutes} min left`
+  const hours = Math.floor(minutes / 60)
+  const rest = minutes % 60
+  return `${hours}h${rest > 0 ? ` ${rest}m` : ''} left`
+}
+
+/** "1.20 GB of 4.70 GB · 25.0 MB/s · 2 min left", or Ollama's own phase while nothing is downloading */
+export function describePullProgress(pull: PullProgress): string {
+  if (pull.status === 'queued') return 'Queued'
+  if (pull.total <= 0 || pull.completed >= pull.total) {
+    return pull.phase ? pull.phase.charAt(0).toUpperCase() + pull.phase.slice(1) : 'Starting…'
+  }
+  const parts = [`${pull.completed > 0 ? formatMemory(pull.completed) : '0 MB'} of ${formatMemory(pull.total)}`]
+  if (pull.bytesPerSecond) parts.push(`${formatMemory(pull.bytesPerSecond)}/s`)
+  if (pull.etaSeconds !== null) parts.push(formatEta(pull.etaSeconds))
+  return parts.join(' · ')
+}
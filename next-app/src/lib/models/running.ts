@@ -0,0 +1,36 @@
+// Display helpers for models Ollama currently has in memory (`ollama ps`)
+
+// Ollama reports "keep forever" as an expiry centuries away
+const FOREVER_MS = 365 * 24 * 60 * 60 * 1000
+
+export function formatMemory(bytes: number): string {
+  if (!bytes || bytes <= 0) return '—'
+  const gb = bytes / (1024 * 1024 * 1024)
+  if (gb >= 0.1) return `${gb.toFixed(2)} GB`
+  const mb = bytes / (1024 * 1024)
+  return `${mb.toFixed(1)} MB`
+}
+
+/** Where the model lives, in the same terms as `ollama ps`: "100% GPU", "100% CPU" or "40%/60% CPU/GPU" */
+export function formatProcessor(size: number, sizeVram: number): string {
+  if (!size || size <= 0) return '—'
+  const gpu = Math.round((Math.min(sizeVram, size) / size) * 100)
+  if (gpu >= 100) return '100% GPU'
+  if (gpu <= 0) return '100% CPU'
+  return `${100 - gpu}%/${gpu}% CPU/GPU`
+}
+
+export function formatExpiry(expiresAt: string | null, now: number): string {
+  if (!expiresAt) return '—'
+  const remaining = new Date(expiresAt).getTime() - now
+  if (!Number.isFinite(remaining)) return '—'
+  if (remaining > FOREVER_MS) return 'Stays loaded'
+  if (remaining <= 0) return 'Unloading…'
+  const seconds = Math.round(remaining / 1000)
+  if (seconds < 60) return `Unloads in ${seconds}s`
+  const minutes = Math.round(seconds / 60)
+  if (minutes < 60) return `Unloads in ${minutes} min`
+  const hours = Math.floor(minutes / 60)
+  const rest = minutes % 60
+  return `Unloads in ${hours}h${rest > 0 ? ` ${rest}m` : ''}`
+}
@@ -1,8 +1,8 @@
 import 'server-only'
-import { Ollama } from 'ollama'
-
-const OLLAMA_BASE_URL = 'http://127.0.0.1:11434'
-const client = new Ollama({ host: OLLAMA_BASE_URL })
+import { Prisma } from '@prisma/client'
+import { db } from '~/server/db'
+import { getOllamaClient } from '~/lib/ollama/client'
+import type { Modelfile } from '~/lib/models/modelfile'
 
 export type OllamaModel = {
   name: string
@@ -13,14 +13,45 @@ export type OllamaModel = {
   quantization?: string
 }
 
+export type RunningModel = {
+  name: string
+  size: number
+  sizeVram: number
+  expiresAt: string | null
+  parameterSize?: string
+  quantization?: string
+}
+
+export type ThinkLevel = 'low' | 'medium' | 'high'
+
+const allThinkLevels: ThinkLevel[] = ['low', 'medium', 'high']
+
+export type DetectedCapabilities = {
+  completion: boolean
+  vision: boolean
+  tools: boolean
+  embedding: boolean
+  thinkLevels: ThinkLevel[]
+  contextLength: number | null
+}
+
+// Each flag replaces the probed value; `thinking` switches all think levels on or off
+export type CapabilityOverrides = Partial<Record<'completion' | 'vision' | 'tools' | 'embedding' | 'thinking', boolean>>
+
 export type CapabilityResponse = {
   model: string
-  capabilities: { completion: boolean; vision: boolean; tools: boolean }
-  think: { supported: boolean; levels: ('low' | 'medium' | 'high')[] }
+  digest: string | null
+  capabilities: { completion: boolean; vision: boolean; tools: boolean; embedding: boolean }
+  think: { supported: boolean; levels: ThinkLevel[] }
+  contextLength: number | null
+  detected: DetectedCapabilities
+  overrides: CapabilityOverrides
+  probedAt: Date | null
 }
 
-async function ping(): Promise<boolean> {
+async function ping(endpointId?: string | null): Promise<boolean> {
   try {
+    const { client } = await getOllamaClient({ endpointId })
     const res = await client.list() as any
     return Array.isArray(res?.models)
   } catch {
@@ -28,7 +59,8 @@ async function ping(): Promise<boolean> {
   }
 }
 
-async function listAvailableModels(): Promise<OllamaModel[]> {
+async function listAvailableModels(endpointId?: string | null): Promise<OllamaModel[]> {
+  const { client } = await getOllamaClient({ endpointId })
   const data = await client.list() as any
   const models = data?.models ?? []
   return models.map((m: any) => ({
@@ -41,35 +73,116 @@ async function listAvailableModels(): Promise<OllamaModel[]> {
   }))
 }
 
-async function showModel(model: string): Promise<any> {
+async function listRunning(endpointId?: string | null): Promise<RunningModel[]> {
+  const { client } = await getOllamaClient({ endpointId })
+  const data = await client.ps() as any
+  const models = data?.models ?? []
+  return models.map((m: any) => {
+    const expires = m.expires_at ? new Date(m.expires_at) : null
+    return {
+      name: m.name,
+      size: Number(m.size ?? 0),
+      sizeVram: Number(m.size_vram ?? 0),
+      expiresAt: expires && !Number.isNaN(expires.getTime()) ? expires.toISOString() : null,
+      parameterSize: m.details?.parameter_size,
+      quantization: m.details?.quantization_level,
+    }
+  })
+}
+
+// An empty generate only (re)loads the model and resets its expiry; keep-alive 0 unloads it
+async function setKeepAlive(model: string, keepAlive: string | number, endpointId?: string | null): Promise<{ ok: true }> {
+  const { client } = await getOllamaClient({ endpointId })
+  await client.generate({ model, prompt: '', keep_alive: keepAlive, stream: false })
+  return { ok: true }
+}
+
+async function showModel(model: string, endpointId?: string | null): Promise<any> {
+  const { client } = await getOllamaClient({ endpointId })
   return client.show({ model }) as any
 }
 
-async function pullModel(model: string, opts?: { insecure?: boolean }): Promise<{ ok: true }>{
+async function pullModel(model: string, opts?: { insecure?: boolean; endpointId?: string | null }): Promise<{ ok: true }>{
+  const { client } = await getOllamaClient({ endpointId: opts?.endpointId })
   // Non-streaming pull: await completion
   await client.pull({ model, insecure: !!opts?.insecure, stream: false } as any)
   return { ok: true }
 }
 
-async function deleteModel(model: string): Promise<{ ok: true }>{
+export type CreateProgress = { status: string; percent?: number }
+
+/**
+ * Create `model` from a parsed Modelfile, yielding Ollama's progress as it goes
+ */
+async function* createModel(model: string, modelfile: Modelfile, endpointId?: string | null): AsyncGenerator<CreateProgress> {
+  const { client } = await getOllamaClient({ endpointId })
+  const stream = await client.create({
+    model,
+    from: modelfile.from,
+    system: modelfile.system,
+    template: modelfile.template,
+    license: modelfile.license,
+    parameters: Object.keys(modelfile.parameters).length > 0 ? modelfile.parameters : undefined,
+    messages: modelfile.messages.length > 0 ? modelfile.messages : undefined,
+    stream: true,
+  })
+  for await (const part of stream) {
+    const percent = part.total > 0 && typeof part.completed === 'number'
+      ? Math.max(0, Math.min(100, Math.round((part.completed / part.total) * 100)))
+      : undefined
+    yield { status: String(part.status ?? ''), percent }
+  }
+}
+
+async function copyModel(source: string, destination: string, endpointId?: string | null): Promise<{ ok: true }> {
+  const { client } = await getOllamaClient({ endpointId })
+  await client.copy({ source, destination })
+  return { ok: true }
+}
+
+// Ollama has no rename; the copy shares the original's blobs, so this only rewrites the manifest
+async function renameModel(source: string, destination: string, endpointId?: string | null): Promise<{ ok: true }> {
+  const { client } = await getOllamaClient({ endpointId })
+  await client.copy({ source, destination })
+  await client.delete({ model: source })
+  return { ok: true }
+}
+
+async function deleteModel(model: string, endpointId?: string | null): Promise<{ ok: true }>{
+  const { client } = await getOllamaClient({ endpointId })
   await client.delete({ model } as any)
   return { ok: true }
 }
 
-async function getCapabilities(model: string): Promise<CapabilityResponse> {
+async function probeCapabilities(model: string, endpointId?: string | null): Promise<DetectedCapabilities> {
+  const { client } = await getOllamaClient({ endpointId })
   let declaredCapabilities: string[] = []
+  let contextLength: number | null = null
   try {
     const show: any = await client.show({ model })
     const caps = show?.capabilities
     if (Array.isArray(caps)) declaredCapabilities = caps.filter((c: unknown) => typeof c === 'string')
+    const info = show?.model_info && typeof show.model_info === 'object' ? show.model_info as Record<string, unknown> : {}
+    for (const [key, value] of Object.entries(info)) {
+      if (key.endsWith('.context_length') && typeof value === 'number' && value > 0) {
+        contextLength = value
+        break
+      }
+    }
   } catch {}
 
   const hasVision = declaredCapabilities.includes('vision')
+  const hasEmbedding = declaredCapabilities.includes('embedding')
   const hasCompletion = declaredCapabilities.includes('completion') || declaredCapabilities.length === 0
   const hasTools = declaredCapabilities.includes('tools')
 
-  const levels: ('low' | 'medium' | 'high')[] = []
-  const tryLevel = async (level: 'low' | 'medium' | 'high') => {
+  // Embedding-only models can't generate, so there is nothing to probe
+  if (!hasCompletion) {
+    return { completion: false, vision: hasVision, tools: false, embedding: hasEmbedding, thinkLevels: [], contextLength }
+  }
+
+  const levels: ThinkLevel[] = []
+  const tryLevel = async (level: ThinkLevel) => {
     try {
       await client.generate({
         model,
@@ -124,20 +237,129 @@ async function getCapabilities(model: string): Promise<CapabilityResponse> {
     }
   }
 
+  return { completion: true, vision: hasVision, tools: toolsSupported, embedding: hasEmbedding, thinkLevels: levels, contextLength }
+}
+
+async function findDigest(model: string, endpointId?: string | null): Promise<string | null> {
+  const { client } = await getOllamaClient({ endpointId })
+  const data = await client.list() as any
+  const models: any[] = data?.models ?? []
+  const match = models.find(m => m.name === model || m.name === `${model}:latest`)
+  return typeof match?.digest === 'string' ? match.digest : null
+}
+
+function normalizeOverrides(value: unknown): CapabilityOverrides {
+  if (!value || typeof value !== 'object') return {}
+  const overrides: CapabilityOverrides = {}
+  for (const key of ['completion', 'vision', 'tools', 'embedding', 'thinking'] as const) {
+    const flag = (value as Record<string, unknown>)[key]
+    if (typeof flag === 'boolean') overrides[key] = flag
+  }
+  return overrides
+}
+
+function toCapabilityResponse(model: string, digest: string | null, detected: DetectedCapabilities, overrides: CapabilityOverrides, probedAt: Date | null): CapabilityResponse {
+  const levels = overrides.thinking === undefined
+    ? detected.thinkLevels
+    : overrides.thinking
+      ? (detected.thinkLevels.length > 0 ? detected.thinkLevels : allThinkLevels)
+      : []
   return {
     model,
-    capabilities: { completion: hasCompletion, vision: hasVision, tools: toolsSupported },
+    digest,
+    capabilities: {
+      completion: overrides.completion ?? detected.completion,
+      vision: overrides.vision ?? detected.vision,
+      tools: overrides.tools ?? detected.tools,
+      embedding: overrides.embedding ?? detected.embedding,
+    },
     think: { supported: levels.length > 0, levels },
+    contextLength: detected.contextLength,
+    detected,
+    overrides,
+    probedAt,
   }
 }
 
+// Concurrent requests for the same model share one probe instead of each loading it
+const probes = new Map<string, Promise<DetectedCapabilities>>()
+
+/**
+ * Capabilities are probed once per model digest and stored; `refresh` probes again.
+ * Models without a digest (e.g. not installed on this endpoint) are probed every time.
+ */
+async function getCapabilities(model: string, endpointId?: string | null, opts?: { refresh?: boolean }): Promise<CapabilityResponse> {
+  let digest: string | null = null
+  try {
+    digest = await findDigest(model, endpointId)
+  } catch {}
+  if (!digest) {
+    return toCapabilityResponse(model, null, await probeCapabilities(model, endpointId), {}, null)
+  }
+
+  let row = opts?.refresh ? null : await db.modelCapability.findUnique({ where: { digest } })
+  if (!row) {
+    const key = digest
+    let probe = probes.get(key)
+    if (!probe) {
+      probe = probeCapabilities(model, endpointId).finally(() => probes.delete(key))
+      probes.set(key, probe)
+    }
+    const detected = await probe
+    const data = {
+      model,
+      completion: detected.completion,
+      vision: detected.vision,
+      tools: detected.tools,
+      embedding: detected.embedding,
+      thinkLevels: detected.thinkLevels,
+      contextLength: detected.contextLength,
+    }
+    // Overrides survive a re-probe
+    row = await db.modelCapability.upsert({
+      where: { digest },
+      create: { digest, ...data },
+      update: { ...data, probedAt: new Date() },
+    })
+  }
+
+  const storedLevels = Array.isArray(row.thinkLevels) ? row.thinkLevels : []
+  const detected: DetectedCapabilities = {
+    completion: row.completion,
+    vision: row.vision,
+    tools: row.tools,
+    embedding: row.embedding,
+    thinkLevels: allThinkLevels.filter(level => storedLevels.includes(level)),
+    contextLength: row.contextLength,
+  }
+  return toCapabilityResponse(model, digest, detected, normalizeOverrides(row.overrides), row.probedAt)
+}
+
+/** Replace the overrides for `model`; a null flag goes back to the probed value */
+async function setCapabilityOverrides(model: string, overrides: Partial<Record<keyof CapabilityOverrides, boolean | null>>, endpointId?: string | null): Promise<CapabilityResponse> {
+  const current = await getCapabilities(model, endpointId)
+  if (!current.digest) throw new Error(`${model} is not installed`)
+  const next = normalizeOverrides(overrides)
+  await db.modelCapability.update({
+    where: { digest: current.digest },
+    data: { overrides: Object.keys(next).length > 0 ? next : Prisma.DbNull },
+  })
+  return toCapabilityResponse(model, current.digest, current.detected, next, current.probedAt)
+}
+
 export const modelsService = {
   ping,
   listAvailableModels,
+  listRunning,
+  setKeepAlive,
   showModel,
   pullModel,
+  createModel,
+  copyModel,
+  renameModel,
   deleteModel,
   getCapabilities,
+  setCapabilityOverrides,
 }
 
 export type ModelsService = typeof modelsService
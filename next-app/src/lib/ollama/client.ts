@@ -0,0 +1,76 @@
+import 'server-only'
+import { Ollama } from 'ollama'
+import { db } from '~/server/db'
+import { DEFAULT_KEEP_ALIVE, toOllamaKeepAlive } from '~/lib/ollama/keep-alive'
+
+export const DEFAULT_OLLAMA_HOST = 'http://127.0.0.1:11434'
+
+export type ResolvedOllamaClient = {
+  client: Ollama
+  host: string
+  endpointId: string | null
+}
+
+// One Ollama instance per host; the client itself is stateless
+const clients = new Map<string, Ollama>()
+
+function clientForHost(host: string): Ollama {
+  let client = clients.get(host)
+  if (!client) {
+    client = new Ollama({ host })
+    clients.set(host, client)
+  }
+  return client
+}
+
+export function normalizeHost(host: string): string {
+  const trimmed = host.trim().replace(/\/+$/, '')
+  return /^https?:\/\//i.test(trimmed) ? trimmed : `http://${trimmed}`
+}
+
+/**
+ * Resolve which Ollama host to talk to.
+ * Order: explicit endpoint → the chat's endpoint → the default endpoint → 127.0.0.1:11434
+ */
+export async function getOllamaClient(opts: { endpointId?: string | null; chatId?: string | null } = {}): Promise<ResolvedOllamaClient> {
+  let endpoint: { id: string; host: string } | null = null
+  try {
+    if (opts.endpointId) {
+      endpoint = await db.ollamaEndpoint.findUnique({ where: { id: opts.endpointId }, select: { id: true, host: true } })
+    }
+    if (!endpoint && opts.chatId) {
+      const chat = await db.chat.findUnique({
+        where: { id: opts.chatId },
+        select: { endpoint: { select: { id: true, host: true } } },
+      })
+      endpoint = chat?.endpoint ?? null
+    }
+    if (!endpoint) {
+      endpoint = await db.ollamaEndpoint.findFirst({ where: { isDefault: true }, select: { id: true, host: true } })
+    }
+  } catch (e) {
+    console.warn('[ollama] Failed to resolve endpoint, using default host', e)
+  }
+
+  const host = endpoint ? normalizeHost(endpoint.host) : DEFAULT_OLLAMA_HOST
+  return { client: clientForHost(host), host, endpointId: endpoint?.id ?? null }
+}
+
+/** The configured keep-alive, ready to pass as `keep_alive` */
+export async function getDefaultKeepAlive(): Promise<string | number> {
+  try {
+    const settings = await db.appSettings.findUnique({ where: { id: 'default' }, select: { keepAlive: true } })
+    return toOllamaKeepAlive(settings?.keepAlive ?? DEFAULT_KEEP_ALIVE)
+  } catch (e) {
+    console.warn('[ollama] Failed to read the keep-alive setting, using the default', e)
+    return DEFAULT_KEEP_ALIVE
+  }
+}
+
+export function isConnectionRefused(err: unknown): boolean {
+  return /ECONNREFUSED|fetch failed|ENOTFOUND|EHOSTUNREACH/i.test(String((err as Error)?.message ?? err))
+}
+
+export function connectionErrorMessage(host: string, hint = 'Start Ollama (ollama serve).'): string {
+  return `Cannot connect to Ollama at ${host.replace(/^https?:\/\//i, '')}. ${hint}`
+}
@@ -0,0 +1,38 @@
+// Keep-alive values as Ollama understands them: a Go duration ("5m", "1h30m") or a
+// number of seconds. Negative values keep the model loaded until it is unloaded.
+
+export const DEFAULT_KEEP_ALIVE = '8m'
+
+export const keepAlivePresets = [
+  { value: '5m', label: '5 minutes' },
+  { value: '30m', label: '30 minutes' },
+  { value: '1h', label: '1 hour' },
+  { value: '4h', label: '4 hours' },
+  { value: '-1', label: 'Until unloaded' },
+] as const
+
+const DURATION = /^-?(\d+(\.\d+)?(ns|us|µs|ms|s|m|h))+$/
+const SECONDS = /^-?\d+$/
+
+/** Returns an error message, or null when `value` is a valid keep-alive */
+export function validateKeepAlive(value: string): string | null {
+  const v = value.trim()
+  if (!v) return 'Keep-alive is required'
+  if (!DURATION.test(v) && !SECONDS.test(v)) return 'Use a duration like 5m, 1h30m or 90s, or -1 to keep models loaded'
+  return null
+}
+
+/** Ollama only parses unit-less values when they are sent as numbers */
+export function toOllamaKeepAlive(value: string): string | number {
+  const v = value.trim()
+  return SECONDS.test(v) ? Number(v) : v
+}
+
+export function formatKeepAlive(value: string): string {
+  const v = value.trim()
+  if (v.startsWith('-')) return 'until unloaded'
+  if (/^0+$/.test(v)) return 'unload right away'
+  const preset = keepAlivePresets.find(p => p.value === v)
+  if (preset) return preset.label
+  return SECONDS.test(v) ? `${v} seconds` : v
+}
@@ -0,0 +1,143 @@
+import 'server-only'
+import { db } from '~/server/db'
+
+// FTS5 tables can't be declared in schema.prisma, so the index is created on first use
+const TABLE = 'message_fts'
+const HIGHLIGHT_START = '\u0001'
+const HIGHLIGHT_END = '\u0002'
+
+export type SearchHighlight = { text: string; match: boolean }
+
+export type MessageSearchResult = {
+  messageId: string
+  chatId: string
+  chatTitle: string
+  role: string
+  createdAt: Date
+  highlights: SearchHighlight[]
+}
+
+/** Text that should be findable: visible answer text plus reasoning */
+export function extractSearchText(parts: unknown): string {
+  if (!Array.isArray(parts)) return ''
+  return parts
+    .filter((p): p is { type: string; text: string } =>
+      !!p && typeof p === 'object' && (p.type === 'text' || p.type === 'reasoning') && typeof p.text === 'string')
+    .map(p => p.text)
+    .join('\n')
+    .trim()
+}
+
+let ready: Promise<void> | null = null
+
+function ensureIndex(): Promise<void> {
+  ready ??= (async () => {
+    const existing = await db.$queryRawUnsafe<{ name: string }[]>(
+      `SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?`, TABLE
+    )
+    if (existing.length > 0) return
+    await db.$executeRawUnsafe(
+      `CREATE VIRTUAL TABLE IF NOT EXISTS ${TABLE} USING fts5(content, messageId UNINDEXED, chatId UNINDEXED, tokenize = 'porter unicode61')`
+    )
+    // Backfill messages written before the index existed
+    const messages = await db.message.findMany({ select: { id: true, chatId: true, parts: true } })
+    for (const m of messages) {
+      const content = extractSearchText(m.parts)
+      if (content) {
+        await db.$executeRawUnsafe(`INSERT INTO ${TABLE} (content, messageId, chatId) VALUES (?, ?, ?)`, content, m.id, m.chatId)
+      }
+    }
+    console.log(`[search] Built message index (${messages.length} messages)`)
+  })().catch((e) => {
+    ready = null
+    throw e
+  })
+  return ready
+}
+
+async function indexMessage(message: { id: string; chatId: string; parts: unknown }): Promise<void> {
+  try {
+    await ensureIndex()
+    await db.$executeRawUnsafe(`DELETE FROM ${TABLE} WHERE messageId = ?`, message.id)
+    const content = extractSearchText(message.parts)
+    if (content) {
+      await db.$executeRawUnsafe(`INSERT INTO ${TABLE} (content, messageId, chatId) VALUES (?, ?, ?)`, content, message.id, message.chatId)
+    }
+  } catch (e) {
+    console.warn('[search] Failed to index message', message.id, e)
+  }
+}
+
+async function removeMessages(messageIds: string[]): Promise<void> {
+  if (messageIds.length === 0) return
+  try {
+    await ensureIndex()
+    const placeholders = messageIds.map(() => '?').join(', ')
+    await db.$executeRawUnsafe(`DELETE FROM ${TABLE} WHERE messageId IN (${placeholders})`, ...messageIds)
+  } catch (e) {
+    console.warn('[search] Failed to remove messages from index', e)
+  }
+}
+
+async function removeChat(chatId: string): Promise<void> {
+  try {
+    await ensureIndex()
+    await db.$executeRawUnsafe(`DELETE FROM ${TABLE} WHERE chatId = ?`, chatId)
+  } catch (e) {
+    console.warn('[search] Failed to remove chat from index', chatId, e)
+  }
+}
+
+/** Quote every term so user input can't break FTS5 syntax; the last term matches as a prefix */
+function toFtsQuery(input: string): string | null {
+  const terms = input.trim().split(/\s+/).filter(Boolean).map(t => `"${t.replace(/"/g, '""')}"`)
+  if (terms.length === 0) return null
+  terms[terms.length - 1] += '*'
+  return terms.join(' ')
+}
+
+function toHighlights(snippet: string): SearchHighlight[] {
+  const out: SearchHighlight[] = []
+  const re = new RegExp(`${HIGHLIGHT_START}([\\s\\S]*?)${HIGHLIGHT_END}`, 'g')
+  let last = 0
+  for (const m of snippet.matchAll(re)) {
+    if (m.index > last) out.push({ text: snippet.slice(last, m.index), match: false })
+    out.push({ text: m[1] ?? '', match: true })
+    last = m.index + m[0].length
+  }
+  if (last < snippet.length) out.push({ text: snippet.slice(last), match: false })
+  return out
+}
+
+async function search(query: string, opts: { limit?: number; chatId?: string } = {}): Promise<MessageSearchResult[]> {
+  const match = toFtsQuery(query)
+  if (!match) return []
+  await ensureIndex()
+  const rows = await db.$queryRawUnsafe<{ messageId: string; chatId: string; snippet: string; chatTitle: string; role: string; createdAt: Date | number | string }[]>(
+    `SELECT f.messageId AS messageId, f.chatId AS chatId,
+            snippet(${TABLE}, 0, ?, ?, '…', 16) AS snippet,
+            c.title AS chatTitle, m.role AS role, m.createdAt AS createdAt
+       FROM ${TABLE} f
+       JOIN Message m ON m.id = f.messageId
+       JOIN Chat c ON c.id = f.chatId
+      WHERE ${TABLE} MATCH ? ${opts.chatId ? 'AND f.chatId = ?' : ''}
+      ORDER BY bm25(${TABLE})
+      LIMIT ?`,
+    HIGHLIGHT_START, HIGHLIGHT_END, match, ...(opts.chatId ? [opts.chatId] : []), opts.limit ?? 20
+  )
+  return rows.map(r => ({
+    messageId: r.messageId,
+    chatId: r.chatId,
+    chatTitle: r.chatTitle,
+    role: r.role,
+    createdAt: new Date(r.createdAt),
+    highlights: toHighlights(r.snippet),
+  }))
+}
+
+export const messageSearchIndex = {
+  indexMessage,
+  removeMessages,
+  removeChat,
+  search,
+}
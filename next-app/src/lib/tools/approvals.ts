@@ -0,0 +1,72 @@
+/**
+ * Human-in-the-loop approval for tool calls
+ */
+
+export const toolPolicies = ['auto', 'ask', 'deny'] as const;
+export type ToolPolicy = (typeof toolPolicies)[number];
+
+// Applied to MCP tools that have no policy of their own and whose server has none either
+export const DEFAULT_MCP_TOOL_POLICY: ToolPolicy = 'ask';
+
+export function normalizeToolPolicy(value: unknown): ToolPolicy {
+  return toolPolicies.includes(value as ToolPolicy) ? (value as ToolPolicy) : DEFAULT_MCP_TOOL_POLICY;
+}
+
+export type ToolApprovalDecision =
+  | { approved: true; arguments?: Record<string, any> }
+  | { approved: false; reason?: string };
+
+// Unanswered requests are rejected so an abandoned tab doesn't hold the stream open forever
+const APPROVAL_TIMEOUT_MS = 10 * 60 * 1000;
+
+type PendingApproval = {
+  resolve: (decision: ToolApprovalDecision) => void;
+};
+
+/**
+ * Pending approvals keyed by tool call id. The chat route waits on `request` while the
+ * client answers through the mcp router, so both must share this instance.
+ */
+class ToolApprovalRegistry {
+  private pending = new Map<string, PendingApproval>();
+
+  request(callId: string, signal?: AbortSignal): Promise<ToolApprovalDecision> {
+    return new Promise((resolve) => {
+      const finish = (decision: ToolApprovalDecision) => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        this.pending.delete(callId);
+        resolve(decision);
+      };
+      const onAbort = () => finish({ approved: false, reason: 'The chat request was cancelled' });
+      const timer = setTimeout(
+        () => finish({ approved: false, reason: 'Nobody approved this tool call in time' }),
+        APPROVAL_TIMEOUT_MS
+      );
+
+      if (signal?.aborted) return onAbort();
+      signal?.addEventListener('abort', onAbort);
+      this.pending.set(callId, { resolve: finish });
+    });
+  }
+
+  /** Answer a pending request; false when it already timed out or was never asked */
+  respond(callId: string, decision: ToolApprovalDecision): boolean {
+    const pending = this.pending.get(callId);
+    if (!pending) return false;
+    pending.resolve(decision);
+    return true;
+  }
+
+  isPending(callId: string): boolean {
+    return this.pending.has(callId);
+  }
+}
+
+const globalForApprovals = globalThis as unknown as {
+  toolApprovals: ToolApprovalRegistry | undefined;
+};
+
+export const toolApprovals = globalForApprovals.toolApprovals ?? new ToolApprovalRegistry();
+
+globalForApprovals.toolApprovals = toolApprovals;
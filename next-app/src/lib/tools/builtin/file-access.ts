@@ -0,0 +1,65 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { db } from '~/server/db';
+
+/**
+ * Shared path handling for the built-in file tools. Every path a model passes is resolved
+ * (symlinks included) and must land inside one of the folders configured in Settings.
+ */
+
+// Bytes checked for NUL characters when deciding whether a file is binary
+const BINARY_SNIFF_BYTES = 8000;
+
+// Never descended into while searching; they are rarely what the model is after and can be huge
+export const IGNORED_DIRECTORIES = new Set(['.git', 'node_modules', '.next', 'dist', 'build', '.venv', '__pycache__']);
+
+export async function getAllowedRoots(): Promise<string[]> {
+  const roots = await db.fileAccessRoot.findMany({ orderBy: { path: 'asc' }, select: { path: true } });
+  return roots.map(r => r.path);
+}
+
+export async function hasAllowedRoots(): Promise<boolean> {
+  return (await db.fileAccessRoot.count()) > 0;
+}
+
+export function isInsideRoot(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative === '' || (relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative));
+}
+
+/**
+ * Resolve a requested path to a real absolute path inside an allowed folder.
+ * Relative paths are tried against each folder in turn.
+ */
+export async function resolveAllowedPath(requested: string, roots: string[]): Promise<string> {
+  if (roots.length === 0) {
+    throw new Error('No folders are shared with the file tools');
+  }
+  const candidates = path.isAbsolute(requested)
+    ? [path.resolve(requested)]
+    : roots.map(root => path.resolve(root, requested));
+
+  for (const candidate of candidates) {
+    let real: string;
+    try {
+      real = await fs.realpath(candidate);
+    } catch {
+      continue;
+    }
+    // A symlink inside a folder may still point outside of it
+    if (!roots.some(root => isInsideRoot(root, real))) {
+      throw new Error(`"${requested}" is outside the shared folders`);
+    }
+    return real;
+  }
+
+  // Don't confirm whether paths outside the folders exist
+  if (!candidates.some(candidate => roots.some(root => isInsideRoot(root, candidate)))) {
+    throw new Error(`"${requested}" is outside the shared folders`);
+  }
+  throw new Error(`"${requested}" does not exist`);
+}
+
+export function isBinary(buffer: Buffer): boolean {
+  return buffer.subarray(0, BINARY_SNIFF_BYTES).includes(0);
+}
@@ -4,9 +4,17 @@
 
 export { calculateTool } from './calculate';
 export { getTimeTool } from './get-time';
+export { runJavaScriptTool } from './run-javascript';
+export { listDirectoryTool } from './list-directory';
+export { readFileTool } from './read-file';
+export { searchFilesTool } from './search-files';
 
 import { calculateTool } from './calculate';
 import { getTimeTool } from './get-time';
+import { runJavaScriptTool } from './run-javascript';
+import { listDirectoryTool } from './list-directory';
+import { readFileTool } from './read-file';
+import { searchFilesTool } from './search-files';
 import { toolRegistry } from '../registry';
 
 /**
@@ -15,6 +23,10 @@ import { toolRegistry } from '../registry';
 export function registerBuiltinTools(): void {
   toolRegistry.register(calculateTool);
   toolRegistry.register(getTimeTool);
+  toolRegistry.register(runJavaScriptTool);
+  toolRegistry.register(listDirectoryTool);
+  toolRegistry.register(readFileTool);
+  toolRegistry.register(searchFilesTool);
 }
 
 /**
@@ -23,4 +35,8 @@ export function registerBuiltinTools(): void {
 export const builtinTools = [
   calculateTool,
   getTimeTool,
+  runJavaScriptTool,
+  listDirectoryTool,
+  readFileTool,
+  searchFilesTool,
 ];
@@ -0,0 +1,67 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { ToolFunction } from '../types';
+import { getAllowedRoots, hasAllowedRoots, resolveAllowedPath } from './file-access';
+
+const MAX_ENTRIES = 500;
+
+export interface DirectoryEntry {
+  name: string;
+  type: 'file' | 'directory' | 'symlink' | 'other';
+  size?: number;
+}
+
+/**
+ * Lists a folder inside the shared folders, or the shared folders themselves
+ */
+export const listDirectoryTool: ToolFunction = {
+  name: 'list_directory',
+  schema: {
+    name: 'list_directory',
+    description: 'Lists the files and folders in a directory on the user\'s machine. Only folders the user has shared are accessible; call without a path to get them.',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Absolute path, or a path relative to a shared folder. Omit to list the shared folders.'
+        }
+      },
+      required: []
+    }
+  },
+  isAvailable: hasAllowedRoots,
+  execute: async (args: Record<string, any> = {}) => {
+    const { path: requested } = args as { path?: string };
+    const roots = await getAllowedRoots();
+
+    if (!requested?.trim()) {
+      return { sharedFolders: roots };
+    }
+
+    const directory = await resolveAllowedPath(requested, roots);
+    const stat = await fs.stat(directory);
+    if (!stat.isDirectory()) {
+      throw new Error(`"${requested}" is a file, use read_file instead`);
+    }
+
+    const dirents = await fs.readdir(directory, { withFileTypes: true });
+    dirents.sort((a, b) => Number(b.isDirectory()) - Number(a.isDirectory()) || a.name.localeCompare(b.name));
+
+    const entries: DirectoryEntry[] = await Promise.all(
+      dirents.slice(0, MAX_ENTRIES).map(async (dirent): Promise<DirectoryEntry> => {
+        if (dirent.isDirectory()) return { name: dirent.name, type: 'directory' };
+        if (dirent.isSymbolicLink()) return { name: dirent.name, type: 'symlink' };
+        if (!dirent.isFile()) return { name: dirent.name, type: 'other' };
+        const { size } = await fs.stat(path.join(directory, dirent.name)).catch(() => ({ size: undefined }));
+        return { name: dirent.name, type: 'file', size };
+      })
+    );
+
+    return {
+      path: directory,
+      entries,
+      ...(dirents.length > MAX_ENTRIES ? { truncated: true, totalEntries: dirents.length } : {})
+    };
+  }
+};
@@ -0,0 +1,76 @@
+import { promises as fs } from 'node:fs';
+import type { ToolFunction } from '../types';
+import { getAllowedRoots, hasAllowedRoots, isBinary, resolveAllowedPath } from './file-access';
+
+// Larger files are refused outright; smaller ones are returned a window of lines at a time
+const MAX_FILE_BYTES = 10 * 1024 * 1024;
+const MAX_CONTENT_CHARS = 100_000;
+
+/**
+ * Reads a text file inside the shared folders
+ */
+export const readFileTool: ToolFunction = {
+  name: 'read_file',
+  schema: {
+    name: 'read_file',
+    description: `Reads a text file on the user's machine from one of the folders the user has shared. Returns up to ${MAX_CONTENT_CHARS} characters; when the result is truncated, call again with start_line set to the next line.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Absolute path, or a path relative to a shared folder'
+        },
+        start_line: {
+          type: 'number',
+          description: 'First line to return (1-based). Defaults to 1.',
+          default: 1
+        }
+      },
+      required: ['path']
+    }
+  },
+  isAvailable: hasAllowedRoots,
+  execute: async (args: Record<string, any>) => {
+    const { path: requested, start_line: startLine = 1 } = args as { path: string; start_line?: number };
+    if (typeof requested !== 'string' || !requested.trim()) {
+      throw new Error('A path is required');
+    }
+
+    const file = await resolveAllowedPath(requested, await getAllowedRoots());
+    const stat = await fs.stat(file);
+    if (stat.isDirectory()) {
+      throw new Error(`"${requested}" is a directory, use list_directory instead`);
+    }
+    if (stat.size > MAX_FILE_BYTES) {
+      throw new Error(`"${requested}" is ${(stat.size / 1024 / 1024).toFixed(1)} MB, larger than the ${MAX_FILE_BYTES / 1024 / 1024} MB limit`);
+    }
+
+    const buffer = await fs.readFile(file);
+    if (isBinary(buffer)) {
+      throw new Error(`"${requested}" is a binary file`);
+    }
+
+    const lines = buffer.toString('utf8').split(/\r?\n/);
+    const first = Math.max(1, Math.floor(Number(startLine) || 1));
+    let content = '';
+    let last = first - 1;
+    for (let i = first - 1; i < lines.length; i++) {
+      const next = (i === first - 1 ? '' : '\n') + lines[i];
+      // Always return at least part of the first line so a huge line can't stall paging
+      if (content.length + next.length > MAX_CONTENT_CHARS && i > first - 1) break;
+      content += next.slice(0, MAX_CONTENT_CHARS);
+      last = i + 1;
+    }
+
+    return {
+      path: file,
+      size: stat.size,
+      totalLines: lines.length,
+      startLine: first,
+      endLine: last,
+      content,
+      ...(last < lines.length ? { truncated: true, nextStartLine: last + 1 } : {})
+    };
+  }
+};
@@ -0,0 +1,172 @@
+import { Worker } from 'node:worker_threads';
+import type { ToolFunction } from '../types';
+
+const MAX_CODE_CHARS = 20_000;
+const MAX_OUTPUT_CHARS = 10_000;
+const CPU_TIMEOUT_MS = 5_000;
+// Covers worker startup and anything the CPU timeout can't interrupt
+const WALL_TIMEOUT_MS = 10_000;
+const MEMORY_LIMIT_MB = 64;
+
+export interface RunJavaScriptResult {
+  stdout: string;
+  result?: string;
+  error?: string;
+  outputTruncated?: boolean;
+  durationMs: number;
+}
+
+/*
+ * Runs inside the worker. The code gets a fresh V8 context holding only the language built-ins
+ * and a console that writes to a buffer: no require, process, timers, fetch or filesystem.
+ * Nothing from the worker's own realm is handed to the context; values coming back out are
+ * turned into strings by scripts running inside it, so user code never sees a host object.
+ */
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('node:worker_threads');
+const vm = require('node:vm');
+const { code, cpuTimeoutMs, maxOutputChars } = workerData;
+
+const context = vm.createContext(Object.create(null), { name: 'run_javascript', microtaskMode: 'afterEvaluate' });
+const inContext = (source) => vm.runInContext(source, context, { timeout: cpuTimeoutMs });
+
+inContext(\`
+  (() => {
+    const lines = [];
+    let size = 0;
+    const format = (value) => {
+      if (typeof value === 'string') return value;
+      try {
+        const json = JSON.stringify(value);
+        return json === undefined ? String(value) : json;
+      } catch {
+        return String(value);
+      }
+    };
+    const write = (...args) => {
+      if (size > \${maxOutputChars}) return;
+      const line = args.map(format).join(' ');
+      size += line.length + 1;
+      lines.push(line);
+    };
+    globalThis.console = { log: write, info: write, warn: write, error: write, debug: write };
+    globalThis.__readOutput = () => JSON.stringify({ stdout: lines.join('\\\\n'), truncated: size > \${maxOutputChars} });
+    globalThis.__describe = (value, isError) => {
+      if (isError) {
+        return value && typeof value === 'object' && 'message' in value
+          ? String(value.name || 'Error') + ': ' + String(value.message)
+          : 'Uncaught ' + format(value);
+      }
+      if (value !== null && (typeof value === 'object' || typeof value === 'function') && typeof value.then === 'function') {
+        return 'A Promise was returned; asynchronous code is not supported, compute the value synchronously';
+      }
+      return value === undefined ? undefined : format(value);
+    };
+  })()
+\`);
+
+const describe = (value, isError) => {
+  context.__value = value;
+  try {
+    return inContext('__describe(globalThis.__value, ' + isError + ')');
+  } finally {
+    delete context.__value;
+  }
+};
+
+let result;
+let error;
+try {
+  const value = new vm.Script(code, { filename: 'sandbox.js' }).runInContext(context, { timeout: cpuTimeoutMs });
+  result = describe(value, false);
+} catch (e) {
+  // The timeout error is created in the context's realm, so instanceof Error is false; match its code only
+  error = e?.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT'
+    ? 'Execution timed out after ' + cpuTimeoutMs / 1000 + 's of CPU time'
+    : describe(e, true);
+}
+
+const output = JSON.parse(inContext('__readOutput()'));
+parentPort.postMessage({ stdout: output.stdout, truncated: output.truncated, result, error });
+`;
+
+/**
+ * Execute model-written JavaScript in an isolated worker thread
+ */
+export const runJavaScriptTool: ToolFunction = {
+  name: 'run_javascript',
+  schema: {
+    name: 'run_javascript',
+    description: 'Runs a JavaScript snippet in an isolated sandbox and returns its console output and the value of the last expression. Use it to check calculations, string manipulation or data transformations. Only standard built-ins (Math, JSON, Date, RegExp, Array, Map, BigInt, Intl, ...) are available: no network, files, timers, modules or async code. Execution is limited to 5 seconds of CPU time and 64 MB of memory.',
+    parameters: {
+      type: 'object',
+      properties: {
+        code: {
+          type: 'string',
+          description: 'Synchronous JavaScript to run. Print with console.log; the last expression statement is returned as the result (e.g. "const xs = [3, 1, 2]; xs.sort(); xs")'
+        }
+      },
+      required: ['code']
+    }
+  },
+  execute: async (args: Record<string, any>): Promise<RunJavaScriptResult> => {
+    const { code } = args as { code: string };
+    const startedAt = Date.now();
+
+    if (typeof code !== 'string' || !code.trim()) {
+      return { stdout: '', error: 'No code provided', durationMs: 0 };
+    }
+    if (code.length > MAX_CODE_CHARS) {
+      return { stdout: '', error: `Code is longer than ${MAX_CODE_CHARS} characters`, durationMs: 0 };
+    }
+
+    return await new Promise<RunJavaScriptResult>((resolve) => {
+      const worker = new Worker(WORKER_SOURCE, {
+        eval: true,
+        workerData: { code, cpuTimeoutMs: CPU_TIMEOUT_MS, maxOutputChars: MAX_OUTPUT_CHARS },
+        env: {},
+        stdout: true,
+        stderr: true,
+        resourceLimits: {
+          maxOldGenerationSizeMb: MEMORY_LIMIT_MB,
+          maxYoungGenerationSizeMb: Math.ceil(MEMORY_LIMIT_MB / 4),
+          stackSizeMb: 4
+        }
+      });
+
+      let settled = false;
+      const finish = (result: Omit<RunJavaScriptResult, 'durationMs'>) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        void worker.terminate();
+        resolve({ ...result, durationMs: Date.now() - startedAt });
+      };
+
+      const timer = setTimeout(
+        () => finish({ stdout: '', error: `Execution timed out after ${WALL_TIMEOUT_MS / 1000}s` }),
+        WALL_TIMEOUT_MS
+      );
+
+      worker.once('message', (message: { stdout: string; truncated: boolean; result?: string; error?: string }) => {
+        finish({
+          stdout: message.stdout,
+          ...(message.result !== undefined ? { result: message.result } : {}),
+          ...(message.error ? { error: message.error } : {}),
+          ...(message.truncated ? { outputTruncated: true } : {})
+        });
+      });
+      worker.once('error', (error: Error & { code?: string }) => {
+        finish({
+          stdout: '',
+          error: error.code === 'ERR_WORKER_OUT_OF_MEMORY'
+            ? `Execution ran out of memory (limit ${MEMORY_LIMIT_MB} MB)`
+            : `Sandbox error: ${error.message}`
+        });
+      });
+      worker.once('exit', (exitCode) => {
+        finish({ stdout: '', error: `Sandbox exited unexpectedly (code ${exitCode})` });
+      });
+    });
+  }
+};
@@ -0,0 +1,117 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { ToolFunction } from '../types';
+import { IGNORED_DIRECTORIES, getAllowedRoots, hasAllowedRoots, isBinary, resolveAllowedPath } from './file-access';
+
+const MAX_MATCHES = 100;
+const MAX_FILES_SCANNED = 5_000;
+const MAX_SEARCHED_FILE_BYTES = 1024 * 1024;
+const MAX_LINE_CHARS = 200;
+
+export interface FileSearchMatch {
+  path: string;
+  line?: number;
+  text?: string;
+}
+
+// Turns a simple glob such as "*.ts" or "README*" into a file name matcher
+function toNameMatcher(pattern: string): RegExp {
+  const source = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * Searches file names and text contents inside the shared folders
+ */
+export const searchFilesTool: ToolFunction = {
+  name: 'search_files',
+  schema: {
+    name: 'search_files',
+    description: `Searches the folders the user has shared for files whose name or text contains the query (case-insensitive). Returns up to ${MAX_MATCHES} matches with line numbers. Folders such as .git and node_modules are skipped.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Text to look for'
+        },
+        path: {
+          type: 'string',
+          description: 'Directory to search in. Defaults to every shared folder.'
+        },
+        file_pattern: {
+          type: 'string',
+          description: 'Only search files whose name matches this glob, e.g. "*.md"'
+        }
+      },
+      required: ['query']
+    }
+  },
+  isAvailable: hasAllowedRoots,
+  execute: async (args: Record<string, any>) => {
+    const { query, path: requested, file_pattern: filePattern } = args as { query: string; path?: string; file_pattern?: string };
+    if (typeof query !== 'string' || !query.trim()) {
+      throw new Error('A query is required');
+    }
+
+    const roots = await getAllowedRoots();
+    const starts = requested?.trim() ? [await resolveAllowedPath(requested, roots)] : roots;
+    const needle = query.toLowerCase();
+    const nameMatcher = filePattern?.trim() ? toNameMatcher(filePattern.trim()) : null;
+
+    const matches: FileSearchMatch[] = [];
+    let filesScanned = 0;
+    let truncated = false;
+
+    // Symlinks are not followed, so the walk can't leave the shared folders or loop
+    const queue = [...starts];
+    while (queue.length > 0 && !truncated) {
+      const directory = queue.shift()!;
+      let dirents;
+      try {
+        dirents = await fs.readdir(directory, { withFileTypes: true });
+      } catch {
+        continue;
+      }
+
+      for (const dirent of dirents) {
+        const fullPath = path.join(directory, dirent.name);
+        if (dirent.isDirectory()) {
+          if (!IGNORED_DIRECTORIES.has(dirent.name)) queue.push(fullPath);
+          continue;
+        }
+        if (!dirent.isFile() || (nameMatcher && !nameMatcher.test(dirent.name))) continue;
+
+        if (++filesScanned > MAX_FILES_SCANNED || matches.length >= MAX_MATCHES) {
+          truncated = true;
+          break;
+        }
+        if (dirent.name.toLowerCase().includes(needle)) {
+          matches.push({ path: fullPath });
+        }
+
+        try {
+          const stat = await fs.stat(fullPath);
+          if (stat.size > MAX_SEARCHED_FILE_BYTES) continue;
+          const buffer = await fs.readFile(fullPath);
+          if (isBinary(buffer)) continue;
+          const lines = buffer.toString('utf8').split(/\r?\n/);
+          for (let i = 0; i < lines.length && matches.length < MAX_MATCHES; i++) {
+            if (lines[i]!.toLowerCase().includes(needle)) {
+              matches.push({ path: fullPath, line: i + 1, text: lines[i]!.trim().slice(0, MAX_LINE_CHARS) });
+            }
+          }
+        } catch {
+          // Unreadable files are skipped rather than failing the whole search
+        }
+      }
+    }
+
+    return {
+      query,
+      matches,
+      filesScanned: Math.min(filesScanned, MAX_FILES_SCANNED),
+      ...(truncated ? { truncated: true } : {})
+    };
+  }
+};
@@ -0,0 +1,233 @@
+/**
+ * User-defined tools that call an HTTP endpoint. A tool is a JSON schema for its arguments
+ * plus a request template; `{{argument}}` placeholders in the URL, headers and body are
+ * filled from the model's arguments.
+ */
+
+import type { ToolSchema } from './types';
+
+export const httpToolMethods = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'] as const;
+export type HttpToolMethod = (typeof httpToolMethods)[number];
+
+// Built-in names are unprefixed and MCP names contain `__`, so neither can collide with these
+export const HTTP_TOOL_NAME_PATTERN = /^[a-zA-Z][a-zA-Z0-9_-]{0,63}$/;
+
+const REQUEST_TIMEOUT_MS = 30_000;
+const MAX_RESPONSE_CHARS = 1_000_000;
+
+const PLACEHOLDER = /\{\{\s*([\w.-]+)\s*\}\}/g;
+const SOLE_PLACEHOLDER = /^\{\{\s*([\w.-]+)\s*\}\}$/;
+
+export interface HttpToolDefinition {
+  name: string;
+  description: string;
+  parameters: ToolSchema['parameters'];
+  method: HttpToolMethod;
+  url: string;
+  headers: Record<string, string>;
+  // JSON template; null sends the arguments the URL and headers don't use
+  body: string | null;
+}
+
+export interface HttpToolRequest {
+  method: HttpToolMethod;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+export interface HttpToolResponse {
+  status: number;
+  statusText: string;
+  contentType: string | null;
+  body: unknown;
+  truncated?: boolean;
+}
+
+export function isHttpToolMethod(value: unknown): value is HttpToolMethod {
+  return httpToolMethods.includes(value as HttpToolMethod);
+}
+
+export function isValidHttpToolName(name: string): boolean {
+  return HTTP_TOOL_NAME_PATTERN.test(name) && !name.includes('__');
+}
+
+/**
+ * Rebuild a definition from its database row; malformed JSON columns fall back to empty values
+ */
+export function toHttpToolDefinition(row: {
+  name: string;
+  description: string;
+  parameters: unknown;
+  method: string;
+  url: string;
+  headers: unknown;
+  body: string | null;
+}): HttpToolDefinition {
+  const parameters = row.parameters && typeof row.parameters === 'object' && !Array.isArray(row.parameters)
+    ? (row.parameters as Record<string, any>)
+    : {};
+  const headers = row.headers && typeof row.headers === 'object' && !Array.isArray(row.headers)
+    ? Object.fromEntries(Object.entries(row.headers).filter((e): e is [string, string] => typeof e[1] === 'string'))
+    : {};
+  return {
+    name: row.name,
+    description: row.description,
+    parameters: {
+      type: 'object',
+      properties: parameters.properties && typeof parameters.properties === 'object' ? parameters.properties : {},
+      ...(Array.isArray(parameters.required) ? { required: parameters.required } : {})
+    },
+    method: isHttpToolMethod(row.method) ? row.method : 'GET',
+    url: row.url,
+    headers,
+    body: row.body
+  };
+}
+
+export function toHttpToolSchema(definition: HttpToolDefinition): ToolSchema {
+  return { name: definition.name, description: definition.description, parameters: definition.parameters };
+}
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null;
+}
+
+function stringify(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function placeholdersIn(text: string): string[] {
+  return Array.from(text.matchAll(PLACEHOLDER), match => match[1]!);
+}
+
+function renderUrl(template: string, args: Record<string, unknown>): string {
+  const queryStart = template.indexOf('?');
+  const pathPart = queryStart === -1 ? template : template.slice(0, queryStart);
+  const queryPart = queryStart === -1 ? '' : template.slice(queryStart + 1);
+
+  const path = pathPart.replace(PLACEHOLDER, (_, name: string) => {
+    if (isMissing(args[name])) throw new Error(`Missing argument "${name}" for the request URL`);
+    return encodeURIComponent(stringify(args[name]));
+  });
+
+  // Query pairs whose value is a single placeholder are dropped when the argument is missing
+  const pairs = queryPart.split('&').filter(Boolean).flatMap(pair => {
+    const [key = '', value = ''] = pair.split(/=(.*)/s);
+    const sole = SOLE_PLACEHOLDER.exec(value);
+    if (sole && isMissing(args[sole[1]!])) return [];
+    return [`${key}=${value.replace(PLACEHOLDER, (_, name: string) => encodeURIComponent(isMissing(args[name]) ? '' : stringify(args[name])))}`];
+  });
+
+  return pairs.length > 0 ? `${path}?${pairs.join('&')}` : path;
+}
+
+// A header with any missing placeholder is left out rather than sent half-filled, e.g. "Bearer "
+function renderHeaders(template: Record<string, string>, args: Record<string, unknown>): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const [key, value] of Object.entries(template)) {
+    const names = Array.from(value.matchAll(PLACEHOLDER), match => match[1]!);
+    if (names.some(name => isMissing(args[name]))) continue;
+    headers[key] = value.replace(PLACEHOLDER, (_, name: string) => stringify(args[name]));
+  }
+  return headers;
+}
+
+// A string that is only a placeholder takes the argument's own JSON type; missing ones drop the key
+function renderBodyValue(value: unknown, args: Record<string, unknown>): unknown {
+  if (typeof value === 'string') {
+    const sole = SOLE_PLACEHOLDER.exec(value);
+    if (sole) return args[sole[1]!];
+    return value.replace(PLACEHOLDER, (_, name: string) => (isMissing(args[name]) ? '' : stringify(args[name])));
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => renderBodyValue(item, args)).filter(item => item !== undefined);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .map(([key, item]) => [key, renderBodyValue(item, args)] as const)
+        .filter(([, item]) => item !== undefined)
+    );
+  }
+  return value;
+}
+
+/**
+ * Fill a tool's request template with the model's arguments.
+ * Arguments the URL, headers and body template don't mention are sent as query
+ * parameters for GET and DELETE, and as a JSON body otherwise when there is no body template.
+ */
+export function buildHttpToolRequest(definition: HttpToolDefinition, args: Record<string, unknown>): HttpToolRequest {
+  const used = new Set([
+    ...placeholdersIn(definition.url),
+    ...Object.values(definition.headers).flatMap(placeholdersIn),
+    ...(definition.body ? placeholdersIn(definition.body) : [])
+  ]);
+  const unused = Object.fromEntries(Object.entries(args).filter(([name, value]) => !used.has(name) && !isMissing(value)));
+
+  let url = renderUrl(definition.url, args);
+  const headers = renderHeaders(definition.headers, args);
+  const sendsBody = definition.method !== 'GET' && definition.method !== 'DELETE';
+  let body: string | undefined;
+
+  if (definition.body) {
+    let template: unknown;
+    try {
+      template = JSON.parse(definition.body);
+    } catch {
+      throw new Error(`The body template of ${definition.name} is not valid JSON`);
+    }
+    body = JSON.stringify(renderBodyValue(template, args));
+  } else if (sendsBody && Object.keys(unused).length > 0) {
+    body = JSON.stringify(unused);
+  } else if (!sendsBody && Object.keys(unused).length > 0) {
+    const query = new URLSearchParams(Object.entries(unused).map(([name, value]) => [name, stringify(value)]));
+    url += `${url.includes('?') ? '&' : '?'}${query.toString()}`;
+  }
+
+  if (body !== undefined && !Object.keys(headers).some(key => key.toLowerCase() === 'content-type')) {
+    headers['Content-Type'] = 'application/json';
+  }
+
+  if (!/^https?:\/\//i.test(url)) {
+    throw new Error(`The request URL must start with http:// or https:// (got "${url}")`);
+  }
+  return { method: definition.method, url, headers, ...(body !== undefined ? { body } : {}) };
+}
+
+export async function sendHttpToolRequest(request: HttpToolRequest, signal?: AbortSignal): Promise<HttpToolResponse> {
+  const timeout = AbortSignal.timeout(REQUEST_TIMEOUT_MS);
+  const response = await fetch(request.url, {
+    method: request.method,
+    headers: request.headers,
+    body: request.body,
+    signal: signal ? AbortSignal.any([timeout, signal]) : timeout
+  });
+
+  const contentType = response.headers.get('content-type');
+  const text = await response.text();
+  const truncated = text.length > MAX_RESPONSE_CHARS;
+  let body: unknown = truncated ? text.slice(0, MAX_RESPONSE_CHARS) : text;
+  if (!truncated && contentType?.includes('json')) {
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // Keep the raw text when the server mislabels its response
+    }
+  }
+
+  return { status: response.status, statusText: response.statusText, contentType, body, ...(truncated ? { truncated: true } : {}) };
+}
+
+/**
+ * Run a tool call; non-2xx responses become errors so the model sees the call failed
+ */
+export async function executeHttpTool(definition: HttpToolDefinition, args: Record<string, unknown>, signal?: AbortSignal): Promise<unknown> {
+  const response = await sendHttpToolRequest(buildHttpToolRequest(definition, args), signal);
+  if (response.status < 200 || response.status >= 300) {
+    const detail = typeof response.body === 'string' ? response.body : JSON.stringify(response.body);
+    throw new Error(`HTTP ${response.status} ${response.statusText}${detail ? `: ${detail.slice(0, 500)}` : ''}`);
+  }
+  return response.body;
+}
@@ -5,6 +5,8 @@
 export * from './types';
 export * from './registry';
 export * from './builtin';
+export * from './approvals';
+export * from './selection';
 
 // Auto-register built-in tools when imported
 import { registerBuiltinTools } from './builtin';
@@ -0,0 +1,183 @@
+/**
+ * Turns the operations of an OpenAPI 3 document (JSON) into HTTP tool definitions
+ */
+
+import { httpToolMethods, type HttpToolDefinition } from './http-tools';
+
+// Nested $refs followed before giving up on a schema
+const MAX_REF_DEPTH = 8;
+const MAX_DESCRIPTION_CHARS = 1024;
+
+export interface OpenApiImport {
+  title: string;
+  tools: HttpToolDefinition[];
+  warnings: string[];
+}
+
+type JsonObject = Record<string, any>;
+
+function isObject(value: unknown): value is JsonObject {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function lookupPointer(document: JsonObject, ref: string): unknown {
+  if (!ref.startsWith('#/')) return undefined;
+  return ref
+    .slice(2)
+    .split('/')
+    .map(part => part.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce<unknown>((node, part) => (isObject(node) || Array.isArray(node) ? (node as JsonObject)[part] : undefined), document);
+}
+
+// Inlines local $refs so each tool's schema stands on its own; a cyclic ref becomes an open schema
+function dereference(document: JsonObject, value: unknown, chain: string[] = []): any {
+  if (Array.isArray(value)) return value.map(item => dereference(document, item, chain));
+  if (!isObject(value)) return value;
+  if (typeof value.$ref === 'string') {
+    if (chain.includes(value.$ref) || chain.length >= MAX_REF_DEPTH) return {};
+    return dereference(document, lookupPointer(document, value.$ref) ?? {}, [...chain, value.$ref]);
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, dereference(document, item, chain)]));
+}
+
+function toToolName(raw: string): string {
+  const name = raw
+    .replace(/[^a-zA-Z0-9_-]+/g, '_')
+    .replace(/_{2,}/g, '_')
+    .replace(/^[_-]+|[_-]+$/g, '')
+    .slice(0, 60);
+  return /^[a-zA-Z]/.test(name) ? name : `op_${name}`.slice(0, 60);
+}
+
+function resolveBaseUrl(document: JsonObject, override: string | undefined): string {
+  if (override?.trim()) return override.trim().replace(/\/+$/, '');
+  const server = Array.isArray(document.servers) ? document.servers[0] : undefined;
+  if (!isObject(server) || typeof server.url !== 'string') {
+    throw new Error('The document lists no servers; enter a base URL');
+  }
+  const variables: JsonObject = isObject(server.variables) ? server.variables : {};
+  const url = server.url.replace(/\{([^}]+)\}/g, (match: string, name: string) =>
+    isObject(variables[name]) && variables[name].default !== undefined ? String(variables[name].default) : match
+  );
+  if (!/^https?:\/\//i.test(url)) {
+    throw new Error(`The document's server URL "${server.url}" is not absolute; enter a base URL`);
+  }
+  return url.replace(/\/+$/, '');
+}
+
+/**
+ * Parse a JSON OpenAPI 3 document. Path, query and header parameters become template
+ * placeholders; a JSON request body's properties become arguments sent as the body.
+ */
+export function importOpenApiDocument(text: string, baseUrlOverride?: string): OpenApiImport {
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch {
+    throw new Error('The document is not valid JSON (YAML documents need converting to JSON first)');
+  }
+  if (!isObject(document)) {
+    throw new Error('The document is not an OpenAPI object');
+  }
+  if (typeof document.openapi !== 'string' || !document.openapi.startsWith('3')) {
+    throw new Error(typeof document.swagger === 'string' ? 'Swagger 2 documents are not supported, only OpenAPI 3' : 'Missing "openapi" version field');
+  }
+
+  const baseUrl = resolveBaseUrl(document, baseUrlOverride);
+  const warnings: string[] = [];
+  const tools: HttpToolDefinition[] = [];
+  const taken = new Set<string>();
+
+  if (document.security || isObject(document.components?.securitySchemes)) {
+    warnings.push('Authentication is not imported; add the API key or token to each tool\'s headers');
+  }
+
+  for (const [path, rawPathItem] of Object.entries(isObject(document.paths) ? document.paths : {})) {
+    const pathItem = dereference(document, rawPathItem);
+    if (!isObject(pathItem)) continue;
+
+    for (const method of httpToolMethods) {
+      const operation = pathItem[method.toLowerCase()];
+      if (!isObject(operation)) continue;
+      const label = `${method} ${path}`;
+
+      // Operation parameters override path-level ones with the same name and location
+      const parameters = new Map<string, JsonObject>();
+      for (const parameter of [...(pathItem.parameters ?? []), ...(operation.parameters ?? [])]) {
+        if (isObject(parameter) && typeof parameter.name === 'string') parameters.set(`${parameter.in}:${parameter.name}`, parameter);
+      }
+
+      const properties: Record<string, any> = {};
+      const required: string[] = [];
+      const query: string[] = [];
+      const headers: Record<string, string> = {};
+      let url = `${baseUrl}${path}`;
+
+      for (const parameter of parameters.values()) {
+        const { name } = parameter as { name: string };
+        if (parameter.in === 'cookie') {
+          warnings.push(`${label}: cookie parameter "${name}" was skipped`);
+          continue;
+        }
+        properties[name] = {
+          ...(isObject(parameter.schema) ? parameter.schema : { type: 'string' }),
+          ...(parameter.description ? { description: parameter.description } : {})
+        };
+        if (parameter.required || parameter.in === 'path') required.push(name);
+        if (parameter.in === 'path') url = url.split(`{${name}}`).join(`{{${name}}}`);
+        if (parameter.in === 'query') query.push(`${encodeURIComponent(name)}={{${name}}}`);
+        if (parameter.in === 'header') headers[name] = `{{${name}}}`;
+      }
+
+      let body: string | null = null;
+      if (isObject(operation.requestBody)) {
+        const content: JsonObject = isObject(operation.requestBody.content) ? operation.requestBody.content : {};
+        const jsonType = Object.keys(content).find(type => type === 'application/json' || type.endsWith('+json'));
+        const schema = jsonType && isObject(content[jsonType]) ? content[jsonType].schema : undefined;
+        if (!jsonType) {
+          warnings.push(`${label}: only JSON request bodies are supported, skipped`);
+          continue;
+        }
+        if (isObject(schema) && isObject(schema.properties) && (schema.type === undefined || schema.type === 'object')) {
+          // Properties that aren't path, query or header parameters are sent as the JSON body
+          for (const [name, property] of Object.entries(schema.properties)) {
+            if (name in properties) {
+              warnings.push(`${label}: body property "${name}" clashes with a parameter and was skipped`);
+              continue;
+            }
+            properties[name] = property;
+            if (Array.isArray(schema.required) && schema.required.includes(name)) required.push(name);
+          }
+        } else {
+          properties.body = isObject(schema) ? schema : {};
+          if (operation.requestBody.required) required.push('body');
+          body = '"{{body}}"';
+        }
+      }
+
+      const baseName = toToolName(typeof operation.operationId === 'string' ? operation.operationId : `${method.toLowerCase()}_${path}`);
+      let name = baseName;
+      for (let n = 2; taken.has(name); n++) name = `${baseName.slice(0, 56)}_${n}`;
+      taken.add(name);
+
+      const description = [operation.summary, operation.description]
+        .filter((part): part is string => typeof part === 'string' && !!part.trim())
+        .join('\n\n') || label;
+
+      tools.push({
+        name,
+        description: description.slice(0, MAX_DESCRIPTION_CHARS),
+        parameters: { type: 'object', properties, ...(required.length > 0 ? { required } : {}) },
+        method,
+        url: query.length > 0 ? `${url}?${query.join('&')}` : url,
+        headers,
+        body
+      });
+    }
+  }
+
+  if (tools.length === 0) {
+    throw new Error('The document has no operations that can be imported');
+  }
+  return { title: typeof document.info?.title === 'string' ? document.info.title : 'OpenAPI document', tools, warnings };
+}
@@ -1,11 +1,21 @@
-import type { ToolFunction, ToolSchema } from './types';
+import type { ToolEntry, ToolFunction, ToolSchema, ToolSource } from './types';
+import type { ToolPolicy } from './approvals';
+import { isToolSelected, type ToolSelection } from './selection';
+import { normalizeToolPolicy } from './approvals';
+import { executeHttpTool, toHttpToolDefinition, toHttpToolSchema, type HttpToolDefinition } from './http-tools';
 import { serverMcpManager } from '~/lib/mcp/server-client-manager';
+import { db } from '~/server/db';
+
+// Separates the server prefix from the tool's own name, e.g. `filesystem__read_file`
+const MCP_NAME_SEPARATOR = '__';
 
 /**
  * Tool Registry for managing available tools
  */
 export class ToolRegistry {
   private tools = new Map<string, ToolFunction>();
+  private routes = new Map<string, ToolSource>();
+  private httpTools: Map<string, HttpToolDefinition & { id: string; policy: ToolPolicy }> | null = null;
 
   /**
    * Register a new tool
@@ -22,21 +32,84 @@ export class ToolRegistry {
   }
 
   /**
-   * Get all available tool schemas for Ollama (including MCP tools)
+   * Load the enabled user-defined HTTP tools; runs on first use and again whenever they change
+   */
+  async reloadHttpTools(): Promise<void> {
+    const rows = await db.httpTool.findMany({ where: { enabled: true }, orderBy: { name: 'asc' } });
+    this.httpTools = new Map(rows.map(row => [row.id, { ...toHttpToolDefinition(row), id: row.id, policy: normalizeToolPolicy(row.policy) }]));
+    console.log(`[ToolRegistry] Loaded ${rows.length} HTTP tools`);
+  }
+
+  /**
+   * Get every available tool (built-in, HTTP and MCP) under the name the model sees.
+   * MCP tools are qualified with their server's name so servers can't shadow each other,
+   * and the routing table used by `execute` and `getPolicy` is rebuilt from the result.
    */
-  async list(): Promise<ToolSchema[]> {
-    // Start with built-in tools (always available)
-    const builtinTools = Array.from(this.tools.values()).map(tool => tool.schema);
+  async listEntries(): Promise<ToolEntry[]> {
+    // Start with built-in tools, minus any that need setup first (e.g. file tools without folders)
+    const builtinTools = await Promise.all(
+      Array.from(this.tools.values()).map(async tool => {
+        try {
+          return !tool.isAvailable || await tool.isAvailable() ? tool : null;
+        } catch (error) {
+          console.warn(`[ToolRegistry] Availability check for ${tool.name} failed:`, error);
+          return null;
+        }
+      })
+    );
+    const builtinEntries: ToolEntry[] = builtinTools.filter(tool => tool !== null).map(tool => ({
+      schema: tool.schema,
+      source: { kind: 'builtin' }
+    }));
     
+    let httpEntries: ToolEntry[] = [];
+    try {
+      if (!this.httpTools) await this.reloadHttpTools();
+      // Denied tools are never offered, like MCP tools; a built-in tool under the same name wins
+      httpEntries = Array.from(this.httpTools!.values())
+        .filter(tool => tool.policy !== 'deny' && !this.tools.has(tool.name))
+        .map(tool => ({ schema: toHttpToolSchema(tool), source: { kind: 'http', toolId: tool.id } }));
+    } catch (error) {
+      console.warn('[ToolRegistry] Failed to load HTTP tools:', error);
+    }
+
+    let mcpEntries: ToolEntry[] = [];
     try {
       // Add MCP tools from connected servers
       const mcpTools = await serverMcpManager.getAvailableTools();
-      console.log(`[ToolRegistry] Available tools: ${builtinTools.length} built-in + ${mcpTools.length} MCP`);
-      return [...builtinTools, ...mcpTools];
+
+      // Stored prefixes are unique; only servers created before they were stored can clash.
+      // Servers arrive in a stable order, so such a clash always resolves the same way
+      const prefixes = new Map<string, string>();
+      const taken = new Set<string>();
+      for (const { serverId, toolPrefix: base } of mcpTools) {
+        if (prefixes.has(serverId)) continue;
+        let prefix = base;
+        for (let n = 2; taken.has(prefix); n++) prefix = `${base}_${n}`;
+        taken.add(prefix);
+        prefixes.set(serverId, prefix);
+      }
+
+      mcpEntries = mcpTools.map(({ serverId, serverName, tool }) => ({
+        schema: { ...tool, name: `${prefixes.get(serverId)}${MCP_NAME_SEPARATOR}${tool.name}` },
+        source: { kind: 'mcp', serverId, serverName, toolName: tool.name }
+      }));
+      console.log(`[ToolRegistry] Available tools: ${builtinEntries.length} built-in + ${httpEntries.length} HTTP + ${mcpEntries.length} MCP`);
     } catch (error) {
       console.warn('[ToolRegistry] Failed to get MCP tools, using built-in only:', error);
-      return builtinTools;
     }
+
+    const entries = [...builtinEntries, ...httpEntries, ...mcpEntries];
+    this.routes = new Map(entries.map(entry => [entry.schema.name, entry.source]));
+    return entries;
+  }
+
+  /**
+   * Get the tool schemas for Ollama, limited to a chat's selection when it has one
+   */
+  async list(selection: ToolSelection | null = null): Promise<ToolSchema[]> {
+    const entries = await this.listEntries();
+    return entries.filter(entry => isToolSelected(selection, entry)).map(entry => entry.schema);
   }
   
   /**
@@ -68,12 +141,40 @@ export class ToolRegistry {
   }
 
   /**
-   * Execute a tool by name with arguments (tries built-in first, then MCP)
+   * Where a call to `name` goes; refreshes the routing table once for names it hasn't seen
    */
-  async execute(name: string, args: Record<string, any>): Promise<any> {
-    // Try built-in tools first (fastest path)
-    const builtinTool = this.tools.get(name);
-    if (builtinTool) {
+  async resolve(name: string): Promise<ToolSource | undefined> {
+    if (!this.routes.has(name)) await this.listEntries();
+    return this.routes.get(name);
+  }
+
+  /**
+   * Whether a call runs right away, waits for the user, or is refused.
+   * Built-in tools only compute or read (file tools stay inside shared folders) and always run;
+   * HTTP tools carry their own policy.
+   */
+  async getPolicy(name: string): Promise<ToolPolicy> {
+    const source = await this.resolve(name);
+    if (source?.kind === 'mcp') return await serverMcpManager.getToolPolicy(source.serverId, source.toolName);
+    if (source?.kind === 'http') return this.httpTools?.get(source.toolId)?.policy ?? 'deny';
+    // Unknown names run too, so `execute` reports them as unknown rather than blocked
+    return 'auto';
+  }
+
+  /**
+   * Execute a tool by the name the model was given. Aborting `signal` cancels HTTP and MCP calls.
+   */
+  async execute(name: string, args: Record<string, any>, signal?: AbortSignal): Promise<any> {
+    const source = await this.resolve(name);
+    if (!source) {
+      throw new Error(`Tool "${name}" not found in built-in tools or MCP servers`);
+    }
+
+    if (source.kind === 'builtin') {
+      const builtinTool = this.tools.get(name);
+      if (!builtinTool) {
+        throw new Error(`Built-in tool "${name}" is no longer registered`);
+      }
       try {
         console.log(`[ToolRegistry] Executing built-in tool: ${name}`);
         return await builtinTool.execute(args);
@@ -82,13 +183,24 @@ export class ToolRegistry {
       }
     }
     
-    // Try MCP tools if built-in not found
+    if (source.kind === 'http') {
+      const httpTool = this.httpTools?.get(source.toolId);
+      if (!httpTool) {
+        throw new Error(`HTTP tool "${name}" is no longer enabled`);
+      }
+      try {
+        console.log(`[ToolRegistry] Executing HTTP tool: ${name} (${httpTool.method} ${httpTool.url})`);
+        return await executeHttpTool(httpTool, args, signal);
+      } catch (error) {
+        throw new Error(`HTTP tool "${name}" failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
     try {
-      console.log(`[ToolRegistry] Tool ${name} not found in built-in, trying MCP servers...`);
-      return await serverMcpManager.callTool(name, args);
-    } catch (mcpError) {
-      // If MCP also fails, throw a comprehensive error
-      throw new Error(`Tool "${name}" not found in built-in tools or MCP servers`);
+      console.log(`[ToolRegistry] Routing ${name} to ${source.toolName} on MCP server ${source.serverName}`);
+      return await serverMcpManager.callTool(source.serverId, source.toolName, args, signal);
+    } catch (error) {
+      throw new Error(`MCP tool "${source.toolName}" on "${source.serverName}" failed: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 }
@@ -0,0 +1,36 @@
+/**
+ * Per-chat choice of which tools are offered to the model
+ */
+
+import type { ToolEntry } from './types';
+
+// Source keys for the built-in and user-defined HTTP tools; MCP servers are keyed by their id
+export const BUILTIN_TOOL_SOURCE = 'builtin';
+export const HTTP_TOOL_SOURCE = 'http';
+
+/**
+ * `sources` offers every tool of a source, `tools` adds single tools by their offered name.
+ * A chat without a selection (null) offers every available tool.
+ */
+export type ToolSelection = {
+  sources: string[];
+  tools: string[];
+};
+
+export function parseToolSelection(value: unknown): ToolSelection | null {
+  if (!value || typeof value !== 'object') return null;
+  const { sources, tools } = value as Record<string, unknown>;
+  const strings = (v: unknown) => (Array.isArray(v) ? v.filter((s): s is string => typeof s === 'string') : []);
+  return { sources: strings(sources), tools: strings(tools) };
+}
+
+export function getToolSourceKey(entry: ToolEntry): string {
+  if (entry.source.kind === 'builtin') return BUILTIN_TOOL_SOURCE;
+  if (entry.source.kind === 'http') return HTTP_TOOL_SOURCE;
+  return entry.source.serverId;
+}
+
+export function isToolSelected(selection: ToolSelection | null, entry: ToolEntry): boolean {
+  if (!selection) return true;
+  return selection.sources.includes(getToolSourceKey(entry)) || selection.tools.includes(entry.schema.name);
+}
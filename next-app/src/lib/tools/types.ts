@@ -16,16 +16,19 @@ export interface ToolFunction {
   name: string;
   schema: ToolSchema;
   execute: (args: Record<string, any>) => Promise<any>;
+  // Checked each time tools are listed; tools that aren't usable yet are left out
+  isAvailable?: () => Promise<boolean>;
 }
 
 export interface ToolCall {
   id: string;
   name: string;
   arguments: Record<string, any>;
-  state: 'input-streaming' | 'input-available' | 'output-available' | 'output-error';
+  state: 'input-streaming' | 'approval-requested' | 'input-available' | 'output-available' | 'output-error';
   phase: 'reasoning' | 'response';
   result?: any;
   error?: string;
+  durationMs?: number;
 }
 
 export interface ToolResult {
@@ -34,4 +37,17 @@ export interface ToolResult {
   result?: any;
   error?: string;
   phase: 'reasoning' | 'response';
+  durationMs?: number;
+}
+
+// Where a tool call is routed: a built-in function, a user-defined HTTP tool or a tool on a specific MCP server
+export type ToolSource =
+  | { kind: 'builtin' }
+  | { kind: 'http'; toolId: string }
+  | { kind: 'mcp'; serverId: string; serverName: string; toolName: string };
+
+// A tool as offered to the model; `schema.name` is unique across all sources
+export interface ToolEntry {
+  schema: ToolSchema;
+  source: ToolSource;
 }
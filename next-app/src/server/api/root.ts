@@ -5,6 +5,13 @@ import { createCallerFactory, createTRPCRouter } from "~/server/api/trpc";
 import { systemPromptsRouter } from "~/server/api/routers/system-prompts";
 import { pdfRouter } from "~/server/api/routers/pdf";
 import { mcpRouter } from "~/server/api/routers/mcp";
+import { endpointsRouter } from "~/server/api/routers/endpoints";
+import { generationPresetsRouter } from "~/server/api/routers/generation-presets";
+import { knowledgeBaseRouter } from "~/server/api/routers/knowledge-base";
+import { statsRouter } from "~/server/api/routers/stats";
+import { fileAccessRouter } from "~/server/api/routers/file-access";
+import { httpToolsRouter } from "~/server/api/routers/http-tools";
+import { pullsRouter } from "~/server/api/routers/pulls";
 
 /**
  * This is the primary router for your server.
@@ -18,6 +25,13 @@ export const appRouter = createTRPCRouter({
   systemPrompts: systemPromptsRouter,
   pdf: pdfRouter,
   mcp: mcpRouter,
+  endpoints: endpointsRouter,
+  generationPresets: generationPresetsRouter,
+  knowledgeBase: knowledgeBaseRouter,
+  stats: statsRouter,
+  fileAccess: fileAccessRouter,
+  httpTools: httpToolsRouter,
+  pulls: pullsRouter,
 });
 
 // export type definition of API
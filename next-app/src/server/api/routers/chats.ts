@@ -1,10 +1,71 @@
 import { z } from "zod";
+import { Prisma } from "@prisma/client";
 import { createTRPCRouter, publicProcedure } from "~/server/api/trpc";
+import { generationOptionsSchema, type GenerationOptions } from "~/lib/generation-options";
+import { messageSearchIndex } from "~/lib/search/message-index";
+import { CHAT_EXPORT_VERSION, type ChatExportBundle } from "~/lib/chat-export/types";
+import { renderHtml, renderMarkdown } from "~/lib/chat-export/render";
+import type { UIMessagePart } from "~/lib/chat-types";
+import { messagePartSchema } from "./messages";
+
+const chatExportBundleSchema = z.object({
+  version: z.literal(CHAT_EXPORT_VERSION),
+  chats: z.array(z.object({
+    id: z.string(),
+    title: z.string().min(1).max(200),
+    model: z.string().max(200).nullable().optional(),
+    createdAt: z.coerce.date().optional(),
+    lastMessageAt: z.coerce.date().nullable().optional(),
+    options: generationOptionsSchema.nullable().optional(),
+    systemPrompt: z.object({ title: z.string().min(1).max(200), content: z.string().min(1) }).nullable().optional(),
+    activeLeafId: z.string().nullable().optional(),
+    messages: z.array(z.object({
+      id: z.string(),
+      parentId: z.string().nullable().optional(),
+      role: z.enum(["USER", "ASSISTANT", "SYSTEM", "TOOL"]),
+      parts: z.array(messagePartSchema),
+      createdAt: z.coerce.date().optional(),
+      pinned: z.boolean().optional(),
+    })),
+  })).min(1),
+});
+
+const exportFiles = {
+  json: { extension: "json", mimeType: "application/json" },
+  markdown: { extension: "md", mimeType: "text/markdown" },
+  html: { extension: "html", mimeType: "text/html" },
+} as const;
+
+function toFileName(title: string): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 60);
+  return slug || "chat";
+}
+
+/**
+ * Parent links of imported messages, by bundle id. A hand-edited file can point at a message
+ * that is not in the chat, at the message itself or round in a cycle; such links become roots.
+ */
+function resolveParents(messages: { id: string; parentId?: string | null }[]): Map<string, string | null> {
+  const known = new Set(messages.map(m => m.id));
+  const parents = new Map(messages.map(m => [m.id, m.parentId && known.has(m.parentId) ? m.parentId : null]));
+  for (const { id } of messages) {
+    // Walk up from each message; getting back to it means its own link closes a cycle
+    const seen = new Set([id]);
+    for (let parent = parents.get(id); parent; parent = parents.get(parent)) {
+      if (seen.has(parent)) {
+        if (parent === id) parents.set(id, null);
+        break;
+      }
+      seen.add(parent);
+    }
+  }
+  return parents;
+}
 
 export const chatsRouter = createTRPCRouter({
   list: publicProcedure.input(z.void()).query(async ({ ctx }) => {
     const chats = await ctx.db.chat.findMany({
-      select: { id: true, title: true, model: true, lastSetModel: true, lastSetPrompt: true, createdAt: true, lastMessageAt: true, pinned: true, pinnedAt: true },
+      select: { id: true, title: true, model: true, lastSetModel: true, lastSetPrompt: true, lastSetOptions: true, endpointId: true, activeLeafId: true, createdAt: true, lastMessageAt: true, pinned: true, pinnedAt: true },
       orderBy: [
         { pinned: "desc" },
         { pinnedAt: "desc" },
@@ -34,7 +95,7 @@ export const chatsRouter = createTRPCRouter({
         title: input.title ?? "New Chat",
         model: input.model,
       },
-      select: { id: true, title: true, model: true, lastSetModel: true, lastSetPrompt: true, createdAt: true, lastMessageAt: true, pinned: true, pinnedAt: true },
+      select: { id: true, title: true, model: true, lastSetModel: true, lastSetPrompt: true, lastSetOptions: true, endpointId: true, activeLeafId: true, createdAt: true, lastMessageAt: true, pinned: true, pinnedAt: true },
     });
     return { chat };
   }),
@@ -45,7 +106,7 @@ export const chatsRouter = createTRPCRouter({
     const chat = await ctx.db.chat.update({
       where: { id: input.id },
       data: { title: input.title },
-      select: { id: true, title: true, model: true, lastSetModel: true, lastSetPrompt: true, createdAt: true, lastMessageAt: true, pinned: true, pinnedAt: true },
+      select: { id: true, title: true, model: true, lastSetModel: true, lastSetPrompt: true, lastSetOptions: true, endpointId: true, activeLeafId: true, createdAt: true, lastMessageAt: true, pinned: true, pinnedAt: true },
     });
     return { chat };
   }),
@@ -54,6 +115,7 @@ export const chatsRouter = createTRPCRouter({
     z.object({ id: z.string().uuid() })
   ).mutation(async ({ ctx, input }) => {
     await ctx.db.chat.delete({ where: { id: input.id } });
+    await messageSearchIndex.removeChat(input.id);
     return { ok: true } as const;
   }),
 
@@ -63,7 +125,7 @@ export const chatsRouter = createTRPCRouter({
     const chat = await ctx.db.chat.update({
       where: { id: input.id },
       data: { pinned: input.pinned, pinnedAt: input.pinned ? new Date() : null },
-      select: { id: true, title: true, model: true, lastSetModel: true, lastSetPrompt: true, createdAt: true, lastMessageAt: true, pinned: true, pinnedAt: true },
+      select: { id: true, title: true, model: true, lastSetModel: true, lastSetPrompt: true, lastSetOptions: true, endpointId: true, activeLeafId: true, createdAt: true, lastMessageAt: true, pinned: true, pinnedAt: true },
     });
     return { chat };
   }),
@@ -80,7 +142,7 @@ export const chatsRouter = createTRPCRouter({
         title: "New Chat", 
         lastSetModel: input.model 
       },
-      select: { id: true, title: true, model: true, lastSetModel: true, lastSetPrompt: true, createdAt: true, lastMessageAt: true, pinned: true, pinnedAt: true },
+      select: { id: true, title: true, model: true, lastSetModel: true, lastSetPrompt: true, lastSetOptions: true, endpointId: true, activeLeafId: true, createdAt: true, lastMessageAt: true, pinned: true, pinnedAt: true },
     });
     return { chat };
   }),
@@ -97,12 +159,184 @@ export const chatsRouter = createTRPCRouter({
         title: "New Chat", 
         lastSetPrompt: input.promptId 
       },
-      select: { id: true, title: true, model: true, lastSetModel: true, lastSetPrompt: true, createdAt: true, lastMessageAt: true, pinned: true, pinnedAt: true },
+      select: { id: true, title: true, model: true, lastSetModel: true, lastSetPrompt: true, lastSetOptions: true, endpointId: true, activeLeafId: true, createdAt: true, lastMessageAt: true, pinned: true, pinnedAt: true },
+    });
+    return { chat };
+  }),
+
+  setOptions: publicProcedure.input(
+    z.object({ id: z.string().uuid(), options: generationOptionsSchema.nullable() })
+  ).mutation(async ({ ctx, input }) => {
+    // Use upsert to handle cases where chat doesn't exist yet
+    const options = input.options ?? Prisma.DbNull;
+    const chat = await ctx.db.chat.upsert({
+      where: { id: input.id },
+      update: { lastSetOptions: options },
+      create: { 
+        id: input.id, 
+        title: "New Chat", 
+        lastSetOptions: options 
+      },
+      select: { id: true, title: true, model: true, lastSetModel: true, lastSetPrompt: true, lastSetOptions: true, endpointId: true, activeLeafId: true, createdAt: true, lastMessageAt: true, pinned: true, pinnedAt: true },
+    });
+    return { chat };
+  }),
+
+  setEndpoint: publicProcedure.input(
+    z.object({ id: z.string().uuid(), endpointId: z.string().nullable() })
+  ).mutation(async ({ ctx, input }) => {
+    // Use upsert to handle cases where chat doesn't exist yet
+    const chat = await ctx.db.chat.upsert({
+      where: { id: input.id },
+      update: { endpointId: input.endpointId },
+      create: { 
+        id: input.id, 
+        title: "New Chat", 
+        endpointId: input.endpointId 
+      },
+      select: { id: true, title: true, model: true, lastSetModel: true, lastSetPrompt: true, lastSetOptions: true, endpointId: true, activeLeafId: true, createdAt: true, lastMessageAt: true, pinned: true, pinnedAt: true },
     });
     return { chat };
   }),
 
+  // One chat or every chat, as a versioned JSON bundle or a readable Markdown/HTML document
+  export: publicProcedure.input(
+    z.object({ chatId: z.string().uuid().optional(), format: z.enum(["json", "markdown", "html"]) })
+  ).query(async ({ ctx, input }) => {
+    const chats = await ctx.db.chat.findMany({
+      where: input.chatId ? { id: input.chatId } : undefined,
+      orderBy: { createdAt: "asc" },
+      include: { messages: { orderBy: [{ createdAt: "asc" }, { index: "asc" }] } },
+    });
+    if (input.chatId && chats.length === 0) throw new Error("Chat not found");
+
+    const promptIds = chats.flatMap(c => (c.lastSetPrompt ? [c.lastSetPrompt] : []));
+    const prompts = new Map(
+      (await ctx.db.systemPrompt.findMany({ where: { id: { in: promptIds } }, select: { id: true, title: true, content: true } }))
+        .map(p => [p.id, p])
+    );
+
+    const bundle: ChatExportBundle = {
+      app: "localhost-11434",
+      version: CHAT_EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      chats: chats.map(c => {
+        // Chats from before branching have no parent pointers; they read top to bottom
+        const legacy = c.messages.every(m => m.parentId === null);
+        const prompt = c.lastSetPrompt ? prompts.get(c.lastSetPrompt) : undefined;
+        return {
+          id: c.id,
+          title: c.title,
+          model: c.lastSetModel ?? c.model,
+          createdAt: c.createdAt.toISOString(),
+          lastMessageAt: c.lastMessageAt?.toISOString() ?? null,
+          options: (c.lastSetOptions as GenerationOptions | null) ?? null,
+          systemPrompt: prompt ? { title: prompt.title, content: prompt.content } : null,
+          activeLeafId: c.activeLeafId,
+          messages: c.messages.map((m, i) => ({
+            id: m.id,
+            parentId: legacy ? c.messages[i - 1]?.id ?? null : m.parentId,
+            role: m.role,
+            parts: m.parts as unknown as UIMessagePart[],
+            createdAt: m.createdAt.toISOString(),
+            pinned: m.pinned,
+          })),
+        };
+      }),
+    };
+
+    const file = exportFiles[input.format];
+    const date = new Date().toISOString().slice(0, 10);
+    const baseName = input.chatId ? toFileName(chats[0]!.title) : "chats";
+    const content = input.format === "json"
+      ? JSON.stringify(bundle, null, 2)
+      : input.format === "markdown" ? renderMarkdown(bundle) : renderHtml(bundle);
+    return { fileName: `${baseName}-${date}.${file.extension}`, mimeType: file.mimeType, content };
+  }),
+
+  // Recreates chats from a JSON export under fresh ids, so importing twice never collides
+  import: publicProcedure.input(
+    z.object({ content: z.string().min(1) })
+  ).mutation(async ({ ctx, input }) => {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(input.content);
+    } catch {
+      throw new Error("File is not a JSON chat export");
+    }
+    const parsed = chatExportBundleSchema.safeParse(raw);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      throw new Error(`Invalid chat export${issue ? ` at ${issue.path.join(".") || "root"}: ${issue.message}` : ""}`);
+    }
+
+    const imported = [];
+    for (const chat of parsed.data.chats) {
+      const chatId = crypto.randomUUID();
+      const ids = new Map(chat.messages.map(m => [m.id, crypto.randomUUID()]));
+      const legacy = chat.messages.every(m => m.parentId === undefined);
+      const parents = resolveParents(legacy ? chat.messages.map((m, i) => ({ id: m.id, parentId: chat.messages[i - 1]?.id })) : chat.messages);
+
+      // Reuse an identical system prompt rather than piling up copies
+      let promptId: string | null = null;
+      if (chat.systemPrompt) {
+        const existing = await ctx.db.systemPrompt.findFirst({ where: { content: chat.systemPrompt.content }, select: { id: true } });
+        promptId = existing?.id ?? (await ctx.db.systemPrompt.create({
+          data: { id: crypto.randomUUID(), title: chat.systemPrompt.title, content: chat.systemPrompt.content, sections: "" },
+          select: { id: true },
+        })).id;
+      }
+
+      const messages = chat.messages.map((m, i) => {
+        const parentId = parents.get(m.id);
+        return {
+          id: ids.get(m.id)!,
+          chatId,
+          role: m.role,
+          parts: m.parts as unknown as object,
+          createdAt: m.createdAt,
+          index: i,
+          pinned: m.pinned ?? false,
+          parentId: parentId ? ids.get(parentId) ?? null : null,
+        };
+      });
+
+      const [created] = await ctx.db.$transaction([
+        ctx.db.chat.create({
+          data: {
+            id: chatId,
+            title: chat.title,
+            model: chat.model ?? null,
+            lastSetModel: chat.model ?? null,
+            lastSetPrompt: promptId,
+            lastSetOptions: chat.options ?? Prisma.DbNull,
+            activeLeafId: chat.activeLeafId ? ids.get(chat.activeLeafId) ?? null : null,
+            createdAt: chat.createdAt,
+            lastMessageAt: chat.lastMessageAt ?? messages[messages.length - 1]?.createdAt ?? null,
+          },
+          select: { id: true, title: true, model: true, lastSetModel: true, lastSetPrompt: true, lastSetOptions: true, endpointId: true, activeLeafId: true, createdAt: true, lastMessageAt: true, pinned: true, pinnedAt: true },
+        }),
+        ctx.db.message.createMany({ data: messages }),
+      ]);
+      for (const m of messages) {
+        await messageSearchIndex.indexMessage({ id: m.id, chatId, parts: m.parts });
+      }
+      imported.push(created);
+    }
+    return { chats: imported };
+  }),
 
+  // Remembers which branch of an edited/retried conversation is shown
+  setActiveLeaf: publicProcedure.input(
+    z.object({ id: z.string().uuid(), messageId: z.string().uuid().nullable() })
+  ).mutation(async ({ ctx, input }) => {
+    const chat = await ctx.db.chat.update({
+      where: { id: input.id },
+      data: { activeLeafId: input.messageId },
+      select: { id: true, activeLeafId: true },
+    });
+    return { chat };
+  }),
 });
 
 
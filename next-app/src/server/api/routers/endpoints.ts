@@ -0,0 +1,95 @@
+import { z } from "zod";
+import { Ollama } from "ollama";
+import { createTRPCRouter, publicProcedure } from "~/server/api/trpc";
+import { normalizeHost, isConnectionRefused, connectionErrorMessage } from "~/lib/ollama/client";
+
+const createEndpointSchema = z.object({
+  name: z.string().min(1, "Name is required").max(100),
+  host: z.string().min(1, "Host is required"),
+  isDefault: z.boolean().optional(),
+});
+
+const updateEndpointSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1).max(100).optional(),
+  host: z.string().min(1).optional(),
+});
+
+export const endpointsRouter = createTRPCRouter({
+  // List all Ollama endpoints, default first
+  list: publicProcedure.query(async ({ ctx }) => {
+    const endpoints = await ctx.db.ollamaEndpoint.findMany({
+      orderBy: [{ isDefault: "desc" }, { name: "asc" }],
+    });
+    return { endpoints };
+  }),
+
+  create: publicProcedure
+    .input(createEndpointSchema)
+    .mutation(async ({ ctx, input }) => {
+      // The first endpoint becomes the default so there is always one to fall back to
+      const count = await ctx.db.ollamaEndpoint.count();
+      const isDefault = input.isDefault ?? count === 0;
+      if (isDefault) {
+        await ctx.db.ollamaEndpoint.updateMany({ data: { isDefault: false } });
+      }
+      const endpoint = await ctx.db.ollamaEndpoint.create({
+        data: { name: input.name, host: normalizeHost(input.host), isDefault },
+      });
+      return { endpoint };
+    }),
+
+  update: publicProcedure
+    .input(updateEndpointSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { id, host, ...data } = input;
+      const endpoint = await ctx.db.ollamaEndpoint.update({
+        where: { id },
+        data: { ...data, ...(host ? { host: normalizeHost(host) } : {}) },
+      });
+      return { endpoint };
+    }),
+
+  // Chats pointing at a deleted endpoint fall back to the default (onDelete: SetNull)
+  delete: publicProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const removed = await ctx.db.ollamaEndpoint.delete({ where: { id: input.id } });
+      if (removed.isDefault) {
+        const next = await ctx.db.ollamaEndpoint.findFirst({ orderBy: { createdAt: "asc" } });
+        if (next) {
+          await ctx.db.ollamaEndpoint.update({ where: { id: next.id }, data: { isDefault: true } });
+        }
+      }
+      return { ok: true } as const;
+    }),
+
+  setDefault: publicProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await ctx.db.$transaction([
+        ctx.db.ollamaEndpoint.updateMany({ data: { isDefault: false } }),
+        ctx.db.ollamaEndpoint.update({ where: { id: input.id }, data: { isDefault: true } }),
+      ]);
+      return { ok: true } as const;
+    }),
+
+  // Test that a host answers before saving it
+  testConnection: publicProcedure
+    .input(z.object({ host: z.string().min(1) }))
+    .mutation(async ({ input }) => {
+      const host = normalizeHost(input.host);
+      try {
+        const res = (await new Ollama({ host }).list()) as any;
+        const count = Array.isArray(res?.models) ? res.models.length : 0;
+        return { success: true, message: `Connected to ${host} (${count} model${count === 1 ? "" : "s"})` };
+      } catch (error) {
+        return {
+          success: false,
+          error: isConnectionRefused(error)
+            ? connectionErrorMessage(host, "Check that Ollama is running and reachable.")
+            : error instanceof Error ? error.message : "Connection test failed",
+        };
+      }
+    }),
+});
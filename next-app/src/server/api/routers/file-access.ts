@@ -0,0 +1,44 @@
+import { z } from "zod";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { createTRPCRouter, publicProcedure } from "~/server/api/trpc";
+
+export const fileAccessRouter = createTRPCRouter({
+  // Folders the built-in file tools can read
+  listRoots: publicProcedure.query(async ({ ctx }) => {
+    const roots = await ctx.db.fileAccessRoot.findMany({ orderBy: { path: "asc" } });
+    return { roots };
+  }),
+
+  addRoot: publicProcedure
+    .input(z.object({ path: z.string().min(1, "Path is required") }))
+    .mutation(async ({ ctx, input }) => {
+      const requested = input.path.trim();
+      if (!path.isAbsolute(requested)) {
+        throw new Error("Use an absolute path");
+      }
+      // Stored with symlinks resolved so the tools compare real paths on both sides
+      let real: string;
+      try {
+        real = await fs.realpath(requested);
+      } catch {
+        throw new Error(`${requested} does not exist`);
+      }
+      if (!(await fs.stat(real)).isDirectory()) {
+        throw new Error(`${requested} is not a folder`);
+      }
+      const existing = await ctx.db.fileAccessRoot.findUnique({ where: { path: real } });
+      if (existing) {
+        throw new Error(`${real} is already shared`);
+      }
+      const root = await ctx.db.fileAccessRoot.create({ data: { path: real } });
+      return { root };
+    }),
+
+  removeRoot: publicProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await ctx.db.fileAccessRoot.delete({ where: { id: input.id } });
+      return { ok: true } as const;
+    }),
+});
@@ -0,0 +1,47 @@
+import { z } from "zod";
+import { createTRPCRouter, publicProcedure } from "~/server/api/trpc";
+import { generationOptionsSchema, type GenerationOptions } from "~/lib/generation-options";
+
+export const generationPresetsRouter = createTRPCRouter({
+  list: publicProcedure.input(z.void()).query(async ({ ctx }) => {
+    const presets = await ctx.db.generationPreset.findMany({
+      orderBy: [{ name: "asc" }],
+      select: { id: true, name: true, options: true, createdAt: true, updatedAt: true },
+    });
+    return { presets: presets.map(p => ({ ...p, options: p.options as GenerationOptions })) };
+  }),
+
+  create: publicProcedure.input(
+    z.object({
+      name: z.string().min(1).max(100),
+      options: generationOptionsSchema,
+    })
+  ).mutation(async ({ ctx, input }) => {
+    const preset = await ctx.db.generationPreset.create({
+      data: { name: input.name, options: input.options },
+      select: { id: true, name: true, options: true, createdAt: true, updatedAt: true },
+    });
+    return { preset: { ...preset, options: preset.options as GenerationOptions } };
+  }),
+
+  update: publicProcedure.input(
+    z.object({
+      id: z.string(),
+      name: z.string().min(1).max(100).optional(),
+      options: generationOptionsSchema.optional(),
+    })
+  ).mutation(async ({ ctx, input }) => {
+    const { id, ...data } = input;
+    const preset = await ctx.db.generationPreset.update({
+      where: { id },
+      data,
+      select: { id: true, name: true, options: true, createdAt: true, updatedAt: true },
+    });
+    return { preset: { ...preset, options: preset.options as GenerationOptions } };
+  }),
+
+  delete: publicProcedure.input(z.object({ id: z.string() })).mutation(async ({ ctx, input }) => {
+    await ctx.db.generationPreset.delete({ where: { id: input.id } });
+    return { ok: true } as const;
+  }),
+});
@@ -0,0 +1,171 @@
+import { z } from "zod";
+import { createTRPCRouter, publicProcedure } from "~/server/api/trpc";
+import { toolRegistry } from "~/lib/tools";
+import { toolPolicies } from "~/lib/tools/approvals";
+import {
+  buildHttpToolRequest,
+  httpToolMethods,
+  isValidHttpToolName,
+  sendHttpToolRequest,
+  toHttpToolDefinition,
+  type HttpToolRequest,
+  type HttpToolResponse,
+} from "~/lib/tools/http-tools";
+import { importOpenApiDocument } from "~/lib/tools/openapi";
+
+const definitionSchema = z.object({
+  name: z.string().refine(isValidHttpToolName, "Start with a letter and use only letters, digits, _ and - (no double underscores)"),
+  description: z.string().min(1, "Description is required").max(2000),
+  parameters: z.object({
+    type: z.literal("object"),
+    properties: z.record(z.string(), z.any()),
+    required: z.array(z.string()).optional(),
+  }),
+  method: z.enum(httpToolMethods),
+  url: z.string().min(1, "URL is required"),
+  headers: z.record(z.string(), z.string()),
+  body: z.string().nullable(),
+}).superRefine((definition, ctx) => {
+  if (definition.body === null) return;
+  try {
+    JSON.parse(definition.body);
+  } catch {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["body"], message: "Body template must be valid JSON" });
+  }
+});
+
+type HttpToolInput = z.infer<typeof definitionSchema>;
+
+function assertNotBuiltin(name: string) {
+  if (toolRegistry.has(name)) {
+    throw new Error(`"${name}" is the name of a built-in tool`);
+  }
+}
+
+function toData(input: HttpToolInput) {
+  return {
+    name: input.name,
+    description: input.description,
+    parameters: input.parameters,
+    method: input.method,
+    url: input.url,
+    headers: input.headers,
+    body: input.body,
+  };
+}
+
+export const httpToolsRouter = createTRPCRouter({
+  list: publicProcedure.query(async ({ ctx }) => {
+    const rows = await ctx.db.httpTool.findMany({ orderBy: { name: "asc" } });
+    return rows.map((row) => ({
+      ...toHttpToolDefinition(row),
+      id: row.id,
+      policy: row.policy,
+      enabled: row.enabled,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    }));
+  }),
+
+  create: publicProcedure
+    .input(definitionSchema.and(z.object({ policy: z.enum(toolPolicies).default("ask") })))
+    .mutation(async ({ ctx, input }) => {
+      assertNotBuiltin(input.name);
+      if (await ctx.db.httpTool.findUnique({ where: { name: input.name } })) {
+        throw new Error(`A tool named "${input.name}" already exists`);
+      }
+      const tool = await ctx.db.httpTool.create({ data: { ...toData(input), policy: input.policy } });
+      await toolRegistry.reloadHttpTools();
+      return { id: tool.id };
+    }),
+
+  update: publicProcedure
+    .input(definitionSchema.and(z.object({ id: z.string(), policy: z.enum(toolPolicies) })))
+    .mutation(async ({ ctx, input }) => {
+      assertNotBuiltin(input.name);
+      const clash = await ctx.db.httpTool.findUnique({ where: { name: input.name } });
+      if (clash && clash.id !== input.id) {
+        throw new Error(`A tool named "${input.name}" already exists`);
+      }
+      await ctx.db.httpTool.update({ where: { id: input.id }, data: { ...toData(input), policy: input.policy } });
+      await toolRegistry.reloadHttpTools();
+      return { ok: true } as const;
+    }),
+
+  setEnabled: publicProcedure
+    .input(z.object({ id: z.string(), enabled: z.boolean() }))
+    .mutation(async ({ ctx, input }) => {
+      await ctx.db.httpTool.update({ where: { id: input.id }, data: { enabled: input.enabled } });
+      await toolRegistry.reloadHttpTools();
+      return { ok: true } as const;
+    }),
+
+  setPolicy: publicProcedure
+    .input(z.object({ id: z.string(), policy: z.enum(toolPolicies) }))
+    .mutation(async ({ ctx, input }) => {
+      await ctx.db.httpTool.update({ where: { id: input.id }, data: { policy: input.policy } });
+      await toolRegistry.reloadHttpTools();
+      return { ok: true } as const;
+    }),
+
+  delete: publicProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await ctx.db.httpTool.delete({ where: { id: input.id } });
+      await toolRegistry.reloadHttpTools();
+      return { ok: true } as const;
+    }),
+
+  // Sends one request with sample arguments, saved or not, and reports exactly what went out
+  test: publicProcedure
+    .input(z.object({ definition: definitionSchema, arguments: z.record(z.string(), z.any()) }))
+    .mutation(async ({ input }) => {
+      const startedAt = Date.now();
+      let request: HttpToolRequest | undefined;
+      let response: HttpToolResponse | undefined;
+      let error: string | undefined;
+      try {
+        request = buildHttpToolRequest(input.definition, input.arguments);
+        response = await sendHttpToolRequest(request);
+      } catch (e) {
+        error = e instanceof Error ? e.message : String(e);
+      }
+      return { request, response, error, durationMs: Date.now() - startedAt };
+    }),
+
+  // Parses an OpenAPI document into drafts; nothing is saved until importTools
+  parseOpenApi: publicProcedure
+    .input(z.object({ document: z.string().min(1), baseUrl: z.string().optional() }))
+    .mutation(async ({ ctx, input }) => {
+      const result = importOpenApiDocument(input.document, input.baseUrl);
+      const existing = new Set(
+        (await ctx.db.httpTool.findMany({ select: { name: true } })).map((t) => t.name)
+      );
+      return {
+        ...result,
+        tools: result.tools.map((tool) => ({
+          ...tool,
+          conflict: existing.has(tool.name) || toolRegistry.has(tool.name),
+        })),
+      };
+    }),
+
+  importTools: publicProcedure
+    .input(z.object({ tools: z.array(definitionSchema).min(1), policy: z.enum(toolPolicies).default("ask") }))
+    .mutation(async ({ ctx, input }) => {
+      const names = input.tools.map((t) => t.name);
+      if (new Set(names).size !== names.length) {
+        throw new Error("Tool names must be unique");
+      }
+      names.forEach(assertNotBuiltin);
+      const clashes = await ctx.db.httpTool.findMany({ where: { name: { in: names } }, select: { name: true } });
+      if (clashes.length > 0) {
+        throw new Error(`Tools named ${clashes.map((t) => `"${t.name}"`).join(", ")} already exist`);
+      }
+      await ctx.db.$transaction(
+        input.tools.map((tool) => ctx.db.httpTool.create({ data: { ...toData(tool), policy: input.policy } }))
+      );
+      await toolRegistry.reloadHttpTools();
+      return { count: input.tools.length };
+    }),
+});
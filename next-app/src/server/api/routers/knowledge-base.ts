@@ -0,0 +1,154 @@
+import { z } from "zod";
+import { createTRPCRouter, publicProcedure } from "~/server/api/trpc";
+import { knowledgeBaseService } from "~/lib/knowledge-base/service";
+
+const collectionSelect = {
+  id: true,
+  name: true,
+  description: true,
+  embeddingModel: true,
+  endpointId: true,
+  createdAt: true,
+  updatedAt: true,
+  _count: { select: { documents: true } },
+} as const;
+
+const documentSelect = {
+  id: true,
+  collectionId: true,
+  fileName: true,
+  mimeType: true,
+  status: true,
+  error: true,
+  chunkCount: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+export const knowledgeBaseRouter = createTRPCRouter({
+  listCollections: publicProcedure.input(z.void()).query(async ({ ctx }) => {
+    const collections = await ctx.db.knowledgeCollection.findMany({
+      orderBy: [{ name: "asc" }],
+      select: collectionSelect,
+    });
+    return { collections };
+  }),
+
+  createCollection: publicProcedure.input(
+    z.object({
+      name: z.string().min(1).max(100),
+      description: z.string().max(500).optional(),
+      embeddingModel: z.string().min(1),
+      endpointId: z.string().nullish(),
+    })
+  ).mutation(async ({ ctx, input }) => {
+    const collection = await ctx.db.knowledgeCollection.create({
+      data: { name: input.name, description: input.description, embeddingModel: input.embeddingModel, endpointId: input.endpointId ?? null },
+      select: collectionSelect,
+    });
+    return { collection };
+  }),
+
+  updateCollection: publicProcedure.input(
+    z.object({
+      id: z.string(),
+      name: z.string().min(1).max(100).optional(),
+      description: z.string().max(500).nullable().optional(),
+      embeddingModel: z.string().min(1).optional(),
+      endpointId: z.string().nullish(),
+    })
+  ).mutation(async ({ ctx, input }) => {
+    const { id, ...data } = input;
+    const existing = await ctx.db.knowledgeCollection.findUniqueOrThrow({ where: { id }, select: { embeddingModel: true, endpointId: true } });
+    const collection = await ctx.db.knowledgeCollection.update({ where: { id }, data, select: collectionSelect });
+    // Vectors from another model are not comparable; documents must be reindexed
+    const modelChanged = (data.embeddingModel && data.embeddingModel !== existing.embeddingModel) ||
+      (data.endpointId !== undefined && (data.endpointId ?? null) !== existing.endpointId);
+    if (modelChanged) {
+      await ctx.db.knowledgeChunk.deleteMany({ where: { collectionId: id } });
+      await ctx.db.knowledgeDocument.updateMany({ where: { collectionId: id }, data: { status: "pending", chunkCount: 0 } });
+    }
+    return { collection, needsReindex: !!modelChanged };
+  }),
+
+  deleteCollection: publicProcedure.input(z.object({ id: z.string() })).mutation(async ({ ctx, input }) => {
+    await ctx.db.knowledgeCollection.delete({ where: { id: input.id } });
+    return { ok: true } as const;
+  }),
+
+  listDocuments: publicProcedure.input(z.object({ collectionId: z.string() })).query(async ({ ctx, input }) => {
+    const documents = await ctx.db.knowledgeDocument.findMany({
+      where: { collectionId: input.collectionId },
+      orderBy: [{ createdAt: "desc" }],
+      select: documentSelect,
+    });
+    return { documents };
+  }),
+
+  // Text is extracted client-side (file-upload parsers, pdf.extractText) before it gets here
+  addDocument: publicProcedure.input(
+    z.object({
+      collectionId: z.string(),
+      fileName: z.string().min(1),
+      mimeType: z.string().default("text/plain"),
+      content: z.string().min(1, "Document has no text content"),
+    })
+  ).mutation(async ({ ctx, input }) => {
+    const created = await ctx.db.knowledgeDocument.create({
+      data: { collectionId: input.collectionId, fileName: input.fileName, mimeType: input.mimeType, content: input.content },
+      select: { id: true },
+    });
+    const result = await knowledgeBaseService.indexDocument(created.id);
+    const document = await ctx.db.knowledgeDocument.findUniqueOrThrow({ where: { id: created.id }, select: documentSelect });
+    return { document, ...result };
+  }),
+
+  deleteDocument: publicProcedure.input(z.object({ id: z.string() })).mutation(async ({ ctx, input }) => {
+    await ctx.db.knowledgeDocument.delete({ where: { id: input.id } });
+    return { ok: true } as const;
+  }),
+
+  reindex: publicProcedure.input(
+    z.union([z.object({ collectionId: z.string() }), z.object({ documentId: z.string() })])
+  ).mutation(async ({ input }) => {
+    if ("documentId" in input) {
+      const res = await knowledgeBaseService.indexDocument(input.documentId);
+      return { ready: res.status === "ready" ? 1 : 0, failed: res.status === "error" ? 1 : 0 };
+    }
+    return knowledgeBaseService.reindexCollection(input.collectionId);
+  }),
+
+  search: publicProcedure.input(
+    z.object({
+      collectionIds: z.array(z.string()).min(1),
+      query: z.string().min(1),
+      topK: z.number().int().min(1).max(20).optional(),
+    })
+  ).query(async ({ input }) => {
+    const results = await knowledgeBaseService.search(input);
+    return { results };
+  }),
+
+  // Per-chat selection; the chat route retrieves from these collections before every reply
+  chatCollections: publicProcedure.input(z.object({ chatId: z.string() })).query(async ({ ctx, input }) => {
+    const chat = await ctx.db.chat.findUnique({
+      where: { id: input.chatId },
+      select: { knowledgeCollections: { select: { id: true } } },
+    });
+    return { collectionIds: chat?.knowledgeCollections.map(c => c.id) ?? [] };
+  }),
+
+  setChatCollections: publicProcedure.input(
+    z.object({ chatId: z.string().uuid(), collectionIds: z.array(z.string()) })
+  ).mutation(async ({ ctx, input }) => {
+    const refs = input.collectionIds.map(id => ({ id }));
+    // Use upsert to handle cases where chat doesn't exist yet
+    const chat = await ctx.db.chat.upsert({
+      where: { id: input.chatId },
+      update: { knowledgeCollections: { set: refs } },
+      create: { id: input.chatId, title: "New Chat", knowledgeCollections: { connect: refs } },
+      select: { knowledgeCollections: { select: { id: true } } },
+    });
+    return { collectionIds: chat.knowledgeCollections.map(c => c.id) };
+  }),
+});
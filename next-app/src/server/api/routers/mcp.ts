@@ -1,57 +1,151 @@
 import { z } from "zod";
+import { Prisma } from "@prisma/client";
 import { createTRPCRouter, publicProcedure } from "~/server/api/trpc";
-import { serverMcpManager } from "~/lib/mcp/server-client-manager";
+import { serverMcpManager, type McpServerConfig } from "~/lib/mcp/server-client-manager";
+import { toolApprovals, toolPolicies } from "~/lib/tools/approvals";
+import { toolRegistry } from "~/lib/tools";
+import { getToolSourceKey, parseToolSelection } from "~/lib/tools/selection";
+import { MASKED_SECRET, maskMcpEnv, maskMcpHeaders, parseMcpEnv, parseMcpHeaders, toMcpToolPrefix, type McpEnvVar } from "~/lib/mcp/transports";
 
-const createMcpServerSchema = z.object({
-  name: z.string().min(1, "Name is required"),
-  command: z.string().min(1, "Command is required"),
-  args: z.array(z.string()).min(1, "At least one argument is required")
+const headersSchema = z.record(z.string(), z.string());
+
+// A secret sent without a value keeps the value already stored under that key
+const envVarSchema = z.object({
+  key: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, "Invalid environment variable name"),
+  value: z.string().optional(),
+  secret: z.boolean().default(false)
 });
 
+// stdio servers are spawned from command/args; http and sse servers are reached at url
+const connectionSchema = z.discriminatedUnion("transport", [
+  z.object({
+    transport: z.literal("stdio"),
+    command: z.string().min(1, "Command is required"),
+    args: z.array(z.string()).min(1, "At least one argument is required"),
+    env: z.array(envVarSchema).optional(),
+    cwd: z.string().optional()
+  }),
+  z.object({
+    transport: z.enum(["http", "sse"]),
+    url: z.string().url("A valid URL is required"),
+    headers: headersSchema.optional()
+  })
+]);
+
+type McpConnection = z.infer<typeof connectionSchema>;
+
+function resolveEnv(incoming: z.infer<typeof envVarSchema>[], stored: McpEnvVar[]): McpEnvVar[] {
+  return incoming.map(v => ({
+    key: v.key,
+    secret: v.secret,
+    value: v.value ?? (v.secret ? stored.find(s => s.key === v.key)?.value : undefined) ?? ""
+  }));
+}
+
+// A header sent back masked keeps the value stored under that name; one with nothing stored is dropped
+function resolveHeaders(incoming: Record<string, string>, stored: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(incoming).flatMap(([key, value]) => {
+    if (value !== MASKED_SECRET) return [[key, value]];
+    return stored[key] === undefined ? [] : [[key, stored[key]]];
+  }));
+}
+
+type StoredSecrets = { env?: unknown; headers?: unknown } | null | undefined;
+
+// Columns for a connection; remote servers keep an empty command so the stdio columns stay required
+function toConnectionData(connection: McpConnection, stored?: StoredSecrets) {
+  return connection.transport === "stdio"
+    ? {
+        transport: connection.transport,
+        command: connection.command,
+        args: connection.args,
+        env: resolveEnv(connection.env ?? [], parseMcpEnv(stored?.env)),
+        cwd: connection.cwd?.trim() || null,
+        url: null,
+        headers: Prisma.DbNull
+      }
+    : { transport: connection.transport, command: "", args: [], env: [], cwd: null, url: connection.url, headers: resolveHeaders(connection.headers ?? {}, parseMcpHeaders(stored?.headers)) };
+}
+
+// Secret env values and header values never leave the server
+function maskServer<T extends { env: unknown; headers: unknown }>(server: T) {
+  return { ...server, env: maskMcpEnv(parseMcpEnv(server.env)), headers: maskMcpHeaders(parseMcpHeaders(server.headers)) };
+}
+
+const createMcpServerSchema = z.object({
+  name: z.string().min(1, "Name is required")
+}).and(connectionSchema);
+
 const updateMcpServerSchema = z.object({
   id: z.string(),
   name: z.string().min(1).optional(),
   enabled: z.boolean().optional(),
-  command: z.string().min(1).optional(),
-  args: z.array(z.string()).optional()
+  toolPolicy: z.enum(toolPolicies).optional(),
+  connection: connectionSchema.optional()
 });
 
+// Tool names are stored in chat selections and policies, so the prefix is fixed when the server is created
+function allocateToolPrefix(name: string, taken: Set<string>): string {
+  const base = toMcpToolPrefix(name);
+  let prefix = base;
+  for (let n = 2; taken.has(prefix); n++) prefix = `${base}_${n}`;
+  return prefix;
+}
+
 export const mcpRouter = createTRPCRouter({
   // List all MCP servers
   listServers: publicProcedure.query(async ({ ctx }) => {
-    return await ctx.db.mcpServer.findMany({
+    const servers = await ctx.db.mcpServer.findMany({
       orderBy: { name: 'asc' }
     });
+    return servers.map(maskServer);
   }),
   
   // Create new MCP server
   createServer: publicProcedure
     .input(createMcpServerSchema)
     .mutation(async ({ ctx, input }) => {
+      const { name, ...connection } = input;
+      const existing = await ctx.db.mcpServer.findMany({ select: { name: true, toolPrefix: true } });
+      const taken = new Set(existing.map(s => s.toolPrefix ?? toMcpToolPrefix(s.name)));
       const server = await ctx.db.mcpServer.create({
-        data: input
+        data: { name, toolPrefix: allocateToolPrefix(name, taken), ...toConnectionData(connection) }
       });
       
       // Refresh server connections to include the new server
       await serverMcpManager.refreshFromDatabase();
       
-      return server;
+      return maskServer(server);
     }),
     
   // Update MCP server
   updateServer: publicProcedure
     .input(updateMcpServerSchema)
     .mutation(async ({ ctx, input }) => {
-      const { id, ...data } = input;
+      const { id, connection, ...data } = input;
+      if (data.name) {
+        // Servers created before prefixes were stored keep the one derived from their old name
+        const current = await ctx.db.mcpServer.findUnique({ where: { id }, select: { name: true, toolPrefix: true } });
+        if (current && current.toolPrefix === null && current.name !== data.name) {
+          await ctx.db.mcpServer.update({ where: { id }, data: { toolPrefix: toMcpToolPrefix(current.name) } });
+        }
+      }
+      let connectionData = {};
+      if (connection) {
+        const existing = await ctx.db.mcpServer.findUnique({ where: { id }, select: { env: true, headers: true } });
+        connectionData = toConnectionData(connection, existing);
+        // Reconnect so the new command, env or URL takes effect
+        await serverMcpManager.disconnectServer(id);
+      }
       const server = await ctx.db.mcpServer.update({
         where: { id },
-        data
+        data: { ...data, ...connectionData }
       });
       
       // Refresh connections after update
       await serverMcpManager.refreshFromDatabase();
       
-      return server;
+      return maskServer(server);
     }),
     
   // Delete MCP server
@@ -81,10 +175,10 @@ export const mcpRouter = createTRPCRouter({
       // Refresh connections to apply the enabled/disabled state
       await serverMcpManager.refreshFromDatabase();
       
-      return server;
+      return maskServer(server);
     }),
     
-  // Real-time status information
+  // Real-time status plus restart count, last error and stderr tail from the supervisor
   getServerStatuses: publicProcedure.query(async () => {
     return serverMcpManager.getServerStatuses();
   }),
@@ -101,37 +195,164 @@ export const mcpRouter = createTRPCRouter({
       return await serverMcpManager.getServerTools(input.serverId);
     }),
   
-  // Test connection without persisting
-  testConnection: publicProcedure
+  // Resources a server exposes (files, records, ...) that can be attached to a message
+  listResources: publicProcedure
+    .input(z.object({ serverId: z.string() }))
+    .query(async ({ input }) => {
+      return await serverMcpManager.listResources(input.serverId);
+    }),
+
+  readResource: publicProcedure
+    .input(z.object({ serverId: z.string(), uri: z.string().min(1) }))
+    .mutation(async ({ input }) => {
+      return await serverMcpManager.readResource(input.serverId, input.uri);
+    }),
+
+  // Prompt templates a server exposes, with the arguments each one takes
+  listPrompts: publicProcedure
+    .input(z.object({ serverId: z.string() }))
+    .query(async ({ input }) => {
+      return await serverMcpManager.listPrompts(input.serverId);
+    }),
+
+  getPrompt: publicProcedure
     .input(z.object({
-      command: z.string(),
-      args: z.array(z.string())
+      serverId: z.string(),
+      name: z.string().min(1),
+      arguments: z.record(z.string(), z.string()).default({})
     }))
     .mutation(async ({ input }) => {
+      return await serverMcpManager.getPrompt(input.serverId, input.name, input.arguments);
+    }),
+
+  // Resources and prompts of every connected server, for the chat input picker
+  listContextItems: publicProcedure.query(async () => {
+    const servers = serverMcpManager.getConnectedServers();
+    return await Promise.all(servers.map(async (server) => ({
+      serverId: server.id,
+      serverName: server.name,
+      resources: await serverMcpManager.listResources(server.id),
+      prompts: await serverMcpManager.listPrompts(server.id)
+    })));
+  }),
+
+  // Every tool the model could be offered, grouped by where it comes from
+  listAvailableTools: publicProcedure.query(async () => {
+    const entries = await toolRegistry.listEntries();
+    const groups = new Map<string, { source: string; label: string; tools: Array<{ name: string; label: string; description: string }> }>();
+    for (const entry of entries) {
+      const source = getToolSourceKey(entry);
+      const group = groups.get(source) ?? {
+        source,
+        label: entry.source.kind === "mcp" ? entry.source.serverName : entry.source.kind === "http" ? "HTTP Tools" : "Built-in",
+        tools: []
+      };
+      group.tools.push({
+        name: entry.schema.name,
+        label: entry.source.kind === "mcp" ? entry.source.toolName : entry.schema.name,
+        description: entry.schema.description
+      });
+      groups.set(source, group);
+    }
+    return Array.from(groups.values());
+  }),
+
+  // Tools a chat offers the model; null offers every available tool
+  chatToolSelection: publicProcedure
+    .input(z.object({ chatId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const chat = await ctx.db.chat.findUnique({ where: { id: input.chatId }, select: { toolSelection: true } });
+      return { selection: parseToolSelection(chat?.toolSelection) };
+    }),
+
+  setChatToolSelection: publicProcedure
+    .input(z.object({
+      chatId: z.string().uuid(),
+      selection: z.object({ sources: z.array(z.string()), tools: z.array(z.string()) }).nullable()
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const toolSelection = input.selection ?? Prisma.DbNull;
+      // Use upsert to handle cases where chat doesn't exist yet
+      const chat = await ctx.db.chat.upsert({
+        where: { id: input.chatId },
+        update: { toolSelection },
+        create: { id: input.chatId, title: "New Chat", toolSelection },
+        select: { toolSelection: true }
+      });
+      return { selection: parseToolSelection(chat.toolSelection) };
+    }),
+
+  // Per-tool overrides of the server's approval policy
+  getToolPolicies: publicProcedure
+    .input(z.object({ serverId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const policies = await ctx.db.mcpToolPolicy.findMany({
+        where: { serverId: input.serverId },
+        select: { toolName: true, policy: true }
+      });
+      return Object.fromEntries(policies.map(p => [p.toolName, p.policy]));
+    }),
+
+  // Set a tool's policy; null falls back to the server's default
+  setToolPolicy: publicProcedure
+    .input(z.object({
+      serverId: z.string(),
+      toolName: z.string().min(1),
+      policy: z.enum(toolPolicies).nullable()
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const where = { serverId_toolName: { serverId: input.serverId, toolName: input.toolName } };
+      if (input.policy === null) {
+        await ctx.db.mcpToolPolicy.deleteMany({ where: { serverId: input.serverId, toolName: input.toolName } });
+        return { success: true };
+      }
+      await ctx.db.mcpToolPolicy.upsert({
+        where,
+        update: { policy: input.policy },
+        create: { serverId: input.serverId, toolName: input.toolName, policy: input.policy }
+      });
+      return { success: true };
+    }),
+
+  // Answer a tool call the chat route paused on; resolved is false when it is no longer waiting
+  respondToToolCall: publicProcedure
+    .input(z.discriminatedUnion("approved", [
+      z.object({ callId: z.string(), approved: z.literal(true), arguments: z.record(z.string(), z.any()).optional() }),
+      z.object({ callId: z.string(), approved: z.literal(false), reason: z.string().optional() })
+    ]))
+    .mutation(async ({ input }) => {
+      const { callId, ...decision } = input;
+      return { resolved: toolApprovals.respond(callId, decision) };
+    }),
+  
+  // Test connection without persisting
+  testConnection: publicProcedure
+    .input(z.object({ serverId: z.string().optional() }).and(connectionSchema))
+    .mutation(async ({ ctx, input }) => {
       try {
-        if (!input.command || input.args.length === 0) {
-          throw new Error('Invalid command or arguments');
-        }
-        
-        // Basic validation - ensure command is not empty and seems valid
-        if (input.command.trim().length === 0) {
-          throw new Error('Command cannot be empty');
-        }
-        
+        // Testing a saved server: fill in the secrets the UI never received
+        const stored = input.serverId
+          ? await ctx.db.mcpServer.findUnique({ where: { id: input.serverId }, select: { env: true, headers: true } })
+          : null;
+
         // Create a temporary test configuration
-        const testConfig = {
-          id: 'test-' + Date.now(),
+        const testConfig: McpServerConfig = {
+          id: `test-${Date.now()}`,
           name: 'Test Connection',
-          command: input.command,
-          args: input.args,
-          enabled: true
+          enabled: true,
+          ...(input.transport === "stdio"
+            ? {
+                transport: input.transport,
+                command: input.command,
+                args: input.args,
+                env: Object.fromEntries(resolveEnv(input.env ?? [], parseMcpEnv(stored?.env)).map(v => [v.key, v.value])),
+                cwd: input.cwd?.trim() || undefined
+              }
+            : { transport: input.transport, command: "", args: [], url: input.url, headers: resolveHeaders(input.headers ?? {}, parseMcpHeaders(stored?.headers)) })
         };
         
         // Try to connect temporarily
-        await serverMcpManager.connectServer(testConfig);
-        
-        // If successful, disconnect immediately
-        await serverMcpManager.disconnectServer(testConfig.id);
+        await serverMcpManager.testServer(testConfig);
         
         return { success: true, message: 'Connection successful' };
       } catch (error) {
@@ -1,7 +1,10 @@
 import { z } from "zod";
+import type { PrismaClient } from "@prisma/client";
 import { createTRPCRouter, publicProcedure } from "~/server/api/trpc";
+import { messageSearchIndex } from "~/lib/search/message-index";
+import { statsFromMessageRow } from "~/lib/generation-stats";
 
-const messagePartSchema = z.discriminatedUnion("type", [
+export const messagePartSchema = z.discriminatedUnion("type", [
   z.object({
     type: z.literal("reasoning"),
     text: z.string(),
@@ -24,16 +27,81 @@ const messagePartSchema = z.discriminatedUnion("type", [
     content: z.string().optional(),
     fileType: z.string().optional(),
   }),
+  z.object({
+    type: z.literal("tool_call"),
+    toolName: z.string(),
+    arguments: z.record(z.any()),
+    callId: z.string(),
+    state: z.enum(["input-streaming", "approval-requested", "input-available", "output-available", "output-error"]),
+    phase: z.enum(["reasoning", "response"]),
+    startedAt: z.number().optional(),
+  }),
+  z.object({
+    type: z.literal("tool_result"),
+    toolName: z.string(),
+    callId: z.string(),
+    result: z.any().optional(),
+    error: z.string().optional(),
+    phase: z.enum(["reasoning", "response"]),
+    completedAt: z.number().optional(),
+    durationMs: z.number().optional(),
+  }),
+  z.object({
+    type: z.literal("source"),
+    index: z.number().int(),
+    documentId: z.string(),
+    fileName: z.string(),
+    collectionName: z.string(),
+    snippet: z.string(),
+    score: z.number(),
+  }),
 ]);
 
+const messageSelect = { id: true, chatId: true, role: true, parts: true, createdAt: true, index: true, pinned: true, parentId: true } as const;
+// Generation statistics columns, folded into a single `stats` object for clients
+const statsSelect = {
+  model: true,
+  promptTokens: true,
+  completionTokens: true,
+  evalDurationMs: true,
+  promptEvalDurationMs: true,
+  loadDurationMs: true,
+  totalDurationMs: true,
+  firstTokenMs: true,
+} as const;
+
+/** The message plus every message on a branch below it */
+async function collectSubtree(db: PrismaClient, chatId: string, messageId: string): Promise<string[]> {
+  const all = await db.message.findMany({ where: { chatId }, select: { id: true, parentId: true } });
+  const children = new Map<string, string[]>();
+  for (const m of all) {
+    if (!m.parentId) continue;
+    children.set(m.parentId, [...(children.get(m.parentId) ?? []), m.id]);
+  }
+  const seen = new Set<string>();
+  const queue = [messageId];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    queue.push(...(children.get(id) ?? []));
+  }
+  return [...seen];
+}
+
 export const messagesRouter = createTRPCRouter({
   list: publicProcedure.input(z.object({ chatId: z.string().uuid() })).query(async ({ ctx, input }) => {
     const messages = await ctx.db.message.findMany({
       where: { chatId: input.chatId },
       orderBy: [{ createdAt: "asc" }, { index: "asc" }],
-      select: { id: true, chatId: true, role: true, parts: true, createdAt: true, index: true },
+      select: { ...messageSelect, ...statsSelect },
     });
-    return { messages };
+    return {
+      messages: messages.map(({ model, promptTokens, completionTokens, evalDurationMs, promptEvalDurationMs, loadDurationMs, totalDurationMs, firstTokenMs, ...m }) => ({
+        ...m,
+        stats: statsFromMessageRow({ model, promptTokens, completionTokens, evalDurationMs, promptEvalDurationMs, loadDurationMs, totalDurationMs, firstTokenMs }),
+      })),
+    };
   }),
 
   create: publicProcedure.input(z.object({
@@ -42,6 +110,7 @@ export const messagesRouter = createTRPCRouter({
     role: z.enum(["USER", "ASSISTANT", "SYSTEM", "TOOL"]),
     parts: z.array(messagePartSchema),
     index: z.number().int().optional(),
+    parentId: z.string().uuid().nullable().optional(),
   })).mutation(async ({ ctx, input }) => {
     const id = input.id ?? crypto.randomUUID();
     // Ensure the chat exists to avoid FK violations in race conditions
@@ -57,52 +126,72 @@ export const messagesRouter = createTRPCRouter({
         role: input.role,
         parts: input.parts as unknown as object,
         index: input.index,
+        parentId: input.parentId ?? null,
       },
-      select: { id: true, chatId: true, role: true, parts: true, createdAt: true, index: true },
+      select: messageSelect,
     });
-    // update chat activity timestamp
-    await ctx.db.chat.update({ where: { id: input.chatId }, data: { lastMessageAt: new Date() } });
+    // update chat activity timestamp; a new message becomes the branch being viewed
+    await ctx.db.chat.update({ where: { id: input.chatId }, data: { lastMessageAt: new Date(), activeLeafId: null } });
+    await messageSearchIndex.indexMessage(message);
     return { message };
   }),
 
+  // Deletes the message and every branch below it; sibling branches are left alone
   deleteAfterMessage: publicProcedure.input(z.object({
     chatId: z.string().uuid(),
     messageId: z.string().uuid(),
   })).mutation(async ({ ctx, input }) => {
-    // Get the message to find its timestamp
     const targetMessage = await ctx.db.message.findUnique({
       where: { id: input.messageId },
-      select: { createdAt: true, index: true },
+      select: { id: true },
     });
     
     if (!targetMessage) return { deletedCount: 0 };
 
-    // Delete the target message itself AND all messages that come after it
-    const result = await ctx.db.message.deleteMany({
-      where: {
-        chatId: input.chatId,
-        OR: [
-          { id: input.messageId }, // Delete the target message itself
-          { createdAt: { gt: targetMessage.createdAt } },
-          { 
-            createdAt: targetMessage.createdAt,
-            index: { gt: targetMessage.index ?? 0 }
-          }
-        ]
-      },
-    });
+    const doomed = await collectSubtree(ctx.db, input.chatId, input.messageId);
+    const result = await ctx.db.message.deleteMany({ where: { chatId: input.chatId, id: { in: doomed } } });
+    await messageSearchIndex.removeMessages(doomed);
 
     return { deletedCount: result.count };
   }),
 
+  setPinned: publicProcedure.input(z.object({
+    messageId: z.string().uuid(),
+    pinned: z.boolean(),
+  })).mutation(async ({ ctx, input }) => {
+    const message = await ctx.db.message.update({
+      where: { id: input.messageId },
+      data: { pinned: input.pinned },
+      select: { id: true, pinned: true },
+    });
+    return { message };
+  }),
+
   deleteMessage: publicProcedure.input(z.object({
     messageId: z.string().uuid(),
   })).mutation(async ({ ctx, input }) => {
-    await ctx.db.message.delete({
+    const message = await ctx.db.message.delete({
       where: { id: input.messageId },
+      select: { parentId: true },
+    });
+    // Keep the branch below it attached to the tree
+    await ctx.db.message.updateMany({
+      where: { parentId: input.messageId },
+      data: { parentId: message.parentId },
     });
+    await messageSearchIndex.removeMessages([input.messageId]);
     return { success: true };
   }),
+
+  // Full-text search over text and reasoning across all chats
+  search: publicProcedure.input(z.object({
+    query: z.string().min(1).max(200),
+    chatId: z.string().uuid().optional(),
+    limit: z.number().int().min(1).max(50).optional(),
+  })).query(async ({ input }) => {
+    const results = await messageSearchIndex.search(input.query, { chatId: input.chatId, limit: input.limit });
+    return { results };
+  }),
 });
 
 
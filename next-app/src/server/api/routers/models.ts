@@ -1,46 +1,159 @@
 import { z } from 'zod'
 import { createTRPCRouter, publicProcedure } from '~/server/api/trpc'
 import { modelsService } from '~/lib/models/service'
+import { getOllamaClient } from '~/lib/ollama/client'
+import { DEFAULT_KEEP_ALIVE, toOllamaKeepAlive, validateKeepAlive } from '~/lib/ollama/keep-alive'
+import { parseModelfile, validateModelName } from '~/lib/models/modelfile'
 
-const modelsProcedure = publicProcedure.use(async ({ next }) => {
-  const up = await modelsService.ping()
+const modelsProcedure = publicProcedure.use(async ({ next, getRawInput }) => {
+  const raw = (await getRawInput()) as { endpointId?: string | null } | undefined
+  const endpointId = raw?.endpointId ?? null
+  const up = await modelsService.ping(endpointId)
   if (!up) {
-    throw new Error('Ollama is not running on 127.0.0.1:11434')
+    const { host } = await getOllamaClient({ endpointId })
+    throw new Error(`Ollama is not running on ${host.replace(/^https?:\/\//i, '')}`)
   }
   return next()
 })
 
+const endpointInput = { endpointId: z.string().nullish() }
+
+// Copying onto an existing name would silently replace that model
+async function checkDestination(destination: string, endpointId?: string | null): Promise<string> {
+  const name = destination.trim()
+  const nameError = validateModelName(name)
+  if (nameError) throw new Error(nameError)
+  const models = await modelsService.listAvailableModels(endpointId)
+  const taken = models.some(m => m.name === name || m.name === `${name}:latest`)
+  if (taken) throw new Error(`${name} already exists`)
+  return name
+}
+
 export const modelsRouter = createTRPCRouter({
-  list: modelsProcedure.input(z.void()).query(async () => {
-    const models = await modelsService.listAvailableModels()
+  list: modelsProcedure.input(z.object(endpointInput).optional()).query(async ({ input }) => {
+    const models = await modelsService.listAvailableModels(input?.endpointId)
+    return { models }
+  }),
+
+  running: modelsProcedure.input(z.object(endpointInput).optional()).query(async ({ input }) => {
+    const models = await modelsService.listRunning(input?.endpointId)
     return { models }
   }),
 
+  unload: modelsProcedure
+    .input(z.object({ model: z.string().min(1), ...endpointInput }))
+    .mutation(async ({ input }) => {
+      return await modelsService.setKeepAlive(input.model, 0, input.endpointId)
+    }),
+
+  // Loads the model if needed and restarts its expiry with the given duration
+  keepLoaded: modelsProcedure
+    .input(z.object({ model: z.string().min(1), keepAlive: z.string().min(1), ...endpointInput }))
+    .mutation(async ({ input }) => {
+      const error = validateKeepAlive(input.keepAlive)
+      if (error) throw new Error(error)
+      return await modelsService.setKeepAlive(input.model, toOllamaKeepAlive(input.keepAlive), input.endpointId)
+    }),
+
+  // Stored locally, so these work while Ollama is down
+  defaultKeepAlive: publicProcedure.query(async ({ ctx }) => {
+    const settings = await ctx.db.appSettings.findUnique({ where: { id: 'default' } })
+    return { keepAlive: settings?.keepAlive ?? DEFAULT_KEEP_ALIVE }
+  }),
+
+  setDefaultKeepAlive: publicProcedure
+    .input(z.object({ keepAlive: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const keepAlive = input.keepAlive.trim()
+      const error = validateKeepAlive(keepAlive)
+      if (error) throw new Error(error)
+      await ctx.db.appSettings.upsert({
+        where: { id: 'default' },
+        create: { id: 'default', keepAlive },
+        update: { keepAlive },
+      })
+      return { keepAlive }
+    }),
+
   show: modelsProcedure
-    .input(z.object({ model: z.string().min(1) }))
+    .input(z.object({ model: z.string().min(1), ...endpointInput }))
     .query(async ({ input }) => {
-      const details = await modelsService.showModel(input.model)
+      const details = await modelsService.showModel(input.model, input.endpointId)
       return { model: input.model, details }
     }),
 
   capabilities: modelsProcedure
-    .input(z.object({ model: z.string().min(1) }))
+    .input(z.object({ model: z.string().min(1), ...endpointInput }))
     .query(async ({ input }) => {
-      const caps = await modelsService.getCapabilities(input.model)
+      const caps = await modelsService.getCapabilities(input.model, input.endpointId)
       return caps
     }),
 
+  // Probes again even if this digest was already probed
+  redetectCapabilities: modelsProcedure
+    .input(z.object({ model: z.string().min(1), ...endpointInput }))
+    .mutation(async ({ input }) => {
+      return await modelsService.getCapabilities(input.model, input.endpointId, { refresh: true })
+    }),
+
+  setCapabilityOverrides: modelsProcedure
+    .input(z.object({
+      model: z.string().min(1),
+      overrides: z.object({
+        completion: z.boolean().nullable(),
+        vision: z.boolean().nullable(),
+        tools: z.boolean().nullable(),
+        embedding: z.boolean().nullable(),
+        thinking: z.boolean().nullable(),
+      }).partial(),
+      ...endpointInput,
+    }))
+    .mutation(async ({ input }) => {
+      return await modelsService.setCapabilityOverrides(input.model, input.overrides, input.endpointId)
+    }),
+
   pull: modelsProcedure
-    .input(z.object({ model: z.string().min(1), insecure: z.boolean().optional() }))
+    .input(z.object({ model: z.string().min(1), insecure: z.boolean().optional(), ...endpointInput }))
     .mutation(async ({ input }) => {
-      const res = await modelsService.pullModel(input.model, { insecure: input.insecure })
+      const res = await modelsService.pullModel(input.model, { insecure: input.insecure, endpointId: input.endpointId })
       return res
     }),
 
+  // Streams progress over the batch stream link; the last event is { kind: 'done' }
+  create: modelsProcedure
+    .input(z.object({ model: z.string().min(1), modelfile: z.string().min(1), ...endpointInput }))
+    .mutation(async function* ({ input }) {
+      const nameError = validateModelName(input.model)
+      if (nameError) throw new Error(nameError)
+      const { modelfile, issues } = parseModelfile(input.modelfile)
+      if (issues.length > 0) {
+        throw new Error(issues.map(i => `Line ${i.line}: ${i.message}`).join('\n'))
+      }
+      for await (const progress of modelsService.createModel(input.model.trim(), modelfile, input.endpointId)) {
+        yield { kind: 'progress' as const, ...progress }
+      }
+      yield { kind: 'done' as const }
+    }),
+
+  // Keeps a tagged snapshot, e.g. llama3-pirate → llama3-pirate:v1
+  copy: modelsProcedure
+    .input(z.object({ source: z.string().min(1), destination: z.string().min(1), ...endpointInput }))
+    .mutation(async ({ input }) => {
+      const destination = await checkDestination(input.destination, input.endpointId)
+      return await modelsService.copyModel(input.source, destination, input.endpointId)
+    }),
+
+  rename: modelsProcedure
+    .input(z.object({ source: z.string().min(1), destination: z.string().min(1), ...endpointInput }))
+    .mutation(async ({ input }) => {
+      const destination = await checkDestination(input.destination, input.endpointId)
+      return await modelsService.renameModel(input.source, destination, input.endpointId)
+    }),
+
   remove: modelsProcedure
-    .input(z.object({ model: z.string().min(1) }))
+    .input(z.object({ model: z.string().min(1), ...endpointInput }))
     .mutation(async ({ input }) => {
-      const res = await modelsService.deleteModel(input.model)
+      const res = await modelsService.deleteModel(input.model, input.endpointId)
       return res
     }),
 })
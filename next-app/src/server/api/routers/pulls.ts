@@ -0,0 +1,49 @@
+import { z } from "zod";
+import { createTRPCRouter, publicProcedure } from "~/server/api/trpc";
+import { pullManager } from "~/lib/models/pull-manager";
+
+export const pullsRouter = createTRPCRouter({
+  // Polled by the Models tab and the global progress toasts
+  list: publicProcedure.query(async () => {
+    return pullManager.list();
+  }),
+
+  // Models that are already queued or pulling are reported as skipped rather than failing the rest
+  start: publicProcedure
+    .input(z.object({
+      models: z.array(z.string().min(1)).min(1),
+      insecure: z.boolean().optional(),
+      endpointId: z.string().nullish(),
+    }))
+    .mutation(async ({ input }) => {
+      const queued: string[] = [];
+      const skipped: { model: string; reason: string }[] = [];
+      for (const raw of input.models) {
+        const model = raw.trim();
+        try {
+          await pullManager.enqueue(model, { endpointId: input.endpointId, insecure: input.insecure });
+          queued.push(model);
+        } catch (e) {
+          skipped.push({ model, reason: String((e as Error).message || e) });
+        }
+      }
+      return { queued, skipped };
+    }),
+
+  cancel: publicProcedure
+    .input(z.object({ id: z.string().min(1) }))
+    .mutation(async ({ input }) => {
+      await pullManager.cancel(input.id);
+      return { ok: true };
+    }),
+
+  retry: publicProcedure
+    .input(z.object({ id: z.string().min(1) }))
+    .mutation(async ({ input }) => {
+      return pullManager.retry(input.id);
+    }),
+
+  clearHistory: publicProcedure.mutation(async () => {
+    return pullManager.clearHistory();
+  }),
+});
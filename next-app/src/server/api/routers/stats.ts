@@ -0,0 +1,79 @@
+import { z } from "zod";
+import { createTRPCRouter, publicProcedure } from "~/server/api/trpc";
+import { getTokensPerSecond } from "~/lib/generation-stats";
+
+// Only replies that carry Ollama's final-chunk numbers count towards the aggregates
+const withStats = { role: "ASSISTANT", model: { not: null }, completionTokens: { not: null } } as const;
+
+const sums = {
+  promptTokens: true,
+  completionTokens: true,
+  evalDurationMs: true,
+  totalDurationMs: true,
+  loadDurationMs: true,
+} as const;
+
+type Sums = { [K in keyof typeof sums]: number | null };
+
+function summarize(count: number, sum: Sums, avgFirstTokenMs: number | null) {
+  const completionTokens = sum.completionTokens ?? 0;
+  return {
+    replies: count,
+    promptTokens: sum.promptTokens ?? 0,
+    completionTokens,
+    totalDurationMs: sum.totalDurationMs ?? 0,
+    loadDurationMs: sum.loadDurationMs ?? 0,
+    tokensPerSecond: getTokensPerSecond(completionTokens, sum.evalDurationMs ?? 0),
+    avgFirstTokenMs: avgFirstTokenMs,
+  };
+}
+
+export const statsRouter = createTRPCRouter({
+  // Totals across every chat, broken down by model and by chat
+  overview: publicProcedure
+    .input(z.object({ chatLimit: z.number().int().min(1).max(200).default(50) }).optional())
+    .query(async ({ ctx, input }) => {
+      const [total, byModel, byChat] = await Promise.all([
+        ctx.db.message.aggregate({
+          where: withStats,
+          _count: { _all: true },
+          _sum: sums,
+          _avg: { firstTokenMs: true },
+        }),
+        ctx.db.message.groupBy({
+          by: ["model"],
+          where: withStats,
+          _count: { _all: true },
+          _sum: sums,
+          _avg: { firstTokenMs: true },
+        }),
+        ctx.db.message.groupBy({
+          by: ["chatId"],
+          where: withStats,
+          _count: { _all: true },
+          _sum: sums,
+          _avg: { firstTokenMs: true },
+          orderBy: { _sum: { completionTokens: "desc" } },
+          take: input?.chatLimit ?? 50,
+        }),
+      ]);
+
+      const chats = await ctx.db.chat.findMany({
+        where: { id: { in: byChat.map(c => c.chatId) } },
+        select: { id: true, title: true },
+      });
+      const titles = new Map(chats.map(c => [c.id, c.title]));
+
+      return {
+        totals: summarize(total._count._all, total._sum, total._avg.firstTokenMs),
+        models: byModel
+          .map(m => ({ model: m.model ?? "unknown", ...summarize(m._count._all, m._sum, m._avg.firstTokenMs) }))
+          .sort((a, b) => b.completionTokens - a.completionTokens),
+        chats: byChat.map(c => ({
+          chatId: c.chatId,
+          title: titles.get(c.chatId) ?? "Untitled chat",
+          ...summarize(c._count._all, c._sum, c._avg.firstTokenMs),
+        })),
+      };
+    }),
+});
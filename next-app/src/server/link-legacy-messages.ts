@@ -0,0 +1,50 @@
+import { db } from "~/server/db";
+
+type LinkableMessage = { id: string; parentId: string | null; role: string };
+
+/**
+ * The leading run of messages written before branching, which have no parent pointers.
+ * It ends at the first linked message, or at a second USER message in a row: consecutive
+ * user roots are edits of the first message, i.e. real sibling branches.
+ */
+function legacyPrefix(messages: LinkableMessage[]): LinkableMessage[] {
+  const prefix: LinkableMessage[] = [];
+  for (const message of messages) {
+    if (message.parentId !== null) break;
+    const previous = prefix[prefix.length - 1];
+    if (previous && previous.role === "USER" && message.role === "USER") break;
+    prefix.push(message);
+  }
+  return prefix;
+}
+
+/**
+ * One-time migration for chats written before branching: link each legacy message to the
+ * one before it so the history reads as a single branch. Chats that already received
+ * parented messages get their legacy prefix linked too, so the old turns stay on the path.
+ * Idempotent; linked chats have at most one root and are skipped.
+ */
+export async function linkLegacyMessages(): Promise<number> {
+  const candidates = await db.message.groupBy({
+    by: ["chatId"],
+    where: { parentId: null },
+    _count: { _all: true },
+    having: { chatId: { _count: { gt: 1 } } },
+  });
+
+  let linkedChats = 0;
+  for (const { chatId } of candidates) {
+    const messages = await db.message.findMany({
+      where: { chatId },
+      orderBy: [{ createdAt: "asc" }, { index: "asc" }],
+      select: { id: true, parentId: true, role: true },
+    });
+    const prefix = legacyPrefix(messages);
+    if (prefix.length < 2) continue;
+    await db.$transaction(
+      prefix.slice(1).map((m, i) => db.message.update({ where: { id: m.id }, data: { parentId: prefix[i]!.id } }))
+    );
+    linkedChats++;
+  }
+  return linkedChats;
+}